@@ -1,13 +1,17 @@
+import { QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider } from '@/contexts/AuthContext';
 import { AppRouter } from '@/components/layout/AppRouter';
 import { Toaster } from '@/components/ui/sonner';
+import { queryClient } from '@/lib/queryClient';
 
 function App() {
   return (
-    <AuthProvider>
-      <AppRouter />
-      <Toaster />
-    </AuthProvider>
+    <QueryClientProvider client={queryClient}>
+      <AuthProvider>
+        <AppRouter />
+        <Toaster />
+      </AuthProvider>
+    </QueryClientProvider>
   );
 }
 
@@ -22,6 +22,7 @@ import {
   HelpCircle,
   Ticket,
   Database,
+  GanttChart,
 } from 'lucide-react';
 
 interface SideNavigationPanelProps {
@@ -51,6 +52,12 @@ const navigationItems: NavigationItem[] = [
     icon: Plane,
     roles: [UserRole.ADMINISTRATOR, UserRole.OPERATOR],
   },
+  {
+    title: 'Fleet Schedule',
+    href: '/manage/fleet',
+    icon: GanttChart,
+    roles: [UserRole.ADMINISTRATOR, UserRole.OPERATOR],
+  },
   {
     title: 'Booking Management',
     href: '/manage/bookings',
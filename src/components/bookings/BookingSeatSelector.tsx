@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { useSelectSeat } from '@/hooks/queries/useBookingQueries';
+import { Button } from '@/components/ui/button';
+import { SeatMap } from './SeatMap';
+import { BookingStatus } from '@/types';
+import type { AppError, Booking } from '@/types';
+
+interface BookingSeatSelectorProps {
+  booking: Booking;
+  // Receives the booking as saved so a details view can show the new seats
+  onSeatChanged?: (booking: Booking) => void;
+}
+
+// Seat changes for an existing booking, one passenger at a time
+export const BookingSeatSelector: React.FC<BookingSeatSelectorProps> = ({ booking, onSeatChanged }) => {
+  const selectSeat = useSelectSeat();
+  const [passengerId, setPassengerId] = useState(booking.passengers[0]?.id);
+
+  const activePassenger = booking.passengers.find((passenger) => passenger.id === passengerId);
+  const selectedSeats = booking.passengers.length
+    ? booking.passengers.map((passenger) => passenger.seatNumber)
+    : [booking.seatNumber];
+  const canChange =
+    booking.status === BookingStatus.CONFIRMED &&
+    !booking.checkedIn &&
+    new Date(booking.flight.departureTime) > new Date();
+
+  const handleSeatSelect = async (seatNumber: string) => {
+    try {
+      const updated = await selectSeat.mutateAsync({ bookingId: booking.id, seatNumber, passengerId });
+      const name = activePassenger ? `${activePassenger.firstName} ${activePassenger.lastName}` : 'Passenger';
+      toast.success(`${name} moved to seat ${seatNumber}`);
+      onSeatChanged?.(updated);
+    } catch (error) {
+      toast.error((error as AppError).message || 'Failed to change seat');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {booking.passengers.length > 1 && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">Choose who to seat, then pick a free seat.</p>
+          <div className="flex flex-wrap gap-2">
+            {booking.passengers.map((passenger) => (
+              <Button
+                key={passenger.id}
+                type="button"
+                size="sm"
+                variant={passenger.id === passengerId ? 'default' : 'outline'}
+                onClick={() => setPassengerId(passenger.id)}
+              >
+                {passenger.firstName} {passenger.lastName} · {passenger.seatNumber}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {!canChange && (
+        <p className="text-sm text-muted-foreground">
+          Seats can only be changed on confirmed bookings before check-in.
+        </p>
+      )}
+
+      <SeatMap
+        flightId={booking.flight.id.toString()}
+        seatClass={booking.seatClass}
+        selectedSeats={selectedSeats}
+        onSeatSelect={handleSeatSelect}
+        disabled={!canChange || selectSeat.isPending}
+      />
+    </div>
+  );
+};
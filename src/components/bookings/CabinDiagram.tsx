@@ -0,0 +1,144 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { getSectionRows, getSeatPosition } from '@/lib/cabinLayout';
+import type { SeatPosition } from '@/lib/cabinLayout';
+import { SeatClass } from '@/types';
+import type { CabinLayout, CabinSection } from '@/types';
+
+export type SeatState = 'available' | 'selected' | 'occupied' | 'blocked' | 'other-cabin';
+
+interface CabinDiagramProps {
+  layout: CabinLayout;
+  getSeatState: (section: CabinSection, seat: string) => SeatState;
+  // Without a handler the diagram is read-only
+  onSeatClick?: (seat: string, section: CabinSection) => void;
+  isSeatClickable?: (state: SeatState) => boolean;
+  // Makes row numbers clickable, e.g. to mark exit rows while editing a layout
+  onRowClick?: (row: number, section: CabinSection) => void;
+  // Seat states to explain above the plan, with their labels
+  legend: Partial<Record<SeatState, string>>;
+  // Sections of any other class are dimmed
+  activeClass?: SeatClass;
+}
+
+const cabinLabels: Record<SeatClass, string> = {
+  [SeatClass.FIRST]: 'First Class',
+  [SeatClass.BUSINESS]: 'Business Class',
+  [SeatClass.ECONOMY]: 'Economy Class',
+};
+
+const positionLabels: Record<SeatPosition, string> = {
+  window: 'Window',
+  middle: 'Middle',
+  aisle: 'Aisle',
+};
+
+const seatStyles: Record<SeatState, string> = {
+  available: 'border-primary/40 bg-background',
+  selected: 'border-primary bg-primary text-primary-foreground',
+  occupied: 'border-transparent bg-muted-foreground/30 text-muted-foreground cursor-not-allowed',
+  blocked: 'border-dashed border-muted-foreground/30 bg-transparent text-transparent cursor-not-allowed',
+  'other-cabin': 'border-transparent bg-muted text-muted-foreground/60 cursor-not-allowed',
+};
+
+/**
+ * Plan of an airplane's cabins drawn from its layout, front to back, with
+ * aisles between seat groups and exit rows marked on both sides.
+ */
+export const CabinDiagram: React.FC<CabinDiagramProps> = ({
+  layout,
+  getSeatState,
+  onSeatClick,
+  isSeatClickable = (state) => state === 'available',
+  onRowClick,
+  legend,
+  activeClass
+}) => (
+  <div className="space-y-4">
+    <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+      {Object.entries(legend).map(([state, label]) => (
+        <div key={state} className="flex items-center gap-1.5">
+          <span className={cn('inline-block h-4 w-4 rounded border', seatStyles[state as SeatState])} />
+          {label}
+        </div>
+      ))}
+      <div className="flex items-center gap-1.5">
+        <span className="font-semibold text-orange-600">EXIT</span>
+        Exit row
+      </div>
+    </div>
+
+    <div className="max-h-[28rem] overflow-auto rounded-lg border bg-muted/20 p-4">
+      <div className="mx-auto w-fit space-y-6">
+        {layout.sections.map((section, index) => {
+          const groups = section.seatLetters.trim().split(/\s+/);
+          return (
+            <div
+              key={index}
+              className={cn('space-y-1', activeClass && section.seatClass !== activeClass && 'opacity-60')}
+            >
+              <p className="text-center text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                {cabinLabels[section.seatClass]}
+              </p>
+
+              {getSectionRows(section).map((row) => {
+                const isExitRow = section.exitRows.includes(row);
+                return (
+                  <div key={row} className="flex items-center gap-1">
+                    <span className="w-10 text-right text-[10px] font-semibold text-orange-600">
+                      {isExitRow ? 'EXIT' : ''}
+                    </span>
+                    {onRowClick ? (
+                      <button
+                        type="button"
+                        onClick={() => onRowClick(row, section)}
+                        title={`Row ${row}`}
+                        className="w-5 text-right text-xs text-muted-foreground hover:text-foreground hover:underline"
+                      >
+                        {row}
+                      </button>
+                    ) : (
+                      <span className="w-5 text-right text-xs text-muted-foreground">{row}</span>
+                    )}
+                    {groups.map((group, groupIndex) => (
+                      <div key={group} className={cn('flex gap-1', groupIndex > 0 && 'ml-5')}>
+                        {group.split('').map((letter) => {
+                          const seat = `${row}${letter}`;
+                          const state = getSeatState(section, seat);
+                          const position = positionLabels[getSeatPosition(section.seatLetters, letter)];
+                          const clickable = !!onSeatClick && isSeatClickable(state);
+                          return (
+                            <button
+                              key={seat}
+                              type="button"
+                              disabled={!clickable}
+                              onClick={() => onSeatClick?.(seat, section)}
+                              title={`${seat} · ${position}${isExitRow ? ' · Exit row' : ''}`}
+                              aria-label={`Seat ${seat}, ${position.toLowerCase()}, ${state.replace('-', ' ')}`}
+                              aria-pressed={state === 'selected'}
+                              className={cn(
+                                'h-8 w-8 rounded-t-md rounded-b-sm border text-[10px] font-medium transition-colors',
+                                seatStyles[state],
+                                clickable && 'cursor-pointer hover:bg-primary/10',
+                                onSeatClick && !clickable && state === 'available' && 'cursor-not-allowed opacity-60'
+                              )}
+                            >
+                              {state === 'blocked' ? '' : letter}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    ))}
+                    <span className="w-10 text-[10px] font-semibold text-orange-600">
+                      {isExitRow ? 'EXIT' : ''}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  </div>
+);
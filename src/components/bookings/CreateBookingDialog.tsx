@@ -1,22 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { bookingService } from '@/services/bookingService';
-import { flightService } from '@/services/flightService';
+import { useFlights } from '@/hooks/queries/useFlightQueries';
+import { useCreateBooking, useValidateBooking } from '@/hooks/queries/useBookingQueries';
+import { useFlightTime } from '@/hooks/useFlightTime';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { SeatMap } from './SeatMap';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import type { Flight, SeatClass, CreateBookingForm } from '@/types';
+import type { SeatClass, CreateBookingForm } from '@/types';
 import { SeatClass as SeatClassEnum, UserRole } from '@/types';
-import { Plane, User, CreditCard, MapPin } from 'lucide-react';
+import { Plane, CreditCard, MapPin } from 'lucide-react';
 
 const createBookingSchema = z.object({
   flightId: z.string().min(1, 'Please select a flight'),
@@ -30,7 +31,8 @@ type CreateBookingFormData = z.infer<typeof createBookingSchema>;
 interface CreateBookingDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onBookingCreated: () => void;
+  // Booking lists refresh on their own; this is for callers that need to react further
+  onBookingCreated?: () => void;
   preSelectedFlightId?: string;
 }
 
@@ -41,12 +43,12 @@ export const CreateBookingDialog: React.FC<CreateBookingDialogProps> = ({
   preSelectedFlightId
 }) => {
   const { user } = useAuth();
-  const [flights, setFlights] = useState<Flight[]>([]);
-  const [selectedFlight, setSelectedFlight] = useState<Flight | null>(null);
-  const [availableSeats, setAvailableSeats] = useState<string[]>([]);
-  const [bookedSeats, setBookedSeats] = useState<string[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [isLoadingFlights, setIsLoadingFlights] = useState(false);
+  const { formatDate, formatDateTime } = useFlightTime();
+  const flightsQuery = useFlights(undefined, { enabled: isOpen });
+  const createBooking = useCreateBooking();
+  const validateBookingMutation = useValidateBooking();
+  const isLoading = createBooking.isPending;
+  const isLoadingFlights = flightsQuery.isLoading;
   const [error, setError] = useState<string | null>(null);
   const [bookingPreview, setBookingPreview] = useState<{
     price: number;
@@ -65,72 +67,24 @@ export const CreateBookingDialog: React.FC<CreateBookingDialogProps> = ({
 
   const watchedFlightId = form.watch('flightId');
   const watchedSeatClass = form.watch('seatClass');
+  const watchedSeatNumber = form.watch('seatNumber');
 
   useEffect(() => {
-    if (isOpen) {
-      loadFlights();
-      if (preSelectedFlightId) {
-        form.setValue('flightId', preSelectedFlightId);
-      }
+    if (isOpen && preSelectedFlightId) {
+      form.setValue('flightId', preSelectedFlightId);
     }
   }, [isOpen, preSelectedFlightId]);
 
-  useEffect(() => {
-    if (watchedFlightId) {
-      const flight = flights.find(f => f.id === watchedFlightId);
-      setSelectedFlight(flight || null);
-      loadAvailableSeats(watchedFlightId, watchedSeatClass);
-    }
-  }, [watchedFlightId, watchedSeatClass, flights]);
-
-  const loadFlights = async () => {
-    try {
-      setIsLoadingFlights(true);
-      const response = await flightService.getAllFlights();
-      if (response.success) {
-        // Only show future flights that are scheduled
-        const futureFlights = (response.data || []).filter(flight => {
-          const departureTime = new Date(flight.departureTime);
-          const now = new Date();
-          return departureTime > now && flight.status === 'SCHEDULED';
-        });
-        setFlights(futureFlights);
-      }
-    } catch (error) {
-      console.error('Failed to load flights:', error);
-    } finally {
-      setIsLoadingFlights(false);
-    }
-  };
-
-  const loadAvailableSeats = async (flightId: string, seatClass: SeatClass) => {
-    try {
-      const response = await bookingService.getBookedSeats(flightId, seatClass);
-      if (response.success) {
-        setBookedSeats(response.data || []);
-        // Generate available seats based on flight capacity
-        const flight = flights.find(f => f.id === flightId);
-        if (flight) {
-          const capacity = seatClass === SeatClassEnum.FIRST ? flight.airplane.firstClassCapacity :
-                          seatClass === SeatClassEnum.BUSINESS ? flight.airplane.businessClassCapacity :
-                          flight.airplane.economyClassCapacity;
-          
-          const seatPrefix = seatClass === SeatClassEnum.FIRST ? 'F' :
-                            seatClass === SeatClassEnum.BUSINESS ? 'B' : 'E';
-          
-          const allSeats = Array.from({ length: capacity }, (_, i) => `${seatPrefix}${i + 1}`);
-          const available = allSeats.filter(seat => !(response.data || []).includes(seat));
-          setAvailableSeats(available);
-        }
-      }
-    } catch (error) {
-      console.error('Failed to load available seats:', error);
-    }
-  };
+  // Only show future flights that are scheduled
+  const flights = (flightsQuery.data?.data ?? []).filter(flight => {
+    const departureTime = new Date(flight.departureTime);
+    const now = new Date();
+    return departureTime > now && flight.status === 'SCHEDULED';
+  });
+  const selectedFlight = flights.find(f => f.id.toString() === watchedFlightId) ?? null;
 
   const handleSubmit = async (data: CreateBookingFormData) => {
     try {
-      setIsLoading(true);
       setError(null);
 
       const bookingData: CreateBookingForm = {
@@ -140,18 +94,12 @@ export const CreateBookingDialog: React.FC<CreateBookingDialogProps> = ({
         seatNumber: data.seatNumber
       };
 
-      const response = await bookingService.createBooking(bookingData);
-      if (response.success) {
-        onBookingCreated();
-        onClose();
-        form.reset();
-      } else {
-        setError(response.message || 'Failed to create booking');
-      }
+      await createBooking.mutateAsync(bookingData);
+      onBookingCreated?.();
+      onClose();
+      form.reset();
     } catch (error: any) {
       setError(error.message || 'Failed to create booking');
-    } finally {
-      setIsLoading(false);
     }
   };
 
@@ -167,16 +115,19 @@ export const CreateBookingDialog: React.FC<CreateBookingDialogProps> = ({
         seatNumber: data.seatNumber
       };
 
-      const response = await bookingService.validateBooking(bookingData);
-      if (response.success) {
-        setBookingPreview(response.data || null);
-      }
+      const validation = await validateBookingMutation.mutateAsync(bookingData);
+      setBookingPreview({
+        price: validation.pricing?.totalPrice ?? getPrice(),
+        warnings: validation.warnings,
+      });
     } catch (error) {
       console.error('Failed to validate booking:', error);
     }
   };
 
   useEffect(() => {
+    // A picked seat belongs to one flight and cabin
+    form.setValue('seatNumber', '');
     if (watchedFlightId && watchedSeatClass) {
       validateBooking();
     }
@@ -200,11 +151,11 @@ export const CreateBookingDialog: React.FC<CreateBookingDialogProps> = ({
     
     switch (watchedSeatClass) {
       case SeatClassEnum.FIRST:
-        return selectedFlight.availableFirstClassSeats;
+        return selectedFlight.firstClassAvailableSeats;
       case SeatClassEnum.BUSINESS:
-        return selectedFlight.availableBusinessClassSeats;
+        return selectedFlight.businessClassAvailableSeats;
       default:
-        return selectedFlight.availableEconomyClassSeats;
+        return selectedFlight.economyClassAvailableSeats;
     }
   };
 
@@ -217,7 +168,7 @@ export const CreateBookingDialog: React.FC<CreateBookingDialogProps> = ({
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Plane className="h-5 w-5" />
@@ -247,12 +198,12 @@ export const CreateBookingDialog: React.FC<CreateBookingDialogProps> = ({
                 </SelectTrigger>
                 <SelectContent>
                   {flights.map((flight) => (
-                    <SelectItem key={flight.id} value={flight.id}>
+                    <SelectItem key={flight.id} value={flight.id.toString()}>
                       <div className="flex items-center justify-between w-full">
                         <div>
                           <div className="font-medium">{flight.flightNumber}</div>
                           <div className="text-sm text-muted-foreground">
-                            {flight.origin.code} → {flight.destination.code} • {new Date(flight.departureTime).toLocaleDateString()}
+                            {flight.originAirport.code} → {flight.destinationAirport.code} • {formatDate(flight.departureTime, flight.originAirport)}
                           </div>
                         </div>
                       </div>
@@ -283,18 +234,18 @@ export const CreateBookingDialog: React.FC<CreateBookingDialogProps> = ({
                   </div>
                   <div>
                     <p className="text-sm font-medium">Aircraft</p>
-                    <p className="text-sm text-muted-foreground">{selectedFlight.airplane.model}</p>
+                    <p className="text-sm text-muted-foreground">{selectedFlight.airplaneModel}</p>
                   </div>
                   <div>
                     <p className="text-sm font-medium">Route</p>
                     <p className="text-sm text-muted-foreground">
-                      {selectedFlight.origin.city} ({selectedFlight.origin.code}) → {selectedFlight.destination.city} ({selectedFlight.destination.code})
+                      {selectedFlight.originAirport.city} ({selectedFlight.originAirport.code}) → {selectedFlight.destinationAirport.city} ({selectedFlight.destinationAirport.code})
                     </p>
                   </div>
                   <div>
                     <p className="text-sm font-medium">Departure</p>
                     <p className="text-sm text-muted-foreground">
-                      {new Date(selectedFlight.departureTime).toLocaleString()}
+                      {formatDateTime(selectedFlight.departureTime, selectedFlight.originAirport)}
                     </p>
                   </div>
                 </div>
@@ -351,25 +302,24 @@ export const CreateBookingDialog: React.FC<CreateBookingDialogProps> = ({
           </div>
 
           {/* Seat Selection */}
-          {availableSeats.length > 0 && (
+          {selectedFlight && watchedSeatClass && (
             <div className="space-y-2">
-              <Label htmlFor="seatNumber">Seat Number (Optional)</Label>
-              <Select 
-                value={form.watch('seatNumber')} 
-                onValueChange={(value) => form.setValue('seatNumber', value)}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Auto-assign seat" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="">Auto-assign seat</SelectItem>
-                  {availableSeats.map((seat) => (
-                    <SelectItem key={seat} value={seat}>
-                      {seat}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <div className="flex items-center justify-between">
+                <Label>Seat (Optional)</Label>
+                {watchedSeatNumber ? (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => form.setValue('seatNumber', '')}>
+                    Seat {watchedSeatNumber} · Auto-assign instead
+                  </Button>
+                ) : (
+                  <span className="text-xs text-muted-foreground">A seat is assigned automatically if none is picked</span>
+                )}
+              </div>
+              <SeatMap
+                flightId={selectedFlight.id.toString()}
+                seatClass={watchedSeatClass}
+                selectedSeats={watchedSeatNumber ? [watchedSeatNumber] : []}
+                onSeatSelect={(seat) => form.setValue('seatNumber', seat)}
+              />
               <p className="text-xs text-muted-foreground">
                 {getAvailableSeatsCount()} seats available in {watchedSeatClass?.toLowerCase()} class
               </p>
@@ -0,0 +1,154 @@
+import React from 'react';
+import { useFieldArray } from 'react-hook-form';
+import type { UseFormReturn } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { PassengerType } from '@/types';
+import { MAX_PASSENGERS_PER_BOOKING, PASSENGER_TYPE_LABELS, getPassengerType } from '@/lib/passengers';
+import { emptyPassenger } from './passengerDetailsSchema';
+import type { PassengerDetailsFormData } from './passengerDetailsSchema';
+import { Plus, Trash2, User } from 'lucide-react';
+
+interface PassengerDetailsFieldsProps {
+  form: UseFormReturn<PassengerDetailsFormData>;
+  travelDate: string;
+  // Passengers can only be added while seats remain in the chosen cabin
+  maxPassengers: number;
+}
+
+export const PassengerDetailsFields: React.FC<PassengerDetailsFieldsProps> = ({
+  form,
+  travelDate,
+  maxPassengers
+}) => {
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'passengers' });
+  const partyError = form.formState.errors.passengers?.root?.message ?? form.formState.errors.passengers?.message;
+  const canAdd = fields.length < Math.min(maxPassengers, MAX_PASSENGERS_PER_BOOKING);
+
+  return (
+    <div className="space-y-6">
+      {fields.map((field, index) => (
+        <div key={field.id} className="space-y-4 p-4 border rounded-lg">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <User className="h-4 w-4 text-muted-foreground" />
+              <h4 className="font-semibold">Passenger {index + 1}</h4>
+              {index === 0 && <Badge variant="secondary">Lead passenger</Badge>}
+            </div>
+            {fields.length > 1 && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => remove(index)}
+                className="text-red-600 hover:text-red-800"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name={`passengers.${index}.firstName`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>First Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="As shown on the travel document" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`passengers.${index}.lastName`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Last Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="As shown on the travel document" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`passengers.${index}.dateOfBirth`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date of Birth</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="date"
+                      max={travelDate.slice(0, 10)}
+                      {...field}
+                      onChange={(e) => {
+                        field.onChange(e);
+                        // Suggest the passenger type from the age on the day of travel
+                        if (e.target.value) {
+                          form.setValue(`passengers.${index}.type`, getPassengerType(e.target.value, travelDate));
+                        }
+                      }}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`passengers.${index}.type`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Passenger Type</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.values(PassengerType).map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {PASSENGER_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`passengers.${index}.documentNumber`}
+              render={({ field }) => (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>Passport / ID Number</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. N12345678" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+      ))}
+
+      {partyError && <p className="text-sm text-destructive">{partyError}</p>}
+
+      <Button type="button" variant="outline" onClick={() => append(emptyPassenger())} disabled={!canAdd}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Passenger
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { PASSENGER_TYPE_LABELS } from '@/lib/passengers';
+import type { Passenger } from '@/types';
+
+interface PassengerListProps {
+  passengers: Passenger[];
+}
+
+// Travellers on one booking, lead passenger first
+export const PassengerList: React.FC<PassengerListProps> = ({ passengers }) => {
+  if (passengers.length === 0) {
+    return <p className="text-sm text-muted-foreground">No passenger details on this booking.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Date of Birth</TableHead>
+          <TableHead>Document</TableHead>
+          <TableHead>Seat</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {passengers.map((passenger) => (
+          <TableRow key={passenger.id}>
+            <TableCell className="font-medium">
+              {passenger.firstName} {passenger.lastName}
+            </TableCell>
+            <TableCell>{PASSENGER_TYPE_LABELS[passenger.type]}</TableCell>
+            <TableCell>
+              {passenger.dateOfBirth ? new Date(passenger.dateOfBirth).toLocaleDateString() : '—'}
+            </TableCell>
+            <TableCell>{passenger.documentNumber || '—'}</TableCell>
+            <TableCell>
+              <Badge variant="secondary">{passenger.seatNumber}</Badge>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
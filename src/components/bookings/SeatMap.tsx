@@ -0,0 +1,73 @@
+import React from 'react';
+import { useCabinLayout } from '@/hooks/queries/useFlightQueries';
+import { useBookedSeats } from '@/hooks/queries/useBookingQueries';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { CabinDiagram } from './CabinDiagram';
+import type { SeatState } from './CabinDiagram';
+import type { CabinSection, SeatClass } from '@/types';
+
+interface SeatMapProps {
+  flightId: string;
+  seatClass: SeatClass;
+  // Seats held by the party being seated; drawn as selected rather than occupied
+  selectedSeats?: string[];
+  onSeatSelect: (seatNumber: string) => void;
+  disabled?: boolean;
+}
+
+const legend: Partial<Record<SeatState, string>> = {
+  available: 'Available',
+  selected: 'Selected',
+  occupied: 'Occupied',
+  blocked: 'Not for sale',
+};
+
+/**
+ * Seat plan of the airplane operating a flight. Every cabin is drawn so the
+ * plane reads front to back, but only seats in `seatClass` can be picked.
+ */
+export const SeatMap: React.FC<SeatMapProps> = ({
+  flightId,
+  seatClass,
+  selectedSeats = [],
+  onSeatSelect,
+  disabled = false
+}) => {
+  const layoutQuery = useCabinLayout(flightId);
+  const bookedSeatsQuery = useBookedSeats(flightId, seatClass);
+
+  if (layoutQuery.isLoading || bookedSeatsQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <LoadingSpinner />
+        <span className="ml-2 text-sm text-muted-foreground">Loading seat map...</span>
+      </div>
+    );
+  }
+
+  if (layoutQuery.isError || bookedSeatsQuery.isError || !layoutQuery.data) {
+    return <p className="text-sm text-destructive py-4">The seat map could not be loaded.</p>;
+  }
+
+  const selected = new Set(selectedSeats);
+  const occupied = new Set(bookedSeatsQuery.data ?? []);
+
+  const getSeatState = (section: CabinSection, seat: string): SeatState => {
+    if (section.blockedSeats.includes(seat)) return 'blocked';
+    if (section.seatClass !== seatClass) return 'other-cabin';
+    if (selected.has(seat)) return 'selected';
+    if (occupied.has(seat)) return 'occupied';
+    return 'available';
+  };
+
+  return (
+    <CabinDiagram
+      layout={layoutQuery.data}
+      getSeatState={getSeatState}
+      onSeatClick={onSeatSelect}
+      isSeatClickable={(state) => state === 'available' && !disabled}
+      legend={legend}
+      activeClass={seatClass}
+    />
+  );
+};
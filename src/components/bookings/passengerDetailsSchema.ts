@@ -0,0 +1,55 @@
+import * as z from 'zod';
+import { PassengerType } from '@/types';
+import { MAX_PASSENGERS_PER_BOOKING, getPassengerType, validatePassengerMix } from '@/lib/passengers';
+
+const passengerSchema = z.object({
+  firstName: z.string().trim().min(1, 'First name is required'),
+  lastName: z.string().trim().min(1, 'Last name is required'),
+  dateOfBirth: z.string().min(1, 'Date of birth is required'),
+  documentNumber: z.string().trim().min(5, 'Enter a passport or ID number'),
+  type: z.nativeEnum(PassengerType),
+  // Empty until a seat is picked on the seat map; the rest are assigned on booking
+  seatNumber: z.string().optional()
+});
+
+/**
+ * Passenger list schema for a flight departing on `travelDate`. Each passenger
+ * type must match their age on that day, and the party must include an adult.
+ */
+export const createPassengerDetailsSchema = (travelDate: string) =>
+  z
+    .object({
+      passengers: z.array(passengerSchema).min(1).max(MAX_PASSENGERS_PER_BOOKING)
+    })
+    .superRefine(({ passengers }, ctx) => {
+      passengers.forEach((passenger, index) => {
+        if (!passenger.dateOfBirth) return;
+        if (new Date(passenger.dateOfBirth) > new Date(travelDate)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['passengers', index, 'dateOfBirth'],
+            message: 'Date of birth must be before the flight'
+          });
+        } else if (getPassengerType(passenger.dateOfBirth, travelDate) !== passenger.type) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['passengers', index, 'type'],
+            message: `Does not match the passenger's age on the day of travel`
+          });
+        }
+      });
+
+      validatePassengerMix(passengers.map((passenger) => passenger.type)).forEach((message) =>
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['passengers'], message })
+      );
+    });
+
+export type PassengerDetailsFormData = z.infer<ReturnType<typeof createPassengerDetailsSchema>>;
+
+export const emptyPassenger = (type = PassengerType.ADULT): PassengerDetailsFormData['passengers'][number] => ({
+  firstName: '',
+  lastName: '',
+  dateOfBirth: '',
+  documentNumber: '',
+  type
+});
@@ -0,0 +1,26 @@
+import React from 'react';
+import { WifiOff } from 'lucide-react';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+
+export const OfflineBanner: React.FC = () => {
+  const isOnline = useOnlineStatus();
+
+  if (isOnline) {
+    return null;
+  }
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="w-full border-b border-amber-200 bg-amber-50 text-amber-900 print:hidden"
+    >
+      <div className="w-full max-w-none flex items-center gap-2 px-4 sm:px-6 lg:px-8 xl:px-12 py-2 text-sm">
+        <WifiOff className="h-4 w-4 shrink-0" />
+        <span>
+          You are offline. Data may be out of date and new requests will not load until your connection is back.
+        </span>
+      </div>
+    </div>
+  );
+};
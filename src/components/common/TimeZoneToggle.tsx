@@ -0,0 +1,33 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { useFlightTime } from '@/hooks/useFlightTime';
+import { getBrowserTimeZone } from '@/lib/dateTime';
+import { Globe } from 'lucide-react';
+
+// Switches every flight time in the app between airport clocks and the user's own
+export const TimeZoneToggle: React.FC = () => {
+  const { mode, setMode } = useFlightTime();
+
+  return (
+    <div className="flex items-center gap-1 print:hidden">
+      <Globe className="h-4 w-4 text-muted-foreground mr-1" />
+      <Button
+        type="button"
+        size="sm"
+        variant={mode === 'airport' ? 'default' : 'outline'}
+        onClick={() => setMode('airport')}
+      >
+        Airport time
+      </Button>
+      <Button
+        type="button"
+        size="sm"
+        variant={mode === 'local' ? 'default' : 'outline'}
+        onClick={() => setMode('local')}
+        title={getBrowserTimeZone()}
+      >
+        My time zone
+      </Button>
+    </div>
+  );
+};
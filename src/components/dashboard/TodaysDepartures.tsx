@@ -0,0 +1,87 @@
+import React from 'react';
+import { useFlights } from '@/hooks/queries/useFlightQueries';
+import { useFlightTime } from '@/hooks/useFlightTime';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { FlightStatus } from '@/types';
+import { PlaneTakeoff } from 'lucide-react';
+
+// How often the board asks for fresh statuses
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+const statusConfig: Record<FlightStatus, { variant: 'default' | 'secondary' | 'destructive' | 'outline'; color: string }> = {
+  [FlightStatus.SCHEDULED]: { variant: 'outline', color: 'text-blue-600' },
+  [FlightStatus.BOARDING]: { variant: 'default', color: 'text-yellow-600' },
+  [FlightStatus.DEPARTED]: { variant: 'secondary', color: 'text-green-600' },
+  [FlightStatus.IN_FLIGHT]: { variant: 'default', color: 'text-blue-600' },
+  [FlightStatus.ARRIVED]: { variant: 'secondary', color: 'text-green-600' },
+  [FlightStatus.CANCELLED]: { variant: 'destructive', color: 'text-red-600' },
+  [FlightStatus.DELAYED]: { variant: 'destructive', color: 'text-orange-600' },
+};
+
+/**
+ * Departures board for the current (UTC) day, refreshed every minute so
+ * status changes made elsewhere show up without a reload. Times are local
+ * to the departure airport.
+ */
+export const TodaysDepartures: React.FC = () => {
+  const { formatTime } = useFlightTime();
+  const today = new Date().toISOString().split('T')[0];
+  const flightsQuery = useFlights({ size: 100, filters: { date: today } }, { refetchInterval: REFRESH_INTERVAL_MS });
+  const flights = flightsQuery.data?.data ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PlaneTakeoff className="h-5 w-5" />
+          Today's Departures
+        </CardTitle>
+        <CardDescription>
+          {flightsQuery.dataUpdatedAt
+            ? `${flights.length} flights · updated ${new Date(flightsQuery.dataUpdatedAt).toLocaleTimeString([], {
+                hour: '2-digit',
+                minute: '2-digit',
+              })}`
+            : 'Live flight statuses'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {flightsQuery.isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : flightsQuery.isError ? (
+          <p className="text-sm text-red-600">{flightsQuery.error.message || "Failed to load today's flights"}</p>
+        ) : flights.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No departures today.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y">
+            {flights.map((flight) => {
+              const config = statusConfig[flight.status];
+              return (
+                <div key={flight.id} className="flex items-center justify-between gap-4 py-2">
+                  <div className="flex items-center gap-4">
+                    <span className="font-mono text-sm w-12">
+                      {formatTime(flight.departureTime, flight.originAirport)}
+                    </span>
+                    <div>
+                      <p className="text-sm font-medium">{flight.flightNumber}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {flight.originAirport.code} → {flight.destinationAirport.code} · {flight.airplaneRegistration}
+                      </p>
+                    </div>
+                  </div>
+                  <Badge variant={config.variant} className={config.color}>
+                    {flight.status}
+                  </Badge>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { format, getDay, parseISO } from 'date-fns';
+import { useFareCalendar } from '@/hooks/queries/useFlightQueries';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { getDateWindow, getLowestFare, getMonthDays, shiftDay } from '@/lib/fareCalendar';
+import type { FlightSearchCriteria } from '@/types';
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface FareCalendarProps {
+  searchCriteria: FlightSearchCriteria; // The day shown in the results is its departureDate
+  anchorDate: string; // The day originally searched for; the strip is centred on it
+  onSelectDate: (date: string) => void;
+}
+
+interface DayFare {
+  fare: number | null;
+  isLoading: boolean;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Lowest fare per day around the searched date, for the searched cabin and
+ * party size. The strip covers the flexible window; the month grid loads the
+ * rest of the month only when opened.
+ */
+export const FareCalendar: React.FC<FareCalendarProps> = ({ searchCriteria, anchorDate, onSelectDate }) => {
+  const [view, setView] = useState<'strip' | 'month'>('strip');
+  // Any day in the month shown by the grid
+  const [monthDay, setMonthDay] = useState(searchCriteria.departureDate);
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const thisMonth = today.slice(0, 7);
+  const selectedDate = searchCriteria.departureDate;
+
+  const stripDays = getDateWindow(anchorDate);
+  const monthDays = getMonthDays(monthDay);
+  // Days already gone can't be booked, so they are never searched
+  const searchableStripDays = stripDays.filter((day) => day >= today);
+  const searchableMonthDays = monthDays.filter((day) => day >= today);
+  const stripQueries = useFareCalendar(searchCriteria, searchableStripDays);
+  const monthQueries = useFareCalendar(view === 'month' ? searchCriteria : null, searchableMonthDays);
+
+  const fares: Record<string, DayFare> = {};
+  [
+    ...searchableStripDays.map((day, index) => [day, stripQueries[index]] as const),
+    ...(view === 'month' ? searchableMonthDays.map((day, index) => [day, monthQueries[index]] as const) : []),
+  ].forEach(([day, query]) => {
+    fares[day] = {
+      fare: getLowestFare(query?.data, searchCriteria.seatClass, searchCriteria.passengers || 1),
+      isLoading: !!query?.isLoading,
+    };
+  });
+
+  const visibleDays = view === 'strip' ? stripDays : monthDays;
+  const visibleFares = visibleDays.flatMap((day) => (fares[day]?.fare != null ? [fares[day].fare!] : []));
+  const cheapest = visibleFares.length ? Math.min(...visibleFares) : null;
+
+  const renderDay = (day: string, compact: boolean) => {
+    const dayFare = fares[day];
+    const isPast = day < today;
+    const isSelected = day === selectedDate;
+    const isCheapest = cheapest != null && dayFare?.fare === cheapest;
+
+    return (
+      <button
+        key={day}
+        type="button"
+        disabled={isPast || dayFare?.fare == null}
+        onClick={() => onSelectDate(day)}
+        className={`rounded-lg border text-center transition-colors ${compact ? 'p-2' : 'p-3'} ${
+          isSelected ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50'
+        } ${isPast || (dayFare && !dayFare.isLoading && dayFare.fare == null) ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+      >
+        <p className="text-xs text-muted-foreground">
+          {compact ? format(parseISO(day), 'd') : format(parseISO(day), 'EEE, MMM d')}
+        </p>
+        <div className={`font-semibold ${compact ? 'text-xs' : 'text-sm'} ${isCheapest ? 'text-green-600' : ''}`}>
+          {isPast ? (
+            '—'
+          ) : !dayFare || dayFare.isLoading ? (
+            <LoadingSpinner size="sm" className="mx-auto" />
+          ) : dayFare.fare == null ? (
+            'No flights'
+          ) : (
+            `$${dayFare.fare.toLocaleString()}`
+          )}
+        </div>
+      </button>
+    );
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="h-5 w-5" />
+              Fare Calendar
+            </CardTitle>
+            <CardDescription>
+              Lowest {(searchCriteria.seatClass ?? 'economy').toLowerCase()} fare per person for each day. Pick a day
+              to see its flights.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant={view === 'strip' ? 'default' : 'outline'} onClick={() => setView('strip')}>
+              ±3 days
+            </Button>
+            <Button size="sm" variant={view === 'month' ? 'default' : 'outline'} onClick={() => setView('month')}>
+              Month
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {view === 'strip' ? (
+          <div className="grid grid-cols-7 gap-2">{stripDays.map((day) => renderDay(day, false))}</div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={monthDay.slice(0, 7) <= thisMonth}
+                onClick={() => setMonthDay(shiftDay(`${monthDay.slice(0, 7)}-01`, -1))}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <p className="font-medium">{format(parseISO(monthDay), 'MMMM yyyy')}</p>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setMonthDay(shiftDay(monthDays[monthDays.length - 1], 1))}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-7 gap-1">
+              {WEEKDAYS.map((weekday) => (
+                <p key={weekday} className="text-xs text-center text-muted-foreground">
+                  {weekday}
+                </p>
+              ))}
+              {/* Blank cells up to the weekday the month starts on */}
+              {Array.from({ length: getDay(parseISO(monthDays[0])) }, (_, index) => (
+                <div key={`blank-${index}`} />
+              ))}
+              {monthDays.map((day) => renderDay(day, true))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -5,19 +5,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import type { FlightSearchResult, SeatClass } from '@/types';
+import type { FlightSearchResult } from '@/types';
+import { DEFAULT_RESULT_FILTERS } from '@/lib/searchLinks';
+import type { ResultFilters } from '@/lib/searchLinks';
 import { SeatClass as SeatClassEnum } from '@/types';
 import { DollarSign, Clock, Plane, ArrowUpDown, RotateCcw } from 'lucide-react';
 
 interface FlightFiltersProps {
-  filters: {
-    maxPrice: number;
-    seatClass: SeatClass | undefined;
-    departureTimeRange: { start: string; end: string };
-    airlines: string[];
-    maxStops: number;
-    sortBy: 'price' | 'duration' | 'departure';
-  };
+  filters: ResultFilters;
   onFiltersChange: (filters: FlightFiltersProps['filters']) => void;
   searchResults: FlightSearchResult | null;
 }
@@ -35,14 +30,7 @@ export const FlightFilters: React.FC<FlightFiltersProps> = ({
   };
 
   const resetFilters = () => {
-    onFiltersChange({
-      maxPrice: 0,
-      seatClass: undefined,
-      departureTimeRange: { start: '', end: '' },
-      airlines: [],
-      maxStops: 2,
-      sortBy: 'price'
-    });
+    onFiltersChange(DEFAULT_RESULT_FILTERS);
   };
 
   // Get price range from search results
@@ -112,7 +100,8 @@ export const FlightFilters: React.FC<FlightFiltersProps> = ({
                           filters.departureTimeRange.start || 
                           filters.departureTimeRange.end ||
                           filters.airlines.length > 0 ||
-                          filters.maxStops < 2;
+                          filters.maxStops < 2 ||
+                          filters.maxLayoverHours > 0;
 
   return (
     <div className="space-y-6">
@@ -231,6 +220,7 @@ export const FlightFilters: React.FC<FlightFiltersProps> = ({
           <Clock className="h-4 w-4" />
           Departure Time
         </Label>
+        <p className="text-xs text-muted-foreground">Local time at the departure airport</p>
         <div className="grid grid-cols-2 gap-2">
           <div>
             <Label className="text-xs text-muted-foreground">From</Label>
@@ -335,6 +325,28 @@ export const FlightFilters: React.FC<FlightFiltersProps> = ({
         )}
       </div>
 
+      {/* Layover Filter */}
+      <div className="space-y-3">
+        <Label className="text-sm font-medium">Maximum Layover</Label>
+        <Select
+          value={filters.maxLayoverHours.toString()}
+          onValueChange={(value) => updateFilter('maxLayoverHours', parseInt(value))}
+          disabled={filters.maxStops === 0}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="0">Any length</SelectItem>
+            {[2, 4, 8, 12].map((hours) => (
+              <SelectItem key={hours} value={hours.toString()}>
+                Up to {hours} hours
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       {/* Quick Filters */}
       <div className="space-y-3">
         <Label className="text-sm font-medium">Quick Filters</Label>
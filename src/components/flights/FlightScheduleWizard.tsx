@@ -0,0 +1,698 @@
+import React, { useRef, useState } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { toast } from 'sonner';
+import * as z from 'zod';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import {
+  useAirplanes,
+  useAirports,
+  useCreateFlights,
+  useValidateFlightSchedule
+} from '@/hooks/queries/useFlightQueries';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { formatDayOffset, formatDuration, formatInTimeZone, getDayOffset } from '@/lib/dateTime';
+import { MAX_SCHEDULE_DAYS, WEEKDAYS, generateScheduleFlights } from '@/lib/flightSchedule';
+import type { RecurringSchedule, ScheduledFlight } from '@/lib/flightSchedule';
+import type { Airport, AppError } from '@/types';
+import { AlertTriangle, CalendarRange, CheckCircle, Plus, Trash2, X } from 'lucide-react';
+
+const priceField = z.number({ invalid_type_error: 'Enter a price' }).min(0, 'Price must be positive');
+
+const seasonalFareSchema = z
+  .object({
+    startDate: z.string().min(1, 'Start date is required'),
+    endDate: z.string().min(1, 'End date is required'),
+    firstClassPrice: priceField,
+    businessClassPrice: priceField,
+    economyClassPrice: priceField
+  })
+  .refine((season) => !season.startDate || !season.endDate || season.endDate >= season.startDate, {
+    message: 'Season must end on or after its start',
+    path: ['endDate']
+  });
+
+const scheduleSchema = z
+  .object({
+    flightNumber: z.string().min(2, 'Flight number must be at least 2 characters'),
+    airplaneId: z.string().min(1, 'Please select an airplane'),
+    originId: z.string().min(1, 'Please select origin airport'),
+    destinationId: z.string().min(1, 'Please select destination airport'),
+    daysOfWeek: z.array(z.number()).min(1, 'Pick at least one day of the week'),
+    departureTime: z.string().regex(/^\d{2}:\d{2}$/, 'Departure time is required'),
+    blockHours: z.number({ invalid_type_error: 'Enter hours' }).int().min(0),
+    blockMinutes: z.number({ invalid_type_error: 'Enter minutes' }).int().min(0).max(59),
+    startDate: z.string().min(1, 'Start date is required'),
+    endDate: z.string().min(1, 'End date is required'),
+    excludedDates: z.array(z.string()),
+    firstClassPrice: priceField,
+    businessClassPrice: priceField,
+    economyClassPrice: priceField,
+    seasonalFares: z.array(seasonalFareSchema)
+  })
+  .superRefine((data, ctx) => {
+    if (data.originId && data.originId === data.destinationId) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['destinationId'],
+        message: 'Origin and destination must be different airports'
+      });
+    }
+    const blockMinutes = data.blockHours * 60 + data.blockMinutes;
+    if (blockMinutes <= 0 || blockMinutes >= 24 * 60) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['blockHours'], message: 'Block time must be under 24 hours' });
+    }
+    if (data.startDate && data.endDate) {
+      const days = differenceInCalendarDays(parseISO(data.endDate), parseISO(data.startDate));
+      if (days < 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endDate'], message: 'End date must be on or after the start' });
+      } else if (days >= MAX_SCHEDULE_DAYS) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['endDate'],
+          message: `A schedule can cover at most ${MAX_SCHEDULE_DAYS} days`
+        });
+      }
+    }
+  });
+
+type ScheduleFormData = z.infer<typeof scheduleSchema>;
+
+// Result of checking one generated flight against the existing schedule
+type FlightCheck = { valid: true } | { valid: false; conflicts: string[] };
+
+type WizardStep = 'define' | 'preview' | 'done';
+
+interface CreationResult {
+  created: number;
+  failures: { date: string; message: string }[];
+}
+
+interface FlightScheduleWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Schedule checks go to the API a few at a time rather than all at once
+const VALIDATION_BATCH_SIZE = 8;
+
+const toRecurringSchedule = ({ blockHours, blockMinutes, ...data }: ScheduleFormData): RecurringSchedule => ({
+  ...data,
+  flightNumber: data.flightNumber.trim().toUpperCase(),
+  blockMinutes: blockHours * 60 + blockMinutes
+});
+
+// Schedule dates are calendar dates, not instants, so they have no zone
+const formatScheduleDate = (date: string) => format(parseISO(date), 'EEE, MMM d, yyyy');
+
+/**
+ * Creates a recurring flight in three steps: define the pattern (days of the
+ * week, local departure time, block time, date range, holidays and seasonal
+ * fares), preview every generated flight with its conflict check, then create
+ * the conflict-free ones.
+ */
+export const FlightScheduleWizard: React.FC<FlightScheduleWizardProps> = ({ isOpen, onClose }) => {
+  const { data: airports = [] } = useAirports({ enabled: isOpen });
+  const { data: airplanes = [] } = useAirplanes();
+  const validateSchedule = useValidateFlightSchedule();
+  const createFlights = useCreateFlights();
+
+  const [step, setStep] = useState<WizardStep>('define');
+  const [flights, setFlights] = useState<ScheduledFlight[]>([]);
+  const [checks, setChecks] = useState<Record<string, FlightCheck>>({});
+  const [isChecking, setIsChecking] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<CreationResult | null>(null);
+  const [excludedDateInput, setExcludedDateInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // Aborted when the wizard closes so a running conflict check or creation stops between requests
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const form = useForm<ScheduleFormData>({
+    resolver: zodResolver(scheduleSchema),
+    defaultValues: {
+      flightNumber: '',
+      airplaneId: '',
+      originId: '',
+      destinationId: '',
+      daysOfWeek: [1, 2, 3, 4, 5],
+      departureTime: '',
+      blockHours: 0,
+      blockMinutes: 0,
+      startDate: '',
+      endDate: '',
+      excludedDates: [],
+      firstClassPrice: 0,
+      businessClassPrice: 0,
+      economyClassPrice: 0,
+      seasonalFares: []
+    }
+  });
+  const seasonFields = useFieldArray({ control: form.control, name: 'seasonalFares' });
+  const { errors } = form.formState;
+  const daysOfWeek = form.watch('daysOfWeek');
+  const excludedDates = form.watch('excludedDates');
+
+  const findAirport = (airportId: string) => airports.find((airport) => airport.id === airportId);
+  const validFlights = flights.filter((flight) => checks[flight.date]?.valid);
+  const conflictCount = flights.filter((flight) => checks[flight.date]?.valid === false).length;
+
+  const handleClose = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsChecking(false);
+    setProgress(null);
+    setStep('define');
+    setFlights([]);
+    setChecks({});
+    setResult(null);
+    setError(null);
+    form.reset();
+    onClose();
+  };
+
+  const toggleDay = (day: number) =>
+    form.setValue(
+      'daysOfWeek',
+      daysOfWeek.includes(day) ? daysOfWeek.filter((current) => current !== day) : [...daysOfWeek, day],
+      { shouldValidate: form.formState.isSubmitted }
+    );
+
+  const addExcludedDate = () => {
+    if (!excludedDateInput || excludedDates.includes(excludedDateInput)) return;
+    form.setValue('excludedDates', [...excludedDates, excludedDateInput].sort());
+    setExcludedDateInput('');
+  };
+
+  // Generates the flights and checks each one against what is already scheduled
+  const handlePreview = async (data: ScheduleFormData) => {
+    const generated = generateScheduleFlights(toRecurringSchedule(data), airports);
+    if (generated.length === 0) {
+      setError('No flights fall on the chosen days within the date range');
+      return;
+    }
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setError(null);
+    setFlights(generated);
+    setChecks({});
+    setStep('preview');
+    setIsChecking(true);
+    try {
+      for (let start = 0; start < generated.length; start += VALIDATION_BATCH_SIZE) {
+        const batch = generated.slice(start, start + VALIDATION_BATCH_SIZE);
+        const results = await Promise.all(
+          batch.map((scheduled) => validateSchedule.mutateAsync(scheduled.flight))
+        );
+        if (controller.signal.aborted) return;
+        setChecks((current) => ({
+          ...current,
+          ...Object.fromEntries(
+            batch.map((scheduled, index): [string, FlightCheck] => [
+              scheduled.date,
+              results[index].valid ? { valid: true } : { valid: false, conflicts: results[index].conflicts ?? [] }
+            ])
+          )
+        }));
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setError((error as AppError).message || 'Failed to check the schedule for conflicts');
+      }
+    } finally {
+      if (!controller.signal.aborted) {
+        controllerRef.current = null;
+        setIsChecking(false);
+      }
+    }
+  };
+
+  // Creates the conflict-free flights one after another, carrying on past failures
+  const handleCreate = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setProgress(0);
+    const errors = await createFlights.mutateAsync({
+      flights: validFlights.map((scheduled) => scheduled.flight),
+      signal: controller.signal,
+      onProgress: (done) => !controller.signal.aborted && setProgress(done),
+    });
+    const created = errors.filter((error) => !error).length;
+
+    if (controller.signal.aborted) {
+      // Closed part way through; what was made so far stays
+      toast.info(`Schedule stopped after creating ${created} of ${validFlights.length} flights`);
+      return;
+    }
+
+    controllerRef.current = null;
+    setProgress(null);
+    setResult({
+      created,
+      failures: errors.flatMap((error, index) =>
+        error ? [{ date: validFlights[index].date, message: error.message || 'Failed to create flight' }] : []
+      ),
+    });
+    setStep('done');
+  };
+
+  const renderAirportSelect = (field: 'originId' | 'destinationId', label: string) => (
+    <div>
+      <Label htmlFor={`schedule-${field}`}>{label}</Label>
+      <Select value={form.watch(field)} onValueChange={(value) => form.setValue(field, value)}>
+        <SelectTrigger id={`schedule-${field}`}>
+          <SelectValue placeholder={`Select ${label.toLowerCase()}`} />
+        </SelectTrigger>
+        <SelectContent>
+          {airports.map((airport) => (
+            <SelectItem key={airport.id} value={airport.id}>
+              {airport.code} - {airport.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {errors[field] && <p className="text-sm text-red-600">{errors[field]?.message}</p>}
+    </div>
+  );
+
+  const renderDefineStep = () => {
+    const origin = findAirport(form.watch('originId'));
+
+    return (
+      <form onSubmit={form.handleSubmit(handlePreview)} className="space-y-6">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="schedule-flightNumber">Flight Number</Label>
+            <Input id="schedule-flightNumber" placeholder="e.g., TK123" {...form.register('flightNumber')} />
+            {errors.flightNumber && <p className="text-sm text-red-600">{errors.flightNumber.message}</p>}
+          </div>
+          <div>
+            <Label htmlFor="schedule-airplane">Aircraft</Label>
+            <Select value={form.watch('airplaneId')} onValueChange={(value) => form.setValue('airplaneId', value)}>
+              <SelectTrigger id="schedule-airplane">
+                <SelectValue placeholder="Select aircraft" />
+              </SelectTrigger>
+              <SelectContent>
+                {airplanes
+                  .filter((airplane) => airplane.active)
+                  .map((airplane) => (
+                    <SelectItem key={airplane.id} value={airplane.id}>
+                      {airplane.model} ({airplane.registrationNumber})
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            {errors.airplaneId && <p className="text-sm text-red-600">{errors.airplaneId.message}</p>}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          {renderAirportSelect('originId', 'Origin Airport')}
+          {renderAirportSelect('destinationId', 'Destination Airport')}
+        </div>
+
+        <div>
+          <Label>Operates On</Label>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {WEEKDAYS.map(({ day, label }) => (
+              <Button
+                key={day}
+                type="button"
+                size="sm"
+                variant={daysOfWeek.includes(day) ? 'default' : 'outline'}
+                onClick={() => toggleDay(day)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          {errors.daysOfWeek && <p className="text-sm text-red-600">{errors.daysOfWeek.message}</p>}
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="schedule-departureTime">Departure Time</Label>
+            <Input id="schedule-departureTime" type="time" {...form.register('departureTime')} />
+            <p className="text-xs text-muted-foreground mt-1">
+              {origin ? `${origin.code} local time` : 'Local to the origin airport'}
+            </p>
+            {errors.departureTime && <p className="text-sm text-red-600">{errors.departureTime.message}</p>}
+          </div>
+          <div className="col-span-2">
+            <Label>Block Time</Label>
+            <div className="flex items-center gap-2">
+              <Input type="number" min="0" max="23" {...form.register('blockHours', { valueAsNumber: true })} />
+              <span className="text-sm text-muted-foreground">h</span>
+              <Input type="number" min="0" max="59" {...form.register('blockMinutes', { valueAsNumber: true })} />
+              <span className="text-sm text-muted-foreground">m</span>
+            </div>
+            {(errors.blockHours || errors.blockMinutes) && (
+              <p className="text-sm text-red-600">{(errors.blockHours ?? errors.blockMinutes)?.message}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="schedule-startDate">Effective From</Label>
+            <Input id="schedule-startDate" type="date" {...form.register('startDate')} />
+            {errors.startDate && <p className="text-sm text-red-600">{errors.startDate.message}</p>}
+          </div>
+          <div>
+            <Label htmlFor="schedule-endDate">Effective Until</Label>
+            <Input id="schedule-endDate" type="date" {...form.register('endDate')} />
+            {errors.endDate && <p className="text-sm text-red-600">{errors.endDate.message}</p>}
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="schedule-excludedDate">Excluded Dates</Label>
+          <div className="flex gap-2">
+            <Input
+              id="schedule-excludedDate"
+              type="date"
+              value={excludedDateInput}
+              onChange={(event) => setExcludedDateInput(event.target.value)}
+            />
+            <Button type="button" variant="outline" onClick={addExcludedDate} disabled={!excludedDateInput}>
+              <Plus className="h-4 w-4 mr-1" />
+              Exclude
+            </Button>
+          </div>
+          {excludedDates.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {excludedDates.map((date) => (
+                <Badge key={date} variant="secondary" className="gap-1">
+                  {formatScheduleDate(date)}
+                  <button
+                    type="button"
+                    aria-label={`Remove ${date}`}
+                    onClick={() =>
+                      form.setValue(
+                        'excludedDates',
+                        excludedDates.filter((current) => current !== date)
+                      )
+                    }
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="schedule-economyPrice">Economy Price</Label>
+            <Input
+              id="schedule-economyPrice"
+              type="number"
+              min="0"
+              step="0.01"
+              {...form.register('economyClassPrice', { valueAsNumber: true })}
+            />
+            {errors.economyClassPrice && <p className="text-sm text-red-600">{errors.economyClassPrice.message}</p>}
+          </div>
+          <div>
+            <Label htmlFor="schedule-businessPrice">Business Price</Label>
+            <Input
+              id="schedule-businessPrice"
+              type="number"
+              min="0"
+              step="0.01"
+              {...form.register('businessClassPrice', { valueAsNumber: true })}
+            />
+            {errors.businessClassPrice && <p className="text-sm text-red-600">{errors.businessClassPrice.message}</p>}
+          </div>
+          <div>
+            <Label htmlFor="schedule-firstPrice">First Class Price</Label>
+            <Input
+              id="schedule-firstPrice"
+              type="number"
+              min="0"
+              step="0.01"
+              {...form.register('firstClassPrice', { valueAsNumber: true })}
+            />
+            {errors.firstClassPrice && <p className="text-sm text-red-600">{errors.firstClassPrice.message}</p>}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Seasonal Fares</Label>
+              <p className="text-xs text-muted-foreground">Replace the fares above for departures within a season</p>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                seasonFields.append({
+                  startDate: '',
+                  endDate: '',
+                  economyClassPrice: form.getValues('economyClassPrice'),
+                  businessClassPrice: form.getValues('businessClassPrice'),
+                  firstClassPrice: form.getValues('firstClassPrice')
+                })
+              }
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Season
+            </Button>
+          </div>
+          {seasonFields.fields.map((season, index) => {
+            const seasonErrors = errors.seasonalFares?.[index];
+            return (
+              <div key={season.id} className="grid grid-cols-[1fr_1fr_1fr_1fr_1fr_auto] gap-2 items-start">
+                <Input type="date" aria-label="Season start" {...form.register(`seasonalFares.${index}.startDate`)} />
+                <div>
+                  <Input type="date" aria-label="Season end" {...form.register(`seasonalFares.${index}.endDate`)} />
+                  {seasonErrors?.endDate && <p className="text-xs text-red-600">{seasonErrors.endDate.message}</p>}
+                </div>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  aria-label="Season economy price"
+                  {...form.register(`seasonalFares.${index}.economyClassPrice`, { valueAsNumber: true })}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  aria-label="Season business price"
+                  {...form.register(`seasonalFares.${index}.businessClassPrice`, { valueAsNumber: true })}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  aria-label="Season first class price"
+                  {...form.register(`seasonalFares.${index}.firstClassPrice`, { valueAsNumber: true })}
+                />
+                <Button type="button" variant="ghost" size="sm" onClick={() => seasonFields.remove(index)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button type="submit">Preview Flights</Button>
+        </DialogFooter>
+      </form>
+    );
+  };
+
+  const renderCheck = (date: string) => {
+    const check = checks[date];
+    if (!check) return <LoadingSpinner size="sm" />;
+    if (check.valid) {
+      return (
+        <Badge variant="outline" className="text-green-600">
+          <CheckCircle className="h-3 w-3 mr-1" />
+          OK
+        </Badge>
+      );
+    }
+    return (
+      <div className="space-y-1">
+        <Badge variant="destructive">
+          <AlertTriangle className="h-3 w-3 mr-1" />
+          Conflict
+        </Badge>
+        {check.conflicts.map((conflict) => (
+          <p key={conflict} className="text-xs text-red-600">
+            {conflict}
+          </p>
+        ))}
+      </div>
+    );
+  };
+
+  const renderPreviewStep = () => {
+    const first = flights[0]?.flight;
+    const origin = first && findAirport(first.originId);
+    const destination = first && findAirport(first.destinationId);
+    const zoneOf = (airport: Airport | undefined) => airport?.timeZone ?? 'UTC';
+
+    return (
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Badge variant="secondary">{flights.length} flights</Badge>
+          {!isChecking && <Badge variant="outline">{validFlights.length} ready</Badge>}
+          {conflictCount > 0 && <Badge variant="destructive">{conflictCount} with conflicts, will be skipped</Badge>}
+          {isChecking && (
+            <span className="flex items-center gap-2 text-muted-foreground">
+              <LoadingSpinner size="sm" />
+              Checking for conflicts…
+            </span>
+          )}
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Departs ({origin?.code})</TableHead>
+                <TableHead>Arrives ({destination?.code})</TableHead>
+                <TableHead>Fares (Y / J / F)</TableHead>
+                <TableHead>Check</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {flights.map(({ date, flight, season }) => {
+                const dayOffset = formatDayOffset(
+                  getDayOffset(flight.departureTime, zoneOf(origin), flight.arrivalTime, zoneOf(destination))
+                );
+                return (
+                  <TableRow key={date}>
+                    <TableCell className="whitespace-nowrap">{formatScheduleDate(date)}</TableCell>
+                    <TableCell>{formatInTimeZone(flight.departureTime, zoneOf(origin), 'HH:mm')}</TableCell>
+                    <TableCell>
+                      {formatInTimeZone(flight.arrivalTime, zoneOf(destination), 'HH:mm')}
+                      {dayOffset && <sup className="ml-1 text-xs text-orange-600">{dayOffset}</sup>}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      ${flight.economyClassPrice} / ${flight.businessClassPrice} / ${flight.firstClassPrice}
+                      {season && (
+                        <Badge variant="secondary" className="ml-2 text-xs">
+                          Seasonal
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{renderCheck(date)}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => setStep('define')} disabled={isChecking || progress !== null}>
+            Back
+          </Button>
+          <Button
+            type="button"
+            onClick={handleCreate}
+            disabled={isChecking || validFlights.length === 0 || progress !== null}
+          >
+            {progress !== null ? (
+              <>
+                <LoadingSpinner size="sm" className="mr-2" />
+                Creating {progress} of {validFlights.length}…
+              </>
+            ) : (
+              `Create ${validFlights.length} Flight${validFlights.length === 1 ? '' : 's'}`
+            )}
+          </Button>
+        </DialogFooter>
+      </div>
+    );
+  };
+
+  const renderDoneStep = () => (
+    <div className="space-y-4">
+      <Alert>
+        <CheckCircle className="h-4 w-4" />
+        <AlertDescription>
+          Created {result?.created ?? 0} flight{result?.created === 1 ? '' : 's'}
+          {conflictCount > 0 && `; ${conflictCount} skipped because of conflicts`}.
+        </AlertDescription>
+      </Alert>
+      {result && result.failures.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <p className="font-medium">{result.failures.length} could not be created:</p>
+            <ul className="list-disc ml-4">
+              {result.failures.map((failure) => (
+                <li key={failure.date}>
+                  {formatScheduleDate(failure.date)}: {failure.message}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+      <DialogFooter>
+        <Button type="button" onClick={handleClose}>
+          Done
+        </Button>
+      </DialogFooter>
+    </div>
+  );
+
+  const blockMinutes = (form.watch('blockHours') || 0) * 60 + (form.watch('blockMinutes') || 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarRange className="h-5 w-5" />
+            Create Schedule
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'define' &&
+              `Set up a flight that repeats every week${blockMinutes > 0 ? ` · block time ${formatDuration(blockMinutes)}` : ''}`}
+            {step === 'preview' && 'Every flight the schedule generates, checked against the existing schedule'}
+            {step === 'done' && 'Schedule created'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {step === 'define' && renderDefineStep()}
+        {step === 'preview' && renderPreviewStep()}
+        {step === 'done' && renderDoneStep()}
+      </DialogContent>
+    </Dialog>
+  );
+};
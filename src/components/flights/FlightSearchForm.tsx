@@ -1,5 +1,5 @@
 import React, { useState, useMemo } from 'react';
-import { useForm } from 'react-hook-form';
+import { useFieldArray, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { Button } from '@/components/ui/button';
@@ -8,19 +8,62 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Combobox, type ComboboxOption } from '@/components/ui/combobox';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Badge } from '@/components/ui/badge';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { PopularRoutes } from '@/components/flights/PopularRoutes';
+import { MAX_TRIP_LEGS, TRIP_TYPE_LABELS } from '@/lib/tripSearch';
+import { FLEXIBLE_DATE_DAYS } from '@/lib/fareCalendar';
 import type { FlightSearchCriteria, Airport } from '@/types';
-import { SeatClass as SeatClassEnum } from '@/types';
-import { Search, MapPin, Calendar, Users, Plane, ArrowLeftRight } from 'lucide-react';
+import { SeatClass as SeatClassEnum, TripType } from '@/types';
+import { Search, MapPin, Calendar, Users, Plane, ArrowLeftRight, Plus, X } from 'lucide-react';
 
+// Legs after the first are only checked for multi-city trips, so switching
+// trip type never leaves the form stuck on fields that are no longer shown
 const searchSchema = z.object({
+  tripType: z.nativeEnum(TripType),
   originAirportId: z.number().min(1, 'Origin airport is required'),
   destinationAirportId: z.number().min(1, 'Destination airport is required'),
   departureDate: z.string().min(1, 'Departure date is required'),
+  returnDate: z.string(),
+  additionalLegs: z.array(
+    z.object({
+      originAirportId: z.number(),
+      destinationAirportId: z.number(),
+      departureDate: z.string()
+    })
+  ),
   seatClass: z.nativeEnum(SeatClassEnum).optional(),
   passengers: z.number().min(1, 'At least 1 passenger required').max(9, 'Maximum 9 passengers'),
-  includeTransit: z.boolean()
+  includeTransit: z.boolean(),
+  flexibleDates: z.boolean()
+}).superRefine((data, ctx) => {
+  if (data.tripType === TripType.ROUND_TRIP) {
+    if (!data.returnDate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['returnDate'], message: 'Return date is required' });
+    } else if (data.departureDate && data.returnDate < data.departureDate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['returnDate'], message: 'Return must be on or after departure' });
+    }
+  }
+
+  if (data.tripType === TripType.MULTI_CITY) {
+    let previousDate = data.departureDate;
+    data.additionalLegs.forEach((leg, index) => {
+      const issue = (field: string, message: string) =>
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['additionalLegs', index, field], message });
+
+      if (!leg.originAirportId) issue('originAirportId', 'Origin airport is required');
+      if (!leg.destinationAirportId) {
+        issue('destinationAirportId', 'Destination airport is required');
+      } else if (leg.destinationAirportId === leg.originAirportId) {
+        issue('destinationAirportId', 'Choose a different destination');
+      }
+      if (!leg.departureDate) {
+        issue('departureDate', 'Departure date is required');
+      } else if (previousDate && leg.departureDate < previousDate) {
+        issue('departureDate', 'Cannot be before the previous flight');
+      }
+      previousDate = leg.departureDate || previousDate;
+    });
+  }
 });
 
 type SearchFormData = z.infer<typeof searchSchema>;
@@ -40,20 +83,28 @@ export const FlightSearchForm: React.FC<FlightSearchFormProps> = ({
   initialCriteria,
   isLoading = false
 }) => {
-  const [isRoundTrip, setIsRoundTrip] = useState(false);
   const [swapAnimation, setSwapAnimation] = useState(false);
 
   const form = useForm<SearchFormData>({
     resolver: zodResolver(searchSchema),
     defaultValues: {
+      tripType: initialCriteria?.tripType || TripType.ONE_WAY,
       originAirportId: initialCriteria?.originAirportId || 0,
       destinationAirportId: initialCriteria?.destinationAirportId || 0,
       departureDate: initialCriteria?.departureDate || '',
+      returnDate: initialCriteria?.returnDate || '',
+      // The first leg lives in the fields above
+      additionalLegs: initialCriteria?.legs?.slice(1) ?? [],
       seatClass: initialCriteria?.seatClass,
       passengers: initialCriteria?.passengers || 1,
-      includeTransit: initialCriteria?.includeTransit || false
+      includeTransit: initialCriteria?.includeTransit || false,
+      flexibleDates: initialCriteria?.flexibleDates || false
     }
   });
+  const legFields = useFieldArray({ control: form.control, name: 'additionalLegs' });
+  const tripType = form.watch('tripType');
+  const isRoundTrip = tripType === TripType.ROUND_TRIP;
+  const isMultiCity = tripType === TripType.MULTI_CITY;
 
   // Set minimum date to today
   const today = new Date().toISOString().split('T')[0];
@@ -89,21 +140,57 @@ export const FlightSearchForm: React.FC<FlightSearchFormProps> = ({
     form.setValue('destinationAirportId', originId);
   };
 
-  const onSubmit = (data: SearchFormData) => {
+  // Each new leg starts where the previous one ended
+  const addLeg = () => {
+    const legs = form.getValues('additionalLegs');
+    const previous = legs[legs.length - 1] ?? form.getValues();
+    legFields.append({
+      originAirportId: previous.destinationAirportId || 0,
+      destinationAirportId: 0,
+      departureDate: previous.departureDate
+    });
+  };
+
+  const handleTripTypeChange = (type: TripType) => {
+    form.setValue('tripType', type);
+    form.clearErrors();
+    if (type === TripType.MULTI_CITY && legFields.fields.length === 0) {
+      addLeg();
+    }
+  };
+
+  const onSubmit = ({ tripType, returnDate, additionalLegs, flexibleDates, ...data }: SearchFormData) => {
     onSearch({
       ...data,
+      tripType,
+      flexibleDates: tripType === TripType.ONE_WAY && flexibleDates,
+      returnDate: tripType === TripType.ROUND_TRIP ? returnDate : undefined,
+      legs: tripType === TripType.MULTI_CITY
+        ? [
+            {
+              originAirportId: data.originAirportId,
+              destinationAirportId: data.destinationAirportId,
+              departureDate: data.departureDate
+            },
+            ...additionalLegs
+          ]
+        : undefined,
       seatClass: data.seatClass || undefined
     });
   };
 
   const handleClear = () => {
     form.reset({
+      tripType: TripType.ONE_WAY,
       originAirportId: 0,
       destinationAirportId: 0,
       departureDate: '',
+      returnDate: '',
+      additionalLegs: [],
       seatClass: undefined,
       passengers: 1,
-      includeTransit: false
+      includeTransit: false,
+      flexibleDates: false
     });
   };
 
@@ -114,33 +201,26 @@ export const FlightSearchForm: React.FC<FlightSearchFormProps> = ({
         <div className="flex items-center gap-4 mb-6">
           <Label className="text-sm font-medium">Trip Type:</Label>
           <div className="flex items-center gap-2">
-            <Button
-              type="button"
-              variant={!isRoundTrip ? "default" : "outline"}
-              size="sm"
-              onClick={() => setIsRoundTrip(false)}
-              className="px-4"
-            >
-              One Way
-            </Button>
-            <Button
-              type="button"
-              variant={isRoundTrip ? "default" : "outline"}
-              size="sm"
-              onClick={() => setIsRoundTrip(true)}
-              className="px-4"
-              disabled
-            >
-              Round Trip
-              <Badge variant="secondary" className="ml-2 text-xs">Coming Soon</Badge>
-            </Button>
+            {Object.values(TripType).map((type) => (
+              <Button
+                key={type}
+                type="button"
+                variant={tripType === type ? "default" : "outline"}
+                size="sm"
+                onClick={() => handleTripTypeChange(type)}
+                className="px-4"
+              >
+                {TRIP_TYPE_LABELS[type]}
+              </Button>
+            ))}
           </div>
         </div>
 
         {/* Main Search Fields */}
+        {isMultiCity && <Label className="text-sm font-medium text-muted-foreground">Flight 1</Label>}
         <div className="grid grid-cols-1 md:grid-cols-12 gap-4">
           {/* Origin */}
-          <div className="md:col-span-4">
+          <div className={isRoundTrip ? "md:col-span-3" : "md:col-span-4"}>
             <FormField
               control={form.control}
               name="originAirportId"
@@ -183,7 +263,7 @@ export const FlightSearchForm: React.FC<FlightSearchFormProps> = ({
           </div>
 
           {/* Destination */}
-          <div className="md:col-span-4">
+          <div className={isRoundTrip ? "md:col-span-3" : "md:col-span-4"}>
             <FormField
               control={form.control}
               name="destinationAirportId"
@@ -212,7 +292,7 @@ export const FlightSearchForm: React.FC<FlightSearchFormProps> = ({
           </div>
 
           {/* Departure Date */}
-          <div className="md:col-span-3">
+          <div className={isRoundTrip ? "md:col-span-2" : "md:col-span-3"}>
             <FormField
               control={form.control}
               name="departureDate"
@@ -235,8 +315,131 @@ export const FlightSearchForm: React.FC<FlightSearchFormProps> = ({
               )}
             />
           </div>
+
+          {/* Return Date */}
+          {isRoundTrip && (
+            <div className="md:col-span-3">
+              <FormField
+                control={form.control}
+                name="returnDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="flex items-center gap-2">
+                      <Calendar className="h-4 w-4" />
+                      Return
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        type="date"
+                        min={form.watch('departureDate') || today}
+                        className="h-9 w-full"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          )}
         </div>
 
+        {/* Further Multi-City Legs */}
+        {isMultiCity && (
+          <div className="space-y-4">
+            {legFields.fields.map((leg, index) => (
+              <div key={leg.id} className="space-y-2">
+                <Label className="text-sm font-medium text-muted-foreground">Flight {index + 2}</Label>
+                <div className="grid grid-cols-1 md:grid-cols-12 gap-4">
+                  <div className="md:col-span-4">
+                    <FormField
+                      control={form.control}
+                      name={`additionalLegs.${index}.originAirportId`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Combobox
+                              options={airportOptions}
+                              value={field.value}
+                              onValueChange={field.onChange}
+                              placeholder="From"
+                              searchPlaceholder="Search airports..."
+                              emptyMessage="No airports found"
+                              disabled={isLoadingAirports}
+                              loading={isLoadingAirports}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <div className="md:col-span-4">
+                    <FormField
+                      control={form.control}
+                      name={`additionalLegs.${index}.destinationAirportId`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Combobox
+                              options={airportOptions}
+                              value={field.value}
+                              onValueChange={field.onChange}
+                              placeholder="To"
+                              searchPlaceholder="Search airports..."
+                              emptyMessage="No airports found"
+                              disabled={isLoadingAirports}
+                              loading={isLoadingAirports}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <div className="md:col-span-3">
+                    <FormField
+                      control={form.control}
+                      name={`additionalLegs.${index}.departureDate`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input type="date" min={today} className="h-9 w-full" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <div className="md:col-span-1 flex items-start">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-9 w-9"
+                      onClick={() => legFields.remove(index)}
+                      disabled={legFields.fields.length === 1}
+                      aria-label={`Remove flight ${index + 2}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={addLeg}
+              disabled={legFields.fields.length + 1 >= MAX_TRIP_LEGS}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Another Flight
+            </Button>
+          </div>
+        )}
+
         {/* Additional Options */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           {/* Passengers */}
@@ -343,6 +546,27 @@ export const FlightSearchForm: React.FC<FlightSearchFormProps> = ({
                     Include connecting flights
                   </Label>
                 </div>
+                {/* Fare calendars compare one route, so only one-way trips can flex */}
+                {tripType === TripType.ONE_WAY && (
+                  <FormField
+                    control={form.control}
+                    name="flexibleDates"
+                    render={({ field: flexibleField }) => (
+                      <div className="flex items-center space-x-2 mt-2">
+                        <input
+                          type="checkbox"
+                          id="flexibleDates"
+                          checked={flexibleField.value}
+                          onChange={flexibleField.onChange}
+                          className="h-4 w-4 text-primary border-gray-300 rounded focus:ring-primary"
+                        />
+                        <Label htmlFor="flexibleDates" className="text-sm font-normal cursor-pointer">
+                          My dates are flexible (±{FLEXIBLE_DATE_DAYS} days)
+                        </Label>
+                      </div>
+                    )}
+                  />
+                )}
               </FormItem>
             )}
           />
@@ -381,41 +605,14 @@ export const FlightSearchForm: React.FC<FlightSearchFormProps> = ({
         </div>
 
         {/* Popular Routes */}
-        <div className="mt-6 pt-6 border-t">
-          <Label className="text-sm font-medium text-muted-foreground mb-3 block">
-            Popular Routes
-          </Label>
-          <div className="flex flex-wrap gap-2">
-            {[
-              { fromCode: 'JFK', toCode: 'LAX', route: 'New York → Los Angeles' },
-              { fromCode: 'LHR', toCode: 'CDG', route: 'London → Paris' },
-              { fromCode: 'DXB', toCode: 'LHR', route: 'Dubai → London' },
-              { fromCode: 'SIN', toCode: 'NRT', route: 'Singapore → Tokyo' }
-            ].map((route) => {
-              const fromAirport = airports.find(a => a.code === route.fromCode);
-              const toAirport = airports.find(a => a.code === route.toCode);
-              
-              return (
-                <Button
-                  key={`${route.fromCode}-${route.toCode}`}
-                  type="button"
-                  variant="outline"
-                  size="sm"
-                  className="text-xs"
-                  onClick={() => {
-                    if (fromAirport && toAirport) {
-                      form.setValue('originAirportId', parseInt(fromAirport.id));
-                      form.setValue('destinationAirportId', parseInt(toAirport.id));
-                    }
-                  }}
-                  disabled={!fromAirport || !toAirport}
-                >
-                  {route.route}
-                </Button>
-              );
-            })}
-          </div>
-        </div>
+        <PopularRoutes
+          airports={airports}
+          seatClass={form.watch('seatClass')}
+          onSelect={(originAirportId, destinationAirportId) => {
+            form.setValue('originAirportId', originAirportId);
+            form.setValue('destinationAirportId', destinationAirportId);
+          }}
+        />
       </form>
     </Form>
   );
@@ -5,6 +5,11 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { getBookingPath } from '@/lib/searchLinks';
+import { getItineraryMinutes, getLayovers } from '@/lib/connections';
+import { formatDuration, getDurationMinutes } from '@/lib/dateTime';
+import { useFlightTime } from '@/hooks/useFlightTime';
+import { TransitItinerary } from '@/components/flights/TransitItinerary';
 import type { Flight, FlightSearchCriteria, TransitFlightOption, SeatClass } from '@/types';
 import { SeatClass as SeatClassEnum, FlightStatus } from '@/types';
 import { 
@@ -12,7 +17,8 @@ import {
   MapPin, 
   Wifi,
   Coffee,
-  Utensils
+  Utensils,
+  AlertTriangle
 } from 'lucide-react';
 
 interface FlightSearchResultsProps {
@@ -32,30 +38,7 @@ export const FlightSearchResults: React.FC<FlightSearchResultsProps> = ({
 }) => {
   const navigate = useNavigate();
   const { user } = useAuth();
-
-  const formatDuration = (departureTime: string, arrivalTime: string) => {
-    const departure = new Date(departureTime);
-    const arrival = new Date(arrivalTime);
-    const durationMs = arrival.getTime() - departure.getTime();
-    const hours = Math.floor(durationMs / (1000 * 60 * 60));
-    const minutes = Math.floor((durationMs % (1000 * 60 * 60)) / (1000 * 60));
-    return `${hours}h ${minutes}m`;
-  };
-
-  const formatTime = (dateTime: string) => {
-    return new Date(dateTime).toLocaleTimeString('en-US', {
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: false
-    });
-  };
-
-  const formatDate = (dateTime: string) => {
-    return new Date(dateTime).toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric'
-    });
-  };
+  const { formatTime, formatDate, formatArrivalDay } = useFlightTime();
 
   const getPrice = (flight: Flight, seatClass?: SeatClass) => {
     switch (seatClass) {
@@ -98,20 +81,20 @@ export const FlightSearchResults: React.FC<FlightSearchResultsProps> = ({
     }
   };
 
-  const handleBookFlight = (flightId: number) => {
+  // Connections are booked together, so every flight of the option goes along
+  const handleBookFlight = (flightIds: number[]) => {
     if (!user) {
       navigate('/login');
       return;
     }
-    navigate(`/book/${flightId}`, {
-      state: { searchCriteria }
-    });
+    navigate(getBookingPath(flightIds, searchCriteria));
   };
 
   const renderDirectFlightCard = (flight: Flight) => {
     const price = getPrice(flight, searchCriteria.seatClass);
     const availableSeats = getAvailableSeats(flight, searchCriteria.seatClass);
-    const duration = formatDuration(flight.departureTime, flight.arrivalTime);
+    const duration = formatDuration(getDurationMinutes(flight.departureTime, flight.arrivalTime));
+    const dayOffset = formatArrivalDay(flight);
     const isAvailable = availableSeats >= (searchCriteria.passengers || 1);
 
     return (
@@ -138,9 +121,11 @@ export const FlightSearchResults: React.FC<FlightSearchResultsProps> = ({
               {/* Route */}
               <div className="flex items-center gap-4">
                 <div className="text-center">
-                  <p className="text-2xl font-bold">{formatTime(flight.departureTime)}</p>
+                  <p className="text-2xl font-bold">{formatTime(flight.departureTime, flight.originAirport)}</p>
                   <p className="text-sm text-muted-foreground">{flight.originAirport.code}</p>
-                  <p className="text-xs text-muted-foreground">{formatDate(flight.departureTime)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDate(flight.departureTime, flight.originAirport, 'MMM d')}
+                  </p>
                 </div>
                 
                 <div className="flex-1 flex items-center gap-2">
@@ -153,9 +138,14 @@ export const FlightSearchResults: React.FC<FlightSearchResultsProps> = ({
                 </div>
                 
                 <div className="text-center">
-                  <p className="text-2xl font-bold">{formatTime(flight.arrivalTime)}</p>
+                  <p className="text-2xl font-bold">
+                    {formatTime(flight.arrivalTime, flight.destinationAirport)}
+                    {dayOffset && <sup className="ml-1 text-xs font-medium text-orange-600">{dayOffset}</sup>}
+                  </p>
                   <p className="text-sm text-muted-foreground">{flight.destinationAirport.code}</p>
-                  <p className="text-xs text-muted-foreground">{formatDate(flight.arrivalTime)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDate(flight.arrivalTime, flight.destinationAirport, 'MMM d')}
+                  </p>
                 </div>
               </div>
             </div>
@@ -202,7 +192,7 @@ export const FlightSearchResults: React.FC<FlightSearchResultsProps> = ({
                 </div>
 
                 <Button
-                  onClick={() => handleBookFlight(flight.id)}
+                  onClick={() => handleBookFlight([flight.id])}
                   disabled={!isAvailable || flight.status === FlightStatus.CANCELLED}
                   className="w-full"
                   size="lg"
@@ -218,10 +208,11 @@ export const FlightSearchResults: React.FC<FlightSearchResultsProps> = ({
   };
 
   const renderTransitFlightCard = (option: TransitFlightOption) => {
-    const totalDuration = Math.floor(option.totalDuration / (1000 * 60));
-    const hours = Math.floor(totalDuration / 60);
-    const minutes = totalDuration % 60;
+    // Worked out from the flight times; the API doesn't document totalDuration's units
+    const totalDuration = getItineraryMinutes(option.flights);
     const stops = option.flights.length - 1;
+    const layovers = getLayovers(option.flights);
+    const hasShortConnection = layovers.some((layover) => layover.isShort);
 
     return (
       <Card key={option.id} className="mb-4 hover:shadow-lg transition-shadow">
@@ -238,44 +229,13 @@ export const FlightSearchResults: React.FC<FlightSearchResultsProps> = ({
                     {option.flights.map(f => f.flightNumber).join(' → ')}
                   </h3>
                   <p className="text-sm text-muted-foreground">
-                    {stops} stop{stops > 1 ? 's' : ''} • {hours}h {minutes}m total
+                    {stops} stop{stops > 1 ? 's' : ''} • {formatDuration(totalDuration)} total
                   </p>
                 </div>
               </div>
 
-              {/* Route with stops */}
-              <div className="space-y-3">
-                {option.flights.map((flight, index) => (
-                  <div key={flight.id} className="flex items-center gap-4">
-                    <div className="text-center min-w-[80px]">
-                      <p className="text-lg font-semibold">{formatTime(flight.departureTime)}</p>
-                      <p className="text-sm text-muted-foreground">{flight.originAirport.code}</p>
-                    </div>
-                    
-                    <div className="flex-1 flex items-center gap-2">
-                      <div className="h-px bg-border flex-1"></div>
-                      <div className="text-center">
-                        <p className="text-xs font-medium">{flight.flightNumber}</p>
-                        <p className="text-xs text-muted-foreground">
-                          {formatDuration(flight.departureTime, flight.arrivalTime)}
-                        </p>
-                      </div>
-                      <div className="h-px bg-border flex-1"></div>
-                    </div>
-                    
-                    <div className="text-center min-w-[80px]">
-                      <p className="text-lg font-semibold">{formatTime(flight.arrivalTime)}</p>
-                      <p className="text-sm text-muted-foreground">{flight.destinationAirport.code}</p>
-                    </div>
-
-                    {index < option.flights.length - 1 && (
-                      <div className="text-xs text-muted-foreground ml-4">
-                        Layover in {flight.destinationAirport.city}
-                      </div>
-                    )}
-                  </div>
-                ))}
-              </div>
+              {/* Itinerary */}
+              <TransitItinerary flights={option.flights} />
             </div>
 
             {/* Transit Info */}
@@ -287,6 +247,12 @@ export const FlightSearchResults: React.FC<FlightSearchResultsProps> = ({
                     {airport.code}
                   </Badge>
                 ))}
+                {hasShortConnection && (
+                  <Badge variant="destructive" className="text-xs">
+                    <AlertTriangle className="h-3 w-3 mr-1" />
+                    Tight connection
+                  </Badge>
+                )}
               </div>
             </div>
 
@@ -303,11 +269,7 @@ export const FlightSearchResults: React.FC<FlightSearchResultsProps> = ({
                 </div>
 
                 <Button
-                  onClick={() => {
-                    // For transit flights, we might need special handling
-                    // For now, redirect to the first flight
-                    handleBookFlight(option.flights[0].id);
-                  }}
+                  onClick={() => handleBookFlight(option.flights.map((flight) => flight.id))}
                   className="w-full"
                   size="lg"
                 >
@@ -0,0 +1,85 @@
+import React from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePopularRoutes, useRouteFareSearches } from '@/hooks/queries/useFlightQueries';
+import { useMyBookings } from '@/hooks/queries/useBookingQueries';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  getHomeAirport,
+  getLowestRouteFare,
+  getRouteFareDays,
+  ROUTE_SUGGESTION_LABELS,
+  suggestRoutes,
+} from '@/lib/popularRoutes';
+import type { Airport, SeatClass } from '@/types';
+
+interface PopularRoutesProps {
+  airports: Airport[];
+  seatClass?: SeatClass; // Fares are shown for this cabin, economy when absent
+  onSelect: (originAirportId: number, destinationAirportId: number) => void;
+}
+
+/**
+ * One-click routes for the search form, drawn from what customers book and,
+ * for signed-in users, from their own trips and home airport. Each chip shows
+ * the lowest fare on sale for the route over the coming week.
+ */
+export const PopularRoutes: React.FC<PopularRoutesProps> = ({ airports, seatClass, onSelect }) => {
+  const { user } = useAuth();
+  const { data: popularRoutes = [] } = usePopularRoutes();
+  const myBookingsQuery = useMyBookings({ size: 50 }, { enabled: !!user });
+  const bookings = user ? myBookingsQuery.data?.data ?? [] : [];
+
+  const suggestions = suggestRoutes({ popularRoutes, bookings, airports });
+  const home = getHomeAirport(bookings);
+  // The public search, so guests see fares too
+  const fareDays = getRouteFareDays();
+  const fareSearches = useRouteFareSearches(
+    suggestions.map(({ origin, destination }) => ({
+      originAirportId: Number(origin.id),
+      destinationAirportId: Number(destination.id),
+    })),
+    fareDays,
+    seatClass
+  );
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="mt-6 pt-6 border-t">
+      <Label className="text-sm font-medium text-muted-foreground mb-3 block">
+        {home ? `Popular Routes · home airport ${home.code}` : 'Popular Routes'}
+      </Label>
+      <div className="flex flex-wrap gap-2">
+        {suggestions.map(({ origin, destination, reason }, index) => {
+          const fare = getLowestRouteFare(
+            fareSearches.slice(index * fareDays.length, (index + 1) * fareDays.length).map((search) => search.data),
+            seatClass
+          );
+
+          return (
+            <Button
+              key={`${origin.code}-${destination.code}`}
+              type="button"
+              variant="outline"
+              size="sm"
+              className="text-xs h-auto py-1.5"
+              title={ROUTE_SUGGESTION_LABELS[reason]}
+              onClick={() => onSelect(parseInt(origin.id), parseInt(destination.id))}
+            >
+              <span className="flex flex-col items-start">
+                <span>
+                  {origin.city} → {destination.city}
+                </span>
+                <span className="text-muted-foreground">
+                  {ROUTE_SUGGESTION_LABELS[reason]}
+                  {fare !== null && ` · from $${fare.toLocaleString()}`}
+                </span>
+              </span>
+            </Button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
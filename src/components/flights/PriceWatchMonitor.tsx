@@ -0,0 +1,72 @@
+import React, { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { useAirports, usePriceWatchSearches } from '@/hooks/queries/useFlightQueries';
+import { useSearchHistory } from '@/hooks/useSearchHistory';
+import { getLowestFare } from '@/lib/fareCalendar';
+import { readSearchQuery } from '@/lib/searchLinks';
+import { getTripLegs } from '@/lib/tripSearch';
+
+// How often watched searches are re-run while the app is open
+const PRICE_WATCH_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Re-runs the signed-in user's watched searches when the app opens and on a
+ * timer, and raises a toast when the lowest fare per person drops below the
+ * alert threshold. Each lower fare is announced once; the alert re-arms when
+ * fares climb back above the threshold. Renders nothing.
+ */
+export const PriceWatchMonitor: React.FC = () => {
+  const navigate = useNavigate();
+  const { saved, canSave, updatePriceWatch } = useSearchHistory();
+  const { data: airports = [] } = useAirports({ enabled: canSave && saved.some((search) => search.priceWatch) });
+  const today = new Date().toISOString().split('T')[0];
+
+  // Departed trips can't be booked any more, so they are no longer checked
+  const watches = (canSave ? saved : []).flatMap((search) => {
+    const criteria = search.priceWatch ? readSearchQuery(search.query, airports) : null;
+    return criteria && criteria.departureDate >= today ? [{ search, criteria }] : [];
+  });
+  const queries = usePriceWatchSearches(
+    watches.map(({ criteria }) => criteria),
+    { refetchInterval: PRICE_WATCH_INTERVAL_MS }
+  );
+
+  // A trip costs the cheapest option of every leg; unknown until every leg has loaded
+  let offset = 0;
+  const fares = watches.map(({ criteria }) => {
+    const legCount = getTripLegs(criteria).length;
+    const legQueries = queries.slice(offset, (offset += legCount));
+    const legFares = legQueries.map((query) =>
+      query.data ? getLowestFare(query.data, criteria.seatClass, criteria.passengers || 1) : null
+    );
+    return legFares.every((fare) => fare !== null)
+      ? legFares.reduce<number>((total, fare) => total + fare!, 0)
+      : null;
+  });
+
+  // Only writes when something changed, so it is safe to run after every render
+  useEffect(() => {
+    watches.forEach(({ search }, index) => {
+      const fare = fares[index];
+      const watch = search.priceWatch!;
+      if (fare === null) return;
+
+      const isBelow = fare < watch.threshold;
+      const isNewLow = isBelow && (watch.notifiedFare === undefined || fare < watch.notifiedFare);
+      const notifiedFare = isNewLow ? fare : isBelow ? watch.notifiedFare : undefined;
+
+      if (isNewLow) {
+        toast.success(`Price drop: ${search.name}`, {
+          description: `${search.label} now from $${fare.toLocaleString()} per person, below your $${watch.threshold.toLocaleString()} alert.`,
+          action: { label: 'View', onClick: () => navigate(`/search?${search.query}`) },
+        });
+      }
+      if (fare !== watch.lastFare || notifiedFare !== watch.notifiedFare) {
+        updatePriceWatch(search.id, { lastFare: fare, notifiedFare });
+      }
+    });
+  });
+
+  return null;
+};
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { toast } from 'sonner';
+import { useSearchHistory } from '@/hooks/useSearchHistory';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import type { RecentSearch } from '@/types';
+import { Bell, BellOff, Bookmark, History, Trash2 } from 'lucide-react';
+
+interface SavedSearchesProps {
+  currentSearch: Pick<RecentSearch, 'query' | 'label'> | null; // The search on screen, offered for saving
+}
+
+/**
+ * Recent searches for everyone, plus named saved searches with price alerts
+ * for signed-in users. Alerts are checked by `PriceWatchMonitor`.
+ */
+export const SavedSearches: React.FC<SavedSearchesProps> = ({ currentSearch }) => {
+  const { recent, saved, canSave, clearRecent, save, remove, setPriceWatch } = useSearchHistory();
+  const [name, setName] = useState('');
+  // Threshold being typed per saved search, by id
+  const [thresholds, setThresholds] = useState<Record<string, string>>({});
+
+  const canSaveCurrent = canSave && !!currentSearch && !saved.some((search) => search.query === currentSearch.query);
+  if (!recent.length && !saved.length && !canSaveCurrent) return null;
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!currentSearch) return;
+    save({ ...currentSearch, name: name.trim() || currentSearch.label.split(' · ')[0] });
+    setName('');
+    toast.success('Search saved');
+  };
+
+  const handleWatch = (id: string) => {
+    const threshold = Number(thresholds[id]);
+    if (!threshold || threshold <= 0) {
+      toast.error('Enter the fare to be alerted below');
+      return;
+    }
+    setPriceWatch(id, threshold);
+    setThresholds((current) => ({ ...current, [id]: '' }));
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bookmark className="h-5 w-5" />
+          Your Searches
+        </CardTitle>
+        <CardDescription>
+          {canSave
+            ? 'Pick up a recent search, or save one to get an alert when its fares drop.'
+            : 'Pick up a recent search. Sign in to save searches and watch their prices.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Save Current Search */}
+        {canSaveCurrent && (
+          <form onSubmit={handleSave} className="flex flex-wrap items-center gap-2">
+            <Input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder={`Name this search, e.g. ${currentSearch!.label.split(' · ')[0]}`}
+              className="h-9 max-w-xs"
+            />
+            <Button type="submit" size="sm">
+              <Bookmark className="h-4 w-4 mr-2" />
+              Save Search
+            </Button>
+          </form>
+        )}
+
+        {/* Recent Searches */}
+        {recent.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium flex items-center gap-2">
+                <History className="h-4 w-4" />
+                Recent
+              </p>
+              <Button variant="ghost" size="sm" onClick={clearRecent}>
+                Clear
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {recent.map((search) => (
+                <Button key={search.query} asChild variant="outline" size="sm">
+                  <Link to={`/search?${search.query}`}>{search.label}</Link>
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Saved Searches */}
+        {saved.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium flex items-center gap-2">
+              <Bookmark className="h-4 w-4" />
+              Saved
+            </p>
+            <div className="divide-y">
+              {saved.map((search) => (
+                <div key={search.id} className="flex flex-wrap items-center justify-between gap-4 py-3">
+                  <div>
+                    <Link to={`/search?${search.query}`} className="font-medium hover:underline">
+                      {search.name}
+                    </Link>
+                    <p className="text-sm text-muted-foreground">{search.label}</p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {search.priceWatch ? (
+                      <>
+                        <Badge variant="secondary">
+                          Alert below ${search.priceWatch.threshold.toLocaleString()}
+                          {search.priceWatch.lastFare !== undefined &&
+                            ` · now $${search.priceWatch.lastFare.toLocaleString()}`}
+                        </Badge>
+                        <Button variant="ghost" size="sm" onClick={() => setPriceWatch(search.id, null)}>
+                          <BellOff className="h-4 w-4 mr-2" />
+                          Stop
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={thresholds[search.id] ?? ''}
+                          onChange={(event) =>
+                            setThresholds((current) => ({ ...current, [search.id]: event.target.value }))
+                          }
+                          placeholder="Fare below $"
+                          className="h-8 w-32"
+                        />
+                        <Button variant="outline" size="sm" onClick={() => handleWatch(search.id)}>
+                          <Bell className="h-4 w-4 mr-2" />
+                          Watch Price
+                        </Button>
+                      </>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => remove(search.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
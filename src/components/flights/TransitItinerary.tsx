@@ -0,0 +1,83 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { useFlightTime } from '@/hooks/useFlightTime';
+import { getLayovers } from '@/lib/connections';
+import { formatDuration, getDurationMinutes } from '@/lib/dateTime';
+import type { Airport, Flight } from '@/types';
+import { AlertTriangle, Clock, Moon, Plane } from 'lucide-react';
+
+interface TransitItineraryProps {
+  flights: Flight[]; // In travel order
+}
+
+/**
+ * A connecting itinerary as a timeline: every flight with its times, and
+ * every layover with its length, flagged when it is shorter than the
+ * airport's minimum connection time or runs overnight.
+ */
+export const TransitItinerary: React.FC<TransitItineraryProps> = ({ flights }) => {
+  const { formatTime, formatDate } = useFlightTime();
+  const layovers = getLayovers(flights);
+
+  const renderStop = (dateTime: string, airport: Airport) => (
+    <div className="relative flex items-baseline gap-3">
+      <span className="absolute -left-[1.3rem] top-1.5 h-2.5 w-2.5 rounded-full border-2 border-primary bg-background" />
+      <span className="text-base font-semibold w-12">{formatTime(dateTime, airport)}</span>
+      <span className="text-sm">
+        <span className="font-medium">{airport.code}</span>{' '}
+        <span className="text-muted-foreground">
+          {airport.city} · {formatDate(dateTime, airport, 'MMM d')}
+        </span>
+      </span>
+    </div>
+  );
+
+  return (
+    <ol className="ml-2 border-l-2 border-dashed border-border pl-4 space-y-2">
+      {flights.map((flight, index) => {
+        const layover = layovers[index];
+        const duration = getDurationMinutes(flight.departureTime, flight.arrivalTime);
+
+        return (
+          <li key={flight.id} className="space-y-2">
+            {renderStop(flight.departureTime, flight.originAirport)}
+            <p className="flex items-center gap-2 pl-[3.75rem] text-xs text-muted-foreground">
+              <Plane className="h-3 w-3" />
+              {flight.flightNumber} · {flight.airplaneModel} · {formatDuration(duration)}
+            </p>
+            {renderStop(flight.arrivalTime, flight.destinationAirport)}
+
+            {layover && (
+              <div
+                className={`my-3 rounded-md px-3 py-2 text-sm ${
+                  layover.isShort ? 'bg-red-50 text-red-800' : 'bg-muted'
+                }`}
+              >
+                <p className="flex items-center gap-2">
+                  <Clock className="h-4 w-4" />
+                  {formatDuration(layover.minutes)} layover in {layover.airport.name} ({layover.airport.code})
+                </p>
+                {(layover.isShort || layover.isOvernight) && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {layover.isShort && (
+                      <Badge variant="destructive" className="text-xs">
+                        <AlertTriangle className="h-3 w-3 mr-1" />
+                        Short connection · {formatDuration(layover.minimumMinutes)} recommended here
+                      </Badge>
+                    )}
+                    {layover.isOvernight && (
+                      <Badge variant="secondary" className="text-xs">
+                        <Moon className="h-3 w-3 mr-1" />
+                        Overnight layover
+                      </Badge>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { getFlightAvailableSeats, getFlightFare, getLegLabel } from '@/lib/tripSearch';
+import { getBookingPath } from '@/lib/searchLinks';
+import { getItineraryMinutes, getLayovers } from '@/lib/connections';
+import { formatDayOffset, formatDuration } from '@/lib/dateTime';
+import { useFlightTime } from '@/hooks/useFlightTime';
+import { FlightStatus } from '@/types';
+import type { Airport, Flight, FlightSearchCriteria, FlightSearchLeg, FlightSearchResult } from '@/types';
+import { ArrowRight, CheckCircle, CreditCard, Plane } from 'lucide-react';
+
+export interface TripLegResults {
+  leg: FlightSearchLeg;
+  results: FlightSearchResult | null; // Already filtered and sorted
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface TripSearchResultsProps {
+  searchCriteria: FlightSearchCriteria;
+  legs: TripLegResults[];
+  airports: Airport[];
+}
+
+// A direct flight or a chain of connecting flights that covers one leg
+interface TripOption {
+  id: string;
+  flights: Flight[];
+  fare: number; // Per person, in the searched cabin
+}
+
+// Leg dates are calendar dates, not instants, so they have no zone
+const formatLegDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const toOptions = (results: FlightSearchResult | null, criteria: FlightSearchCriteria): TripOption[] => [
+  ...(results?.directFlights ?? []).map((flight) => ({
+    id: `direct-${flight.id}`,
+    flights: [flight],
+    fare: getFlightFare(flight, criteria.seatClass),
+  })),
+  ...(results?.transitFlights ?? []).map((option) => ({
+    id: option.id,
+    flights: option.flights,
+    fare: option.totalPrice,
+  })),
+];
+
+const firstFlight = (option: TripOption) => option.flights[0];
+const lastFlight = (option: TripOption) => option.flights[option.flights.length - 1];
+
+/**
+ * Results for a round trip or multi-city search: one column of options per
+ * leg, picked independently, with the combined fare of the picks. Booking
+ * carries every flight of the trip through to the booking page.
+ */
+export const TripSearchResults: React.FC<TripSearchResultsProps> = ({ searchCriteria, legs, airports }) => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { formatTime, formatDate, getDayOffset } = useFlightTime();
+  // Chosen option per leg, by leg index
+  const [selections, setSelections] = useState<Record<number, TripOption>>({});
+  const passengers = searchCriteria.passengers || 1;
+
+  const airportCode = (airportId: number) =>
+    airports.find((airport) => airport.id === airportId.toString())?.code ?? 'Airport';
+
+  const chosen = legs.map((_, index) => selections[index]);
+  const isComplete = chosen.every(Boolean);
+  // A leg has to leave after the previous one has landed
+  const overlappingLeg = chosen.findIndex(
+    (option, index) =>
+      index > 0 &&
+      option &&
+      chosen[index - 1] &&
+      new Date(firstFlight(option).departureTime) <= new Date(lastFlight(chosen[index - 1]!).arrivalTime)
+  );
+  const farePerPerson = chosen.reduce((sum, option) => sum + (option?.fare ?? 0), 0);
+
+  const handleContinue = () => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    const tripFlightIds = chosen.flatMap((option) => option!.flights.map((flight) => flight.id));
+    navigate(getBookingPath(tripFlightIds, searchCriteria));
+  };
+
+  const renderOption = (option: TripOption, legIndex: number) => {
+    const isSelected = selections[legIndex]?.id === option.id;
+    const seatsLeft = Math.min(...option.flights.map((flight) => getFlightAvailableSeats(flight, searchCriteria.seatClass)));
+    const isBookable =
+      seatsLeft >= passengers && option.flights.every((flight) => flight.status !== FlightStatus.CANCELLED);
+    const stops = option.flights.length - 1;
+    const shortLayover = getLayovers(option.flights).find((layover) => layover.isShort);
+    const duration = getItineraryMinutes(option.flights);
+    const dayOffset = formatDayOffset(
+      getDayOffset(
+        firstFlight(option).departureTime,
+        firstFlight(option).originAirport,
+        lastFlight(option).arrivalTime,
+        lastFlight(option).destinationAirport
+      )
+    );
+
+    return (
+      <button
+        key={option.id}
+        type="button"
+        disabled={!isBookable}
+        onClick={() => setSelections((current) => ({ ...current, [legIndex]: option }))}
+        className={`w-full text-left p-4 border rounded-lg transition-colors ${
+          isSelected ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50'
+        } ${!isBookable ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <p className="text-lg font-semibold flex items-center gap-2">
+              {formatTime(firstFlight(option).departureTime, firstFlight(option).originAirport)}
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+              {formatTime(lastFlight(option).arrivalTime, lastFlight(option).destinationAirport)}
+              {dayOffset && <span className="text-xs font-medium text-orange-600">{dayOffset}</span>}
+              {isSelected && <CheckCircle className="h-4 w-4 text-primary" />}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {option.flights.map((flight) => flight.flightNumber).join(' · ')}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {formatDuration(duration)} ·{' '}
+              {stops === 0
+                ? 'Direct'
+                : `${stops} stop${stops > 1 ? 's' : ''} via ${option.flights
+                    .slice(0, -1)
+                    .map((flight) => flight.destinationAirport.code)
+                    .join(', ')}`}
+            </p>
+            {shortLayover && (
+              <p className="text-xs text-red-600">
+                Tight connection at {shortLayover.airport.code}: {formatDuration(shortLayover.minutes)}
+              </p>
+            )}
+          </div>
+          <div className="text-right">
+            <p className="text-xl font-bold text-primary">${option.fare.toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">per person</p>
+            <p className={`text-xs ${isBookable ? 'text-muted-foreground' : 'text-red-600'}`}>
+              {isBookable ? `${seatsLeft} seats left` : 'Not enough seats'}
+            </p>
+          </div>
+        </div>
+      </button>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {legs.map(({ leg, results, isLoading, error }, index) => {
+          const options = toOptions(results, searchCriteria);
+          return (
+            <Card key={index}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Plane className="h-5 w-5" />
+                  {getLegLabel(searchCriteria, index)} · {airportCode(leg.originAirportId)} →{' '}
+                  {airportCode(leg.destinationAirportId)}
+                </CardTitle>
+                <CardDescription>
+                  {formatLegDate(leg.departureDate)} · {options.length} option{options.length === 1 ? '' : 's'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3 max-h-[32rem] overflow-y-auto">
+                {isLoading ? (
+                  <div className="flex items-center justify-center py-8">
+                    <LoadingSpinner />
+                  </div>
+                ) : error ? (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                ) : options.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-8 text-center">
+                    No flights match on this date. Try another date or include connecting flights.
+                  </p>
+                ) : (
+                  options.map((option) => renderOption(option, index))
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {/* Trip Summary */}
+      <Card className="sticky bottom-4">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CreditCard className="h-5 w-5" />
+            Your Trip
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            {legs.map((_, index) => {
+              const option = chosen[index];
+              return (
+                <div key={index} className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {getLegLabel(searchCriteria, index)}:{' '}
+                    {option
+                      ? `${option.flights.map((flight) => flight.flightNumber).join(' · ')}, ${formatDate(
+                          firstFlight(option).departureTime,
+                          firstFlight(option).originAirport,
+                          'MMM d, yyyy'
+                        )} ${formatTime(firstFlight(option).departureTime, firstFlight(option).originAirport)}`
+                      : 'not chosen yet'}
+                  </span>
+                  {option && <span className="font-medium">${option.fare.toLocaleString()}</span>}
+                </div>
+              );
+            })}
+          </div>
+
+          {overlappingLeg !== -1 && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                {getLegLabel(searchCriteria, overlappingLeg)} leaves before{' '}
+                {getLegLabel(searchCriteria, overlappingLeg - 1).toLowerCase()} lands. Pick a later flight.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex flex-wrap items-end justify-between gap-4 pt-2 border-t">
+            <div>
+              <p className="text-sm text-muted-foreground">
+                ${farePerPerson.toLocaleString()} per person
+                {passengers > 1 && <Badge variant="outline" className="ml-2">{passengers} passengers</Badge>}
+              </p>
+              <p className="text-2xl font-bold">${(farePerPerson * passengers).toLocaleString()}</p>
+              <p className="text-xs text-muted-foreground">Adult fares; children and infants pay less</p>
+            </div>
+            <Button size="lg" disabled={!isComplete || overlappingLeg !== -1} onClick={handleContinue}>
+              {!user ? 'Login to Book' : 'Continue to Booking'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
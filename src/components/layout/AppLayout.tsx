@@ -3,6 +3,8 @@ import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { UserRole } from '@/types';
 import { cn } from '@/lib/utils';
+import { OfflineBanner } from '@/components/common/OfflineBanner';
+import { PriceWatchMonitor } from '@/components/flights/PriceWatchMonitor';
 
 // UI Components
 import { Button } from '@/components/ui/button';
@@ -29,6 +31,7 @@ import {
   LogOut,
   User,
   MapPin,
+  GanttChart,
 } from 'lucide-react';
 
 interface AppLayoutProps {
@@ -63,6 +66,13 @@ const navigationItems = [
     roles: [UserRole.OPERATOR, UserRole.ADMINISTRATOR],
     requireAuth: true,
   },
+  {
+    title: 'Fleet Schedule',
+    href: '/manage/fleet',
+    icon: GanttChart,
+    roles: [UserRole.OPERATOR, UserRole.ADMINISTRATOR],
+    requireAuth: true,
+  },
   {
     title: 'Manage Bookings',
     href: '/manage/bookings',
@@ -118,7 +128,7 @@ export const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
-      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+      <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 print:hidden">
         <div className="w-full max-w-none flex h-16 items-center justify-between px-4 sm:px-6 lg:px-8 xl:px-12">
           {/* Logo */}
           <div className="flex items-center space-x-4">
@@ -235,6 +245,9 @@ export const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
             </nav>
           </div>
         )}
+
+        {/* Connection Status */}
+        <OfflineBanner />
       </header>
 
       {/* Main Content */}
@@ -242,8 +255,11 @@ export const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
         {children}
       </main>
 
+      {/* Fare alerts for watched searches */}
+      <PriceWatchMonitor />
+
       {/* Footer */}
-      <footer className="border-t bg-background">
+      <footer className="border-t bg-background print:hidden">
         <div className="w-full max-w-none px-4 sm:px-6 lg:px-8 xl:px-12 py-8">
           <div className="grid grid-cols-1 md:grid-cols-4 gap-8">
             <div>
@@ -19,6 +19,7 @@ import { BookingDetailsPage } from '@/pages/BookingDetailsPage';
 // Admin/Operator Pages
 import { DashboardPage } from '@/pages/DashboardPage';
 import { FlightManagementPage } from '@/pages/FlightManagementPage';
+import { FleetSchedulePage } from '@/pages/FleetSchedulePage';
 import { BookingManagementPage } from '@/pages/BookingManagementPage';
 import { UserManagementPage } from '@/pages/admin/user-management';
 import { ReportsPage } from '@/pages/ReportsPage';
@@ -174,6 +175,16 @@ export const AppRouter: React.FC = () => {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/manage/fleet"
+          element={
+            <ProtectedRoute requiredRoles={[UserRole.OPERATOR, UserRole.ADMINISTRATOR]}>
+              <AppLayout>
+                <FleetSchedulePage />
+              </AppLayout>
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/manage/bookings"
           element={
@@ -0,0 +1,334 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { differenceInCalendarDays, isValid, parseISO } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { useAirportFlightReport, useAirports } from '@/hooks/queries/useFlightQueries';
+import { useSearchParamsState } from '@/hooks/useSearchParamsState';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { ReportHeader } from './ReportHeader';
+import { createAirportReportPdf, downloadBlob } from '@/lib/pdfDocuments';
+import { FlightStatus } from '@/types';
+import type { Airport, AppError, Flight } from '@/types';
+import { Download, MapPin } from 'lucide-react';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest range one report covers; the chart has a bar per day
+const MAX_REPORT_DAYS = 92;
+
+const isReportDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+
+// Calendar date (YYYY-MM-DD) of an instant at the airport
+const localDate = (iso: string, timeZone: string) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(
+    new Date(iso)
+  );
+
+const localTime = (iso: string, timeZone: string) =>
+  new Date(iso).toLocaleString([], { timeZone, dateStyle: 'medium', timeStyle: 'short' });
+
+interface MovementTableProps {
+  title: string;
+  flights: Flight[];
+  airport: Airport;
+  direction: 'departure' | 'arrival';
+}
+
+const MovementTable: React.FC<MovementTableProps> = ({ title, flights, airport, direction }) => (
+  <Card className="print:border-0 print:shadow-none">
+    <CardHeader>
+      <CardTitle>
+        {title} ({flights.length})
+      </CardTitle>
+    </CardHeader>
+    <CardContent>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{direction === 'departure' ? 'Departs' : 'Arrives'} (local)</TableHead>
+            <TableHead>Flight</TableHead>
+            <TableHead>{direction === 'departure' ? 'To' : 'From'}</TableHead>
+            <TableHead>Aircraft</TableHead>
+            <TableHead>Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {flights.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                No {direction === 'departure' ? 'departures' : 'arrivals'} in this period.
+              </TableCell>
+            </TableRow>
+          ) : (
+            flights.map((flight) => {
+              const other = direction === 'departure' ? flight.destinationAirport : flight.originAirport;
+              const at = direction === 'departure' ? flight.departureTime : flight.arrivalTime;
+              return (
+                <TableRow key={flight.id} className="print:break-inside-avoid">
+                  <TableCell className="whitespace-nowrap">{localTime(at, airport.timeZone)}</TableCell>
+                  <TableCell className="font-medium">{flight.flightNumber}</TableCell>
+                  <TableCell>
+                    {other.code} <span className="text-muted-foreground">{other.city}</span>
+                  </TableCell>
+                  <TableCell>
+                    {flight.airplaneModel}
+                    <span className="block text-xs text-muted-foreground">{flight.airplaneRegistration}</span>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={flight.status === FlightStatus.CANCELLED ? 'destructive' : 'outline'}>
+                      {flight.status}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          )}
+        </TableBody>
+      </Table>
+    </CardContent>
+  </Card>
+);
+
+/**
+ * Departures and arrivals at one airport over a range of days, counted in
+ * the airport's own time zone.
+ */
+export const AirportMovementReport: React.FC = () => {
+  const today = new Date().toISOString().split('T')[0];
+  const weekAhead = new Date(Date.now() + 6 * DAY_MS).toISOString().split('T')[0];
+  const [params, setParams] = useSearchParamsState({
+    airportId: '',
+    startDate: today,
+    endDate: weekAhead,
+    direction: 'all',
+    status: 'all',
+  });
+  const { airportId, startDate, endDate, direction, status } = params;
+  // The dates come from the URL, so a shared link can hold anything
+  const dayCount =
+    isReportDate(startDate) && isReportDate(endDate)
+      ? differenceInCalendarDays(parseISO(endDate), parseISO(startDate)) + 1
+      : 0;
+  const rangeError = !isReportDate(startDate) || !isReportDate(endDate)
+    ? 'Choose a start and an end date.'
+    : dayCount < 1
+      ? 'The end date must be on or after the start date.'
+      : dayCount > MAX_REPORT_DAYS
+        ? `A report covers at most ${MAX_REPORT_DAYS} days; choose a shorter range.`
+        : null;
+  const isRangeValid = !rangeError;
+
+  const { data: airports = [] } = useAirports();
+  const reportQuery = useAirportFlightReport(airportId, isRangeValid ? startDate : '', isRangeValid ? endDate : '');
+  const report = reportQuery.data;
+
+  const byStatus = (flights: Flight[]) => flights.filter((flight) => status === 'all' || flight.status === status);
+  const departures = report ? byStatus(report.departingFlights) : [];
+  const arrivals = report ? byStatus(report.arrivingFlights) : [];
+  const movements = [...departures, ...arrivals];
+  const [isExporting, setIsExporting] = useState(false);
+
+  // The PDF holds what is on screen: the same status filter and sections
+  const handleDownload = async () => {
+    if (!report) return;
+    setIsExporting(true);
+    try {
+      const blob = await createAirportReportPdf(
+        { ...report, departingFlights: departures, arrivingFlights: arrivals },
+        { period: `${startDate} to ${endDate}`, sections: direction as 'all' | 'departures' | 'arrivals' }
+      );
+      downloadBlob(blob, `airport-${report.airport.code}-${startDate}-to-${endDate}.pdf`);
+    } catch (error) {
+      toast.error((error as AppError).message || 'Failed to create the PDF');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // One bar per local day in the range, including quiet days
+  const dailyMovements = report && isRangeValid
+    ? Array.from({ length: dayCount }, (_, index) => {
+        const day = new Date(Date.parse(startDate) + index * DAY_MS).toISOString().split('T')[0];
+        const isOnDay = (iso: string) => localDate(iso, report.airport.timeZone) === day;
+        return {
+          day: day.slice(5),
+          departures: departures.filter((flight) => isOnDay(flight.departureTime)).length,
+          arrivals: arrivals.filter((flight) => isOnDay(flight.arrivalTime)).length,
+        };
+      })
+    : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <Card className="print:hidden">
+        <CardContent className="pt-6 grid gap-4 md:grid-cols-5">
+          <div className="space-y-2 md:col-span-2">
+            <Label>Airport</Label>
+            <Select value={airportId} onValueChange={(value) => setParams({ airportId: value })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select an airport" />
+              </SelectTrigger>
+              <SelectContent>
+                {airports.map((airport) => (
+                  <SelectItem key={airport.id} value={airport.id}>
+                    {airport.code} - {airport.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="airportStartDate">From</Label>
+            <Input
+              id="airportStartDate"
+              type="date"
+              value={startDate}
+              onChange={(e) => setParams({ startDate: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="airportEndDate">To</Label>
+            <Input
+              id="airportEndDate"
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setParams({ endDate: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={(value) => setParams({ status: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {Object.values(FlightStatus).map((flightStatus) => (
+                  <SelectItem key={flightStatus} value={flightStatus}>
+                    {flightStatus}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Show</Label>
+            <Select value={direction} onValueChange={(value) => setParams({ direction: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Departures and arrivals</SelectItem>
+                <SelectItem value="departures">Departures only</SelectItem>
+                <SelectItem value="arrivals">Arrivals only</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {rangeError && (
+        <Alert variant="destructive">
+          <AlertDescription>{rangeError}</AlertDescription>
+        </Alert>
+      )}
+
+      {!airportId && (
+        <div className="text-center py-12 text-muted-foreground">
+          <MapPin className="h-12 w-12 mx-auto mb-4" />
+          Choose an airport to see its arrivals and departures.
+        </div>
+      )}
+
+      {airportId && reportQuery.isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {reportQuery.isError && (
+        <Alert variant="destructive">
+          <AlertDescription>{reportQuery.error.message || 'Failed to load the airport report'}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && (
+        <>
+          <ReportHeader
+            title={`Airport Movements · ${report.airport.code}`}
+            subtitle={`${report.airport.name}, ${report.airport.city} · ${startDate} to ${endDate} (${report.airport.timeZone})`}
+            generatedAt={report.generatedAt}
+            actions={
+              <Button variant="outline" onClick={handleDownload} disabled={isExporting}>
+                <Download className="h-4 w-4 mr-2" />
+                {isExporting ? 'Preparing...' : 'Download PDF'}
+              </Button>
+            }
+          />
+
+          <div className="grid gap-4 md:grid-cols-4 print:grid-cols-4">
+            {[
+              { label: 'Departures', value: departures.length },
+              { label: 'Arrivals', value: arrivals.length },
+              {
+                label: 'Delayed',
+                value: movements.filter((flight) => flight.status === FlightStatus.DELAYED).length,
+              },
+              {
+                label: 'Cancelled',
+                value: movements.filter((flight) => flight.status === FlightStatus.CANCELLED).length,
+              },
+            ].map((stat) => (
+              <Card key={stat.label}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">{stat.label}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-2xl font-bold">{stat.value}</CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card className="print:break-inside-avoid">
+            <CardHeader>
+              <CardTitle>Movements per Day</CardTitle>
+            </CardHeader>
+            <CardContent className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={dailyMovements}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="day" />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Legend />
+                  {direction !== 'arrivals' && (
+                    <Bar dataKey="departures" name="Departures" fill="var(--chart-1)" />
+                  )}
+                  {direction !== 'departures' && (
+                    <Bar dataKey="arrivals" name="Arrivals" fill="var(--chart-2)" />
+                  )}
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          {direction !== 'arrivals' && (
+            <MovementTable title="Departures" flights={departures} airport={report.airport} direction="departure" />
+          )}
+          {direction !== 'departures' && (
+            <MovementTable title="Arrivals" flights={arrivals} airport={report.airport} direction="arrival" />
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,264 @@
+import React, { useMemo } from 'react';
+import { toast } from 'sonner';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { useFlights } from '@/hooks/queries/useFlightQueries';
+import { useDownloadPassengerManifest, usePassengerManifest } from '@/hooks/queries/useBookingQueries';
+import { useSearchParamsState } from '@/hooks/useSearchParamsState';
+import { useFlightTime } from '@/hooks/useFlightTime';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Combobox, type ComboboxOption } from '@/components/ui/combobox';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { ReportHeader } from './ReportHeader';
+import { compareSeatNumbers } from '@/lib/cabinLayout';
+import { downloadBlob } from '@/lib/pdfDocuments';
+import { SeatClass } from '@/types';
+import type { AppError, Flight } from '@/types';
+import { Download, Users } from 'lucide-react';
+
+const classLabels: Record<SeatClass, string> = {
+  [SeatClass.FIRST]: 'First',
+  [SeatClass.BUSINESS]: 'Business',
+  [SeatClass.ECONOMY]: 'Economy',
+};
+
+const availableSeats = (flight: Flight, seatClass: SeatClass) =>
+  ({
+    [SeatClass.FIRST]: flight.firstClassAvailableSeats,
+    [SeatClass.BUSINESS]: flight.businessClassAvailableSeats,
+    [SeatClass.ECONOMY]: flight.economyClassAvailableSeats,
+  })[seatClass];
+
+/**
+ * Everyone booked on one flight, by seat, for the gate and cabin crew.
+ * Flights are picked by departure date (UTC) and then by number.
+ */
+export const PassengerManifestReport: React.FC = () => {
+  const today = new Date().toISOString().split('T')[0];
+  const [params, setParams] = useSearchParamsState({ date: today, flightId: '', seatClass: 'all', checkIn: 'all' });
+  const { date, flightId, seatClass: classFilter, checkIn: checkInFilter } = params;
+
+  const flightsQuery = useFlights({ size: 100, filters: { date } });
+  const manifestQuery = usePassengerManifest(flightId || undefined);
+  const manifest = manifestQuery.data;
+  const downloadManifest = useDownloadPassengerManifest();
+  const { formatTime, formatDateTime } = useFlightTime();
+
+  const flightOptions: ComboboxOption[] = (flightsQuery.data?.data ?? []).map((flight) => ({
+    value: flight.id,
+    label: `${flight.flightNumber} · ${flight.originAirport.code} → ${flight.destinationAirport.code} · ${formatTime(
+      flight.departureTime,
+      flight.originAirport
+    )}`,
+    searchTerms: [flight.flightNumber, flight.originAirport.code, flight.destinationAirport.code],
+  }));
+
+  const passengers = useMemo(
+    () =>
+      (manifest?.passengers ?? [])
+        .filter((passenger) => classFilter === 'all' || passenger.seatClass === classFilter)
+        .filter((passenger) => checkInFilter === 'all' || !!passenger.checkedIn === (checkInFilter === 'checked-in'))
+        .sort((a, b) => compareSeatNumbers(a.seatNumber, b.seatNumber)),
+    [manifest, classFilter, checkInFilter]
+  );
+
+  const cabinLoad = manifest
+    ? Object.values(SeatClass).map((seatClass) => ({
+        cabin: classLabels[seatClass],
+        booked: manifest.passengers.filter((passenger) => passenger.seatClass === seatClass).length,
+        available: availableSeats(manifest.flight, seatClass),
+      }))
+    : [];
+  const checkedIn = manifest?.passengers.filter((passenger) => passenger.checkedIn).length ?? 0;
+
+  // The PDF always lists the whole flight, whatever the on-screen filters
+  const handleDownload = async () => {
+    if (!manifest) return;
+    try {
+      const blob = await downloadManifest.mutateAsync(flightId);
+      downloadBlob(blob, `manifest-${manifest.flight.flightNumber}-${manifest.flight.departureTime.split('T')[0]}.pdf`);
+    } catch (error) {
+      toast.error((error as AppError).message || 'Failed to download the manifest');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <Card className="print:hidden">
+        <CardContent className="pt-6 grid gap-4 md:grid-cols-4">
+          <div className="space-y-2">
+            <Label htmlFor="manifestDate">Departure date</Label>
+            <Input
+              id="manifestDate"
+              type="date"
+              value={date}
+              onChange={(e) => setParams({ date: e.target.value, flightId: '' })}
+            />
+          </div>
+          <div className="space-y-2 md:col-span-3">
+            <Label>Flight</Label>
+            <Combobox
+              options={flightOptions}
+              value={flightId ? Number(flightId) : undefined}
+              onValueChange={(value) => setParams({ flightId: String(value) })}
+              placeholder={flightOptions.length ? 'Select a flight...' : 'No flights depart on this date'}
+              searchPlaceholder="Search by flight number or airport..."
+              loading={flightsQuery.isLoading}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Cabin</Label>
+            <Select value={classFilter} onValueChange={(value) => setParams({ seatClass: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All cabins</SelectItem>
+                {Object.values(SeatClass).map((seatClass) => (
+                  <SelectItem key={seatClass} value={seatClass}>
+                    {classLabels[seatClass]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Check-in</Label>
+            <Select value={checkInFilter} onValueChange={(value) => setParams({ checkIn: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Everyone</SelectItem>
+                <SelectItem value="checked-in">Checked in</SelectItem>
+                <SelectItem value="not-checked-in">Not checked in</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {!flightId && (
+        <div className="text-center py-12 text-muted-foreground">
+          <Users className="h-12 w-12 mx-auto mb-4" />
+          Choose a flight to see its passenger manifest.
+        </div>
+      )}
+
+      {flightId && manifestQuery.isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {manifestQuery.isError && (
+        <Alert variant="destructive">
+          <AlertDescription>{manifestQuery.error.message || 'Failed to load the manifest'}</AlertDescription>
+        </Alert>
+      )}
+
+      {manifest && (
+        <>
+          <ReportHeader
+            title={`Passenger Manifest · ${manifest.flight.flightNumber}`}
+            subtitle={`${manifest.flight.originAirport.code} → ${manifest.flight.destinationAirport.code} · ${formatDateTime(
+              manifest.flight.departureTime,
+              manifest.flight.originAirport
+            )} · ${manifest.flight.airplaneModel} (${manifest.flight.airplaneRegistration})`}
+            generatedAt={manifest.generatedAt}
+            actions={
+              <Button variant="outline" onClick={handleDownload} disabled={downloadManifest.isPending}>
+                <Download className="h-4 w-4 mr-2" />
+                {downloadManifest.isPending ? 'Preparing...' : 'Download PDF'}
+              </Button>
+            }
+          />
+
+          <div className="grid gap-4 md:grid-cols-3 print:grid-cols-3">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Passengers</CardTitle>
+              </CardHeader>
+              <CardContent className="text-2xl font-bold">{manifest.passengers.length}</CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Checked in</CardTitle>
+              </CardHeader>
+              <CardContent className="text-2xl font-bold">
+                {checkedIn} / {manifest.passengers.length}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Flight status</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Badge variant="outline">{manifest.flight.status}</Badge>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="print:hidden">
+            <CardHeader>
+              <CardTitle>Cabin Load</CardTitle>
+            </CardHeader>
+            <CardContent className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={cabinLoad}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="cabin" />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="booked" name="Booked" stackId="seats" fill="var(--chart-2)" />
+                  <Bar dataKey="available" name="Available" stackId="seats" fill="var(--chart-4)" />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Seat</TableHead>
+                <TableHead>Passenger</TableHead>
+                <TableHead>Cabin</TableHead>
+                <TableHead>Booking</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead>Checked in</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {passengers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                    No passengers match these filters.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                passengers.map((passenger) => (
+                  <TableRow key={`${passenger.id}-${passenger.seatNumber}`} className="print:break-inside-avoid">
+                    <TableCell className="font-mono font-medium">{passenger.seatNumber}</TableCell>
+                    <TableCell>{passenger.passengerName}</TableCell>
+                    <TableCell>{classLabels[passenger.seatClass]}</TableCell>
+                    <TableCell className="font-mono">{passenger.bookingReference}</TableCell>
+                    <TableCell className="text-muted-foreground">{passenger.passengerEmail}</TableCell>
+                    <TableCell>{passenger.checkedIn ? 'Yes' : 'No'}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Printer } from 'lucide-react';
+
+interface ReportHeaderProps {
+  title: string;
+  subtitle?: string;
+  generatedAt?: string;
+  // Extra buttons shown next to Print, e.g. downloads
+  actions?: React.ReactNode;
+}
+
+/**
+ * Title block of a report. On screen it carries the report's buttons; on
+ * paper it is the document heading, with the time the data was produced.
+ */
+export const ReportHeader: React.FC<ReportHeaderProps> = ({ title, subtitle, generatedAt, actions }) => (
+  <div className="flex flex-wrap items-start justify-between gap-4 print:border-b print:pb-4">
+    <div>
+      <p className="hidden print:block text-sm font-semibold text-muted-foreground">Travel360</p>
+      <h2 className="text-2xl font-bold">{title}</h2>
+      {subtitle && <p className="text-muted-foreground">{subtitle}</p>}
+      {generatedAt && (
+        <p className="text-xs text-muted-foreground mt-1">Generated {new Date(generatedAt).toLocaleString()}</p>
+      )}
+    </div>
+    <div className="flex flex-wrap gap-2 print:hidden">
+      {actions}
+      <Button variant="outline" onClick={() => window.print()}>
+        <Printer className="h-4 w-4 mr-2" />
+        Print
+      </Button>
+    </div>
+  </div>
+);
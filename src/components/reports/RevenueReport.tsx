@@ -0,0 +1,329 @@
+import React, { useState } from 'react';
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { useBookingStatistics, useRevenueReport } from '@/hooks/queries/useBookingQueries';
+import { useSearchParamsState } from '@/hooks/useSearchParamsState';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { ReportHeader } from './ReportHeader';
+import { SeatClass } from '@/types';
+import { Search } from 'lucide-react';
+
+const GROUP_BY_OPTIONS = ['day', 'week', 'month'] as const;
+type GroupBy = (typeof GROUP_BY_OPTIONS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const classLabels: Record<SeatClass, string> = {
+  [SeatClass.FIRST]: 'First',
+  [SeatClass.BUSINESS]: 'Business',
+  [SeatClass.ECONOMY]: 'Economy',
+};
+
+const classColors: Record<SeatClass, string> = {
+  [SeatClass.FIRST]: 'var(--chart-4)',
+  [SeatClass.BUSINESS]: 'var(--chart-3)',
+  [SeatClass.ECONOMY]: 'var(--chart-2)',
+};
+
+const periodLabels: Record<GroupBy, string> = {
+  day: 'Day',
+  week: 'Week starting',
+  month: 'Month',
+};
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(price);
+
+/**
+ * Takings from bookings made in a date range, over time, per cabin and per
+ * route. Cancelled bookings count towards cancellations but not revenue.
+ */
+export const RevenueReport: React.FC = () => {
+  const today = new Date().toISOString().split('T')[0];
+  const monthAgo = new Date(Date.now() - 29 * DAY_MS).toISOString().split('T')[0];
+  const [params, setParams] = useSearchParamsState({ startDate: monthAgo, endDate: today, groupBy: 'day' });
+  const { startDate, endDate } = params;
+  const requestedGroupBy = params.groupBy as GroupBy;
+  const groupBy: GroupBy = GROUP_BY_OPTIONS.includes(requestedGroupBy) ? requestedGroupBy : 'day';
+  const [routeSearch, setRouteSearch] = useState('');
+  const isRangeValid = !!startDate && !!endDate && startDate <= endDate;
+
+  const reportParams = { startDate, endDate, groupBy };
+  const revenueQuery = useRevenueReport(reportParams, { enabled: isRangeValid });
+  const statisticsQuery = useBookingStatistics(reportParams, { enabled: isRangeValid });
+  const report = revenueQuery.data;
+  const statistics = statisticsQuery.data;
+
+  const routes = (report?.byRoute ?? [])
+    .map((route) => ({ ...route, label: `${route.origin} → ${route.destination}` }))
+    .filter((route) => !routeSearch || route.label.toLowerCase().includes(routeSearch.toLowerCase()));
+  const timeline = statistics?.timeline ?? [];
+  const classRevenue = (report?.byClass ?? []).map((entry) => ({ ...entry, name: classLabels[entry.seatClass] }));
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <Card className="print:hidden">
+        <CardContent className="pt-6 grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="revenueStartDate">Booked from</Label>
+            <Input
+              id="revenueStartDate"
+              type="date"
+              value={startDate}
+              onChange={(e) => setParams({ startDate: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="revenueEndDate">Booked to</Label>
+            <Input
+              id="revenueEndDate"
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setParams({ endDate: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Group by</Label>
+            <Select value={groupBy} onValueChange={(value) => setParams({ groupBy: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">Day</SelectItem>
+                <SelectItem value="week">Week</SelectItem>
+                <SelectItem value="month">Month</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {!isRangeValid && (
+        <Alert variant="destructive">
+          <AlertDescription>The end date must be on or after the start date.</AlertDescription>
+        </Alert>
+      )}
+
+      {isRangeValid && (revenueQuery.isLoading || statisticsQuery.isLoading) && (
+        <div className="flex items-center justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {(revenueQuery.isError || statisticsQuery.isError) && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            {(revenueQuery.error ?? statisticsQuery.error)?.message || 'Failed to load the revenue report'}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {report && statistics && (
+        <>
+          <ReportHeader title="Revenue" subtitle={`Bookings made ${report.startDate} to ${report.endDate}`} />
+
+          <div className="grid gap-4 md:grid-cols-4 print:grid-cols-4">
+            {[
+              { label: 'Revenue', value: formatPrice(report.totalRevenue) },
+              { label: 'Paid bookings', value: report.totalBookings.toLocaleString() },
+              { label: 'Average booking', value: formatPrice(statistics.averageBookingValue) },
+              {
+                label: 'Cancellations',
+                value: `${statistics.cancelledBookings} of ${statistics.totalBookings}`,
+              },
+            ].map((stat) => (
+              <Card key={stat.label}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">{stat.label}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-2xl font-bold">{stat.value}</CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-3 print:grid-cols-1">
+            <Card className="lg:col-span-2 print:break-inside-avoid">
+              <CardHeader>
+                <CardTitle>Revenue over Time</CardTitle>
+              </CardHeader>
+              <CardContent className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={timeline}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="period" />
+                    <YAxis yAxisId="revenue" tickFormatter={(value: number) => formatPrice(value)} width={80} />
+                    <YAxis yAxisId="bookings" orientation="right" allowDecimals={false} />
+                    <Tooltip
+                      formatter={(value: number, name: string) => (name === 'Revenue' ? formatPrice(value) : value)}
+                    />
+                    <Legend />
+                    <Area
+                      yAxisId="revenue"
+                      type="monotone"
+                      dataKey="revenue"
+                      name="Revenue"
+                      stroke="var(--chart-1)"
+                      fill="var(--chart-1)"
+                      fillOpacity={0.2}
+                    />
+                    <Area
+                      yAxisId="bookings"
+                      type="monotone"
+                      dataKey="cancellations"
+                      name="Cancellations"
+                      stroke="var(--chart-5)"
+                      fill="var(--chart-5)"
+                      fillOpacity={0.1}
+                    />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            <Card className="print:break-inside-avoid">
+              <CardHeader>
+                <CardTitle>By Cabin</CardTitle>
+              </CardHeader>
+              <CardContent className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <PieChart>
+                    <Pie data={classRevenue} dataKey="revenue" nameKey="name" innerRadius="45%" outerRadius="75%">
+                      {classRevenue.map((entry) => (
+                        <Cell key={entry.seatClass} fill={classColors[entry.seatClass]} />
+                      ))}
+                    </Pie>
+                    <Tooltip formatter={(value: number) => formatPrice(value)} />
+                    <Legend />
+                  </PieChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="print:break-inside-avoid">
+            <CardHeader>
+              <CardTitle>Top Routes</CardTitle>
+            </CardHeader>
+            <CardContent className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={routes.slice(0, 10)} layout="vertical" margin={{ left: 24 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                  <XAxis type="number" tickFormatter={(value: number) => formatPrice(value)} />
+                  <YAxis type="category" dataKey="label" width={100} />
+                  <Tooltip formatter={(value: number) => formatPrice(value)} />
+                  <Bar dataKey="revenue" name="Revenue" fill="var(--chart-2)" />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2 print:grid-cols-1">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+                <CardTitle>Revenue by Route</CardTitle>
+                <div className="relative w-48 print:hidden">
+                  <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Filter routes..."
+                    value={routeSearch}
+                    onChange={(e) => setRouteSearch(e.target.value)}
+                    className="pl-8"
+                  />
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Route</TableHead>
+                      <TableHead className="text-right">Bookings</TableHead>
+                      <TableHead className="text-right">Revenue</TableHead>
+                      <TableHead className="text-right">Share</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {routes.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center text-muted-foreground py-6">
+                          No routes match.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      routes.map((route) => (
+                        <TableRow key={route.label} className="print:break-inside-avoid">
+                          <TableCell className="font-medium">{route.label}</TableCell>
+                          <TableCell className="text-right">{route.bookings}</TableCell>
+                          <TableCell className="text-right">{formatPrice(route.revenue)}</TableCell>
+                          <TableCell className="text-right text-muted-foreground">
+                            {report.totalRevenue ? ((route.revenue / report.totalRevenue) * 100).toFixed(1) : '0.0'}%
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Revenue by Period</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{periodLabels[groupBy]}</TableHead>
+                      <TableHead className="text-right">Bookings</TableHead>
+                      <TableHead className="text-right">Cancelled</TableHead>
+                      <TableHead className="text-right">Revenue</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {timeline.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center text-muted-foreground py-6">
+                          No bookings in this period.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      timeline.map((entry) => (
+                        <TableRow key={entry.period} className="print:break-inside-avoid">
+                          <TableCell className="font-medium">{entry.period}</TableCell>
+                          <TableCell className="text-right">{entry.bookings}</TableCell>
+                          <TableCell className="text-right">{entry.cancellations}</TableCell>
+                          <TableCell className="text-right">{formatPrice(entry.revenue)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
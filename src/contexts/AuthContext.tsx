@@ -4,6 +4,7 @@ import type { AuthState, LoginCredentials, UserRole } from '@/types';
 import { authService } from '@/services/authService';
 import { apiService } from '@/services/api';
 import { toast } from 'sonner';
+import { useQueryClient } from '@tanstack/react-query';
 
 interface AuthContextType extends AuthState {
   login: (credentials: LoginCredentials) => Promise<boolean>;
@@ -18,6 +19,7 @@ interface AuthProviderProps {
 }
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const queryClient = useQueryClient();
   const [authState, setAuthState] = useState<AuthState>({
     user: null,
     token: null,
@@ -146,6 +148,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         isAuthenticated: false,
         isLoading: false,
       });
+    } finally {
+      // Cached queries belong to the user who just signed out
+      queryClient.clear();
     }
   };
 
@@ -0,0 +1,74 @@
+import type { FlightSearchCriteria, ListQuery, UserRole } from '@/types';
+
+// Lets a page mount a list query that only runs in some states, e.g. while a dialog is open
+export interface QueryToggle {
+  enabled?: boolean;
+  // Polls while mounted, for screens that show live statuses
+  refetchInterval?: number;
+}
+
+/**
+ * Cache keys for every query. Each entity has an `all` root so a mutation can
+ * invalidate everything derived from it with a single call.
+ */
+export const queryKeys = {
+  airports: {
+    all: ['airports'] as const,
+    list: () => [...queryKeys.airports.all, 'list'] as const,
+    detail: (id: string) => [...queryKeys.airports.all, 'detail', id] as const,
+  },
+  airplanes: {
+    all: ['airplanes'] as const,
+    list: () => [...queryKeys.airplanes.all, 'list'] as const,
+    detail: (id: string) => [...queryKeys.airplanes.all, 'detail', id] as const,
+  },
+  flights: {
+    all: ['flights'] as const,
+    list: (query: ListQuery<object> = {}) => [...queryKeys.flights.all, 'list', query] as const,
+    detail: (id: string) => [...queryKeys.flights.all, 'detail', id] as const,
+    search: (kind: 'summary' | 'full', criteria: FlightSearchCriteria | null) =>
+      [...queryKeys.flights.all, 'search', kind, criteria] as const,
+    direct: (origin: string, destination: string, departureDate: string) =>
+      [...queryKeys.flights.all, 'direct', origin, destination, departureDate] as const,
+    transit: (origin: string, destination: string, departureDate: string) =>
+      [...queryKeys.flights.all, 'transit', origin, destination, departureDate] as const,
+    availability: (flightId: string, seatClass: string) =>
+      [...queryKeys.flights.all, 'availability', flightId, seatClass] as const,
+    seats: (flightId: string, seatClass: string) =>
+      [...queryKeys.flights.all, 'seats', flightId, seatClass] as const,
+    cabinLayout: (flightId: string) => [...queryKeys.flights.all, 'cabin-layout', flightId] as const,
+    byAirplane: (airplaneId: string) => [...queryKeys.flights.all, 'airplane', airplaneId] as const,
+    popularRoutes: () => [...queryKeys.flights.all, 'popular-routes'] as const,
+  },
+  reports: {
+    all: ['reports'] as const,
+    airportFlights: (airportId: string, startDate: string, endDate: string) =>
+      [...queryKeys.reports.all, 'airport-flights', airportId, startDate, endDate] as const,
+    flightStatistics: (period?: string) => [...queryKeys.reports.all, 'flight-statistics', period] as const,
+  },
+  bookings: {
+    all: ['bookings'] as const,
+    list: (query: ListQuery<object> = {}) => [...queryKeys.bookings.all, 'list', query] as const,
+    user: (userId: string, query: ListQuery<object> = {}) =>
+      [...queryKeys.bookings.all, 'user', userId, query] as const,
+    mine: (query: ListQuery<object> = {}) => [...queryKeys.bookings.all, 'mine', query] as const,
+    detail: (id: string) => [...queryKeys.bookings.all, 'detail', id] as const,
+    reference: (reference: string) => [...queryKeys.bookings.all, 'reference', reference] as const,
+    bookedSeats: (flightId: string, seatClass: string) =>
+      [...queryKeys.bookings.all, 'booked-seats', flightId, seatClass] as const,
+    manifest: (flightId: string) => [...queryKeys.bookings.all, 'manifest', flightId] as const,
+    checkedIn: (flightId: string) => [...queryKeys.bookings.all, 'checked-in', flightId] as const,
+    statistics: (params: object = {}) => [...queryKeys.bookings.all, 'statistics', params] as const,
+    revenue: (params: object = {}) => [...queryKeys.bookings.all, 'revenue', params] as const,
+    popularDestinations: (params: object = {}) =>
+      [...queryKeys.bookings.all, 'popular-destinations', params] as const,
+    search: (criteria: object) => [...queryKeys.bookings.all, 'search', criteria] as const,
+  },
+  users: {
+    all: ['users'] as const,
+    list: (query: ListQuery<object> = {}) => [...queryKeys.users.all, 'list', query] as const,
+    detail: (id: number) => [...queryKeys.users.all, 'detail', id] as const,
+    byRole: (role: UserRole) => [...queryKeys.users.all, 'role', role] as const,
+    search: (query: string) => [...queryKeys.users.all, 'search', query] as const,
+  },
+};
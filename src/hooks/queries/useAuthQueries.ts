@@ -0,0 +1,29 @@
+import { useMutation } from '@tanstack/react-query';
+import { authService } from '@/services/authService';
+import { unwrap } from '@/lib/queryClient';
+import type { CreateUserForm } from '@/types';
+
+// Signing in, signing out and the current session stay in AuthContext;
+// these cover the account flows that don't change who is signed in.
+
+export const useRegister = () =>
+  useMutation({
+    mutationFn: (userData: CreateUserForm) => authService.register(userData).then(unwrap),
+  });
+
+export const useChangePassword = () =>
+  useMutation({
+    mutationFn: ({ currentPassword, newPassword }: { currentPassword: string; newPassword: string }) =>
+      authService.changePassword(currentPassword, newPassword).then(unwrap),
+  });
+
+export const useForgotPassword = () =>
+  useMutation({
+    mutationFn: (email: string) => authService.forgotPassword(email).then(unwrap),
+  });
+
+export const useResetPassword = () =>
+  useMutation({
+    mutationFn: ({ token, newPassword }: { token: string; newPassword: string }) =>
+      authService.resetPassword(token, newPassword).then(unwrap),
+  });
@@ -0,0 +1,205 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { bookingService } from '@/services/bookingService';
+import { unwrap, unwrapPage } from '@/lib/queryClient';
+import { queryKeys } from './queryKeys';
+import type { QueryToggle } from './queryKeys';
+import type { BookingListFilters, CreateBookingForm, ListQuery } from '@/types';
+
+// A customer's own bookings are already scoped to them, so there is no customer filter
+type OwnBookingQuery = ListQuery<Omit<BookingListFilters, 'customerId'>>;
+type BookingStatisticsParams = Parameters<typeof bookingService.getBookingStatistics>[0];
+type RevenueReportParams = Parameters<typeof bookingService.getRevenueReport>[0];
+type PopularDestinationParams = Parameters<typeof bookingService.getPopularDestinations>[0];
+type BookingSearchCriteria = Parameters<typeof bookingService.searchBookings>[0];
+
+// Booking Queries
+export const useBookings = (query?: ListQuery<BookingListFilters>, { enabled = true }: QueryToggle = {}) =>
+  useQuery({
+    queryKey: queryKeys.bookings.list(query),
+    queryFn: ({ signal }) => bookingService.getAllBookings(query, { signal }).then(unwrapPage),
+    enabled,
+    placeholderData: (previous) => previous,
+  });
+
+export const useUserBookings = (userId?: string, query?: OwnBookingQuery) =>
+  useQuery({
+    queryKey: queryKeys.bookings.user(userId ?? '', query),
+    queryFn: ({ signal }) => bookingService.getUserBookings(userId!, query, { signal }).then(unwrapPage),
+    enabled: !!userId,
+    placeholderData: (previous) => previous,
+  });
+
+export const useMyBookings = (query?: OwnBookingQuery, { enabled = true }: QueryToggle = {}) =>
+  useQuery({
+    queryKey: queryKeys.bookings.mine(query),
+    queryFn: ({ signal }) => bookingService.getMyBookings(query, { signal }).then(unwrapPage),
+    enabled,
+    placeholderData: (previous) => previous,
+  });
+
+export const useBooking = (id?: string) =>
+  useQuery({
+    queryKey: queryKeys.bookings.detail(id ?? ''),
+    queryFn: ({ signal }) => bookingService.getBookingById(id!, { signal }).then(unwrap),
+    enabled: !!id,
+  });
+
+export const useBookingByReference = (reference?: string) =>
+  useQuery({
+    queryKey: queryKeys.bookings.reference(reference ?? ''),
+    queryFn: ({ signal }) => bookingService.getBookingByReference(reference!, { signal }).then(unwrap),
+    enabled: !!reference,
+  });
+
+export const useBookedSeats = (flightId?: string, seatClass?: string) =>
+  useQuery({
+    queryKey: queryKeys.bookings.bookedSeats(flightId ?? '', seatClass ?? ''),
+    queryFn: ({ signal }) => bookingService.getBookedSeats(flightId!, seatClass!, { signal }).then(unwrap),
+    enabled: !!flightId && !!seatClass,
+  });
+
+export const usePassengerManifest = (flightId?: string) =>
+  useQuery({
+    queryKey: queryKeys.bookings.manifest(flightId ?? ''),
+    queryFn: ({ signal }) => bookingService.getPassengerManifest(flightId!, { signal }).then(unwrap),
+    enabled: !!flightId,
+  });
+
+export const useCheckedInPassengers = (flightId?: string) =>
+  useQuery({
+    queryKey: queryKeys.bookings.checkedIn(flightId ?? ''),
+    queryFn: ({ signal }) => bookingService.getCheckedInPassengers(flightId!, { signal }).then(unwrap),
+    enabled: !!flightId,
+  });
+
+export const useBookingSearch = (criteria: BookingSearchCriteria | null) =>
+  useQuery({
+    queryKey: queryKeys.bookings.search(criteria ?? {}),
+    queryFn: ({ signal }) => bookingService.searchBookings(criteria!, { signal }).then(unwrap),
+    enabled: !!criteria,
+  });
+
+// Booking Reports
+export const useBookingStatistics = (params?: BookingStatisticsParams, { enabled = true }: QueryToggle = {}) =>
+  useQuery({
+    queryKey: queryKeys.bookings.statistics(params),
+    queryFn: ({ signal }) => bookingService.getBookingStatistics(params, { signal }).then(unwrap),
+    enabled,
+  });
+
+export const useRevenueReport = (params?: RevenueReportParams, { enabled = true }: QueryToggle = {}) =>
+  useQuery({
+    queryKey: queryKeys.bookings.revenue(params),
+    queryFn: ({ signal }) => bookingService.getRevenueReport(params, { signal }).then(unwrap),
+    enabled,
+  });
+
+export const usePopularDestinations = (params?: PopularDestinationParams) =>
+  useQuery({
+    queryKey: queryKeys.bookings.popularDestinations(params),
+    queryFn: ({ signal }) => bookingService.getPopularDestinations(params, { signal }).then(unwrap),
+  });
+
+/**
+ * Booking changes move seat counts, so flight availability and reports are
+ * refreshed together with every booking list.
+ */
+const useInvalidateBookings = () => {
+  const queryClient = useQueryClient();
+  return () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookings.all }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.flights.all }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.reports.all }),
+    ]);
+};
+
+// Booking Mutations
+export const useCreateBooking = () => {
+  const invalidateBookings = useInvalidateBookings();
+  return useMutation({
+    mutationFn: (bookingData: CreateBookingForm) => bookingService.createBooking(bookingData).then(unwrap),
+    onSuccess: invalidateBookings,
+  });
+};
+
+export const useUpdateBooking = () => {
+  const invalidateBookings = useInvalidateBookings();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<CreateBookingForm> }) =>
+      bookingService.updateBooking(id, data).then(unwrap),
+    onSuccess: invalidateBookings,
+  });
+};
+
+export const useCancelBooking = () => {
+  const invalidateBookings = useInvalidateBookings();
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason?: string }) =>
+      bookingService.cancelBooking(id, reason).then(unwrap),
+    onSuccess: invalidateBookings,
+  });
+};
+
+export const useConfirmBooking = () => {
+  const invalidateBookings = useInvalidateBookings();
+  return useMutation({
+    mutationFn: (id: string) => bookingService.confirmBooking(id).then(unwrap),
+    onSuccess: invalidateBookings,
+  });
+};
+
+export const useSelectSeat = () => {
+  const invalidateBookings = useInvalidateBookings();
+  return useMutation({
+    mutationFn: ({ bookingId, seatNumber, passengerId }: { bookingId: string; seatNumber: string; passengerId?: string }) =>
+      bookingService.selectSeat(bookingId, seatNumber, passengerId).then(unwrap),
+    onSuccess: invalidateBookings,
+  });
+};
+
+export const useCheckIn = () => {
+  const invalidateBookings = useInvalidateBookings();
+  return useMutation({
+    mutationFn: (bookingId: string) => bookingService.checkIn(bookingId).then(unwrap),
+    onSuccess: invalidateBookings,
+  });
+};
+
+export const useBulkCancelBookings = () => {
+  const invalidateBookings = useInvalidateBookings();
+  return useMutation({
+    mutationFn: ({ bookingIds, reason }: { bookingIds: string[]; reason: string }) =>
+      bookingService.bulkCancelBookings(bookingIds, reason).then(unwrap),
+    onSuccess: invalidateBookings,
+  });
+};
+
+export const useBulkConfirmBookings = () => {
+  const invalidateBookings = useInvalidateBookings();
+  return useMutation({
+    mutationFn: (bookingIds: string[]) => bookingService.bulkConfirmBookings(bookingIds).then(unwrap),
+    onSuccess: invalidateBookings,
+  });
+};
+
+// Side-effect free calls that are only made on demand
+export const useValidateBooking = () =>
+  useMutation({
+    mutationFn: (bookingData: CreateBookingForm) => bookingService.validateBooking(bookingData).then(unwrap),
+  });
+
+export const useDownloadPassengerManifest = () =>
+  useMutation({
+    mutationFn: (flightId: string) => bookingService.downloadPassengerManifest(flightId),
+  });
+
+export const useSendBookingConfirmation = () =>
+  useMutation({
+    mutationFn: (bookingId: string) => bookingService.sendBookingConfirmation(bookingId).then(unwrap),
+  });
+
+export const useSendReminderEmail = () =>
+  useMutation({
+    mutationFn: (bookingId: string) => bookingService.sendReminderEmail(bookingId).then(unwrap),
+  });
@@ -0,0 +1,397 @@
+import { useMutation, useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
+import { flightService } from '@/services/flightService';
+import { unwrap, unwrapPage } from '@/lib/queryClient';
+import { getTripLegs, toLegCriteria } from '@/lib/tripSearch';
+import { queryKeys } from './queryKeys';
+import type { QueryToggle } from './queryKeys';
+import type {
+  Airplane,
+  Airport,
+  AppError,
+  CreateFlightForm,
+  FlightListFilters,
+  FlightSearchCriteria,
+  ListQuery,
+  SeatClass,
+} from '@/types';
+
+// Flight Search
+export const useFlightSearchSummary = (criteria: FlightSearchCriteria | null) =>
+  useQuery({
+    queryKey: queryKeys.flights.search('summary', criteria),
+    queryFn: ({ signal }) => flightService.searchFlightSummary(criteria!, { signal }).then(unwrap),
+    enabled: !!criteria,
+  });
+
+// Searches every leg of a trip separately; one result per leg, in travel order
+export const useTripSearch = (criteria: FlightSearchCriteria | null) =>
+  useQueries({
+    queries: (criteria ? getTripLegs(criteria) : []).map((leg) => {
+      const legCriteria = toLegCriteria(criteria!, leg);
+      return {
+        queryKey: queryKeys.flights.search('summary', legCriteria),
+        queryFn: ({ signal }: { signal: AbortSignal }) =>
+          flightService.searchFlightSummary(legCriteria, { signal }).then(unwrap),
+      };
+    }),
+  });
+
+// One search per calendar day, shared with the results list so picking a day is instant
+export const useFareCalendar = (criteria: FlightSearchCriteria | null, days: string[]) =>
+  useQueries({
+    queries: (criteria ? days : []).map((day) => {
+      const dayCriteria = toLegCriteria(criteria!, {
+        originAirportId: criteria!.originAirportId,
+        destinationAirportId: criteria!.destinationAirportId,
+        departureDate: day,
+      });
+      return {
+        queryKey: queryKeys.flights.search('summary', dayCriteria),
+        queryFn: ({ signal }: { signal: AbortSignal }) =>
+          flightService.searchFlightSummary(dayCriteria, { signal }).then(unwrap),
+      };
+    }),
+  });
+
+// Every leg of every watched search, in order, re-run on a timer while the app is open
+export const usePriceWatchSearches = (searches: FlightSearchCriteria[], { refetchInterval }: QueryToggle = {}) =>
+  useQueries({
+    queries: searches
+      .flatMap((criteria) => getTripLegs(criteria).map((leg) => toLegCriteria(criteria, leg)))
+      .map((legCriteria) => ({
+        queryKey: queryKeys.flights.search('summary', legCriteria),
+        queryFn: ({ signal }: { signal: AbortSignal }) =>
+          flightService.searchFlightSummary(legCriteria, { signal }).then(unwrap),
+        refetchInterval,
+      })),
+  });
+
+export const useFlightSearch = (criteria: FlightSearchCriteria | null) =>
+  useQuery({
+    queryKey: queryKeys.flights.search('full', criteria),
+    queryFn: ({ signal }) => flightService.searchFlights(criteria!, { signal }).then(unwrap),
+    enabled: !!criteria,
+  });
+
+export const useDirectFlights = (origin: string, destination: string, departureDate: string) =>
+  useQuery({
+    queryKey: queryKeys.flights.direct(origin, destination, departureDate),
+    queryFn: ({ signal }) =>
+      flightService.getDirectFlights(origin, destination, departureDate, { signal }).then(unwrap),
+    enabled: !!origin && !!destination && !!departureDate,
+  });
+
+export const useTransitFlights = (origin: string, destination: string, departureDate: string) =>
+  useQuery({
+    queryKey: queryKeys.flights.transit(origin, destination, departureDate),
+    queryFn: ({ signal }) =>
+      flightService.getTransitFlights(origin, destination, departureDate, { signal }).then(unwrap),
+    enabled: !!origin && !!destination && !!departureDate,
+  });
+
+// Flight Management
+export const useFlights = (
+  query?: ListQuery<FlightListFilters>,
+  { enabled = true, refetchInterval }: QueryToggle = {}
+) =>
+  useQuery({
+    queryKey: queryKeys.flights.list(query),
+    queryFn: ({ signal }) => flightService.getAllFlights(query, { signal }).then(unwrapPage),
+    enabled,
+    refetchInterval,
+    // Keep the current page on screen while the next one loads
+    placeholderData: (previous) => previous,
+  });
+
+export const useFlight = (id?: string) =>
+  useQuery({
+    queryKey: queryKeys.flights.detail(id ?? ''),
+    queryFn: ({ signal }) => flightService.getFlightById(id!, { signal }).then(unwrap),
+    enabled: !!id,
+  });
+
+// Every flight of a multi-flight trip, in the order given
+export const useTripFlights = (ids: string[]) =>
+  useQueries({
+    queries: ids.map((id) => ({
+      queryKey: queryKeys.flights.detail(id),
+      queryFn: ({ signal }: { signal: AbortSignal }) => flightService.getFlightById(id, { signal }).then(unwrap),
+    })),
+  });
+
+// Direct searches for every route on every one of `days`, route by route, e.g. to show a route's lowest fare
+export const useRouteFareSearches = (
+  routes: { originAirportId: number; destinationAirportId: number }[],
+  days: string[],
+  seatClass?: SeatClass
+) =>
+  useQueries({
+    queries: routes.flatMap((route) =>
+      days.map((day) => {
+        const criteria: FlightSearchCriteria = {
+          ...route,
+          departureDate: day,
+          seatClass,
+          passengers: 1,
+          includeTransit: false,
+        };
+        return {
+          queryKey: queryKeys.flights.search('summary', criteria),
+          queryFn: ({ signal }: { signal: AbortSignal }) =>
+            flightService.searchFlightSummary(criteria, { signal }).then(unwrap),
+        };
+      })
+    ),
+  });
+
+export const useFlightsByAirplane = (airplaneId?: string) =>
+  useQuery({
+    queryKey: queryKeys.flights.byAirplane(airplaneId ?? ''),
+    queryFn: ({ signal }) => flightService.getFlightsByAirplane(airplaneId!, { signal }).then(unwrap),
+    enabled: !!airplaneId,
+  });
+
+// Every flight of each airplane, one result per airplane in the same order
+export const useFleetFlights = (airplaneIds: string[]) =>
+  useQueries({
+    queries: airplaneIds.map((airplaneId) => ({
+      queryKey: queryKeys.flights.byAirplane(airplaneId),
+      queryFn: ({ signal }: { signal: AbortSignal }) =>
+        flightService.getFlightsByAirplane(airplaneId, { signal }).then(unwrap),
+    })),
+  });
+
+export const usePopularRoutes = () =>
+  useQuery({
+    queryKey: queryKeys.flights.popularRoutes(),
+    queryFn: ({ signal }) => flightService.getPopularRoutes({ signal }).then(unwrap),
+  });
+
+// Flight Availability
+export const useSeatAvailability = (flightId?: string, seatClass?: string) =>
+  useQuery({
+    queryKey: queryKeys.flights.availability(flightId ?? '', seatClass ?? ''),
+    queryFn: ({ signal }) =>
+      flightService.checkSeatAvailability(flightId!, seatClass!, { signal }).then(unwrap),
+    enabled: !!flightId && !!seatClass,
+  });
+
+export const useAvailableSeats = (flightId?: string, seatClass?: string) =>
+  useQuery({
+    queryKey: queryKeys.flights.seats(flightId ?? '', seatClass ?? ''),
+    queryFn: ({ signal }) => flightService.getAvailableSeats(flightId!, seatClass!, { signal }).then(unwrap),
+    enabled: !!flightId && !!seatClass,
+  });
+
+export const useCabinLayout = (flightId?: string) =>
+  useQuery({
+    queryKey: queryKeys.flights.cabinLayout(flightId ?? ''),
+    queryFn: ({ signal }) => flightService.getCabinLayout(flightId!, { signal }).then(unwrap),
+    enabled: !!flightId,
+    // The airplane behind a flight seldom changes while a seat is being picked
+    staleTime: 5 * 60 * 1000,
+  });
+
+// Airports
+export const useAirports = ({ enabled = true }: QueryToggle = {}) =>
+  useQuery({
+    queryKey: queryKeys.airports.list(),
+    queryFn: ({ signal }) => flightService.getAllAirports({ signal }).then(unwrap),
+    enabled,
+    // Airports rarely change within a session
+    staleTime: 5 * 60 * 1000,
+  });
+
+export const useAirport = (id?: string) =>
+  useQuery({
+    queryKey: queryKeys.airports.detail(id ?? ''),
+    queryFn: ({ signal }) => flightService.getAirportById(id!, { signal }).then(unwrap),
+    enabled: !!id,
+  });
+
+// Airplanes
+export const useAirplanes = () =>
+  useQuery({
+    queryKey: queryKeys.airplanes.list(),
+    queryFn: ({ signal }) => flightService.getAllAirplanes({ signal }).then(unwrap),
+  });
+
+export const useAirplane = (id?: string) =>
+  useQuery({
+    queryKey: queryKeys.airplanes.detail(id ?? ''),
+    queryFn: ({ signal }) => flightService.getAirplaneById(id!, { signal }).then(unwrap),
+    enabled: !!id,
+  });
+
+// Reports
+export const useAirportFlightReport = (airportId: string, startDate: string, endDate: string) =>
+  useQuery({
+    queryKey: queryKeys.reports.airportFlights(airportId, startDate, endDate),
+    queryFn: ({ signal }) =>
+      flightService.getAirportFlightReport(airportId, startDate, endDate, { signal }).then(unwrap),
+    enabled: !!airportId && !!startDate && !!endDate,
+  });
+
+export const useFlightStatistics = (period?: string) =>
+  useQuery({
+    queryKey: queryKeys.reports.flightStatistics(period),
+    queryFn: ({ signal }) => flightService.getFlightStatistics(period, { signal }).then(unwrap),
+  });
+
+/**
+ * Invalidates everything that embeds flight data: flight lists and searches,
+ * bookings (which carry their flight) and reports.
+ */
+const useInvalidateFlights = () => {
+  const queryClient = useQueryClient();
+  return () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.flights.all }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookings.all }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.reports.all }),
+    ]);
+};
+
+// Flight Mutations
+export const useCreateFlight = () => {
+  const invalidateFlights = useInvalidateFlights();
+  return useMutation({
+    mutationFn: (flightData: CreateFlightForm) => flightService.createFlight(flightData).then(unwrap),
+    onSuccess: invalidateFlights,
+  });
+};
+
+/**
+ * Creates flights one after another, so the backend's conflict checks see
+ * each new one, and refreshes flight data once at the end instead of after
+ * every flight. Resolves to each flight's error, or null where it was
+ * created; flights not reached before `signal` aborts are left out.
+ */
+export const useCreateFlights = () => {
+  const invalidateFlights = useInvalidateFlights();
+  return useMutation({
+    mutationFn: async ({
+      flights,
+      signal,
+      onProgress,
+    }: {
+      flights: CreateFlightForm[];
+      signal?: AbortSignal;
+      onProgress?: (done: number) => void;
+    }) => {
+      const results: (AppError | null)[] = [];
+      for (const flight of flights) {
+        if (signal?.aborted) break;
+        try {
+          await flightService.createFlight(flight).then(unwrap);
+          results.push(null);
+        } catch (error) {
+          results.push(error as AppError);
+        }
+        onProgress?.(results.length);
+      }
+      return results;
+    },
+    onSettled: invalidateFlights,
+  });
+};
+
+export const useUpdateFlight = () => {
+  const invalidateFlights = useInvalidateFlights();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<CreateFlightForm> }) =>
+      flightService.updateFlight(id, data).then(unwrap),
+    onSuccess: invalidateFlights,
+  });
+};
+
+export const useDeleteFlight = () => {
+  const invalidateFlights = useInvalidateFlights();
+  return useMutation({
+    mutationFn: (id: string) => flightService.deleteFlight(id).then(unwrap),
+    onSuccess: invalidateFlights,
+  });
+};
+
+export const useUpdateFlightStatus = () => {
+  const invalidateFlights = useInvalidateFlights();
+  return useMutation({
+    mutationFn: ({ id, status }: { id: string; status: string }) =>
+      flightService.updateFlightStatus(id, status).then(unwrap),
+    onSuccess: invalidateFlights,
+  });
+};
+
+// Read-only check, run on demand when a form is submitted. Pass `flightId`
+// when checking changes to an existing flight so it does not clash with itself
+export const useValidateFlightSchedule = () =>
+  useMutation({
+    mutationFn: ({ flightId, ...flightData }: CreateFlightForm & { flightId?: string }) =>
+      flightService.validateFlightSchedule(flightData, flightId).then(unwrap),
+  });
+
+// Airport Mutations
+const useInvalidateAirports = () => {
+  const queryClient = useQueryClient();
+  const invalidateFlights = useInvalidateFlights();
+  return () =>
+    Promise.all([queryClient.invalidateQueries({ queryKey: queryKeys.airports.all }), invalidateFlights()]);
+};
+
+export const useCreateAirport = () => {
+  const invalidateAirports = useInvalidateAirports();
+  return useMutation({
+    mutationFn: (airportData: Omit<Airport, 'id'>) => flightService.createAirport(airportData).then(unwrap),
+    onSuccess: invalidateAirports,
+  });
+};
+
+export const useUpdateAirport = () => {
+  const invalidateAirports = useInvalidateAirports();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<Airport> }) =>
+      flightService.updateAirport(id, data).then(unwrap),
+    onSuccess: invalidateAirports,
+  });
+};
+
+export const useDeleteAirport = () => {
+  const invalidateAirports = useInvalidateAirports();
+  return useMutation({
+    mutationFn: (id: string) => flightService.deleteAirport(id).then(unwrap),
+    onSuccess: invalidateAirports,
+  });
+};
+
+// Airplane Mutations
+const useInvalidateAirplanes = () => {
+  const queryClient = useQueryClient();
+  const invalidateFlights = useInvalidateFlights();
+  return () =>
+    Promise.all([queryClient.invalidateQueries({ queryKey: queryKeys.airplanes.all }), invalidateFlights()]);
+};
+
+export const useCreateAirplane = () => {
+  const invalidateAirplanes = useInvalidateAirplanes();
+  return useMutation({
+    mutationFn: (airplaneData: Omit<Airplane, 'id'>) => flightService.createAirplane(airplaneData).then(unwrap),
+    onSuccess: invalidateAirplanes,
+  });
+};
+
+export const useUpdateAirplane = () => {
+  const invalidateAirplanes = useInvalidateAirplanes();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<Airplane> }) =>
+      flightService.updateAirplane(id, data).then(unwrap),
+    onSuccess: invalidateAirplanes,
+  });
+};
+
+export const useDeleteAirplane = () => {
+  const invalidateAirplanes = useInvalidateAirplanes();
+  return useMutation({
+    mutationFn: (id: string) => flightService.deleteAirplane(id).then(unwrap),
+    onSuccess: invalidateAirplanes,
+  });
+};
@@ -0,0 +1,78 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { userService } from '@/services/userService';
+import type { CreateUserRequest, UpdateUserRequest, UserFilters } from '@/services/userService';
+import { unwrap, unwrapPage } from '@/lib/queryClient';
+import { queryKeys } from './queryKeys';
+import type { ListQuery, UserRole } from '@/types';
+
+// User Queries
+export const useUsers = (query: ListQuery<UserFilters> = {}) =>
+  useQuery({
+    queryKey: queryKeys.users.list(query),
+    queryFn: ({ signal }) => userService.getAllUsers(query, { signal }).then(unwrapPage),
+    placeholderData: (previous) => previous,
+  });
+
+export const useUser = (id?: number) =>
+  useQuery({
+    queryKey: queryKeys.users.detail(id ?? 0),
+    queryFn: ({ signal }) => userService.getUserById(id!, { signal }).then(unwrap),
+    enabled: id !== undefined,
+  });
+
+export const useUsersByRole = (role: UserRole) =>
+  useQuery({
+    queryKey: queryKeys.users.byRole(role),
+    queryFn: ({ signal }) => userService.getUsersByRole(role, { signal }).then(unwrap),
+  });
+
+export const useUserSearch = (query: string) =>
+  useQuery({
+    queryKey: queryKeys.users.search(query),
+    queryFn: ({ signal }) => userService.searchUsers(query, { signal }).then(unwrap),
+    enabled: query.trim().length > 0,
+  });
+
+// User Mutations
+const useInvalidateUsers = () => {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: queryKeys.users.all });
+};
+
+export const useCreateUser = () => {
+  const invalidateUsers = useInvalidateUsers();
+  return useMutation({
+    mutationFn: (userData: CreateUserRequest) => userService.createUser(userData).then(unwrap),
+    onSuccess: invalidateUsers,
+  });
+};
+
+export const useUpdateUser = () => {
+  const invalidateUsers = useInvalidateUsers();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: UpdateUserRequest }) =>
+      userService.updateUser(id, data).then(unwrap),
+    onSuccess: invalidateUsers,
+  });
+};
+
+export const useDeleteUser = () => {
+  const invalidateUsers = useInvalidateUsers();
+  return useMutation({
+    mutationFn: (id: number) => userService.deleteUser(id).then(unwrap),
+    onSuccess: invalidateUsers,
+  });
+};
+
+export const useToggleUserStatus = () => {
+  const invalidateUsers = useInvalidateUsers();
+  return useMutation({
+    mutationFn: (id: number) => userService.toggleUserStatus(id).then(unwrap),
+    onSuccess: invalidateUsers,
+  });
+};
+
+export const useResetUserPassword = () =>
+  useMutation({
+    mutationFn: (id: number) => userService.resetUserPassword(id).then(unwrap),
+  });
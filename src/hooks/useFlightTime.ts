@@ -0,0 +1,60 @@
+import { useSyncExternalStore } from 'react';
+import { formatDayOffset, formatInTimeZone, getBrowserTimeZone, getDayOffset, getTimeZoneName } from '@/lib/dateTime';
+import type { Airport, Flight } from '@/types';
+
+// Whose clock flight times are shown on: each airport's, or the user's own
+export type TimeZoneMode = 'airport' | 'local';
+
+const STORAGE_KEY = 'time_zone_mode';
+const listeners = new Set<() => void>();
+
+const subscribe = (onChange: () => void) => {
+  listeners.add(onChange);
+  window.addEventListener('storage', onChange);
+  return () => {
+    listeners.delete(onChange);
+    window.removeEventListener('storage', onChange);
+  };
+};
+
+const getSnapshot = (): TimeZoneMode => (localStorage.getItem(STORAGE_KEY) === 'local' ? 'local' : 'airport');
+
+const getServerSnapshot = (): TimeZoneMode => 'airport';
+
+const setTimeZoneMode = (mode: TimeZoneMode) => {
+  localStorage.setItem(STORAGE_KEY, mode);
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Flight time formatting that follows the user's time zone choice, shared
+ * by every page and remembered across visits. By default each departure and
+ * arrival is shown in its airport's zone.
+ */
+export const useFlightTime = () => {
+  const mode = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+  const zoneOf = (airport: Airport) => (mode === 'airport' ? airport.timeZone : getBrowserTimeZone());
+  const getFlightDayOffset = (departureTime: string, origin: Airport, arrivalTime: string, destination: Airport) =>
+    getDayOffset(departureTime, zoneOf(origin), arrivalTime, zoneOf(destination));
+
+  return {
+    mode,
+    setMode: setTimeZoneMode,
+    zoneOf,
+    // e.g. "09:00"
+    formatTime: (dateTime: string, airport: Airport) => formatInTimeZone(dateTime, zoneOf(airport), 'HH:mm'),
+    // e.g. "Mon, Mar 30"; pass a date-fns pattern for other layouts
+    formatDate: (dateTime: string, airport: Airport, pattern = 'EEE, MMM d') =>
+      formatInTimeZone(dateTime, zoneOf(airport), pattern),
+    // e.g. "Mar 30, 2026 09:00 EDT", for a time shown on its own without a zone heading
+    formatDateTime: (dateTime: string, airport: Airport) =>
+      `${formatInTimeZone(dateTime, zoneOf(airport), 'MMM d, yyyy HH:mm')} ${getTimeZoneName(dateTime, zoneOf(airport))}`,
+    // Days between take-off and landing on the clocks being shown
+    getDayOffset: getFlightDayOffset,
+    // "+1 day" when a flight lands on a later date than it left, otherwise ""
+    formatArrivalDay: (flight: Flight) =>
+      formatDayOffset(
+        getFlightDayOffset(flight.departureTime, flight.originAirport, flight.arrivalTime, flight.destinationAirport)
+      ),
+  };
+};
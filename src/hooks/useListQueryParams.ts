@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { parseListQuery, toListSearchParams } from '@/lib/listQuery';
+import type { ListQueryDefaults } from '@/lib/listQuery';
+import type { ListQuery, ListSort } from '@/types';
+
+/**
+ * Keeps a list page's paging, sort and filters in the URL query string, so a
+ * filtered view survives a reload and can be bookmarked or shared. Pass
+ * module-level constants for `filterKeys` and `defaults`.
+ */
+export const useListQueryParams = <K extends string>(filterKeys: readonly K[], defaults: ListQueryDefaults) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const query = useMemo(
+    () => parseListQuery(searchParams, filterKeys, defaults),
+    [searchParams, filterKeys, defaults]
+  );
+
+  const update = useCallback(
+    (next: ListQuery<Partial<Record<K, string>>>, replace = false) =>
+      setSearchParams(toListSearchParams(next, defaults), { replace }),
+    [setSearchParams, defaults]
+  );
+
+  const setPage = useCallback((page: number) => update({ ...query, page }), [update, query]);
+
+  // Changing a filter or the sort order starts again from the first page
+  const setFilter = useCallback(
+    (key: K, value?: string) => {
+      if ((query.filters?.[key] ?? '') === (value ?? '')) return;
+      update({ ...query, page: 1, filters: { ...query.filters, [key]: value } }, true);
+    },
+    [update, query]
+  );
+
+  const setSort = useCallback((sort: ListSort) => update({ ...query, page: 1, sort }, true), [update, query]);
+
+  const filters: Partial<Record<K, string>> = query.filters ?? {};
+
+  return { query, filters, setPage, setFilter, setSort };
+};
+
+/**
+ * Returns `value` once it has stopped changing for `delayMs`, e.g. to query
+ * the server after the user pauses typing rather than on every keystroke.
+ */
+export const useDebouncedValue = <T>(value: T, delayMs = 300): T => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+};
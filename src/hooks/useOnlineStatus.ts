@@ -0,0 +1,22 @@
+import { useSyncExternalStore } from 'react';
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+const getSnapshot = () => navigator.onLine;
+
+// Rendering on a server, assume a connection
+const getServerSnapshot = () => true;
+
+/**
+ * Whether the browser currently has a network connection. Every component
+ * using it reads the same browser state and re-renders when it changes.
+ */
+export const useOnlineStatus = (): boolean =>
+  useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
@@ -0,0 +1,26 @@
+import { useSyncExternalStore } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { searchHistoryStore } from '@/lib/searchHistory';
+import type { PriceWatch, RecentSearch, SavedSearch } from '@/types';
+
+/**
+ * The signed-in user's recent and saved flight searches. Saving needs an
+ * account; recent searches are also kept for guests.
+ */
+export const useSearchHistory = () => {
+  const { user } = useAuth();
+  const owner = user ? user.id.toString() : 'guest';
+  const history = useSyncExternalStore(searchHistoryStore.subscribe, () => searchHistoryStore.get(owner));
+
+  return {
+    ...history,
+    canSave: !!user,
+    addRecent: (search: Omit<RecentSearch, 'searchedAt'>) => searchHistoryStore.addRecent(owner, search),
+    clearRecent: () => searchHistoryStore.clearRecent(owner),
+    save: (search: Pick<SavedSearch, 'name' | 'query' | 'label'>) => searchHistoryStore.save(owner, search),
+    remove: (id: string) => searchHistoryStore.remove(owner, id),
+    setPriceWatch: (id: string, threshold: number | null) => searchHistoryStore.setPriceWatch(owner, id, threshold),
+    updatePriceWatch: (id: string, changes: Partial<PriceWatch>) =>
+      searchHistoryStore.updatePriceWatch(owner, id, changes),
+  };
+};
@@ -0,0 +1,34 @@
+import { useSearchParams } from 'react-router-dom';
+
+/**
+ * A handful of query-string values held as page state, e.g. a report's date
+ * range, so the view survives a reload and can be shared. Values equal to
+ * their default are left out of the URL; `update` changes several at once,
+ * replacing the current history entry unless `replace: false` is passed.
+ */
+export const useSearchParamsState = <K extends string>(defaults: Record<K, string>) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const keys = Object.keys(defaults) as K[];
+
+  const values = Object.fromEntries(
+    keys.map((key) => [key, searchParams.get(key) ?? defaults[key]])
+  ) as Record<K, string>;
+
+  const update = (changes: Partial<Record<K, string>>, { replace = true }: { replace?: boolean } = {}) =>
+    setSearchParams(
+      (current) => {
+        const params = new URLSearchParams(current);
+        (Object.entries(changes) as [K, string | undefined][]).forEach(([key, value]) => {
+          if (!value || value === defaults[key]) {
+            params.delete(key);
+          } else {
+            params.set(key, value);
+          }
+        });
+        return params;
+      },
+      { replace }
+    );
+
+  return [values, update] as const;
+};
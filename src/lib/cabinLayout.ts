@@ -0,0 +1,219 @@
+import { AirplaneCapacity, SeatClass } from '@/types';
+import type { Airplane, CabinLayout, CabinSection } from '@/types';
+
+export type SeatPosition = 'window' | 'middle' | 'aisle';
+
+// Highest row number a layout may use
+export const MAX_CABIN_ROW = 99;
+
+// Cabins from the nose back, the order row numbers are given out in
+export const CABIN_ORDER: SeatClass[] = [SeatClass.FIRST, SeatClass.BUSINESS, SeatClass.ECONOMY];
+
+const defaultSeatLetters: Record<SeatClass, string> = {
+  [SeatClass.FIRST]: 'AC DF',
+  [SeatClass.BUSINESS]: 'AC DF',
+  [SeatClass.ECONOMY]: 'ABC DEF',
+};
+
+const letterList = (seatLetters: string) => seatLetters.replace(/\s+/g, '').split('');
+
+export const getSectionRows = (section: CabinSection): number[] =>
+  Array.from({ length: Math.max(0, section.lastRow - section.firstRow + 1) }, (_, index) => section.firstRow + index);
+
+/** Sellable seat codes in one section, row by row from the left. */
+export const getSectionSeatCodes = (section: CabinSection): string[] => {
+  const blocked = new Set(section.blockedSeats);
+  const letters = letterList(section.seatLetters);
+  return getSectionRows(section)
+    .flatMap((row) => letters.map((letter) => `${row}${letter}`))
+    .filter((seat) => !blocked.has(seat));
+};
+
+export const getCabinSeatCodes = (layout: CabinLayout, seatClass: SeatClass): string[] =>
+  layout.sections.filter((section) => section.seatClass === seatClass).flatMap(getSectionSeatCodes);
+
+export const getLayoutCapacity = (layout: CabinLayout, seatClass: SeatClass): number =>
+  getCabinSeatCodes(layout, seatClass).length;
+
+// Class capacities as stored on an airplane, worked out from its layout
+export const getLayoutCapacities = (
+  layout: CabinLayout
+): Pick<Airplane, 'firstClassCapacity' | 'businessClassCapacity' | 'economyClassCapacity' | 'totalCapacity'> => {
+  const firstClassCapacity = getLayoutCapacity(layout, SeatClass.FIRST);
+  const businessClassCapacity = getLayoutCapacity(layout, SeatClass.BUSINESS);
+  const economyClassCapacity = getLayoutCapacity(layout, SeatClass.ECONOMY);
+  return {
+    firstClassCapacity,
+    businessClassCapacity,
+    economyClassCapacity,
+    totalCapacity: firstClassCapacity + businessClassCapacity + economyClassCapacity,
+  };
+};
+
+/**
+ * Checks a layout before it is saved: rows must run front to back without
+ * overlapping, every row needs distinct seat letters, and exits and blocked
+ * seats must fall inside their own section.
+ */
+export const validateCabinLayout = (layout: CabinLayout): string[] => {
+  const errors: string[] = [];
+  if (layout.sections.length === 0) return ['Add at least one cabin section'];
+
+  layout.sections.forEach((section, index) => {
+    const label = `Section ${index + 1}`;
+    const letters = letterList(section.seatLetters);
+    const rows = new Set(getSectionRows(section));
+
+    if (!Number.isInteger(section.firstRow) || section.firstRow < 1) {
+      errors.push(`${label} must start at row 1 or later`);
+    }
+    if (section.lastRow < section.firstRow) errors.push(`${label} ends before it starts`);
+    if (section.lastRow > MAX_CABIN_ROW) errors.push(`${label} goes past row ${MAX_CABIN_ROW}`);
+    if (index > 0 && section.firstRow <= layout.sections[index - 1].lastRow) {
+      errors.push(`${label} overlaps the rows of section ${index}`);
+    }
+    if (letters.length === 0 || letters.some((letter) => !/^[A-Z]$/.test(letter))) {
+      errors.push(`${label} needs seat letters A-Z, e.g. ABC DEF`);
+    } else if (new Set(letters).size !== letters.length) {
+      errors.push(`${label} repeats a seat letter`);
+    }
+
+    const strayExits = section.exitRows.filter((row) => !rows.has(row));
+    if (strayExits.length) errors.push(`${label} has exit rows outside its rows: ${strayExits.join(', ')}`);
+
+    const seats = new Set(getSectionRows(section).flatMap((row) => letters.map((letter) => `${row}${letter}`)));
+    const strayBlocked = section.blockedSeats.filter((seat) => !seats.has(seat));
+    if (strayBlocked.length) errors.push(`${label} blocks seats it does not have: ${strayBlocked.join(', ')}`);
+  });
+
+  if (getLayoutCapacity(layout, SeatClass.ECONOMY) === 0) errors.push('The layout needs at least one economy seat');
+
+  return errors;
+};
+
+// Orders seat codes front to back, then from the left of the row
+export const compareSeatNumbers = (a: string, b: string): number =>
+  parseInt(a, 10) - parseInt(b, 10) || a.localeCompare(b);
+
+/**
+ * Where a seat letter sits in its row. The outermost letters are at the
+ * windows; a letter next to an aisle counts as an aisle seat.
+ */
+export const getSeatPosition = (seatLetters: string, letter: string): SeatPosition => {
+  const groups = seatLetters.trim().split(/\s+/);
+  const letters = groups.join('');
+  const index = letters.indexOf(letter);
+  if (index === 0 || index === letters.length - 1) return 'window';
+
+  let start = 0;
+  for (const group of groups) {
+    const end = start + group.length - 1;
+    if (index === start || index === end) return 'aisle';
+    start = end + 1;
+  }
+  return 'middle';
+};
+
+/**
+ * Layout for an airplane that has no seat plan of its own: four abreast in
+ * first and business, six abreast in economy, with unused seats in the last
+ * row of a cabin blocked. Seat codes match those issued before layouts existed.
+ */
+export const buildDefaultCabinLayout = (
+  airplane: Pick<Airplane, 'firstClassCapacity' | 'businessClassCapacity' | 'economyClassCapacity'>
+): CabinLayout => {
+  const capacities: Record<SeatClass, number> = {
+    [SeatClass.FIRST]: airplane.firstClassCapacity,
+    [SeatClass.BUSINESS]: airplane.businessClassCapacity,
+    [SeatClass.ECONOMY]: airplane.economyClassCapacity,
+  };
+
+  const sections: CabinSection[] = [];
+  let row = 1;
+  for (const seatClass of CABIN_ORDER) {
+    const capacity = capacities[seatClass];
+    if (capacity <= 0) continue;
+
+    const seatLetters = defaultSeatLetters[seatClass];
+    const letters = letterList(seatLetters);
+    const rows = Math.ceil(capacity / letters.length);
+    const lastRow = row + rows - 1;
+    const unused = rows * letters.length - capacity;
+    sections.push({
+      seatClass,
+      firstRow: row,
+      lastRow,
+      seatLetters,
+      exitRows: [],
+      blockedSeats: letters.slice(letters.length - unused).map((letter) => `${lastRow}${letter}`),
+    });
+    row = lastRow + 1;
+  }
+
+  return { sections };
+};
+
+export const getAirplaneCabinLayout = (airplane: Airplane): CabinLayout =>
+  airplane.cabinLayout ?? buildDefaultCabinLayout(airplane);
+
+const cabinSection = (
+  seatClass: SeatClass,
+  firstRow: number,
+  lastRow: number,
+  seatLetters: string,
+  exitRows: number[] = [],
+  blockedSeats: string[] = []
+): CabinSection => ({ seatClass, firstRow, lastRow, seatLetters, exitRows, blockedSeats });
+
+export interface AirplanePreset {
+  model: string;
+  size: AirplaneCapacity;
+  cabinLayout: CabinLayout;
+}
+
+// Full seat plans for the types in the fleet; capacities follow from the layouts
+export const AIRPLANE_PRESETS: AirplanePreset[] = [
+  {
+    model: 'Airbus A320',
+    size: AirplaneCapacity.MEDIUM,
+    cabinLayout: {
+      sections: [
+        cabinSection(SeatClass.FIRST, 1, 3, 'AC DF'),
+        cabinSection(SeatClass.BUSINESS, 4, 9, 'AC DF'),
+        cabinSection(SeatClass.ECONOMY, 10, 33, 'ABC DEF', [20, 21]),
+      ],
+    },
+  },
+  {
+    model: 'Boeing 737-800',
+    size: AirplaneCapacity.MEDIUM,
+    cabinLayout: {
+      sections: [
+        cabinSection(SeatClass.FIRST, 1, 2, 'AC DF'),
+        cabinSection(SeatClass.BUSINESS, 3, 7, 'AC DF'),
+        cabinSection(SeatClass.ECONOMY, 8, 32, 'ABC DEF', [16, 17]),
+      ],
+    },
+  },
+  {
+    model: 'Boeing 777-300ER',
+    size: AirplaneCapacity.LARGE,
+    cabinLayout: {
+      sections: [
+        cabinSection(SeatClass.FIRST, 1, 4, 'A DG K', [], ['4D', '4G']),
+        cabinSection(SeatClass.BUSINESS, 5, 20, 'A DG K', [5]),
+        cabinSection(SeatClass.ECONOMY, 21, 48, 'ABC DEFG HJK', [21, 34]),
+      ],
+    },
+  },
+  {
+    model: 'Embraer E190',
+    size: AirplaneCapacity.SMALL,
+    cabinLayout: {
+      sections: [
+        cabinSection(SeatClass.BUSINESS, 1, 4, 'A CD'),
+        cabinSection(SeatClass.ECONOMY, 5, 26, 'AC DF', [12, 13], ['26D', '26F']),
+      ],
+    },
+  },
+];
@@ -0,0 +1,82 @@
+import { addDays, format, parseISO } from 'date-fns';
+import type { Airport, Flight, TransitFlightOption } from '@/types';
+import { fromZonedTime, getDateInTimeZone, getDurationMinutes } from './dateTime';
+
+// Minimum connection time, in minutes, for airports that don't set their own
+export const DEFAULT_MIN_CONNECTION_MINUTES = 60;
+
+// The airport's local night, and how much of it a wait must span to count as overnight
+const NIGHT_START = '00:00';
+const NIGHT_END = '06:00';
+const OVERNIGHT_MINUTES = 3 * 60;
+
+// Set per airport in Airport Management; hubs with terminal transfers need longer
+export const getMinConnectionMinutes = (airport: Airport) =>
+  airport.minConnectionMinutes ?? DEFAULT_MIN_CONNECTION_MINUTES;
+
+// Minutes of a wait that fall between NIGHT_START and NIGHT_END on the airport's clock
+const getNightMinutes = (from: string, to: string, timeZone: string) => {
+  const lastDate = getDateInTimeZone(to, timeZone);
+  let date = getDateInTimeZone(from, timeZone);
+  let minutes = 0;
+  while (date <= lastDate) {
+    const nightStart = fromZonedTime(`${date}T${NIGHT_START}`, timeZone);
+    const nightEnd = fromZonedTime(`${date}T${NIGHT_END}`, timeZone);
+    const overlapStart = Math.max(new Date(from).getTime(), nightStart.getTime());
+    const overlapEnd = Math.min(new Date(to).getTime(), nightEnd.getTime());
+    minutes += Math.max(0, overlapEnd - overlapStart) / 60000;
+    date = format(addDays(parseISO(date), 1), 'yyyy-MM-dd');
+  }
+  return minutes;
+};
+
+// A wait between two flights of one itinerary
+export interface Layover {
+  airport: Airport;
+  arrivalTime: string; // Of the inbound flight
+  departureTime: string; // Of the onward flight
+  minutes: number;
+  minimumMinutes: number;
+  isShort: boolean; // Below the airport's minimum connection time
+  isOvernight: boolean; // Waits through at least three hours of the airport's night (midnight to 6am)
+}
+
+export const getLayovers = (flights: Flight[]): Layover[] =>
+  flights.slice(0, -1).map((inbound, index) => {
+    const onward = flights[index + 1];
+    const airport = inbound.destinationAirport;
+    const minutes = getDurationMinutes(inbound.arrivalTime, onward.departureTime);
+    const minimumMinutes = getMinConnectionMinutes(airport);
+
+    return {
+      airport,
+      arrivalTime: inbound.arrivalTime,
+      departureTime: onward.departureTime,
+      minutes,
+      minimumMinutes,
+      isShort: minutes < minimumMinutes,
+      // "Overnight" follows the local clock at the airport
+      isOvernight: getNightMinutes(inbound.arrivalTime, onward.departureTime, airport.timeZone) >= OVERNIGHT_MINUTES,
+    };
+  });
+
+// Door-to-door time from the first departure to the last arrival, in minutes
+export const getItineraryMinutes = (flights: Flight[]) =>
+  flights.length ? getDurationMinutes(flights[0].departureTime, flights[flights.length - 1].arrivalTime) : 0;
+
+export const getLongestLayoverMinutes = (flights: Flight[]) =>
+  Math.max(0, ...getLayovers(flights).map((layover) => layover.minutes));
+
+/**
+ * Connecting options within the stop and layover limits. A zero
+ * `maxLayoverHours` means any layover length is fine.
+ */
+export const filterTransitOptions = (
+  options: TransitFlightOption[],
+  { maxStops, maxLayoverHours }: { maxStops: number; maxLayoverHours: number }
+) =>
+  options.filter(
+    (option) =>
+      option.flights.length - 1 <= maxStops &&
+      (!maxLayoverHours || getLongestLayoverMinutes(option.flights) <= maxLayoverHours * 60)
+  );
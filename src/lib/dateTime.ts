@@ -0,0 +1,121 @@
+import { differenceInCalendarDays, differenceInMinutes, format } from 'date-fns';
+
+/**
+ * Date and time display for flights. Each time is shown on the clock of a
+ * given IANA zone, normally the airport's own, while durations are worked
+ * out between absolute instants so they stay right across DST changes.
+ */
+
+// The zone the browser is in, for showing times on the user's own clock
+export const getBrowserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getZoneFormatter = (timeZone: string) => {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * The wall-clock time of an instant in a zone, as a Date whose local fields
+ * read that time. Only for formatting and calendar maths with date-fns; it
+ * does not point at the original instant.
+ */
+export const toZonedTime = (dateTime: string | Date, timeZone: string): Date => {
+  const parts = Object.fromEntries(
+    getZoneFormatter(timeZone)
+      .formatToParts(new Date(dateTime))
+      .map((part) => [part.type, Number(part.value)])
+  );
+  return new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Offset of a zone from UTC at an instant, in milliseconds
+const getZoneOffsetMs = (instant: number, timeZone: string) => {
+  const wallClock = toZonedTime(new Date(instant), timeZone);
+  const wallClockAsUtc = Date.UTC(
+    wallClock.getFullYear(),
+    wallClock.getMonth(),
+    wallClock.getDate(),
+    wallClock.getHours(),
+    wallClock.getMinutes(),
+    wallClock.getSeconds()
+  );
+  return wallClockAsUtc - Math.floor(instant / 1000) * 1000;
+};
+
+/**
+ * The instant at which a zone's clock reads a wall-clock time, given as
+ * yyyy-MM-ddTHH:mm (what a datetime-local input holds). The reverse of
+ * `toZonedTime`. A time skipped by a DST change moves forward by the gap;
+ * a repeated one resolves to its first occurrence. Invalid input gives an
+ * invalid Date.
+ */
+export const fromZonedTime = (localDateTime: string, timeZone: string): Date => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(localDateTime);
+  if (!match) return new Date(NaN);
+
+  const [, year, month, day, hour, minute, second = '0'] = match;
+  const wallClockAsUtc = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  // The offsets either side cover any DST change that day; keep those whose
+  // instant really does read this wall-clock time, earliest first
+  const offsets = [DAY_MS, -DAY_MS].map((shift) => getZoneOffsetMs(wallClockAsUtc + shift, timeZone));
+  const matching = offsets
+    .map((offset) => wallClockAsUtc - offset)
+    .filter((instant, index) => getZoneOffsetMs(instant, timeZone) === offsets[index])
+    .sort((a, b) => a - b);
+  return new Date(matching[0] ?? wallClockAsUtc - Math.min(...offsets));
+};
+
+// The value for a datetime-local input showing an instant on a zone's clock
+export const toDateTimeInputValue = (dateTime: string | Date, timeZone: string) =>
+  formatInTimeZone(dateTime, timeZone, "yyyy-MM-dd'T'HH:mm");
+
+// e.g. formatInTimeZone(departure, 'Europe/London', 'HH:mm') → "09:00"
+export const formatInTimeZone = (dateTime: string | Date, timeZone: string, pattern: string) =>
+  format(toZonedTime(dateTime, timeZone), pattern);
+
+// Short zone name at that instant, e.g. "GMT+1" or "EST"
+export const getTimeZoneName = (dateTime: string | Date, timeZone: string) =>
+  new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(new Date(dateTime))
+    .find((part) => part.type === 'timeZoneName')?.value ?? timeZone;
+
+// Local calendar date in a zone, as yyyy-MM-dd
+export const getDateInTimeZone = (dateTime: string | Date, timeZone: string) =>
+  formatInTimeZone(dateTime, timeZone, 'yyyy-MM-dd');
+
+/**
+ * Calendar days between two local clocks, e.g. 1 for a flight that lands the
+ * day after it took off, each date read in its own zone.
+ */
+export const getDayOffset = (
+  from: string | Date,
+  fromTimeZone: string,
+  to: string | Date,
+  toTimeZone: string
+) => differenceInCalendarDays(toZonedTime(to, toTimeZone), toZonedTime(from, fromTimeZone));
+
+export const formatDayOffset = (days: number) =>
+  days === 0 ? '' : `${days > 0 ? '+' : '−'}${Math.abs(days)} day${Math.abs(days) > 1 ? 's' : ''}`;
+
+// Minutes between two instants, whatever zones or DST changes lie between
+export const getDurationMinutes = (from: string | Date, to: string | Date) =>
+  differenceInMinutes(new Date(to), new Date(from));
+
+export const formatDuration = (minutes: number) => `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
@@ -0,0 +1,41 @@
+import { addDays, eachDayOfInterval, endOfMonth, format, parseISO, startOfMonth } from 'date-fns';
+import { SeatClass } from '@/types';
+import type { FlightSearchResult } from '@/types';
+import { getFlightAvailableSeats, getFlightFare } from './tripSearch';
+
+// How many days either side of the chosen date a flexible search compares
+export const FLEXIBLE_DATE_DAYS = 3;
+
+// Calendar days are plain yyyy-MM-dd strings, the same as search departure dates
+const toDay = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const shiftDay = (day: string, days: number) => toDay(addDays(parseISO(day), days));
+
+// The chosen day with `days` either side of it, in order
+export const getDateWindow = (day: string, days = FLEXIBLE_DATE_DAYS) =>
+  Array.from({ length: days * 2 + 1 }, (_, index) => shiftDay(day, index - days));
+
+// Every day of the month that `day` falls in
+export const getMonthDays = (day: string) => {
+  const date = parseISO(day);
+  return eachDayOfInterval({ start: startOfMonth(date), end: endOfMonth(date) }).map(toDay);
+};
+
+/**
+ * Cheapest way to fly on one day for the party, direct or connecting.
+ * Direct flights without enough seats in the cabin don't count; null means
+ * nothing bookable was found.
+ */
+export const getLowestFare = (
+  result: FlightSearchResult | undefined,
+  seatClass: SeatClass = SeatClass.ECONOMY,
+  passengers = 1
+): number | null => {
+  const fares = [
+    ...(result?.directFlights ?? [])
+      .filter((flight) => getFlightAvailableSeats(flight, seatClass) >= passengers)
+      .map((flight) => getFlightFare(flight, seatClass)),
+    ...(result?.transitFlights ?? []).map((option) => option.totalPrice),
+  ];
+  return fares.length ? Math.min(...fares) : null;
+};
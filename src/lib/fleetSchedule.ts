@@ -0,0 +1,200 @@
+import { addDays, addMinutes, differenceInMinutes, parseISO } from 'date-fns';
+import type { Airplane, Airport, CreateFlightForm, Flight } from '@/types';
+import { AirplaneCapacity, FlightStatus } from '@/types';
+import { formatDuration, formatInTimeZone } from './dateTime';
+
+/**
+ * Ground time an airplane needs between landing and its next departure, by
+ * size: bigger cabins take longer to clean, cater and board. None is below
+ * the backend's own 45-minute rule.
+ */
+export const MIN_TURNAROUND_MINUTES: Record<AirplaneCapacity, number> = {
+  [AirplaneCapacity.SMALL]: 45,
+  [AirplaneCapacity.MEDIUM]: 60,
+  [AirplaneCapacity.LARGE]: 90,
+};
+
+export const getMinTurnaroundMinutes = (airplane: Airplane) => MIN_TURNAROUND_MINUTES[airplane.size];
+
+// Dropped flights land on this grid so times stay round
+export const TIMELINE_SNAP_MINUTES = 5;
+
+export type TimelineView = 'day' | 'week';
+
+export const TIMELINE_VIEW_DAYS: Record<TimelineView, number> = { day: 1, week: 7 };
+
+/**
+ * The stretch of time a fleet timeline shows, from UTC midnight on `date`
+ * (yyyy-MM-dd). The axis is UTC so flights from every zone line up.
+ */
+export interface TimelineWindow {
+  start: Date;
+  end: Date;
+  minutes: number;
+}
+
+export const getTimelineWindow = (date: string, view: TimelineView): TimelineWindow => {
+  const start = parseISO(`${date}T00:00:00Z`);
+  const end = addDays(start, TIMELINE_VIEW_DAYS[view]);
+  return { start, end, minutes: differenceInMinutes(end, start) };
+};
+
+export const isInWindow = (flight: Flight, { start, end }: TimelineWindow) =>
+  new Date(flight.departureTime) < end && new Date(flight.arrivalTime) > start;
+
+// A flight's bar as percentages of the window, clipped to its edges
+export const getBarPosition = (flight: Flight, timeline: TimelineWindow) => {
+  const offset = (dateTime: string) =>
+    Math.min(Math.max(differenceInMinutes(new Date(dateTime), timeline.start), 0), timeline.minutes);
+  const left = offset(flight.departureTime);
+  const right = offset(flight.arrivalTime);
+  return { left: (left / timeline.minutes) * 100, width: ((right - left) / timeline.minutes) * 100 };
+};
+
+// The time under a point on the timeline, given as a fraction of its width
+export const getTimeAtPosition = (fraction: number, timeline: TimelineWindow) => {
+  const minutes = Math.round((fraction * timeline.minutes) / TIMELINE_SNAP_MINUTES) * TIMELINE_SNAP_MINUTES;
+  return addMinutes(timeline.start, minutes);
+};
+
+// An airplane's flights that still take place, in departure order
+const getRotation = (flights: Flight[]) =>
+  flights
+    .filter((flight) => flight.status !== FlightStatus.CANCELLED)
+    .sort((a, b) => new Date(a.departureTime).getTime() - new Date(b.departureTime).getTime());
+
+const formatUtc = (dateTime: string | Date) => `${formatInTimeZone(dateTime, 'UTC', 'MMM d HH:mm')} UTC`;
+
+/**
+ * Problems in one airplane's rotation, by flight id: flights that overlap,
+ * leave less than the airplane's minimum turnaround after the previous
+ * landing, or depart from somewhere other than where the previous one landed.
+ */
+export const findRotationConflicts = (flights: Flight[], airplane: Airplane): Map<number, string[]> => {
+  const conflicts = new Map<number, string[]>();
+  const addConflict = (flight: Flight, message: string) =>
+    conflicts.set(flight.id, [...(conflicts.get(flight.id) ?? []), message]);
+  const minimumMinutes = getMinTurnaroundMinutes(airplane);
+  const rotation = getRotation(flights);
+
+  rotation.slice(1).forEach((flight, index) => {
+    const previous = rotation[index];
+    const groundMinutes = differenceInMinutes(new Date(flight.departureTime), new Date(previous.arrivalTime));
+    if (groundMinutes < 0) {
+      addConflict(previous, `Overlaps ${flight.flightNumber}`);
+      addConflict(flight, `Overlaps ${previous.flightNumber}`);
+      return;
+    }
+    if (groundMinutes < minimumMinutes) {
+      const message = `Only ${formatDuration(groundMinutes)} on the ground between ${previous.flightNumber} and ${
+        flight.flightNumber
+      } (minimum ${minimumMinutes}m)`;
+      addConflict(previous, message);
+      addConflict(flight, message);
+    }
+    if (previous.destinationAirport.id !== flight.originAirport.id) {
+      addConflict(
+        flight,
+        `Departs ${flight.originAirport.code}, but ${previous.flightNumber} leaves the airplane at ${previous.destinationAirport.code}`
+      );
+    }
+  });
+
+  return conflicts;
+};
+
+// A flight being planned, before it exists; airports are unset until picked
+export interface PlannedFlight {
+  origin?: Airport;
+  destination?: Airport;
+  departure: Date;
+  arrival: Date;
+}
+
+/**
+ * Reasons an airplane cannot fly a planned flight, checked against its
+ * existing rotation: it must be active and free, the flight before must land
+ * at this flight's origin with enough turnaround time, and the flight after
+ * must depart from this flight's destination with enough time too. Pass
+ * `ignoreFlightId` when re-checking an existing flight.
+ */
+export const checkAirplaneAssignment = (
+  airplane: Airplane,
+  planned: PlannedFlight,
+  flights: Flight[],
+  ignoreFlightId?: number
+): string[] => {
+  const { origin, destination, departure, arrival } = planned;
+  const tail = airplane.registrationNumber;
+  const minimumMinutes = getMinTurnaroundMinutes(airplane);
+  const sizeLabel = airplane.size.toLowerCase();
+
+  if (!airplane.active) return [`${tail} is inactive and cannot be scheduled`];
+  if (Number.isNaN(departure.getTime()) || Number.isNaN(arrival.getTime()) || arrival <= departure) return [];
+
+  const problems: string[] = [];
+  const rotation = getRotation(flights).filter((flight) => flight.id !== ignoreFlightId);
+  const overlapping = rotation.filter(
+    (flight) => new Date(flight.departureTime) < arrival && new Date(flight.arrivalTime) > departure
+  );
+  overlapping.forEach((flight) =>
+    problems.push(
+      `${tail} is flying ${flight.flightNumber} (${flight.originAirport.code} → ${flight.destinationAirport.code}) ` +
+        `from ${formatUtc(flight.departureTime)} to ${formatUtc(flight.arrivalTime)}`
+    )
+  );
+
+  const earlier = rotation.filter((flight) => new Date(flight.arrivalTime) <= departure);
+  const previous = earlier[earlier.length - 1];
+  if (previous) {
+    const groundMinutes = differenceInMinutes(departure, new Date(previous.arrivalTime));
+    if (origin && previous.destinationAirport.id !== origin.id) {
+      problems.push(
+        `${tail} will be at ${previous.destinationAirport.code} after ${previous.flightNumber}, not at ${origin.code}`
+      );
+    }
+    if (groundMinutes < minimumMinutes) {
+      problems.push(
+        `${tail} lands from ${previous.flightNumber} at ${formatUtc(previous.arrivalTime)}, leaving ` +
+          `${formatDuration(groundMinutes)} to turn around; a ${sizeLabel} airplane needs ${minimumMinutes}m`
+      );
+    }
+  }
+
+  const next = rotation.find((flight) => new Date(flight.departureTime) >= arrival);
+  if (next) {
+    const groundMinutes = differenceInMinutes(new Date(next.departureTime), arrival);
+    if (destination && next.originAirport.id !== destination.id) {
+      problems.push(
+        `${tail} flies ${next.flightNumber} from ${next.originAirport.code} next, but this flight leaves it at ${destination.code}`
+      );
+    }
+    if (groundMinutes < minimumMinutes) {
+      problems.push(
+        `${tail} departs on ${next.flightNumber} at ${formatUtc(next.departureTime)}, only ` +
+          `${formatDuration(groundMinutes)} after landing; a ${sizeLabel} airplane needs ${minimumMinutes}m`
+      );
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * The schedule request for moving a flight to another airplane and/or
+ * departure time, keeping its block time.
+ */
+export const toReassignment = (flight: Flight, airplane: Airplane, departure: Date): CreateFlightForm => {
+  const blockMinutes = differenceInMinutes(new Date(flight.arrivalTime), new Date(flight.departureTime));
+  return {
+    flightNumber: flight.flightNumber,
+    airplaneId: airplane.id,
+    originId: flight.originAirport.id,
+    destinationId: flight.destinationAirport.id,
+    departureTime: departure.toISOString(),
+    arrivalTime: addMinutes(departure, blockMinutes).toISOString(),
+    firstClassPrice: flight.firstClassPrice,
+    businessClassPrice: flight.businessClassPrice,
+    economyClassPrice: flight.economyClassPrice,
+  };
+};
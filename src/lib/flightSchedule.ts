@@ -0,0 +1,101 @@
+import { addDays, addMinutes, format, getDay, parseISO } from 'date-fns';
+import type { Airport, CreateFlightForm } from '@/types';
+import { fromZonedTime } from './dateTime';
+
+// Longest date range one schedule may cover
+export const MAX_SCHEDULE_DAYS = 366;
+
+// Monday first, numbered as date-fns does (Sunday is 0)
+export const WEEKDAYS = [
+  { day: 1, label: 'Mon' },
+  { day: 2, label: 'Tue' },
+  { day: 3, label: 'Wed' },
+  { day: 4, label: 'Thu' },
+  { day: 5, label: 'Fri' },
+  { day: 6, label: 'Sat' },
+  { day: 0, label: 'Sun' },
+];
+
+export interface ScheduleFares {
+  firstClassPrice: number;
+  businessClassPrice: number;
+  economyClassPrice: number;
+}
+
+// Fares for departures between two dates, inclusive, in place of the base fares
+export interface SeasonalFare extends ScheduleFares {
+  startDate: string; // yyyy-MM-dd
+  endDate: string;
+}
+
+/**
+ * A flight that operates on the same days each week. Dates and the
+ * departure time are local to the origin airport.
+ */
+export interface RecurringSchedule extends ScheduleFares {
+  flightNumber: string;
+  airplaneId: string;
+  originId: string;
+  destinationId: string;
+  daysOfWeek: number[];
+  departureTime: string; // HH:mm
+  blockMinutes: number;
+  startDate: string; // yyyy-MM-dd
+  endDate: string;
+  excludedDates: string[];
+  seasonalFares: SeasonalFare[];
+}
+
+// One flight of a schedule, ready to validate and create
+export interface ScheduledFlight {
+  date: string; // Local departure date at the origin
+  flight: CreateFlightForm;
+  season?: SeasonalFare; // Set when a seasonal fare applies
+}
+
+// The seasonal fare for a departure date; the first matching season wins
+export const getSeasonalFare = (seasonalFares: SeasonalFare[], date: string) =>
+  seasonalFares.find((season) => season.startDate <= date && date <= season.endDate);
+
+// Local dates the schedule operates on, holidays left out
+export const getScheduleDates = ({ startDate, endDate, daysOfWeek, excludedDates }: RecurringSchedule) => {
+  const dates: string[] = [];
+  const last = parseISO(endDate);
+  for (let day = parseISO(startDate); day <= last; day = addDays(day, 1)) {
+    const date = format(day, 'yyyy-MM-dd');
+    if (daysOfWeek.includes(getDay(day)) && !excludedDates.includes(date)) dates.push(date);
+  }
+  return dates;
+};
+
+/**
+ * Every flight of a schedule. Departures are read on the origin airport's
+ * clock and arrivals follow by the block time, so a DST change keeps the
+ * local departure time and the flight length both as entered.
+ */
+export const generateScheduleFlights = (schedule: RecurringSchedule, airports: Airport[]): ScheduledFlight[] => {
+  const origin = airports.find((airport) => airport.id === schedule.originId);
+  const timeZone = origin?.timeZone ?? 'UTC';
+
+  return getScheduleDates(schedule).map((date) => {
+    const departure = fromZonedTime(`${date}T${schedule.departureTime}`, timeZone);
+    const season = getSeasonalFare(schedule.seasonalFares, date);
+    const fares = season ?? schedule;
+
+    return {
+      date,
+      season,
+      flight: {
+        flightNumber: schedule.flightNumber,
+        airplaneId: schedule.airplaneId,
+        originId: schedule.originId,
+        destinationId: schedule.destinationId,
+        departureTime: departure.toISOString(),
+        arrivalTime: addMinutes(departure, schedule.blockMinutes).toISOString(),
+        firstClassPrice: fares.firstClassPrice,
+        businessClassPrice: fares.businessClassPrice,
+        economyClassPrice: fares.economyClassPrice,
+      },
+    };
+  });
+};
@@ -0,0 +1,76 @@
+import type { ListQuery, ListSort } from '@/types';
+
+// Flat key/value form of a ListQuery, shared by API query strings and page URLs
+export type ListQueryParams = Record<string, string>;
+
+export interface ListQueryDefaults {
+  size: number;
+  sort?: ListSort;
+}
+
+const formatSort = (sort: ListSort) => `${sort.field},${sort.direction}`;
+
+const parseSort = (value: string | null): ListSort | undefined => {
+  if (!value) return undefined;
+  const [field, direction] = value.split(',');
+  if (!field) return undefined;
+  return { field, direction: direction === 'desc' ? 'desc' : 'asc' };
+};
+
+/**
+ * Serialises a list query as `page`, `size`, `sort=field,direction` and one
+ * param per filter. Empty filters are dropped so they never reach the backend.
+ */
+export const toListParams = <F extends object>(query: ListQuery<F> = {}): ListQueryParams => {
+  const params: ListQueryParams = {};
+
+  if (query.page) params.page = String(query.page);
+  if (query.size) params.size = String(query.size);
+  if (query.sort) params.sort = formatSort(query.sort);
+
+  Object.entries(query.filters ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') params[key] = String(value);
+  });
+
+  return params;
+};
+
+/**
+ * Reads a list query back from URL search params. Only the given filter keys
+ * are picked up; anything missing falls back to the first page and defaults.
+ */
+export const parseListQuery = <K extends string>(
+  searchParams: URLSearchParams,
+  filterKeys: readonly K[],
+  defaults: ListQueryDefaults
+): ListQuery<Partial<Record<K, string>>> => {
+  const filters: Partial<Record<K, string>> = {};
+  filterKeys.forEach((key) => {
+    const value = searchParams.get(key);
+    if (value) filters[key] = value;
+  });
+
+  return {
+    page: Math.max(1, Number(searchParams.get('page')) || 1),
+    size: Math.max(1, Number(searchParams.get('size')) || defaults.size),
+    sort: parseSort(searchParams.get('sort')) ?? defaults.sort,
+    filters,
+  };
+};
+
+/**
+ * Inverse of parseListQuery. Values equal to the defaults are left out to keep
+ * bookmarked URLs short.
+ */
+export const toListSearchParams = <K extends string>(
+  query: ListQuery<Partial<Record<K, string>>>,
+  defaults: ListQueryDefaults
+): URLSearchParams => {
+  const params = toListParams(query);
+
+  if (params.page === '1') delete params.page;
+  if (params.size === String(defaults.size)) delete params.size;
+  if (defaults.sort && params.sort === formatSort(defaults.sort)) delete params.sort;
+
+  return new URLSearchParams(params);
+};
@@ -0,0 +1,58 @@
+import { PassengerType } from '@/types';
+
+// Matches the passenger limit of the flight search form
+export const MAX_PASSENGERS_PER_BOOKING = 9;
+
+// Share of the cabin fare charged per passenger type
+export const PASSENGER_FARE_FACTORS: Record<PassengerType, number> = {
+  [PassengerType.ADULT]: 1,
+  [PassengerType.CHILD]: 0.75,
+  [PassengerType.INFANT]: 0.1,
+};
+
+export const PASSENGER_TYPE_LABELS: Record<PassengerType, string> = {
+  [PassengerType.ADULT]: 'Adult (12+)',
+  [PassengerType.CHILD]: 'Child (2-11)',
+  [PassengerType.INFANT]: 'Infant (under 2)',
+};
+
+/**
+ * Age in whole years on `onDate`. Passenger types are decided by the age on
+ * the day of travel, not the day of booking.
+ */
+export const getAgeOn = (dateOfBirth: string, onDate: string | Date): number => {
+  const birth = new Date(dateOfBirth);
+  const on = new Date(onDate);
+  let age = on.getUTCFullYear() - birth.getUTCFullYear();
+  const beforeBirthday =
+    on.getUTCMonth() < birth.getUTCMonth() ||
+    (on.getUTCMonth() === birth.getUTCMonth() && on.getUTCDate() < birth.getUTCDate());
+  if (beforeBirthday) age--;
+  return age;
+};
+
+export const getPassengerType = (dateOfBirth: string, travelDate: string | Date): PassengerType => {
+  const age = getAgeOn(dateOfBirth, travelDate);
+  if (age < 2) return PassengerType.INFANT;
+  if (age < 12) return PassengerType.CHILD;
+  return PassengerType.ADULT;
+};
+
+/**
+ * Checks the make-up of a party: at least one adult, and no more infants than
+ * adults since each infant travels with an adult.
+ */
+export const validatePassengerMix = (types: PassengerType[]): string[] => {
+  const errors: string[] = [];
+  const adults = types.filter((type) => type === PassengerType.ADULT).length;
+  const infants = types.filter((type) => type === PassengerType.INFANT).length;
+
+  if (types.length === 0) errors.push('At least one passenger is required');
+  if (types.length > MAX_PASSENGERS_PER_BOOKING) {
+    errors.push(`A booking can have at most ${MAX_PASSENGERS_PER_BOOKING} passengers`);
+  }
+  if (types.length > 0 && adults === 0) errors.push('Every booking needs at least one adult');
+  if (infants > adults) errors.push('Each infant must travel with their own adult');
+
+  return errors;
+};
@@ -0,0 +1,430 @@
+import type { jsPDF } from 'jspdf';
+import { BARCODE_QUIET_ZONE, encodeCode128 } from './barcode';
+import { compareSeatNumbers } from './cabinLayout';
+import { PASSENGER_TYPE_LABELS } from './passengers';
+import { BookingStatus, PassengerType, SeatClass } from '@/types';
+import type { Airport, AirportFlightReport, Booking, Flight, PassengerManifest } from '@/types';
+
+// Millimetres on an A4 portrait page
+const MARGIN = 15;
+const HEADER_BOTTOM = 38;
+const FOOTER_TOP = 282;
+const ROW_HEIGHT = 7;
+
+const BRAND_COLOR: [number, number, number] = [37, 99, 235];
+const MUTED_COLOR: [number, number, number] = [100, 116, 139];
+const TEXT_COLOR: [number, number, number] = [15, 23, 42];
+
+const classLabels: Record<SeatClass, string> = {
+  [SeatClass.FIRST]: 'First',
+  [SeatClass.BUSINESS]: 'Business',
+  [SeatClass.ECONOMY]: 'Economy',
+};
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+// The document being drawn and where the next line goes on its current page
+interface PdfContext {
+  doc: jsPDF;
+  title: string;
+  subtitle?: string;
+  y: number;
+}
+
+// jsPDF is only needed when someone downloads, so it stays out of the main bundle
+const createContext = async (title: string, subtitle?: string): Promise<PdfContext> => {
+  const { jsPDF } = await import('jspdf');
+  const context: PdfContext = { doc: new jsPDF({ unit: 'mm', format: 'a4' }), title, subtitle, y: 0 };
+  drawHeader(context);
+  return context;
+};
+
+const pageWidth = (doc: jsPDF) => doc.internal.pageSize.getWidth();
+
+// Times are shown as the clock on the wall at the airport, 24-hour to keep the text ASCII
+const formatLocalTime = (iso: string, airport: Airport) =>
+  `${new Date(iso).toLocaleString('en-GB', {
+    timeZone: airport.timeZone,
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })} (${airport.code})`;
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(price);
+
+const drawHeader = (context: PdfContext) => {
+  const { doc, title, subtitle } = context;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.setTextColor(...BRAND_COLOR);
+  doc.text('TRAVEL360', MARGIN, 16);
+
+  doc.setFontSize(16);
+  doc.setTextColor(...TEXT_COLOR);
+  doc.text(title, MARGIN, 24);
+
+  if (subtitle) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(doc.splitTextToSize(subtitle, pageWidth(doc) - 2 * MARGIN)[0], MARGIN, 30);
+  }
+
+  doc.setDrawColor(...BRAND_COLOR);
+  doc.setLineWidth(0.6);
+  doc.line(MARGIN, 33, pageWidth(doc) - MARGIN, 33);
+  context.y = HEADER_BOTTOM + 4;
+};
+
+const addPage = (context: PdfContext) => {
+  context.doc.addPage();
+  drawHeader(context);
+};
+
+// Starts a new page when `height` more millimetres would run into the footer
+const ensureSpace = (context: PdfContext, height: number) => {
+  if (context.y + height > FOOTER_TOP - 4) {
+    addPage(context);
+    return true;
+  }
+  return false;
+};
+
+// Footers need the final page count, so they are drawn once everything else is
+const finishDocument = (context: PdfContext, generatedAt: string): Blob => {
+  const { doc } = context;
+  const pageCount = doc.getNumberOfPages();
+  const generated = `Generated ${new Date(generatedAt).toLocaleString('en-GB', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })}`;
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(...MUTED_COLOR);
+    doc.setLineWidth(0.2);
+    doc.line(MARGIN, FOOTER_TOP, pageWidth(doc) - MARGIN, FOOTER_TOP);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(`Travel360 - ${generated}`, MARGIN, FOOTER_TOP + 5);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth(doc) - MARGIN, FOOTER_TOP + 5, { align: 'right' });
+  }
+
+  return doc.output('blob');
+};
+
+const drawSectionTitle = (context: PdfContext, text: string) => {
+  ensureSpace(context, 2 * ROW_HEIGHT + 6);
+  const { doc } = context;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.setTextColor(...TEXT_COLOR);
+  doc.text(text, MARGIN, context.y);
+  context.y += 6;
+};
+
+// Label/value pairs in two columns, e.g. the flight block of a ticket
+const drawFields = (context: PdfContext, fields: Array<[string, string]>) => {
+  const { doc } = context;
+  const columnWidth = (pageWidth(doc) - 2 * MARGIN) / 2;
+
+  fields.forEach(([label, value], index) => {
+    const x = MARGIN + (index % 2) * columnWidth;
+    const y = context.y + Math.floor(index / 2) * 12;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(label.toUpperCase(), x, y);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor(...TEXT_COLOR);
+    doc.text(doc.splitTextToSize(value, columnWidth - 4)[0], x, y + 5);
+  });
+
+  context.y += Math.ceil(fields.length / 2) * 12 + 2;
+};
+
+/**
+ * Draws rows under a header row, breaking onto new pages as needed and
+ * repeating the header row at the top of each. Cell text that does not fit
+ * its column is cut short rather than wrapped so rows stay one line tall.
+ */
+const drawTable = (context: PdfContext, columns: TableColumn[], rows: string[][], emptyText: string) => {
+  const { doc } = context;
+  const tableWidth = pageWidth(doc) - 2 * MARGIN;
+  const totalWidth = columns.reduce((sum, column) => sum + column.width, 0);
+  const widths = columns.map((column) => (column.width / totalWidth) * tableWidth);
+
+  const drawRow = (cells: string[], header: boolean) => {
+    let x = MARGIN;
+    doc.setFont('helvetica', header ? 'bold' : 'normal');
+    doc.setFontSize(header ? 8 : 9);
+    doc.setTextColor(...(header ? MUTED_COLOR : TEXT_COLOR));
+    cells.forEach((cell, index) => {
+      const width = widths[index];
+      const text = doc.splitTextToSize(cell, width - 2)[0] ?? '';
+      if (columns[index].align === 'right') {
+        doc.text(text, x + width - 1, context.y, { align: 'right' });
+      } else {
+        doc.text(text, x + 1, context.y);
+      }
+      x += width;
+    });
+    doc.setDrawColor(226, 232, 240);
+    doc.setLineWidth(header ? 0.4 : 0.1);
+    doc.line(MARGIN, context.y + 2.5, MARGIN + tableWidth, context.y + 2.5);
+    context.y += ROW_HEIGHT;
+  };
+
+  const headers = columns.map((column) => column.header.toUpperCase());
+  ensureSpace(context, 2 * ROW_HEIGHT);
+  drawRow(headers, true);
+
+  if (rows.length === 0) {
+    doc.setFont('helvetica', 'italic');
+    doc.setFontSize(9);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(emptyText, MARGIN + 1, context.y);
+    context.y += ROW_HEIGHT;
+  }
+
+  rows.forEach((row) => {
+    if (ensureSpace(context, ROW_HEIGHT)) {
+      drawRow(headers, true);
+    }
+    drawRow(row, false);
+  });
+
+  context.y += 4;
+};
+
+const drawBarcode = (context: PdfContext, value: string, x: number, width: number, height: number) => {
+  const { doc } = context;
+  const bars = encodeCode128(value);
+  const modules = bars.reduce((sum, bar) => sum + bar, 0) + 2 * BARCODE_QUIET_ZONE;
+  const moduleWidth = width / modules;
+
+  doc.setFillColor(...TEXT_COLOR);
+  let position = x + BARCODE_QUIET_ZONE * moduleWidth;
+  bars.forEach((bar, index) => {
+    // Even runs are bars, odd runs are the spaces between them
+    if (index % 2 === 0) {
+      doc.rect(position, context.y, bar * moduleWidth, height, 'F');
+    }
+    position += bar * moduleWidth;
+  });
+
+  doc.setFont('courier', 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor(...TEXT_COLOR);
+  doc.text(value, x + width / 2, context.y + height + 5, { align: 'center' });
+  context.y += height + 10;
+};
+
+/**
+ * One e-ticket page per passenger on the booking. The barcode holds the
+ * booking reference and seat, which is what the gate scanner looks up.
+ */
+export const createETicketPdf = async (booking: Booking): Promise<Blob> => {
+  const { flight } = booking;
+  const context = await createContext('E-Ticket', `Booking reference ${booking.bookingReference}`);
+  const { doc } = context;
+
+  // Bookings made before passengers were recorded only know the lead traveller
+  const travellers = booking.passengers.length
+    ? booking.passengers.map((passenger) => ({
+        name: `${passenger.firstName} ${passenger.lastName}`,
+        type: PASSENGER_TYPE_LABELS[passenger.type],
+        document: passenger.documentNumber,
+        seatNumber: passenger.seatNumber,
+      }))
+    : [
+        {
+          name: `${booking.customer.firstName} ${booking.customer.lastName}`,
+          type: PASSENGER_TYPE_LABELS[PassengerType.ADULT],
+          document: '-',
+          seatNumber: booking.seatNumber,
+        },
+      ];
+
+  travellers.forEach((traveller, index) => {
+    if (index > 0) {
+      addPage(context);
+    }
+
+    if (booking.status === BookingStatus.CANCELLED) {
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(12);
+      doc.setTextColor(220, 38, 38);
+      doc.text('CANCELLED - NOT VALID FOR TRAVEL', MARGIN, context.y);
+      context.y += 8;
+    }
+
+    drawSectionTitle(context, 'Passenger');
+    drawFields(context, [
+      ['Name', traveller.name],
+      ['Passenger type', traveller.type],
+      ['Travel document', traveller.document],
+      ['Ticket', `${index + 1} of ${travellers.length}`],
+    ]);
+
+    drawSectionTitle(context, 'Flight');
+    drawFields(context, [
+      ['Flight', flight.flightNumber],
+      ['Aircraft', `${flight.airplaneModel} (${flight.airplaneRegistration})`],
+      ['From', `${flight.originAirport.code} - ${flight.originAirport.city}`],
+      ['To', `${flight.destinationAirport.code} - ${flight.destinationAirport.city}`],
+      ['Departs', formatLocalTime(flight.departureTime, flight.originAirport)],
+      ['Arrives', formatLocalTime(flight.arrivalTime, flight.destinationAirport)],
+      ['Cabin', classLabels[booking.seatClass]],
+      ['Seat', traveller.seatNumber],
+    ]);
+
+    drawSectionTitle(context, 'Boarding');
+    drawBarcode(context, `${booking.bookingReference}-${traveller.seatNumber}`, MARGIN, 110, 18);
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(
+      doc.splitTextToSize(
+        `Booked ${new Date(booking.bookingDate).toLocaleDateString('en-GB', { dateStyle: 'medium' })} - ` +
+          `total fare ${formatPrice(booking.price)}. Check-in opens 24 hours before departure. ` +
+          'Please bring the travel document listed above; times are local to each airport.',
+        pageWidth(doc) - 2 * MARGIN
+      ),
+      MARGIN,
+      context.y
+    );
+  });
+
+  return finishDocument(context, new Date().toISOString());
+};
+
+export const downloadETicket = async (booking: Booking) =>
+  downloadBlob(await createETicketPdf(booking), `e-ticket-${booking.bookingReference}.pdf`);
+
+/**
+ * Everyone booked on a flight, ordered by seat, as handed to the gate and
+ * cabin crew.
+ */
+export const createManifestPdf = async (manifest: PassengerManifest): Promise<Blob> => {
+  const { flight } = manifest;
+  const context = await createContext(
+    `Passenger Manifest - ${flight.flightNumber}`,
+    `${flight.originAirport.code} to ${flight.destinationAirport.code} | departs ${formatLocalTime(
+      flight.departureTime,
+      flight.originAirport
+    )} | ${flight.airplaneModel} (${flight.airplaneRegistration}) | ${flight.status}`
+  );
+
+  const passengers = [...manifest.passengers].sort((a, b) => compareSeatNumbers(a.seatNumber, b.seatNumber));
+  const checkedIn = passengers.filter((passenger) => passenger.checkedIn).length;
+
+  drawFields(context, [
+    ['Passengers', String(passengers.length)],
+    ['Checked in', `${checkedIn} of ${passengers.length}`],
+  ]);
+
+  drawTable(
+    context,
+    [
+      { header: 'Seat', width: 10 },
+      { header: 'Passenger', width: 34 },
+      { header: 'Cabin', width: 14 },
+      { header: 'Booking', width: 16 },
+      { header: 'Contact', width: 40 },
+      { header: 'Checked in', width: 14, align: 'right' },
+    ],
+    passengers.map((passenger) => [
+      passenger.seatNumber,
+      passenger.passengerName,
+      classLabels[passenger.seatClass],
+      passenger.bookingReference,
+      passenger.passengerEmail,
+      passenger.checkedIn ? 'Yes' : 'No',
+    ]),
+    'No passengers are booked on this flight.'
+  );
+
+  return finishDocument(context, manifest.generatedAt);
+};
+
+const movementRows = (flights: Flight[], airport: Airport, direction: 'departure' | 'arrival') =>
+  flights.map((flight) => {
+    const other = direction === 'departure' ? flight.destinationAirport : flight.originAirport;
+    return [
+      formatLocalTime(direction === 'departure' ? flight.departureTime : flight.arrivalTime, airport),
+      flight.flightNumber,
+      `${other.code} ${other.city}`,
+      `${flight.airplaneModel} ${flight.airplaneRegistration}`,
+      flight.status,
+    ];
+  });
+
+/**
+ * Departures and arrivals at an airport, in its local time. Pass a report
+ * whose flight lists are already filtered to print what is on screen;
+ * `sections` leaves out departures or arrivals altogether.
+ */
+export const createAirportReportPdf = async (
+  report: AirportFlightReport,
+  options: { period?: string; sections?: 'all' | 'departures' | 'arrivals' } = {}
+): Promise<Blob> => {
+  const { airport } = report;
+  const sections = options.sections ?? 'all';
+  const context = await createContext(
+    `Airport Movements - ${airport.code}`,
+    `${airport.name}, ${airport.city} | ${options.period ?? report.date} | times in ${airport.timeZone}`
+  );
+
+  const columns = (direction: 'departure' | 'arrival'): TableColumn[] => [
+    { header: `${direction === 'departure' ? 'Departs' : 'Arrives'} (local)`, width: 30 },
+    { header: 'Flight', width: 14 },
+    { header: direction === 'departure' ? 'To' : 'From', width: 28 },
+    { header: 'Aircraft', width: 30 },
+    { header: 'Status', width: 16 },
+  ];
+
+  if (sections !== 'arrivals') {
+    drawSectionTitle(context, `Departures (${report.departingFlights.length})`);
+    drawTable(
+      context,
+      columns('departure'),
+      movementRows(report.departingFlights, airport, 'departure'),
+      'No departures in this period.'
+    );
+  }
+  if (sections !== 'departures') {
+    drawSectionTitle(context, `Arrivals (${report.arrivingFlights.length})`);
+    drawTable(
+      context,
+      columns('arrival'),
+      movementRows(report.arrivingFlights, airport, 'arrival'),
+      'No arrivals in this period.'
+    );
+  }
+
+  return finishDocument(context, report.generatedAt);
+};
+
+// Hands a generated or downloaded file to the browser as a download
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the download a moment to start before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
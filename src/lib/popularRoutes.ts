@@ -0,0 +1,101 @@
+import { addDays, format } from 'date-fns';
+import { BookingStatus } from '@/types';
+import type { Airport, Booking, FlightSearchResult, PopularRoute, SeatClass } from '@/types';
+import { getLowestFare } from './fareCalendar';
+
+// How many days ahead, from today, a route's lowest fare is looked for
+export const ROUTE_FARE_DAYS = 7;
+
+// Why a route is suggested; earlier reasons rank first
+export type RouteSuggestionReason = 'history' | 'home' | 'popular';
+
+export interface RouteSuggestion {
+  origin: Airport;
+  destination: Airport;
+  reason: RouteSuggestionReason;
+  score: number; // Bookings behind the suggestion
+}
+
+export const ROUTE_SUGGESTION_LABELS: Record<RouteSuggestionReason, string> = {
+  history: 'You flew this',
+  home: 'From your home airport',
+  popular: 'Popular',
+};
+
+const REASON_RANK: Record<RouteSuggestionReason, number> = { history: 0, home: 1, popular: 2 };
+
+const activeBookings = (bookings: Booking[]) =>
+  bookings.filter((booking) => booking.status !== BookingStatus.CANCELLED);
+
+// The airport the user flies out of most often, or null without any bookings
+export const getHomeAirport = (bookings: Booking[]): Airport | null => {
+  const counts = new Map<string, { airport: Airport; count: number }>();
+  activeBookings(bookings).forEach(({ flight }) => {
+    const entry = counts.get(flight.originAirport.code) ?? { airport: flight.originAirport, count: 0 };
+    entry.count++;
+    counts.set(flight.originAirport.code, entry);
+  });
+  const [top] = [...counts.values()].sort((a, b) => b.count - a.count);
+  return top?.airport ?? null;
+};
+
+/**
+ * Routes to offer as one-click searches. The user's own routes come first,
+ * then the popular routes that leave from their home airport, then the
+ * routes most booked by everyone. Only airports that can currently be
+ * searched are suggested.
+ */
+export const suggestRoutes = ({
+  popularRoutes,
+  bookings,
+  airports,
+  limit = 6,
+}: {
+  popularRoutes: PopularRoute[];
+  bookings: Booking[];
+  airports: Airport[];
+  limit?: number;
+}): RouteSuggestion[] => {
+  const byCode = new Map(airports.map((airport) => [airport.code, airport]));
+  const suggestions = new Map<string, RouteSuggestion>();
+
+  const add = (originCode: string, destinationCode: string, reason: RouteSuggestionReason, count: number) => {
+    const origin = byCode.get(originCode);
+    const destination = byCode.get(destinationCode);
+    if (!origin || !destination || origin.id === destination.id) return;
+
+    const key = `${originCode}-${destinationCode}`;
+    const existing = suggestions.get(key);
+    suggestions.set(key, {
+      origin,
+      destination,
+      reason: existing && REASON_RANK[existing.reason] < REASON_RANK[reason] ? existing.reason : reason,
+      score: (existing?.score ?? 0) + count,
+    });
+  };
+
+  activeBookings(bookings).forEach(({ flight }) =>
+    add(flight.originAirport.code, flight.destinationAirport.code, 'history', 1)
+  );
+
+  const home = getHomeAirport(bookings);
+  popularRoutes.forEach(({ origin, destination, count }) =>
+    add(origin.code, destination.code, home?.code === origin.code ? 'home' : 'popular', count)
+  );
+
+  return [...suggestions.values()]
+    .sort((a, b) => REASON_RANK[a.reason] - REASON_RANK[b.reason] || b.score - a.score)
+    .slice(0, limit);
+};
+
+// Departure dates searched for a route's lowest fare: today and the days after
+export const getRouteFareDays = () =>
+  Array.from({ length: ROUTE_FARE_DAYS }, (_, index) => format(addDays(new Date(), index), 'yyyy-MM-dd'));
+
+// Cheapest bookable fare across a route's daily searches, or null when none is on sale
+export const getLowestRouteFare = (results: (FlightSearchResult | undefined)[], seatClass?: SeatClass) => {
+  const fares = results
+    .map((result) => getLowestFare(result, seatClass))
+    .filter((fare): fare is number => fare !== null);
+  return fares.length ? Math.min(...fares) : null;
+};
@@ -0,0 +1,41 @@
+import { QueryClient } from '@tanstack/react-query';
+import type { ApiResponse, AppError, PaginatedResponse } from '@/types';
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // ApiService already retries transient failures with backoff
+      retry: false,
+      staleTime: 30 * 1000,
+      refetchOnWindowFocus: false,
+    },
+    mutations: {
+      retry: false,
+    },
+  },
+});
+
+/**
+ * Returns the payload of a successful response and throws the failure as an
+ * AppError, so query and mutation errors look the same as transport errors.
+ */
+export const unwrap = <T>(response: ApiResponse<T>): T => {
+  if (!response.success) {
+    const error: AppError = {
+      code: 'UNKNOWN_ERROR',
+      message: response.message || response.errors?.[0] || 'Request failed',
+      details: response.errors,
+    };
+    throw error;
+  }
+  return response.data;
+};
+
+// Paginated responses keep their pagination block alongside the rows
+export const unwrapPage = <T>(response: PaginatedResponse<T>): PaginatedResponse<T> => {
+  if (!response.success) {
+    const error: AppError = { code: 'UNKNOWN_ERROR', message: 'Request failed' };
+    throw error;
+  }
+  return response;
+};
@@ -0,0 +1,118 @@
+import type { PriceWatch, RecentSearch, SavedSearch } from '@/types';
+
+// Most recent searches kept per user
+export const RECENT_SEARCH_LIMIT = 6;
+
+export interface SearchHistory {
+  recent: RecentSearch[];
+  saved: SavedSearch[];
+}
+
+const EMPTY_HISTORY: SearchHistory = { recent: [], saved: [] };
+
+const storageKey = (owner: string) => `search_history_${owner}`;
+
+/**
+ * Recent and saved flight searches, kept in localStorage per user ('guest'
+ * when signed out). Snapshots are cached so React can compare them by
+ * identity; every write replaces the snapshot and notifies subscribers,
+ * including changes made in other tabs.
+ */
+class SearchHistoryStore {
+  private listeners = new Set<() => void>();
+  private snapshots = new Map<string, SearchHistory>();
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    const onStorage = (event: StorageEvent) => {
+      if (event.key?.startsWith('search_history_')) {
+        this.snapshots.clear();
+        listener();
+      }
+    };
+    window.addEventListener('storage', onStorage);
+    return () => {
+      this.listeners.delete(listener);
+      window.removeEventListener('storage', onStorage);
+    };
+  };
+
+  get(owner: string): SearchHistory {
+    const cached = this.snapshots.get(owner);
+    if (cached) return cached;
+
+    let history = EMPTY_HISTORY;
+    try {
+      const stored = localStorage.getItem(storageKey(owner));
+      if (stored) history = { ...EMPTY_HISTORY, ...JSON.parse(stored) };
+    } catch {
+      console.warn('Invalid search history found in localStorage, clearing...');
+      localStorage.removeItem(storageKey(owner));
+    }
+    this.snapshots.set(owner, history);
+    return history;
+  }
+
+  private update(owner: string, change: (history: SearchHistory) => SearchHistory) {
+    const history = change(this.get(owner));
+    this.snapshots.set(owner, history);
+    localStorage.setItem(storageKey(owner), JSON.stringify(history));
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private updateSaved(owner: string, id: string, change: (search: SavedSearch) => SavedSearch) {
+    this.update(owner, (history) => ({
+      ...history,
+      saved: history.saved.map((search) => (search.id === id ? change(search) : search)),
+    }));
+  }
+
+  // Searching again moves a search back to the top instead of listing it twice
+  addRecent(owner: string, search: Omit<RecentSearch, 'searchedAt'>) {
+    this.update(owner, (history) => ({
+      ...history,
+      recent: [
+        { ...search, searchedAt: new Date().toISOString() },
+        ...history.recent.filter((recent) => recent.query !== search.query),
+      ].slice(0, RECENT_SEARCH_LIMIT),
+    }));
+  }
+
+  clearRecent(owner: string) {
+    this.update(owner, (history) => ({ ...history, recent: [] }));
+  }
+
+  save(owner: string, search: Pick<SavedSearch, 'name' | 'query' | 'label'>) {
+    this.update(owner, (history) => ({
+      ...history,
+      saved: [
+        ...history.saved,
+        {
+          ...search,
+          id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+          createdAt: new Date().toISOString(),
+        },
+      ],
+    }));
+  }
+
+  remove(owner: string, id: string) {
+    this.update(owner, (history) => ({ ...history, saved: history.saved.filter((search) => search.id !== id) }));
+  }
+
+  // A null threshold stops watching
+  setPriceWatch(owner: string, id: string, threshold: number | null) {
+    this.updateSaved(owner, id, (search) => ({
+      ...search,
+      priceWatch: threshold === null ? undefined : { threshold },
+    }));
+  }
+
+  updatePriceWatch(owner: string, id: string, changes: Partial<PriceWatch>) {
+    this.updateSaved(owner, id, (search) =>
+      search.priceWatch ? { ...search, priceWatch: { ...search.priceWatch, ...changes } } : search
+    );
+  }
+}
+
+export const searchHistoryStore = new SearchHistoryStore();
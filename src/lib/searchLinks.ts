@@ -0,0 +1,223 @@
+import { isValid, parseISO } from 'date-fns';
+import { SeatClass, TripType } from '@/types';
+import type { Airport, FlightSearchCriteria, FlightSearchLeg } from '@/types';
+import { getTripLegs } from './tripSearch';
+import { FLEXIBLE_DATE_DAYS } from './fareCalendar';
+
+// Sorting and narrowing applied to search results on the page
+export interface ResultFilters {
+  maxPrice: number;
+  seatClass: SeatClass | undefined;
+  departureTimeRange: { start: string; end: string };
+  airlines: string[];
+  maxStops: number;
+  maxLayoverHours: number; // 0 for any length
+  sortBy: 'price' | 'duration' | 'departure';
+}
+
+export const DEFAULT_RESULT_FILTERS: ResultFilters = {
+  maxPrice: 0,
+  seatClass: undefined,
+  departureTimeRange: { start: '', end: '' },
+  airlines: [],
+  maxStops: 2,
+  maxLayoverHours: 0,
+  sortBy: 'price',
+};
+
+/**
+ * Query-string keys of the flight search page. Airports are written as IATA
+ * codes so links stay readable and survive airport ids changing; the
+ * remaining multi-city legs are `FROM-TO-yyyy-MM-dd`, comma separated.
+ * `around` holds the date a flexible search was made for.
+ */
+export const SEARCH_PARAM_DEFAULTS = {
+  trip: TripType.ONE_WAY as string,
+  from: '',
+  to: '',
+  date: '',
+  return: '',
+  legs: '',
+  class: '',
+  pax: '1',
+  transit: '',
+  around: '',
+  maxPrice: '',
+  cabin: '',
+  depart: '',
+  airlines: '',
+  stops: String(DEFAULT_RESULT_FILTERS.maxStops),
+  layover: '',
+  sort: DEFAULT_RESULT_FILTERS.sortBy,
+};
+
+export type SearchParamValues = Record<keyof typeof SEARCH_PARAM_DEFAULTS, string>;
+type CriteriaParamKey = 'trip' | 'from' | 'to' | 'date' | 'return' | 'legs' | 'class' | 'pax' | 'transit' | 'around';
+type FilterParamKey = Exclude<keyof SearchParamValues, CriteriaParamKey>;
+
+const LEG_PATTERN = /^(\w+)-(\w+)-(\d{4}-\d{2}-\d{2})$/;
+const SORT_ORDERS: ResultFilters['sortBy'][] = ['price', 'duration', 'departure'];
+
+const isEnumValue = <T extends string>(values: Record<string, T>, value: string): value is T =>
+  (Object.values(values) as string[]).includes(value);
+
+// Dates in links are hand-editable; anything but a real yyyy-MM-dd day counts as missing
+const isSearchDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+
+/**
+ * Every criteria key, blank where the search doesn't use it, so writing them
+ * clears whatever the previous search left behind.
+ */
+export const toSearchParams = (
+  criteria: FlightSearchCriteria,
+  airports: Airport[]
+): Record<CriteriaParamKey, string> => {
+  const codeOf = (airportId: number) => airports.find((airport) => airport.id === airportId.toString())?.code ?? '';
+  const tripType = criteria.tripType ?? TripType.ONE_WAY;
+
+  return {
+    trip: tripType,
+    from: codeOf(criteria.originAirportId),
+    to: codeOf(criteria.destinationAirportId),
+    date: criteria.departureDate,
+    return: tripType === TripType.ROUND_TRIP ? criteria.returnDate ?? '' : '',
+    legs:
+      tripType === TripType.MULTI_CITY
+        ? (criteria.legs ?? [])
+            .slice(1)
+            .map((leg) => `${codeOf(leg.originAirportId)}-${codeOf(leg.destinationAirportId)}-${leg.departureDate}`)
+            .join(',')
+        : '',
+    class: criteria.seatClass ?? '',
+    pax: String(criteria.passengers || 1),
+    transit: criteria.includeTransit ? '1' : '',
+    around: criteria.flexibleDates ? criteria.departureDate : '',
+  };
+};
+
+// The search a link describes, or null when it names an airport that isn't known or a date that isn't real
+export const readSearchParams = (values: SearchParamValues, airports: Airport[]): FlightSearchCriteria | null => {
+  const idOf = (code: string) => {
+    const airport = airports.find((candidate) => candidate.code.toUpperCase() === code.toUpperCase());
+    return airport ? Number(airport.id) : 0;
+  };
+
+  const first: FlightSearchLeg = {
+    originAirportId: idOf(values.from),
+    destinationAirportId: idOf(values.to),
+    departureDate: values.date,
+  };
+  if (!first.originAirportId || !first.destinationAirportId || !isSearchDate(first.departureDate)) return null;
+
+  const tripType = isEnumValue(TripType, values.trip) ? values.trip : TripType.ONE_WAY;
+  const legs = values.legs
+    .split(',')
+    .map((leg) => LEG_PATTERN.exec(leg))
+    .flatMap((match) =>
+      match
+        ? [{ originAirportId: idOf(match[1]), destinationAirportId: idOf(match[2]), departureDate: match[3] }]
+        : []
+    );
+  if (legs.some((leg) => !leg.originAirportId || !leg.destinationAirportId || !isSearchDate(leg.departureDate))) {
+    return null;
+  }
+
+  return {
+    ...first,
+    tripType,
+    returnDate: tripType === TripType.ROUND_TRIP && isSearchDate(values.return) ? values.return : undefined,
+    legs: tripType === TripType.MULTI_CITY ? [first, ...legs] : undefined,
+    seatClass: isEnumValue(SeatClass, values.class) ? values.class : undefined,
+    passengers: Math.min(Math.max(parseInt(values.pax) || 1, 1), 9),
+    includeTransit: values.transit === '1',
+    flexibleDates: tripType === TripType.ONE_WAY && isSearchDate(values.around),
+  };
+};
+
+// Just the search, as a query string for links and remembered searches
+export const toSearchQuery = (criteria: FlightSearchCriteria, airports: Airport[]) => {
+  const params = new URLSearchParams();
+  Object.entries(toSearchParams(criteria, airports)).forEach(([key, value]) => {
+    if (value && value !== SEARCH_PARAM_DEFAULTS[key as CriteriaParamKey]) params.set(key, value);
+  });
+  return params.toString();
+};
+
+export const readSearchQuery = (query: string, airports: Airport[]) =>
+  readSearchParams({ ...SEARCH_PARAM_DEFAULTS, ...Object.fromEntries(new URLSearchParams(query)) }, airports);
+
+// One-line summary of a search, e.g. "LHR → CDG → FCO · 1 Nov · 2 passengers · Business"
+export const describeSearch = (criteria: FlightSearchCriteria, airports: Airport[]) => {
+  const codeOf = (airportId: number) => airports.find((airport) => airport.id === airportId.toString())?.code ?? '?';
+  const legs = getTripLegs(criteria);
+  const formatDay = (day: string) =>
+    new Date(`${day}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const route =
+    criteria.tripType === TripType.ROUND_TRIP
+      ? `${codeOf(criteria.originAirportId)} ⇄ ${codeOf(criteria.destinationAirportId)}`
+      : [codeOf(legs[0].originAirportId), ...legs.map((leg) => codeOf(leg.destinationAirportId))].join(' → ');
+  const passengers = criteria.passengers || 1;
+
+  return [
+    route,
+    legs.map((leg) => formatDay(leg.departureDate)).join(' – ') + (criteria.flexibleDates ? ` ±${FLEXIBLE_DATE_DAYS}` : ''),
+    `${passengers} passenger${passengers > 1 ? 's' : ''}`,
+    criteria.seatClass && criteria.seatClass.charAt(0) + criteria.seatClass.slice(1).toLowerCase(),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+};
+
+export const toFilterParams = (filters: ResultFilters): Record<FilterParamKey, string> => ({
+  maxPrice: filters.maxPrice > 0 ? String(filters.maxPrice) : '',
+  cabin: filters.seatClass ?? '',
+  depart:
+    filters.departureTimeRange.start && filters.departureTimeRange.end
+      ? `${filters.departureTimeRange.start}-${filters.departureTimeRange.end}`
+      : '',
+  airlines: filters.airlines.join(','),
+  stops: String(filters.maxStops),
+  layover: filters.maxLayoverHours > 0 ? String(filters.maxLayoverHours) : '',
+  sort: filters.sortBy,
+});
+
+export const readFilterParams = (values: SearchParamValues): ResultFilters => {
+  const [start = '', end = ''] = values.depart.split('-');
+  const maxStops = parseInt(values.stops);
+
+  return {
+    maxPrice: Number(values.maxPrice) || 0,
+    seatClass: isEnumValue(SeatClass, values.cabin) ? values.cabin : undefined,
+    departureTimeRange: start && end ? { start, end } : { start: '', end: '' },
+    airlines: values.airlines.split(',').filter(Boolean),
+    maxStops: Number.isNaN(maxStops) ? DEFAULT_RESULT_FILTERS.maxStops : maxStops,
+    maxLayoverHours: Number(values.layover) || 0,
+    sortBy: SORT_ORDERS.find((order) => order === values.sort) ?? DEFAULT_RESULT_FILTERS.sortBy,
+  };
+};
+
+/**
+ * Booking page link for a set of flights booked together. Cabin and party
+ * size come along so the booking opens as searched, even after a reload.
+ */
+export const getBookingPath = (flightIds: Array<number | string>, criteria?: FlightSearchCriteria) => {
+  const params = new URLSearchParams();
+  if (flightIds.length > 1) params.set('flights', flightIds.join(','));
+  if (criteria?.seatClass) params.set('class', criteria.seatClass);
+  if ((criteria?.passengers ?? 1) > 1) params.set('pax', String(criteria!.passengers));
+  const query = params.toString();
+  return `/book/${flightIds[0]}${query ? `?${query}` : ''}`;
+};
+
+// Flights, cabin and party size of a booking page link
+export const readBookingParams = (flightId: string | undefined, params: URLSearchParams) => {
+  const flightIds = (params.get('flights') ?? '').split(',').filter(Boolean);
+  const seatClass = params.get('class') ?? '';
+
+  return {
+    // A list that doesn't start with the flight in the path is ignored
+    flightIds: flightIds.length && flightIds[0] === flightId ? flightIds : flightId ? [flightId] : [],
+    seatClass: isEnumValue(SeatClass, seatClass) ? seatClass : undefined,
+    passengers: Math.min(Math.max(parseInt(params.get('pax') ?? '') || 1, 1), 9),
+  };
+};
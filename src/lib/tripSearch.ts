@@ -0,0 +1,70 @@
+import { SeatClass, TripType } from '@/types';
+import type { Flight, FlightSearchCriteria, FlightSearchLeg } from '@/types';
+
+// Most flights a multi-city trip can string together
+export const MAX_TRIP_LEGS = 5;
+
+export const TRIP_TYPE_LABELS: Record<TripType, string> = {
+  [TripType.ONE_WAY]: 'One Way',
+  [TripType.ROUND_TRIP]: 'Round Trip',
+  [TripType.MULTI_CITY]: 'Multi-City',
+};
+
+/**
+ * Every leg of a trip in travel order. A round trip is the outbound leg and
+ * the same route reversed on the return date.
+ */
+export const getTripLegs = (criteria: FlightSearchCriteria): FlightSearchLeg[] => {
+  const first: FlightSearchLeg = {
+    originAirportId: criteria.originAirportId,
+    destinationAirportId: criteria.destinationAirportId,
+    departureDate: criteria.departureDate,
+  };
+
+  switch (criteria.tripType) {
+    case TripType.ROUND_TRIP:
+      return criteria.returnDate
+        ? [
+            first,
+            {
+              originAirportId: criteria.destinationAirportId,
+              destinationAirportId: criteria.originAirportId,
+              departureDate: criteria.returnDate,
+            },
+          ]
+        : [first];
+    case TripType.MULTI_CITY:
+      return criteria.legs?.length ? criteria.legs.slice(0, MAX_TRIP_LEGS) : [first];
+    default:
+      return [first];
+  }
+};
+
+// What the flight search API is asked for one leg: the leg plus the shared options
+export const toLegCriteria = (criteria: FlightSearchCriteria, leg: FlightSearchLeg): FlightSearchCriteria => ({
+  ...leg,
+  seatClass: criteria.seatClass,
+  passengers: criteria.passengers,
+  includeTransit: criteria.includeTransit,
+});
+
+export const getLegLabel = (criteria: FlightSearchCriteria, index: number) => {
+  if (criteria.tripType === TripType.ROUND_TRIP) {
+    return index === 0 ? 'Outbound' : 'Return';
+  }
+  return criteria.tripType === TripType.MULTI_CITY ? `Flight ${index + 1}` : 'Departure';
+};
+
+export const getFlightFare = (flight: Flight, seatClass: SeatClass = SeatClass.ECONOMY) =>
+  ({
+    [SeatClass.FIRST]: flight.firstClassPrice,
+    [SeatClass.BUSINESS]: flight.businessClassPrice,
+    [SeatClass.ECONOMY]: flight.economyClassPrice,
+  })[seatClass];
+
+export const getFlightAvailableSeats = (flight: Flight, seatClass: SeatClass = SeatClass.ECONOMY) =>
+  ({
+    [SeatClass.FIRST]: flight.firstClassAvailableSeats,
+    [SeatClass.BUSINESS]: flight.businessClassAvailableSeats,
+    [SeatClass.ECONOMY]: flight.economyClassAvailableSeats,
+  })[seatClass];
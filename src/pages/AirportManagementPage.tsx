@@ -1,6 +1,12 @@
-import React, { useState, useEffect } from 'react';
-import { useAuth } from '@/contexts/AuthContext';
-import { flightService } from '@/services/flightService';
+import React, { useState } from 'react';
+import {
+  useAirportFlightReport,
+  useAirports,
+  useCreateAirport,
+  useDeleteAirport,
+  useUpdateAirport
+} from '@/hooks/queries/useFlightQueries';
+import { useFlightTime } from '@/hooks/useFlightTime';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -13,6 +19,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { DEFAULT_MIN_CONNECTION_MINUTES, getMinConnectionMinutes } from '@/lib/connections';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -38,16 +45,21 @@ const airportSchema = z.object({
   country: z.string().min(1, 'Country is required'),
   timeZone: z.string().min(1, 'Timezone is required'),
   latitude: z.number().min(-90, 'Invalid latitude').max(90, 'Invalid latitude').optional(),
-  longitude: z.number().min(-180, 'Invalid longitude').max(180, 'Invalid longitude').optional()
+  longitude: z.number().min(-180, 'Invalid longitude').max(180, 'Invalid longitude').optional(),
+  minConnectionMinutes: z.number().int('Use whole minutes').min(0, 'Cannot be negative').optional()
 });
 
 type AirportFormData = z.infer<typeof airportSchema>;
 
 export const AirportManagementPage: React.FC = () => {
-  const { user } = useAuth();
-  const [airports, setAirports] = useState<Airport[]>([]);
-  const [filteredAirports, setFilteredAirports] = useState<Airport[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const { formatDateTime } = useFlightTime();
+  const airportsQuery = useAirports();
+  const createAirport = useCreateAirport();
+  const updateAirport = useUpdateAirport();
+  const deleteAirport = useDeleteAirport();
+  const airports = airportsQuery.data ?? [];
+  const isLoading = airportsQuery.isLoading;
+  const loadError = airportsQuery.isError ? airportsQuery.error.message || 'Failed to load airports' : null;
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [countryFilter, setCountryFilter] = useState<string>('all');
@@ -59,7 +71,18 @@ export const AirportManagementPage: React.FC = () => {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isDetailsDialogOpen, setIsDetailsDialogOpen] = useState(false);
   const [selectedAirport, setSelectedAirport] = useState<Airport | null>(null);
-  const [airportFlights, setAirportFlights] = useState<Flight[]>([]);
+
+  // Flights at the airport shown in the details dialog over the next week
+  const today = new Date().toISOString().split('T')[0];
+  const weekAhead = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const { data: airportReport } = useAirportFlightReport(
+    isDetailsDialogOpen ? selectedAirport?.id ?? '' : '',
+    today,
+    weekAhead
+  );
+  const airportFlights: Flight[] = airportReport
+    ? [...airportReport.arrivingFlights, ...airportReport.departingFlights]
+    : [];
 
   const form = useForm<AirportFormData>({
     resolver: zodResolver(airportSchema),
@@ -70,35 +93,11 @@ export const AirportManagementPage: React.FC = () => {
       country: '',
       timeZone: 'UTC',
       latitude: undefined,
-      longitude: undefined
+      longitude: undefined,
+      minConnectionMinutes: undefined
     }
   });
 
-  useEffect(() => {
-    loadAirports();
-  }, []);
-
-  useEffect(() => {
-    filterAirports();
-  }, [airports, searchTerm, countryFilter, continentFilter]);
-
-  const loadAirports = async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      const response = await flightService.getAllAirports();
-      if (response.success) {
-        setAirports(response.data || []);
-      } else {
-        setError(response.message || 'Failed to load airports');
-      }
-    } catch (error: any) {
-      setError(error.message || 'Failed to load airports');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   const filterAirports = () => {
     let filtered = [...airports];
 
@@ -123,7 +122,7 @@ export const AirportManagementPage: React.FC = () => {
       filtered = filtered.filter(airport => continentCountries.includes(airport.country));
     }
 
-    setFilteredAirports(filtered);
+    return filtered;
   };
 
   const getContinentCountries = (continent: string): string[] => {
@@ -138,6 +137,8 @@ export const AirportManagementPage: React.FC = () => {
     return continents[continent] || [];
   };
 
+  const filteredAirports = filterAirports();
+
   const getUniqueCountries = () => {
     return [...new Set(airports.map(airport => airport.country))].sort();
   };
@@ -148,14 +149,10 @@ export const AirportManagementPage: React.FC = () => {
 
   const handleAdd = async (data: AirportFormData) => {
     try {
-      const response = await flightService.createAirport(data);
-      if (response.success) {
-        await loadAirports();
-        setIsAddDialogOpen(false);
-        form.reset();
-      } else {
-        setError(response.message || 'Failed to create airport');
-      }
+      setError(null);
+      await createAirport.mutateAsync(data);
+      setIsAddDialogOpen(false);
+      form.reset();
     } catch (error: any) {
       setError(error.message || 'Failed to create airport');
     }
@@ -165,15 +162,11 @@ export const AirportManagementPage: React.FC = () => {
     if (!selectedAirport) return;
 
     try {
-      const response = await flightService.updateAirport(selectedAirport.id, data);
-      if (response.success) {
-        await loadAirports();
-        setIsEditDialogOpen(false);
-        setSelectedAirport(null);
-        form.reset();
-      } else {
-        setError(response.message || 'Failed to update airport');
-      }
+      setError(null);
+      await updateAirport.mutateAsync({ id: selectedAirport.id, data });
+      setIsEditDialogOpen(false);
+      setSelectedAirport(null);
+      form.reset();
     } catch (error: any) {
       setError(error.message || 'Failed to update airport');
     }
@@ -183,14 +176,10 @@ export const AirportManagementPage: React.FC = () => {
     if (!selectedAirport) return;
 
     try {
-      const response = await flightService.deleteAirport(selectedAirport.id);
-      if (response.success) {
-        await loadAirports();
-        setIsDeleteDialogOpen(false);
-        setSelectedAirport(null);
-      } else {
-        setError(response.message || 'Failed to delete airport');
-      }
+      setError(null);
+      await deleteAirport.mutateAsync(selectedAirport.id);
+      setIsDeleteDialogOpen(false);
+      setSelectedAirport(null);
     } catch (error: any) {
       setError(error.message || 'Failed to delete airport');
     }
@@ -205,7 +194,8 @@ export const AirportManagementPage: React.FC = () => {
       country: airport.country,
       timeZone: airport.timeZone,
       latitude: airport.latitude,
-      longitude: airport.longitude
+      longitude: airport.longitude,
+      minConnectionMinutes: airport.minConnectionMinutes
     });
     setIsEditDialogOpen(true);
   };
@@ -215,24 +205,9 @@ export const AirportManagementPage: React.FC = () => {
     setIsDeleteDialogOpen(true);
   };
 
-  const openDetailsDialog = async (airport: Airport) => {
+  const openDetailsDialog = (airport: Airport) => {
     setSelectedAirport(airport);
     setIsDetailsDialogOpen(true);
-    
-    // Load flights for this airport
-    try {
-      const today = new Date().toISOString().split('T')[0];
-      const endDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-      const response = await flightService.getAirportFlightReport(airport.id, today, endDate);
-      if (response.success) {
-        const report = response.data;
-        if (report) {
-          setAirportFlights([...report.arrivingFlights, ...report.departingFlights]);
-        }
-      }
-    } catch (error) {
-      console.error('Failed to load airport flights:', error);
-    }
   };
 
   // Airport presets for common airports
@@ -472,6 +447,27 @@ export const AirportManagementPage: React.FC = () => {
                     />
                   </div>
 
+                  <FormField
+                    control={form.control}
+                    name="minConnectionMinutes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Minimum Connection Time (Optional)</FormLabel>
+                        <FormControl>
+                          <Input 
+                            type="number" 
+                            min={0}
+                            placeholder={`${DEFAULT_MIN_CONNECTION_MINUTES} minutes if left blank`}
+                            {...field}
+                            value={field.value ?? ''}
+                            onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <DialogFooter>
                     <Button type="button" variant="outline" onClick={() => setIsAddDialogOpen(false)}>
                       Cancel
@@ -529,9 +525,9 @@ export const AirportManagementPage: React.FC = () => {
       </div>
 
       {/* Error Display */}
-      {error && (
+      {(error || loadError) && (
         <Alert variant="destructive" className="mb-6">
-          <AlertDescription>{error}</AlertDescription>
+          <AlertDescription>{error || loadError}</AlertDescription>
         </Alert>
       )}
 
@@ -838,6 +834,27 @@ export const AirportManagementPage: React.FC = () => {
                 />
               </div>
 
+              <FormField
+                control={form.control}
+                name="minConnectionMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum Connection Time (Optional)</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="number" 
+                        min={0}
+                        placeholder={`${DEFAULT_MIN_CONNECTION_MINUTES} minutes if left blank`}
+                        {...field}
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setIsEditDialogOpen(false)}>
                   Cancel
@@ -907,6 +924,10 @@ export const AirportManagementPage: React.FC = () => {
                       <div><strong>City:</strong> {selectedAirport.city}</div>
                       <div><strong>Country:</strong> {selectedAirport.country}</div>
                       <div><strong>Timezone:</strong> {selectedAirport.timeZone}</div>
+                      <div>
+                        <strong>Minimum Connection:</strong> {getMinConnectionMinutes(selectedAirport)} minutes
+                        {selectedAirport.minConnectionMinutes === undefined && ' (default)'}
+                      </div>
                     </CardContent>
                   </Card>
                   
@@ -963,14 +984,12 @@ export const AirportManagementPage: React.FC = () => {
                           {airportFlights.map((flight) => (
                             <TableRow key={flight.id}>
                               <TableCell className="font-medium">{flight.flightNumber}</TableCell>
-                              <TableCell>{flight.origin.code} → {flight.destination.code}</TableCell>
+                              <TableCell>{flight.originAirport.code} → {flight.destinationAirport.code}</TableCell>
                               <TableCell>
-                                {new Date(flight.departureTime).toLocaleDateString()}{' '}
-                                {new Date(flight.departureTime).toLocaleTimeString()}
+                                {formatDateTime(flight.departureTime, flight.originAirport)}
                               </TableCell>
                               <TableCell>
-                                {new Date(flight.arrivalTime).toLocaleDateString()}{' '}
-                                {new Date(flight.arrivalTime).toLocaleTimeString()}
+                                {formatDateTime(flight.arrivalTime, flight.destinationAirport)}
                               </TableCell>
                               <TableCell>
                                 <Badge variant="outline">{flight.status}</Badge>
@@ -1,10 +1,424 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  useBooking,
+  useBookingByReference,
+  useCancelBooking,
+  useCheckIn,
+  useSendBookingConfirmation
+} from '@/hooks/queries/useBookingQueries';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { PassengerList } from '@/components/bookings/PassengerList';
+import { BookingSeatSelector } from '@/components/bookings/BookingSeatSelector';
+import { PASSENGER_TYPE_LABELS } from '@/lib/passengers';
+import { downloadETicket } from '@/lib/pdfDocuments';
+import { formatDuration, getDurationMinutes } from '@/lib/dateTime';
+import { useFlightTime } from '@/hooks/useFlightTime';
+import { BookingEventType, BookingStatus, UserRole } from '@/types';
+import type { AppError, Booking, BookingEvent } from '@/types';
+import {
+  AlertCircle,
+  Armchair,
+  ArrowLeft,
+  CheckCircle,
+  CreditCard,
+  Download,
+  History,
+  Mail,
+  Plane,
+  PlusCircle,
+  Ticket,
+  UserCheck,
+  XCircle
+} from 'lucide-react';
+
+// Check-in opens this long before departure and closes at departure
+const CHECK_IN_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const statusConfig = {
+  [BookingStatus.CONFIRMED]: { variant: 'default' as const, icon: CheckCircle },
+  [BookingStatus.CANCELLED]: { variant: 'destructive' as const, icon: XCircle },
+  [BookingStatus.COMPLETED]: { variant: 'secondary' as const, icon: CheckCircle }
+};
+
+const eventConfig: Record<BookingEventType, { label: string; icon: typeof Ticket; color: string }> = {
+  [BookingEventType.CREATED]: { label: 'Booked', icon: PlusCircle, color: 'text-blue-600' },
+  [BookingEventType.CONFIRMED]: { label: 'Confirmed', icon: CheckCircle, color: 'text-green-600' },
+  [BookingEventType.SEAT_CHANGED]: { label: 'Seat changed', icon: Armchair, color: 'text-purple-600' },
+  [BookingEventType.CHECKED_IN]: { label: 'Checked in', icon: UserCheck, color: 'text-green-600' },
+  [BookingEventType.CANCELLED]: { label: 'Cancelled', icon: XCircle, color: 'text-red-600' },
+  [BookingEventType.COMPLETED]: { label: 'Flown', icon: Plane, color: 'text-muted-foreground' }
+};
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(price);
+
+const getFlightDuration = (departure: string, arrival: string) =>
+  formatDuration(getDurationMinutes(departure, arrival));
+
+/**
+ * What the signed-in user may do with a booking right now. The backend has
+ * the final say; this only decides which buttons to offer.
+ */
+const getAllowedActions = (booking: Booking, isStaff: boolean, isOwner: boolean) => {
+  const untilDeparture = new Date(booking.flight.departureTime).getTime() - Date.now();
+  const isConfirmed = booking.status === BookingStatus.CONFIRMED;
+  const canAccess = isStaff || isOwner;
+  return {
+    cancel: canAccess && isConfirmed && untilDeparture > 0,
+    checkIn: canAccess && isConfirmed && !booking.checkedIn && untilDeparture > 0 && untilDeparture <= CHECK_IN_WINDOW_MS,
+    checkInOpensAt: untilDeparture > CHECK_IN_WINDOW_MS
+      ? new Date(new Date(booking.flight.departureTime).getTime() - CHECK_IN_WINDOW_MS)
+      : null,
+    resendConfirmation: canAccess && isConfirmed,
+    // Completed trips keep their ticket as a record of travel
+    downloadTicket: canAccess && booking.status !== BookingStatus.CANCELLED
+  };
+};
+
+const HistoryTimeline: React.FC<{ history: BookingEvent[] }> = ({ history }) => {
+  if (history.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes have been recorded for this booking.</p>;
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l pl-6">
+      {history.map((event, index) => {
+        const config = eventConfig[event.type];
+        const Icon = config.icon;
+        return (
+          <li key={index} className="relative">
+            <span className="absolute -left-[2.1rem] flex h-6 w-6 items-center justify-center rounded-full border bg-background">
+              <Icon className={`h-3.5 w-3.5 ${config.color}`} />
+            </span>
+            <p className="font-medium">{config.label}</p>
+            <p className="text-sm text-muted-foreground">
+              {new Date(event.occurredAt).toLocaleString()}
+              {event.actor && ` · by ${event.actor}`}
+            </p>
+            {event.note && <p className="text-sm mt-1">{event.note}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
 
 export const BookingDetailsPage: React.FC = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { formatTime, formatDate, formatArrivalDay } = useFlightTime();
+
+  // Numeric params are booking ids; anything else is read as a booking reference
+  const isReference = !/^\d+$/.test(id);
+  const byIdQuery = useBooking(isReference ? undefined : id);
+  const byReferenceQuery = useBookingByReference(isReference ? id.toUpperCase() : undefined);
+  const bookingQuery = isReference ? byReferenceQuery : byIdQuery;
+  const booking = bookingQuery.data;
+
+  const cancelBooking = useCancelBooking();
+  const checkIn = useCheckIn();
+  const sendConfirmation = useSendBookingConfirmation();
+
+  const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const isStaff = user?.role === UserRole.OPERATOR || user?.role === UserRole.ADMINISTRATOR;
+  const backLink = isStaff ? '/manage/bookings' : '/my-bookings';
+
+  if (bookingQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (bookingQuery.isError || !booking) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-5xl space-y-4">
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {bookingQuery.error?.message || 'This booking could not be found.'}
+          </AlertDescription>
+        </Alert>
+        <Button asChild variant="outline">
+          <Link to={backLink}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to bookings
+          </Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const { flight } = booking;
+  const actions = getAllowedActions(booking, isStaff, booking.customer.id === user?.id);
+  const StatusIcon = statusConfig[booking.status].icon;
+
+  const handleCancel = async () => {
+    try {
+      await cancelBooking.mutateAsync({ id: booking.id, reason: cancelReason || undefined });
+      toast.success(`Booking ${booking.bookingReference} cancelled`);
+      setIsCancelDialogOpen(false);
+      setCancelReason('');
+    } catch (error) {
+      toast.error((error as AppError).message || 'Failed to cancel booking');
+    }
+  };
+
+  const handleCheckIn = async () => {
+    try {
+      await checkIn.mutateAsync(booking.id);
+      toast.success('Checked in. Have a good flight!');
+    } catch (error) {
+      toast.error((error as AppError).message || 'Failed to check in');
+    }
+  };
+
+  const handleResendConfirmation = async () => {
+    try {
+      await sendConfirmation.mutateAsync(booking.id);
+      toast.success(`Confirmation sent to ${booking.customer.email}`);
+    } catch (error) {
+      toast.error((error as AppError).message || 'Failed to send confirmation');
+    }
+  };
+
+  const handleDownloadTicket = async () => {
+    setIsDownloading(true);
+    try {
+      await downloadETicket(booking);
+    } catch (error) {
+      toast.error((error as AppError).message || 'Failed to create the e-ticket');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
   return (
-    <div className="container mx-auto px-4 py-8">
-      <h1 className="text-3xl font-bold mb-6">Booking Details</h1>
-      <p className="text-muted-foreground">Booking details functionality coming soon...</p>
+    <div className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+      {/* Header */}
+      <div className="space-y-4">
+        <Button asChild variant="ghost" className="-ml-4">
+          <Link to={backLink}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to bookings
+          </Link>
+        </Button>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <Ticket className="h-8 w-8" />
+              Booking {booking.bookingReference}
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Booked {new Date(booking.bookingDate).toLocaleDateString()}
+              {isStaff && ` for ${booking.customer.firstName} ${booking.customer.lastName} (${booking.customer.email})`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant={statusConfig[booking.status].variant} className="flex items-center gap-1">
+              <StatusIcon className="h-3 w-3" />
+              {booking.status}
+            </Badge>
+            {booking.checkedIn && (
+              <Badge variant="outline" className="flex items-center gap-1">
+                <UserCheck className="h-3 w-3" />
+                Checked in
+              </Badge>
+            )}
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex flex-wrap gap-2">
+          {actions.checkIn && (
+            <Button onClick={handleCheckIn} disabled={checkIn.isPending}>
+              <UserCheck className="h-4 w-4 mr-2" />
+              {checkIn.isPending ? 'Checking in...' : 'Check In'}
+            </Button>
+          )}
+          {actions.downloadTicket && (
+            <Button variant="outline" onClick={handleDownloadTicket} disabled={isDownloading}>
+              <Download className="h-4 w-4 mr-2" />
+              {isDownloading ? 'Preparing...' : 'Download E-Ticket'}
+            </Button>
+          )}
+          {actions.resendConfirmation && (
+            <Button variant="outline" onClick={handleResendConfirmation} disabled={sendConfirmation.isPending}>
+              <Mail className="h-4 w-4 mr-2" />
+              Resend Confirmation
+            </Button>
+          )}
+          {actions.cancel && (
+            <Button variant="outline" className="text-red-600 hover:text-red-700" onClick={() => setIsCancelDialogOpen(true)}>
+              <XCircle className="h-4 w-4 mr-2" />
+              Cancel Booking
+            </Button>
+          )}
+        </div>
+        {actions.checkInOpensAt && booking.status === BookingStatus.CONFIRMED && (
+          <p className="text-sm text-muted-foreground">
+            Online check-in opens {actions.checkInOpensAt.toLocaleString()}.
+          </p>
+        )}
+      </div>
+
+      {/* Itinerary */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plane className="h-5 w-5" />
+            Itinerary
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <span className="font-medium">Flight {flight.flightNumber}</span>
+            <span className="text-muted-foreground">
+              {flight.airplaneModel} · <span className="capitalize">{booking.seatClass.toLowerCase()}</span> class
+            </span>
+          </div>
+          <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-4">
+            <div>
+              <p className="text-2xl font-bold">{flight.originAirport.code}</p>
+              <p className="text-sm">{flight.originAirport.name}</p>
+              <p className="text-sm text-muted-foreground">
+                {flight.originAirport.city}, {flight.originAirport.country}
+              </p>
+              <p className="font-medium mt-2">
+                {formatDate(flight.departureTime, flight.originAirport, 'MMM d, yyyy')}{' '}
+                {formatTime(flight.departureTime, flight.originAirport)}
+              </p>
+            </div>
+            <div className="text-center text-sm text-muted-foreground">
+              <Plane className="h-5 w-5 mx-auto mb-1" />
+              {getFlightDuration(flight.departureTime, flight.arrivalTime)}
+            </div>
+            <div className="text-right">
+              <p className="text-2xl font-bold">{flight.destinationAirport.code}</p>
+              <p className="text-sm">{flight.destinationAirport.name}</p>
+              <p className="text-sm text-muted-foreground">
+                {flight.destinationAirport.city}, {flight.destinationAirport.country}
+              </p>
+              <p className="font-medium mt-2">
+                {formatDate(flight.arrivalTime, flight.destinationAirport, 'MMM d, yyyy')}{' '}
+                {formatTime(flight.arrivalTime, flight.destinationAirport)}
+                {formatArrivalDay(flight) && (
+                  <sup className="ml-1 text-xs text-orange-600">{formatArrivalDay(flight)}</sup>
+                )}
+              </p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Passengers ({booking.passengers.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PassengerList passengers={booking.passengers} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Armchair className="h-5 w-5" />
+                Seats
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <BookingSeatSelector key={booking.id} booking={booking} />
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          {/* Price Breakdown */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CreditCard className="h-5 w-5" />
+                Price
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {booking.passengers.map((passenger) => (
+                <div key={passenger.id} className="flex items-center justify-between gap-2">
+                  <span className="text-muted-foreground">
+                    {passenger.firstName} {passenger.lastName}
+                    <span className="block text-xs">{PASSENGER_TYPE_LABELS[passenger.type]}</span>
+                  </span>
+                  <span className="font-medium">{formatPrice(passenger.price)}</span>
+                </div>
+              ))}
+              <div className="flex items-center justify-between pt-2 border-t text-base font-bold">
+                <span>Total</span>
+                <span>{formatPrice(booking.price)}</span>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                History
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <HistoryTimeline history={booking.history} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Cancel Booking Dialog */}
+      <Dialog open={isCancelDialogOpen} onOpenChange={setIsCancelDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Booking</DialogTitle>
+            <DialogDescription>
+              Cancel booking {booking.bookingReference} on flight {flight.flightNumber}? This cannot be undone and
+              every seat on the booking is released.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="cancelReason">Reason for cancellation (optional)</Label>
+            <Input
+              id="cancelReason"
+              placeholder="Enter cancellation reason..."
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              className="mt-2"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCancelDialogOpen(false)}>
+              Keep Booking
+            </Button>
+            <Button variant="destructive" onClick={handleCancel} disabled={cancelBooking.isPending}>
+              {cancelBooking.isPending ? 'Cancelling...' : 'Cancel Booking'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
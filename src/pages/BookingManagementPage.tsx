@@ -1,7 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { bookingService } from '@/services/bookingService';
-import { flightService } from '@/services/flightService';
+import {
+  useBookings,
+  useCancelBooking,
+  useConfirmBooking,
+  useMyBookings,
+  useSendReminderEmail
+} from '@/hooks/queries/useBookingQueries';
+import { useFlights } from '@/hooks/queries/useFlightQueries';
+import { useDebouncedValue, useListQueryParams } from '@/hooks/useListQueryParams';
+import { useFlightTime } from '@/hooks/useFlightTime';
+import type { ListQueryDefaults } from '@/lib/listQuery';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,9 +26,7 @@ import { CreateBookingDialog } from '@/components/bookings/CreateBookingDialog';
 import type { 
   Booking, 
   BookingStatus, 
-  Flight, 
-  SeatClass,
-  PaginatedResponse
+  SeatClass
 } from '@/types';
 import { BookingStatus as BookingStatusEnum, UserRole, SeatClass as SeatClassEnum } from '@/types';
 import { 
@@ -33,140 +41,71 @@ import {
   Mail
 } from 'lucide-react';
 
+// Filters and paging live in the URL so a filtered view can be bookmarked
+const BOOKING_FILTER_KEYS = ['search', 'status', 'seatClass', 'flightId', 'startDate', 'endDate'] as const;
+const BOOKING_LIST_DEFAULTS: ListQueryDefaults = {
+  size: 10,
+  sort: { field: 'bookingDate', direction: 'desc' },
+};
+
 export const BookingManagementPage: React.FC = () => {
   const { user } = useAuth();
-  const [bookings, setBookings] = useState<Booking[]>([]);
-  const [filteredBookings, setFilteredBookings] = useState<Booking[]>([]);
-  const [flights, setFlights] = useState<Flight[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const { formatTime, formatDate, formatArrivalDay } = useFlightTime();
   const [error, setError] = useState<string | null>(null);
   
-  // Pagination
-  const [currentPage, setCurrentPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
-  const [totalBookings, setTotalBookings] = useState(0);
-  const pageSize = 10;
-
-  // Filter states
-  const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [flightFilter, setFlightFilter] = useState<string>('all');
-  const [dateRangeFilter, setDateRangeFilter] = useState({ start: '', end: '' });
-  const [seatClassFilter, setSeatClassFilter] = useState<string>('all');
+  // Pagination and filters
+  const { query, filters, setPage, setFilter } = useListQueryParams(BOOKING_FILTER_KEYS, BOOKING_LIST_DEFAULTS);
+  const currentPage = query.page ?? 1;
+  const [searchTerm, setSearchTerm] = useState(filters.search ?? '');
+  const debouncedSearch = useDebouncedValue(searchTerm);
+
+  useEffect(() => {
+    setFilter('search', debouncedSearch);
+  }, [debouncedSearch, setFilter]);
+
+  const bookingQuery = {
+    ...query,
+    filters: {
+      ...filters,
+      status: filters.status as BookingStatus | undefined,
+      seatClass: filters.seatClass as SeatClass | undefined,
+    },
+  };
+
+  // Customers can only see their own bookings; operators and admins see all of them
+  const isCustomer = user?.role === UserRole.CUSTOMER;
+  const myBookingsQuery = useMyBookings(bookingQuery, { enabled: isCustomer });
+  const allBookingsQuery = useBookings(bookingQuery, { enabled: !isCustomer });
+  const bookingsQuery = isCustomer ? myBookingsQuery : allBookingsQuery;
+  const { data: flightsPage } = useFlights(undefined, { enabled: !isCustomer });
+  const cancelBooking = useCancelBooking();
+  const confirmBooking = useConfirmBooking();
+  const sendReminderEmail = useSendReminderEmail();
+
+  const bookings = bookingsQuery.data?.data ?? [];
+  const flights = flightsPage?.data ?? [];
+  const pagination = bookingsQuery.data?.pagination;
+  const totalPages = pagination?.size ? Math.max(1, Math.ceil(pagination.total / pagination.size)) : 1;
+  const totalBookings = pagination?.total || 0;
+  const isLoading = bookingsQuery.isFetching;
+  const loadError = bookingsQuery.isError ? bookingsQuery.error.message || 'Failed to load bookings' : null;
+  const hasFilters = Object.keys(filters).length > 0;
 
   // Dialog states
-  const [isDetailsDialogOpen, setIsDetailsDialogOpen] = useState(false);
   const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false);
   const [isCreateBookingDialogOpen, setIsCreateBookingDialogOpen] = useState(false);
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
   const [cancelReason, setCancelReason] = useState('');
 
-  useEffect(() => {
-    loadBookings();
-    if (user?.role === UserRole.OPERATOR || user?.role === UserRole.ADMINISTRATOR) {
-      loadFlights();
-    }
-  }, [currentPage, user]);
-
-  useEffect(() => {
-    filterBookings();
-  }, [bookings, searchTerm, statusFilter, flightFilter, dateRangeFilter, seatClassFilter]);
-
-  const loadBookings = async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      let response: PaginatedResponse<Booking>;
-      
-      if (user?.role === UserRole.CUSTOMER) {
-        // Customers can only see their own bookings
-        response = await bookingService.getMyBookings({
-          page: currentPage,
-          limit: pageSize,
-          status: statusFilter !== 'all' ? statusFilter : undefined
-        });
-      } else {
-        // Operators and Admins can see all bookings
-        response = await bookingService.getAllBookings({
-          page: currentPage,
-          limit: pageSize,
-          status: statusFilter !== 'all' ? statusFilter : undefined,
-          startDate: dateRangeFilter.start || undefined,
-          endDate: dateRangeFilter.end || undefined
-        });
-      }
-      
-      if (response.success) {
-        setBookings(response.data || []);
-        setTotalPages(response.pagination?.page ? Math.ceil(response.pagination.total / response.pagination.size) : 1);
-        setTotalBookings(response.pagination?.total || 0);
-      } else {
-        setError('Failed to load bookings');
-      }
-    } catch (error: any) {
-      setError(error.message || 'Failed to load bookings');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const loadFlights = async () => {
-    try {
-      const response = await flightService.getAllFlights();
-      if (response.success) {
-        setFlights(response.data || []);
-      }
-    } catch (error) {
-      console.error('Failed to load flights:', error);
-    }
-  };
-
-  const filterBookings = () => {
-    let filtered = [...bookings];
-
-    // Search filter
-    if (searchTerm) {
-      filtered = filtered.filter(booking =>
-        booking.bookingReference.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        booking.customer.firstName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        booking.customer.lastName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        booking.customer.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        booking.flight.flightNumber.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
-
-    // Status filter
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter(booking => booking.status === statusFilter as BookingStatus);
-    }
-
-    // Flight filter
-    if (flightFilter !== 'all') {
-      filtered = filtered.filter(booking => booking.flight.id === flightFilter);
-    }
-
-    // Seat class filter
-    if (seatClassFilter !== 'all') {
-      filtered = filtered.filter(booking => booking.seatClass === seatClassFilter);
-    }
-
-    setFilteredBookings(filtered);
-  };
-
   const handleCancelBooking = async () => {
     if (!selectedBooking) return;
 
     try {
-      const response = await bookingService.cancelBooking(selectedBooking.id, cancelReason);
-      if (response.success) {
-        await loadBookings();
-        setIsCancelDialogOpen(false);
-        setSelectedBooking(null);
-        setCancelReason('');
-      } else {
-        setError(response.message || 'Failed to cancel booking');
-      }
+      setError(null);
+      await cancelBooking.mutateAsync({ id: selectedBooking.id, reason: cancelReason });
+      setIsCancelDialogOpen(false);
+      setSelectedBooking(null);
+      setCancelReason('');
     } catch (error: any) {
       setError(error.message || 'Failed to cancel booking');
     }
@@ -174,12 +113,8 @@ export const BookingManagementPage: React.FC = () => {
 
   const handleConfirmBooking = async (booking: Booking) => {
     try {
-      const response = await bookingService.confirmBooking(booking.id);
-      if (response.success) {
-        await loadBookings();
-      } else {
-        setError(response.message || 'Failed to confirm booking');
-      }
+      setError(null);
+      await confirmBooking.mutateAsync(booking.id);
     } catch (error: any) {
       setError(error.message || 'Failed to confirm booking');
     }
@@ -187,22 +122,13 @@ export const BookingManagementPage: React.FC = () => {
 
   const handleSendReminder = async (booking: Booking) => {
     try {
-      const response = await bookingService.sendReminderEmail(booking.id);
-      if (response.success) {
-        // Show success message
-      } else {
-        setError(response.message || 'Failed to send reminder');
-      }
+      await sendReminderEmail.mutateAsync(booking.id);
+      // Show success message
     } catch (error: any) {
       setError(error.message || 'Failed to send reminder');
     }
   };
 
-  const openDetailsDialog = (booking: Booking) => {
-    setSelectedBooking(booking);
-    setIsDetailsDialogOpen(true);
-  };
-
   const openCancelDialog = (booking: Booking) => {
     setSelectedBooking(booking);
     setIsCancelDialogOpen(true);
@@ -250,7 +176,7 @@ export const BookingManagementPage: React.FC = () => {
   };
 
   const getTotalRevenue = () => {
-    return filteredBookings.reduce((sum, booking) => 
+    return bookings.reduce((sum, booking) => 
       booking.status === BookingStatusEnum.CONFIRMED || booking.status === BookingStatusEnum.COMPLETED 
         ? sum + booking.price 
         : sum, 0
@@ -258,9 +184,9 @@ export const BookingManagementPage: React.FC = () => {
   };
 
   const getBookingStats = () => {
-    const confirmed = filteredBookings.filter(b => b.status === BookingStatusEnum.CONFIRMED).length;
-    const cancelled = filteredBookings.filter(b => b.status === BookingStatusEnum.CANCELLED).length;
-    const completed = filteredBookings.filter(b => b.status === BookingStatusEnum.COMPLETED).length;
+    const confirmed = bookings.filter(b => b.status === BookingStatusEnum.CONFIRMED).length;
+    const cancelled = bookings.filter(b => b.status === BookingStatusEnum.CANCELLED).length;
+    const completed = bookings.filter(b => b.status === BookingStatusEnum.COMPLETED).length;
     
     return { confirmed, cancelled, completed };
   };
@@ -308,7 +234,7 @@ export const BookingManagementPage: React.FC = () => {
             <Ticket className="h-8 w-8 text-primary mr-3" />
             <div>
               <p className="text-sm font-medium text-muted-foreground">Total Bookings</p>
-              <p className="text-2xl font-bold">{filteredBookings.length}</p>
+              <p className="text-2xl font-bold">{bookings.length}</p>
             </div>
           </CardContent>
         </Card>
@@ -345,9 +271,9 @@ export const BookingManagementPage: React.FC = () => {
       </div>
 
       {/* Error Display */}
-      {error && (
+      {(error || loadError) && (
         <Alert variant="destructive" className="mb-6">
-          <AlertDescription>{error}</AlertDescription>
+          <AlertDescription>{error || loadError}</AlertDescription>
         </Alert>
       )}
 
@@ -377,7 +303,10 @@ export const BookingManagementPage: React.FC = () => {
             
             <div>
               <Label className="mb-2">Status</Label>
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <Select
+                value={filters.status ?? 'all'}
+                onValueChange={(value) => setFilter('status', value === 'all' ? undefined : value)}
+              >
                 <SelectTrigger className="w-full">
                   <SelectValue />
                 </SelectTrigger>
@@ -392,7 +321,10 @@ export const BookingManagementPage: React.FC = () => {
 
             <div>
               <Label className="mb-2">Seat Class</Label>
-              <Select value={seatClassFilter} onValueChange={setSeatClassFilter}>
+              <Select
+                value={filters.seatClass ?? 'all'}
+                onValueChange={(value) => setFilter('seatClass', value === 'all' ? undefined : value)}
+              >
                 <SelectTrigger className="w-full">
                   <SelectValue />
                 </SelectTrigger>
@@ -408,15 +340,18 @@ export const BookingManagementPage: React.FC = () => {
             {(user?.role === UserRole.OPERATOR || user?.role === UserRole.ADMINISTRATOR) && (
               <div>
                 <Label className="mb-2">Flight</Label>
-                <Select value={flightFilter} onValueChange={setFlightFilter}>
+                <Select
+                  value={filters.flightId ?? 'all'}
+                  onValueChange={(value) => setFilter('flightId', value === 'all' ? undefined : value)}
+                >
                   <SelectTrigger className="w-full">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Flights</SelectItem>
                     {flights.map((flight) => (
-                      <SelectItem key={flight.id} value={flight.id}>
-                        {flight.flightNumber} - {flight.origin.code} → {flight.destination.code}
+                      <SelectItem key={flight.id} value={flight.id.toString()}>
+                        {flight.flightNumber} - {flight.originAirport.code} → {flight.destinationAirport.code}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -434,7 +369,7 @@ export const BookingManagementPage: React.FC = () => {
             {user?.role === UserRole.CUSTOMER ? 'Your Bookings' : 'All Bookings'}
           </CardTitle>
           <CardDescription>
-            {filteredBookings.length} of {totalBookings} bookings shown
+            {bookings.length} of {totalBookings} bookings shown
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -443,12 +378,12 @@ export const BookingManagementPage: React.FC = () => {
               <LoadingSpinner />
               <span className="ml-3 text-muted-foreground">Loading bookings...</span>
             </div>
-          ) : filteredBookings.length === 0 ? (
+          ) : bookings.length === 0 ? (
             <div className="text-center py-12">
               <Ticket className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <h3 className="text-lg font-semibold mb-2">No bookings found</h3>
               <p className="text-muted-foreground">
-                {bookings.length === 0 ? 'No bookings have been made yet.' : 'Try adjusting your filters.'}
+                {hasFilters ? 'Try adjusting your filters.' : 'No bookings have been made yet.'}
               </p>
             </div>
           ) : (
@@ -470,7 +405,7 @@ export const BookingManagementPage: React.FC = () => {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredBookings.map((booking) => (
+                {bookings.map((booking) => (
                   <TableRow key={booking.id}>
                     <TableCell className="font-medium">
                       <Badge variant="outline">{booking.bookingReference}</Badge>
@@ -489,20 +424,24 @@ export const BookingManagementPage: React.FC = () => {
                     <TableCell>
                       <div className="text-sm">
                         <div className="font-medium">
-                          {booking.flight.origin.code} → {booking.flight.destination.code}
+                          {booking.flight.originAirport.code} → {booking.flight.destinationAirport.code}
                         </div>
                         <div className="text-muted-foreground">
-                          {booking.flight.origin.city} → {booking.flight.destination.city}
+                          {booking.flight.originAirport.city} → {booking.flight.destinationAirport.city}
                         </div>
                       </div>
                     </TableCell>
                     <TableCell>
                       <div className="text-sm">
                         <div className="font-medium">
-                          {new Date(booking.flight.departureTime).toLocaleDateString()}
+                          {formatDate(booking.flight.departureTime, booking.flight.originAirport, 'MMM d, yyyy')}
                         </div>
                         <div className="text-muted-foreground">
-                          {new Date(booking.flight.departureTime).toLocaleTimeString()} - {new Date(booking.flight.arrivalTime).toLocaleTimeString()}
+                          {formatTime(booking.flight.departureTime, booking.flight.originAirport)} -{' '}
+                          {formatTime(booking.flight.arrivalTime, booking.flight.destinationAirport)}
+                          {formatArrivalDay(booking.flight) && (
+                            <sup className="ml-1 text-xs text-orange-600">{formatArrivalDay(booking.flight)}</sup>
+                          )}
                         </div>
                       </div>
                     </TableCell>
@@ -520,12 +459,10 @@ export const BookingManagementPage: React.FC = () => {
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex items-center justify-end gap-2">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => openDetailsDialog(booking)}
-                        >
-                          <Eye className="h-4 w-4" />
+                        <Button asChild variant="ghost" size="sm" title="View booking">
+                          <Link to={`/booking/${booking.id}`}>
+                            <Eye className="h-4 w-4" />
+                          </Link>
                         </Button>
                         
                         {(user?.role === UserRole.OPERATOR || user?.role === UserRole.ADMINISTRATOR) && booking.status === BookingStatusEnum.CONFIRMED && (
@@ -569,7 +506,7 @@ export const BookingManagementPage: React.FC = () => {
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+              onClick={() => setPage(Math.max(1, currentPage - 1))}
               disabled={currentPage === 1}
             >
               Previous
@@ -577,7 +514,7 @@ export const BookingManagementPage: React.FC = () => {
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
+              onClick={() => setPage(Math.min(totalPages, currentPage + 1))}
               disabled={currentPage === totalPages}
             >
               Next
@@ -586,60 +523,6 @@ export const BookingManagementPage: React.FC = () => {
         </div>
       )}
 
-      {/* Booking Details Dialog */}
-      <Dialog open={isDetailsDialogOpen} onOpenChange={setIsDetailsDialogOpen}>
-        <DialogContent className="max-w-2xl">
-          <DialogHeader>
-            <DialogTitle>Booking Details</DialogTitle>
-            <DialogDescription>
-              Complete information about this booking
-            </DialogDescription>
-          </DialogHeader>
-          
-          {selectedBooking && (
-            <div className="space-y-6">
-              <div className="grid grid-cols-2 gap-4">
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="text-lg">Booking Information</CardTitle>
-                  </CardHeader>
-                  <CardContent className="space-y-2">
-                    <div><strong>Reference:</strong> {selectedBooking.bookingReference}</div>
-                    <div><strong>Status:</strong> {getStatusBadge(selectedBooking.status)}</div>
-                    <div><strong>Booking Date:</strong> {new Date(selectedBooking.bookingDate).toLocaleDateString()}</div>
-                    <div><strong>Price:</strong> {formatPrice(selectedBooking.price)}</div>
-                  </CardContent>
-                </Card>
-                
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="text-lg">Passenger Details</CardTitle>
-                  </CardHeader>
-                  <CardContent className="space-y-2">
-                    <div><strong>Name:</strong> {selectedBooking.customer.firstName} {selectedBooking.customer.lastName}</div>
-                    <div><strong>Email:</strong> {selectedBooking.customer.email}</div>
-                    <div><strong>Phone:</strong> {selectedBooking.customer.phoneNumber || 'Not provided'}</div>
-                  </CardContent>
-                </Card>
-              </div>
-              
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-lg">Flight Details</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-2">
-                  <div><strong>Flight Number:</strong> {selectedBooking.flight.flightNumber}</div>
-                  <div><strong>Route:</strong> {selectedBooking.flight.origin.name} ({selectedBooking.flight.origin.code}) → {selectedBooking.flight.destination.name} ({selectedBooking.flight.destination.code})</div>
-                  <div><strong>Departure:</strong> {new Date(selectedBooking.flight.departureTime).toLocaleString()}</div>
-                  <div><strong>Arrival:</strong> {new Date(selectedBooking.flight.arrivalTime).toLocaleString()}</div>
-                  <div><strong>Seat:</strong> {selectedBooking.seatNumber} ({getSeatClassBadge(selectedBooking.seatClass)})</div>
-                </CardContent>
-              </Card>
-            </div>
-          )}
-        </DialogContent>
-      </Dialog>
-
       {/* Cancel Booking Dialog */}
       <Dialog open={isCancelDialogOpen} onOpenChange={setIsCancelDialogOpen}>
         <DialogContent>
@@ -687,7 +570,6 @@ export const BookingManagementPage: React.FC = () => {
       <CreateBookingDialog
         isOpen={isCreateBookingDialogOpen}
         onClose={() => setIsCreateBookingDialogOpen(false)}
-        onBookingCreated={loadBookings}
       />
     </div>
   );
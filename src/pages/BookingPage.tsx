@@ -1,148 +1,188 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useLocation, useNavigate } from 'react-router-dom';
+import React, { useState } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { flightService } from '@/services/flightService';
-import { bookingService } from '@/services/bookingService';
+import { useTripFlights } from '@/hooks/queries/useFlightQueries';
+import { useCancelBooking, useCreateBooking, useValidateBooking } from '@/hooks/queries/useBookingQueries';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import type { Flight, FlightSearchCriteria, SeatClass } from '@/types';
-import { SeatClass as SeatClassEnum } from '@/types';
+import { Form } from '@/components/ui/form';
+import { PassengerDetailsFields } from '@/components/bookings/PassengerDetailsFields';
+import { SeatMap } from '@/components/bookings/SeatMap';
+import { createPassengerDetailsSchema, emptyPassenger } from '@/components/bookings/passengerDetailsSchema';
+import type { PassengerDetailsFormData } from '@/components/bookings/passengerDetailsSchema';
+import { PASSENGER_FARE_FACTORS, PASSENGER_TYPE_LABELS } from '@/lib/passengers';
+import { getFlightAvailableSeats, getFlightFare } from '@/lib/tripSearch';
+import { readBookingParams } from '@/lib/searchLinks';
+import { formatDuration, getDurationMinutes } from '@/lib/dateTime';
+import { useFlightTime } from '@/hooks/useFlightTime';
+import { TimeZoneToggle } from '@/components/common/TimeZoneToggle';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import type { AppError, Booking, Flight, SeatClass } from '@/types';
+import { PassengerType, SeatClass as SeatClassEnum } from '@/types';
 import { 
   Plane, 
   CreditCard,
   CheckCircle,
-  ArrowLeft
+  ArrowLeft,
+  Users,
+  Armchair
 } from 'lucide-react';
 
 export const BookingPage: React.FC = () => {
   const { flightId } = useParams<{ flightId: string }>();
-  const location = useLocation();
+  const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { user } = useAuth();
 
-  const [flight, setFlight] = useState<Flight | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  // Flights, cabin and party size come from the link, so a reload keeps them.
+  // Round trips, multi-city trips and connections book every flight together
+  const { flightIds: tripFlightIds, seatClass: searchedSeatClass, passengers: searchedPassengers } =
+    readBookingParams(flightId, searchParams);
+
+  const flightQueries = useTripFlights(tripFlightIds);
+  const createBooking = useCreateBooking();
+  const validateBooking = useValidateBooking();
+  const cancelBooking = useCancelBooking();
+  const { mode, formatTime, formatDate, formatArrivalDay } = useFlightTime();
+  const tripFlights = flightQueries.flatMap((query) => (query.data ? [query.data] : []));
+  const isTrip = tripFlightIds.length > 1;
+  // Nothing is bookable until every flight of the trip has loaded
+  const flight = tripFlights.length === tripFlightIds.length ? (tripFlights[0] ?? null) : null;
+  const isLoading = flightQueries.some((query) => query.isLoading);
   const [isBooking, setIsBooking] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [selectedSeatClass, setSelectedSeatClass] = useState<SeatClass>(SeatClassEnum.ECONOMY);
-
-  // Get search criteria from navigation state
-  const searchCriteria = location.state?.searchCriteria as FlightSearchCriteria | undefined;
+  const failedQuery = flightQueries.find((query) => query.isError);
+  const loadError = failedQuery
+    ? failedQuery.error?.message || 'An error occurred while loading flight details'
+    : null;
+  // Start from the seat class that was searched for
+  const [selectedSeatClass, setSelectedSeatClass] = useState<SeatClass>(
+    searchedSeatClass ?? SeatClassEnum.ECONOMY
+  );
 
-  useEffect(() => {
-    if (flightId) {
-      loadFlightDetails();
+  // One entry per traveller, starting with the signed-in user as lead passenger
+  const form = useForm<PassengerDetailsFormData>({
+    resolver: (values, context, options) =>
+      zodResolver(createPassengerDetailsSchema(flight?.departureTime ?? new Date().toISOString()))(
+        values,
+        context,
+        options
+      ),
+    defaultValues: {
+      passengers: Array.from({ length: searchedPassengers }, (_, index) =>
+        index === 0
+          ? { ...emptyPassenger(), firstName: user?.firstName ?? '', lastName: user?.lastName ?? '' }
+          : emptyPassenger()
+      )
     }
-  }, [flightId]);
+  });
+  const passengerList = form.watch('passengers');
+  // Passenger who gets the next seat clicked on the seat map
+  const [seatingIndex, setSeatingIndex] = useState(0);
 
-  const loadFlightDetails = async () => {
-    if (!flightId) return;
+  const handleSeatClassChange = (seatClass: SeatClass) => {
+    setSelectedSeatClass(seatClass);
+    // Picked seats belong to the previous cabin
+    passengerList.forEach((_, index) => form.setValue(`passengers.${index}.seatNumber`, ''));
+    setSeatingIndex(0);
+  };
 
-    try {
-      setIsLoading(true);
-      const response = await flightService.getFlightById(flightId);
-      if (response.success) {
-        setFlight(response.data);
-        // Set initial seat class from search criteria
-        if (searchCriteria?.seatClass) {
-          setSelectedSeatClass(searchCriteria.seatClass);
-        }
-      } else {
-        setError(response.message || 'Failed to load flight details');
-      }
-    } catch (error: any) {
-      setError(error.message || 'An error occurred while loading flight details');
-    } finally {
-      setIsLoading(false);
-    }
+  const handleSeatSelect = (seatNumber: string) => {
+    const index = Math.min(seatingIndex, passengerList.length - 1);
+    form.setValue(`passengers.${index}.seatNumber`, seatNumber);
+    // Move on to the next passenger still without a seat
+    const next = passengerList.findIndex((passenger, other) => other !== index && !passenger.seatNumber);
+    if (next !== -1) setSeatingIndex(next);
   };
 
-  const handleBookFlight = async () => {
+  /**
+   * One booking per flight, made in travel order. A trip is all or nothing:
+   * every flight is checked before any is booked, and if one still fails the
+   * flights already booked are cancelled again.
+   */
+  const handleBookFlight = async ({ passengers }: PassengerDetailsFormData) => {
     if (!flight || !user) return;
 
+    setError(null);
+    setIsBooking(true);
+    const requests = tripFlights.map((tripFlight) => ({
+      customerId: user.id.toString(),
+      flightId: tripFlight.id.toString(),
+      seatClass: selectedSeatClass,
+      // Seats picked on the map only apply to a single flight
+      passengers: passengers.map((passenger) => ({
+        ...passenger,
+        seatNumber: (!isTrip && passenger.seatNumber) || undefined
+      }))
+    }));
+    const booked: Booking[] = [];
+    let current: Flight = flight;
+
     try {
-      setIsBooking(true);
-      setError(null);
-
-      const bookingData = {
-        customerId: user.id.toString(),
-        flightId: flight.id,
-        seatClass: selectedSeatClass
-      };
-
-      const response = await bookingService.createBooking(bookingData);
-      if (response.success) {
-        // Redirect to booking confirmation or my bookings
-        navigate('/my-bookings', {
-          state: { 
-            message: 'Flight booked successfully!',
-            bookingId: response.data.id 
-          }
-        });
-      } else {
-        setError(response.message || 'Failed to book flight');
+      if (isTrip) {
+        const validations = await Promise.all(requests.map((request) => validateBooking.mutateAsync(request)));
+        const rejected = validations.findIndex((validation) => !validation.valid);
+        if (rejected !== -1) {
+          setError(
+            `${tripFlights[rejected].flightNumber} cannot be booked: ${
+              validations[rejected].errors?.[0] ?? 'it failed validation'
+            }. Nothing has been booked.`
+          );
+          return;
+        }
       }
-    } catch (error: any) {
-      setError(error.message || 'An error occurred while booking the flight');
-    } finally {
-      setIsBooking(false);
-    }
-  };
 
-  const getPrice = (seatClass: SeatClass) => {
-    if (!flight) return 0;
-    switch (seatClass) {
-      case SeatClassEnum.FIRST:
-        return flight.firstClassPrice;
-      case SeatClassEnum.BUSINESS:
-        return flight.businessClassPrice;
-      case SeatClassEnum.ECONOMY:
-      default:
-        return flight.economyClassPrice;
-    }
-  };
+      for (const [index, request] of requests.entries()) {
+        current = tripFlights[index];
+        booked.push(await createBooking.mutateAsync(request));
+      }
+      const references = booked.map((booking) => booking.bookingReference);
+      const bookingId = booked[0].id;
 
-  const getAvailableSeats = (seatClass: SeatClass) => {
-    if (!flight) return 0;
-    switch (seatClass) {
-      case SeatClassEnum.FIRST:
-        return flight.availableFirstClassSeats;
-      case SeatClassEnum.BUSINESS:
-        return flight.availableBusinessClassSeats;
-      case SeatClassEnum.ECONOMY:
-      default:
-        return flight.availableEconomyClassSeats;
-    }
-  };
+      // Redirect to booking confirmation or my bookings
+      navigate('/my-bookings', {
+        state: {
+          message: isTrip ? `Trip booked: ${references.join(', ')}` : 'Flight booked successfully!',
+          bookingId
+        }
+      });
+    } catch (error) {
+      const message = (error as AppError).message || 'An error occurred while booking the flight';
+      if (!booked.length) {
+        setError(message);
+        return;
+      }
 
-  const formatTime = (dateTime: string) => {
-    return new Date(dateTime).toLocaleTimeString('en-US', {
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: false
-    });
+      // Undo the part of the trip that was booked so the customer isn't left holding half of it
+      const cancellations = await Promise.allSettled(
+        booked.map((booking) =>
+          cancelBooking.mutateAsync({ id: booking.id, reason: `Trip incomplete: ${current.flightNumber} could not be booked` })
+        )
+      );
+      const stillBooked = booked.filter((_, index) => cancellations[index].status === 'rejected');
+      setError(
+        stillBooked.length
+          ? `${current.flightNumber} could not be booked: ${message}. These bookings could not be cancelled ` +
+              `automatically, please cancel them in My Bookings: ${stillBooked
+                .map((booking) => booking.bookingReference)
+                .join(', ')}.`
+          : `${current.flightNumber} could not be booked: ${message}. The rest of the trip was cancelled, so nothing is booked.`
+      );
+    } finally {
+      setIsBooking(false);
+    }
   };
 
-  const formatDate = (dateTime: string) => {
-    return new Date(dateTime).toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-  };
+  // A trip costs the sum of its flights and is limited by its fullest flight
+  const getPrice = (seatClass: SeatClass) =>
+    tripFlights.reduce((total, tripFlight) => total + getFlightFare(tripFlight, seatClass), 0);
 
-  const formatDuration = (departureTime: string, arrivalTime: string) => {
-    const departure = new Date(departureTime);
-    const arrival = new Date(arrivalTime);
-    const durationMs = arrival.getTime() - departure.getTime();
-    const hours = Math.floor(durationMs / (1000 * 60 * 60));
-    const minutes = Math.floor((durationMs % (1000 * 60 * 60)) / (1000 * 60));
-    return `${hours}h ${minutes}m`;
-  };
+  const getAvailableSeats = (seatClass: SeatClass) =>
+    tripFlights.length ? Math.min(...tripFlights.map((tripFlight) => getFlightAvailableSeats(tripFlight, seatClass))) : 0;
 
   if (isLoading) {
     return (
@@ -175,8 +215,16 @@ export const BookingPage: React.FC = () => {
     );
   }
 
-  const passengers = searchCriteria?.passengers || 1;
-  const totalPrice = getPrice(selectedSeatClass) * passengers;
+  const passengers = passengerList.length;
+  // Children and infants pay a share of the adult fare
+  const fareLines = Object.values(PassengerType)
+    .map((type) => ({
+      type,
+      count: passengerList.filter((passenger) => passenger.type === type).length,
+      fare: getPrice(selectedSeatClass) * PASSENGER_FARE_FACTORS[type]
+    }))
+    .filter((line) => line.count > 0);
+  const totalPrice = fareLines.reduce((total, line) => total + line.count * line.fare, 0);
   const availableSeats = getAvailableSeats(selectedSeatClass);
   const isAvailable = availableSeats >= passengers;
 
@@ -199,15 +247,17 @@ export const BookingPage: React.FC = () => {
           </div>
           <div>
             <h1 className="text-3xl font-bold text-foreground">Book Your Flight</h1>
-            <p className="text-muted-foreground">Complete your booking for {flight.flightNumber}</p>
+            <p className="text-muted-foreground">
+              Complete your booking for {tripFlights.map((tripFlight) => tripFlight.flightNumber).join(' · ')}
+            </p>
           </div>
         </div>
       </div>
 
       {/* Error Display */}
-      {error && (
+      {(error || loadError) && (
         <Alert variant="destructive" className="mb-6">
-          <AlertDescription>{error}</AlertDescription>
+          <AlertDescription>{error || loadError}</AlertDescription>
         </Alert>
       )}
 
@@ -219,55 +269,68 @@ export const BookingPage: React.FC = () => {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Plane className="h-5 w-5" />
-                Flight Details
+                {isTrip ? 'Itinerary' : 'Flight Details'}
               </CardTitle>
+              <CardDescription className="flex flex-wrap items-center justify-between gap-2">
+                Times are shown in {mode === 'airport' ? "each airport's local time" : 'your time zone'}
+                <TimeZoneToggle />
+              </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="space-y-4">
-                {/* Flight Number and Aircraft */}
-                <div className="flex items-center justify-between">
-                  <div>
-                    <h3 className="text-xl font-semibold">{flight.flightNumber}</h3>
-                    <p className="text-muted-foreground">
-                      {flight.airplane.model} • {flight.airplane.registration}
-                    </p>
+              {tripFlights.map((tripFlight, index) => (
+                <div key={tripFlight.id} className={`space-y-4 ${index > 0 ? 'mt-6 pt-6 border-t' : ''}`}>
+                  {/* Flight Number and Aircraft */}
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h3 className="text-xl font-semibold">{tripFlight.flightNumber}</h3>
+                      <p className="text-muted-foreground">
+                        {tripFlight.airplaneModel} • {tripFlight.airplaneRegistration}
+                      </p>
+                    </div>
+                    <Badge variant="outline">{tripFlight.status}</Badge>
                   </div>
-                  <Badge variant="outline">{flight.status}</Badge>
-                </div>
 
-                {/* Route */}
-                <div className="flex items-center gap-4 py-4">
-                  <div className="text-center">
-                    <p className="text-2xl font-bold">{formatTime(flight.departureTime)}</p>
-                    <p className="text-lg font-semibold">{flight.origin.code}</p>
-                    <p className="text-sm text-muted-foreground">{flight.origin.name}</p>
-                    <p className="text-sm text-muted-foreground">{flight.origin.city}</p>
-                  </div>
+                  {/* Route */}
+                  <div className="flex items-center gap-4 py-4">
+                    <div className="text-center">
+                      <p className="text-2xl font-bold">{formatTime(tripFlight.departureTime, tripFlight.originAirport)}</p>
+                      <p className="text-lg font-semibold">{tripFlight.originAirport.code}</p>
+                      <p className="text-sm text-muted-foreground">{tripFlight.originAirport.name}</p>
+                      <p className="text-sm text-muted-foreground">{tripFlight.originAirport.city}</p>
+                    </div>
+                  
+                    <div className="flex-1 flex items-center gap-2">
+                      <div className="h-px bg-border flex-1"></div>
+                      <div className="text-center">
+                        <p className="text-sm font-medium">
+                          {formatDuration(getDurationMinutes(tripFlight.departureTime, tripFlight.arrivalTime))}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {isTrip ? `Flight ${index + 1} of ${tripFlights.length}` : 'Direct'}
+                        </p>
+                      </div>
+                      <div className="h-px bg-border flex-1"></div>
+                    </div>
                   
-                  <div className="flex-1 flex items-center gap-2">
-                    <div className="h-px bg-border flex-1"></div>
                     <div className="text-center">
-                      <p className="text-sm font-medium">
-                        {formatDuration(flight.departureTime, flight.arrivalTime)}
+                      <p className="text-2xl font-bold">
+                        {formatTime(tripFlight.arrivalTime, tripFlight.destinationAirport)}
+                        {formatArrivalDay(tripFlight) && (
+                          <sup className="ml-1 text-xs font-medium text-orange-600">{formatArrivalDay(tripFlight)}</sup>
+                        )}
                       </p>
-                      <p className="text-xs text-muted-foreground">Direct</p>
+                      <p className="text-lg font-semibold">{tripFlight.destinationAirport.code}</p>
+                      <p className="text-sm text-muted-foreground">{tripFlight.destinationAirport.name}</p>
+                      <p className="text-sm text-muted-foreground">{tripFlight.destinationAirport.city}</p>
                     </div>
-                    <div className="h-px bg-border flex-1"></div>
-                  </div>
-                  
-                  <div className="text-center">
-                    <p className="text-2xl font-bold">{formatTime(flight.arrivalTime)}</p>
-                    <p className="text-lg font-semibold">{flight.destination.code}</p>
-                    <p className="text-sm text-muted-foreground">{flight.destination.name}</p>
-                    <p className="text-sm text-muted-foreground">{flight.destination.city}</p>
                   </div>
-                </div>
 
-                {/* Date */}
-                <div className="text-center py-2 bg-muted rounded-lg">
-                  <p className="font-medium">{formatDate(flight.departureTime)}</p>
+                  {/* Date */}
+                  <div className="text-center py-2 bg-muted rounded-lg">
+                    <p className="font-medium">{formatDate(tripFlight.departureTime, tripFlight.originAirport, 'EEEE, MMMM d, yyyy')}</p>
+                  </div>
                 </div>
-              </div>
+              ))}
             </CardContent>
           </Card>
 
@@ -294,7 +357,7 @@ export const BookingPage: React.FC = () => {
                           ? 'border-primary bg-primary/5'
                           : 'border-border hover:border-primary/50'
                       } ${!isClassAvailable ? 'opacity-50 cursor-not-allowed' : ''}`}
-                      onClick={() => isClassAvailable && setSelectedSeatClass(seatClass)}
+                      onClick={() => isClassAvailable && seatClass !== selectedSeatClass && handleSeatClassChange(seatClass)}
                     >
                       <div className="flex items-center justify-between">
                         <div>
@@ -314,6 +377,74 @@ export const BookingPage: React.FC = () => {
               </div>
             </CardContent>
           </Card>
+
+          {/* Passenger Details */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Passenger Details
+              </CardTitle>
+              <CardDescription>
+                Enter each traveller exactly as shown on their passport or ID. Every passenger gets their own seat.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(handleBookFlight)}>
+                  <PassengerDetailsFields
+                    form={form}
+                    travelDate={flight.departureTime}
+                    maxPassengers={availableSeats}
+                  />
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+
+          {/* Seat Selection */}
+          {isTrip ? (
+            <Alert>
+              <Armchair className="h-4 w-4" />
+              <AlertDescription>
+                Seats on each of the {tripFlights.length} flights are assigned next to the rest of the party. You can
+                change them from each booking afterwards.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Armchair className="h-5 w-5" />
+                  Choose Seats
+                </CardTitle>
+                <CardDescription>
+                  Pick a passenger, then a free seat. Anyone left without a seat is seated next to the rest of the party.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  {passengerList.map((passenger, index) => (
+                    <Button
+                      key={index}
+                      type="button"
+                      size="sm"
+                      variant={index === Math.min(seatingIndex, passengerList.length - 1) ? 'default' : 'outline'}
+                      onClick={() => setSeatingIndex(index)}
+                    >
+                      {passenger.firstName || `Passenger ${index + 1}`} · {passenger.seatNumber || 'No seat'}
+                    </Button>
+                  ))}
+                </div>
+                <SeatMap
+                  flightId={flight.id.toString()}
+                  seatClass={selectedSeatClass}
+                  selectedSeats={passengerList.flatMap((passenger) => (passenger.seatNumber ? [passenger.seatNumber] : []))}
+                  onSeatSelect={handleSeatSelect}
+                />
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         {/* Booking Summary */}
@@ -332,6 +463,20 @@ export const BookingPage: React.FC = () => {
                 <span className="font-medium">{passengers}</span>
               </div>
 
+              {/* Flights */}
+              {isTrip && (
+                <div className="space-y-1 text-sm">
+                  {tripFlights.map((tripFlight) => (
+                    <div key={tripFlight.id} className="flex items-center justify-between">
+                      <span className="text-muted-foreground">
+                        {tripFlight.flightNumber} · {tripFlight.originAirport.code} → {tripFlight.destinationAirport.code}
+                      </span>
+                      <span>${getFlightFare(tripFlight, selectedSeatClass).toLocaleString()}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Seat Class */}
               <div className="flex items-center justify-between">
                 <span className="text-muted-foreground">Class</span>
@@ -340,12 +485,14 @@ export const BookingPage: React.FC = () => {
 
               {/* Price Breakdown */}
               <div className="space-y-2 pt-2 border-t">
-                <div className="flex items-center justify-between">
-                  <span className="text-muted-foreground">
-                    {passengers} × ${getPrice(selectedSeatClass).toLocaleString()}
-                  </span>
-                  <span className="font-medium">${totalPrice.toLocaleString()}</span>
-                </div>
+                {fareLines.map((line) => (
+                  <div key={line.type} className="flex items-center justify-between">
+                    <span className="text-muted-foreground">
+                      {line.count} × {PASSENGER_TYPE_LABELS[line.type]} @ ${line.fare.toLocaleString()}
+                    </span>
+                    <span className="font-medium">${(line.count * line.fare).toLocaleString()}</span>
+                  </div>
+                ))}
                 <div className="flex items-center justify-between text-lg font-bold">
                   <span>Total</span>
                   <span>${totalPrice.toLocaleString()}</span>
@@ -363,7 +510,7 @@ export const BookingPage: React.FC = () => {
 
               {/* Book Button */}
               <Button
-                onClick={handleBookFlight}
+                onClick={form.handleSubmit(handleBookFlight)}
                 disabled={!isAvailable || isBooking}
                 className="w-full"
                 size="lg"
@@ -376,7 +523,7 @@ export const BookingPage: React.FC = () => {
                 ) : (
                   <>
                     <CheckCircle className="h-5 w-5 mr-2" />
-                    Book Flight
+                    {isTrip ? 'Book Trip' : 'Book Flight'}
                   </>
                 )}
               </Button>
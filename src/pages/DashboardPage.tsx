@@ -1,81 +1,186 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
 import { AdminLayout } from '@/components/layout/AdminLayout';
+import { TodaysDepartures } from '@/components/dashboard/TodaysDepartures';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { 
-  Users, 
-  Plane, 
-  Calendar, 
-  TrendingUp, 
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { useFlightStatistics } from '@/hooks/queries/useFlightQueries';
+import {
+  useBookings,
+  useBookingStatistics,
+  usePopularDestinations,
+  useRevenueReport
+} from '@/hooks/queries/useBookingQueries';
+import { useSearchParamsState } from '@/hooks/useSearchParamsState';
+import { SeatClass } from '@/types';
+import {
+  Users,
+  Plane,
   DollarSign,
   MapPin,
   Ticket,
-  BarChart3
+  BarChart3,
+  Gauge
 } from 'lucide-react';
 
+const DASHBOARD_PERIODS = ['day', 'week', 'month'] as const;
+type DashboardPeriod = (typeof DASHBOARD_PERIODS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What each period selector option covers. The cards sum up the period
+ * itself; the bookings chart zooms out to show the trend at that grain.
+ */
+const periods: Record<
+  DashboardPeriod,
+  { label: string; days: number; statisticsPeriod: string; trend: { days: number; groupBy: DashboardPeriod; label: string } }
+> = {
+  day: { label: 'Today', days: 1, statisticsPeriod: 'today', trend: { days: 14, groupBy: 'day', label: 'last 14 days' } },
+  week: { label: 'Last 7 days', days: 7, statisticsPeriod: 'week', trend: { days: 12 * 7, groupBy: 'week', label: 'last 12 weeks' } },
+  month: { label: 'Last 30 days', days: 30, statisticsPeriod: 'month', trend: { days: 365, groupBy: 'month', label: 'last 12 months' } }
+};
+
+const classLabels: Record<SeatClass, string> = {
+  [SeatClass.FIRST]: 'First',
+  [SeatClass.BUSINESS]: 'Business',
+  [SeatClass.ECONOMY]: 'Economy'
+};
+
+const classColors: Record<SeatClass, string> = {
+  [SeatClass.FIRST]: 'var(--chart-4)',
+  [SeatClass.BUSINESS]: 'var(--chart-3)',
+  [SeatClass.ECONOMY]: 'var(--chart-2)'
+};
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(price);
+
+// First day of a window of `days` days ending today (UTC), as the reports expect
+const windowStart = (days: number) => new Date(Date.now() - (days - 1) * DAY_MS).toISOString().split('T')[0];
+
+// Stands in for a chart that has nothing to draw yet
+const ChartPlaceholder: React.FC<{ isLoading: boolean; error?: Error | null }> = ({ isLoading, error }) => (
+  <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+    {isLoading ? <LoadingSpinner /> : error ? error.message || 'Failed to load' : 'No data for this period'}
+  </div>
+);
+
 export const DashboardPage: React.FC = () => {
-  // Mock data - in a real app, this would come from an API
+  const [params, setParams] = useSearchParamsState({ period: 'week' });
+  const requestedPeriod = params.period as DashboardPeriod;
+  const period: DashboardPeriod = DASHBOARD_PERIODS.includes(requestedPeriod) ? requestedPeriod : 'week';
+  const config = periods[period];
+  const today = new Date().toISOString().split('T')[0];
+
+  const flightStatisticsQuery = useFlightStatistics(config.statisticsPeriod);
+  const bookingStatisticsQuery = useBookingStatistics({ startDate: windowStart(config.days), endDate: today });
+  const revenueQuery = useRevenueReport({ startDate: windowStart(config.days), endDate: today });
+  const destinationsQuery = usePopularDestinations({ period: config.statisticsPeriod, limit: 5 });
+  const trendQuery = useBookingStatistics({
+    startDate: windowStart(config.trend.days),
+    endDate: today,
+    groupBy: config.trend.groupBy
+  });
+  const recentBookingsQuery = useBookings({ size: 5 });
+
+  const flightStatistics = flightStatisticsQuery.data;
+  const bookingStatistics = bookingStatisticsQuery.data;
+  const revenue = revenueQuery.data;
+  const destinations = destinationsQuery.data ?? [];
+  const trend = trendQuery.data?.timeline ?? [];
+  const recentBookings = recentBookingsQuery.data?.data ?? [];
+
+  const cabinRevenue = (revenue?.byClass ?? [])
+    .filter((entry) => entry.revenue > 0)
+    .map((entry) => ({ ...entry, name: classLabels[entry.seatClass] }));
+  const routeLoad = (flightStatistics?.routes ?? []).map((route) => ({
+    route: `${route.origin}-${route.destination}`,
+    loadFactor: Math.round(route.loadFactor * 100),
+    flights: route.flights
+  }));
+
   const stats = [
     {
-      title: 'Total Users',
-      value: '2,847',
-      change: '+12%',
-      icon: Users,
-      description: 'Active users this month'
-    },
-    {
-      title: 'Total Flights',
-      value: '1,234',
-      change: '+8%',
+      title: 'Flights',
+      value: flightStatistics?.totalFlights.toLocaleString(),
       icon: Plane,
-      description: 'Scheduled flights'
+      description: flightStatistics && `${flightStatistics.onTimePercentage}% on time`
     },
     {
-      title: 'Bookings Today',
-      value: '156',
-      change: '+23%',
+      title: 'Bookings',
+      value: bookingStatistics?.totalBookings.toLocaleString(),
       icon: Ticket,
-      description: 'New bookings today'
+      description: bookingStatistics && `${bookingStatistics.cancelledBookings} cancelled`
     },
     {
       title: 'Revenue',
-      value: '$45,231',
-      change: '+15%',
+      value: revenue && formatPrice(revenue.totalRevenue),
       icon: DollarSign,
-      description: 'Total revenue this month'
-    },
-    {
-      title: 'Airports',
-      value: '89',
-      change: '+2%',
-      icon: MapPin,
-      description: 'Active airports'
+      description: bookingStatistics && `${formatPrice(bookingStatistics.averageBookingValue)} per booking`
     },
     {
-      title: 'Occupancy Rate',
-      value: '78%',
-      change: '+5%',
-      icon: BarChart3,
-      description: 'Average flight occupancy'
+      title: 'Load Factor',
+      value: flightStatistics && `${Math.round(flightStatistics.averageLoadFactor * 100)}%`,
+      icon: Gauge,
+      description: flightStatistics && `Across ${flightStatistics.routes.length} routes`
     }
   ];
 
+  const statsError = flightStatisticsQuery.error ?? bookingStatisticsQuery.error ?? revenueQuery.error;
+
   return (
     <AdminLayout>
       <div className="p-6 space-y-6">
         {/* Header */}
-        <div>
-          <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
-          <p className="text-muted-foreground">
-            Welcome to your admin dashboard. Here's an overview of your travel management system.
-          </p>
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
+            <p className="text-muted-foreground">
+              Flights, bookings and revenue at a glance.
+            </p>
+          </div>
+          <Select value={period} onValueChange={(value) => setParams({ period: value })}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(periods).map(([value, option]) => (
+                <SelectItem key={value} value={value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
+        {statsError && (
+          <Alert variant="destructive">
+            <AlertDescription>{statsError.message || 'Failed to load statistics'}</AlertDescription>
+          </Alert>
+        )}
+
         {/* Stats Grid */}
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {stats.map((stat, index) => {
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          {stats.map((stat) => {
             const Icon = stat.icon;
             return (
-              <Card key={index}>
+              <Card key={stat.title}>
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                   <CardTitle className="text-sm font-medium">
                     {stat.title}
@@ -83,12 +188,10 @@ export const DashboardPage: React.FC = () => {
                   <Icon className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">{stat.value}</div>
-                  <p className="text-xs text-muted-foreground">
-                    <span className="text-green-600">{stat.change}</span> from last month
-                  </p>
+                  <div className="text-2xl font-bold">{stat.value ?? '—'}</div>
                   <p className="text-xs text-muted-foreground mt-1">
-                    {stat.description}
+                    {stat.description ? `${stat.description} · ` : ''}
+                    {config.label.toLowerCase()}
                   </p>
                 </CardContent>
               </Card>
@@ -96,59 +199,124 @@ export const DashboardPage: React.FC = () => {
           })}
         </div>
 
-        {/* Quick Actions */}
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-          <Card className="cursor-pointer hover:shadow-md transition-shadow">
+        {/* Charts */}
+        <div className="grid gap-4 lg:grid-cols-3">
+          <Card className="lg:col-span-2">
             <CardHeader>
-              <CardTitle className="text-base flex items-center">
-                <Plane className="mr-2 h-4 w-4" />
-                Add Flight
-              </CardTitle>
-              <CardDescription>
-                Schedule a new flight
-              </CardDescription>
+              <CardTitle>Bookings over Time</CardTitle>
+              <CardDescription>Bookings made per {config.trend.groupBy}, {config.trend.label}</CardDescription>
             </CardHeader>
+            <CardContent className="h-72">
+              {trend.length ? (
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={trend}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="period" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Legend />
+                    <Bar dataKey="bookings" name="Bookings" fill="var(--chart-1)" />
+                    <Bar dataKey="cancellations" name="Cancellations" fill="var(--chart-5)" />
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : (
+                <ChartPlaceholder isLoading={trendQuery.isLoading} error={trendQuery.error} />
+              )}
+            </CardContent>
           </Card>
 
-          <Card className="cursor-pointer hover:shadow-md transition-shadow">
+          <Card>
             <CardHeader>
-              <CardTitle className="text-base flex items-center">
-                <MapPin className="mr-2 h-4 w-4" />
-                Add Airport
-              </CardTitle>
-              <CardDescription>
-                Register a new airport
-              </CardDescription>
+              <CardTitle>Revenue by Cabin</CardTitle>
+              <CardDescription>{config.label}</CardDescription>
             </CardHeader>
+            <CardContent className="h-72">
+              {cabinRevenue.length ? (
+                <ResponsiveContainer width="100%" height="100%">
+                  <PieChart>
+                    <Pie data={cabinRevenue} dataKey="revenue" nameKey="name" innerRadius="45%" outerRadius="75%">
+                      {cabinRevenue.map((entry) => (
+                        <Cell key={entry.seatClass} fill={classColors[entry.seatClass]} />
+                      ))}
+                    </Pie>
+                    <Tooltip formatter={(value: number) => formatPrice(value)} />
+                    <Legend />
+                  </PieChart>
+                </ResponsiveContainer>
+              ) : (
+                <ChartPlaceholder isLoading={revenueQuery.isLoading} error={revenueQuery.error} />
+              )}
+            </CardContent>
           </Card>
+        </div>
 
-          <Card className="cursor-pointer hover:shadow-md transition-shadow">
+        <div className="grid gap-4 lg:grid-cols-3">
+          <Card className="lg:col-span-2">
             <CardHeader>
-              <CardTitle className="text-base flex items-center">
-                <Users className="mr-2 h-4 w-4" />
-                Manage Users
-              </CardTitle>
-              <CardDescription>
-                View and edit user accounts
-              </CardDescription>
+              <CardTitle>Load Factor by Route</CardTitle>
+              <CardDescription>Share of seats sold on flights that operated, {config.label.toLowerCase()}</CardDescription>
             </CardHeader>
+            <CardContent className="h-72">
+              {routeLoad.length ? (
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={routeLoad}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="route" />
+                    <YAxis domain={[0, 100]} tickFormatter={(value: number) => `${value}%`} />
+                    <Tooltip
+                      formatter={(value: number, _name: string, entry: { payload?: { flights: number } }) => [
+                        `${value}% over ${entry.payload?.flights ?? 0} flights`,
+                        'Load factor'
+                      ]}
+                    />
+                    <Bar dataKey="loadFactor" name="Load factor" fill="var(--chart-2)" />
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : (
+                <ChartPlaceholder
+                  isLoading={flightStatisticsQuery.isLoading}
+                  error={flightStatisticsQuery.error}
+                />
+              )}
+            </CardContent>
           </Card>
 
-          <Card className="cursor-pointer hover:shadow-md transition-shadow">
+          <Card>
             <CardHeader>
-              <CardTitle className="text-base flex items-center">
-                <BarChart3 className="mr-2 h-4 w-4" />
-                View Reports
-              </CardTitle>
-              <CardDescription>
-                Analyze system performance
-              </CardDescription>
+              <CardTitle>Popular Destinations</CardTitle>
+              <CardDescription>By bookings, {config.label.toLowerCase()}</CardDescription>
             </CardHeader>
+            <CardContent>
+              {destinations.length ? (
+                <div className="space-y-3">
+                  {destinations.map((destination, index) => (
+                    <div key={destination.destination} className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <span className="text-sm text-muted-foreground w-4">{index + 1}</span>
+                        <span className="font-medium">{destination.destination}</span>
+                      </div>
+                      <div className="text-right text-sm">
+                        <p>{destination.count} bookings</p>
+                        <p className="text-xs text-muted-foreground">{formatPrice(destination.revenue)}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="h-40">
+                  <ChartPlaceholder
+                    isLoading={destinationsQuery.isLoading}
+                    error={destinationsQuery.error}
+                  />
+                </div>
+              )}
+            </CardContent>
           </Card>
         </div>
 
-        {/* Recent Activity */}
         <div className="grid gap-4 md:grid-cols-2">
+          <TodaysDepartures />
+
           <Card>
             <CardHeader>
               <CardTitle>Recent Bookings</CardTitle>
@@ -157,54 +325,67 @@ export const DashboardPage: React.FC = () => {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="space-y-4">
-                {[
-                  { id: 'BK001', route: 'NYC → LAX', passenger: 'John Doe', time: '2 hours ago' },
-                  { id: 'BK002', route: 'LAX → CHI', passenger: 'Jane Smith', time: '4 hours ago' },
-                  { id: 'BK003', route: 'CHI → MIA', passenger: 'Bob Johnson', time: '6 hours ago' },
-                ].map((booking) => (
-                  <div key={booking.id} className="flex items-center justify-between">
-                    <div>
-                      <p className="text-sm font-medium">{booking.id}</p>
-                      <p className="text-xs text-muted-foreground">{booking.route}</p>
-                      <p className="text-xs text-muted-foreground">{booking.passenger}</p>
-                    </div>
-                    <div className="text-xs text-muted-foreground">
-                      {booking.time}
-                    </div>
-                  </div>
-                ))}
-              </div>
+              {recentBookingsQuery.isLoading ? (
+                <div className="flex justify-center py-8">
+                  <LoadingSpinner />
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {recentBookings.map((booking) => (
+                    <Link
+                      key={booking.id}
+                      to={`/booking/${booking.id}`}
+                      className="flex items-center justify-between rounded-md -mx-2 px-2 py-1 hover:bg-muted"
+                    >
+                      <div>
+                        <p className="text-sm font-medium">{booking.bookingReference}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {booking.flight.originAirport.code} → {booking.flight.destinationAirport.code} ·{' '}
+                          {booking.flight.flightNumber}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {booking.customer.firstName} {booking.customer.lastName}
+                        </p>
+                      </div>
+                      <div className="text-right text-xs text-muted-foreground">
+                        <p>{new Date(booking.bookingDate).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}</p>
+                        <p>{booking.status}</p>
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
+        </div>
 
-          <Card>
-            <CardHeader>
-              <CardTitle>System Status</CardTitle>
-              <CardDescription>
-                Current system health
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {[
-                  { service: 'Booking System', status: 'Online', color: 'text-green-600' },
-                  { service: 'Payment Gateway', status: 'Online', color: 'text-green-600' },
-                  { service: 'Flight Data API', status: 'Online', color: 'text-green-600' },
-                  { service: 'Email Service', status: 'Maintenance', color: 'text-yellow-600' },
-                ].map((service) => (
-                  <div key={service.service} className="flex items-center justify-between">
-                    <span className="text-sm">{service.service}</span>
-                    <span className={`text-xs font-medium ${service.color}`}>
-                      {service.status}
-                    </span>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+        {/* Quick Actions */}
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          {[
+            { to: '/manage/flights', icon: Plane, title: 'Add Flight', description: 'Schedule a new flight' },
+            { to: '/manage/airports', icon: MapPin, title: 'Add Airport', description: 'Register a new airport' },
+            { to: '/manage/users', icon: Users, title: 'Manage Users', description: 'View and edit user accounts' },
+            { to: '/reports', icon: BarChart3, title: 'View Reports', description: 'Analyze system performance' }
+          ].map((action) => {
+            const Icon = action.icon;
+            return (
+              <Link key={action.to} to={action.to}>
+                <Card className="h-full hover:shadow-md transition-shadow">
+                  <CardHeader>
+                    <CardTitle className="text-base flex items-center">
+                      <Icon className="mr-2 h-4 w-4" />
+                      {action.title}
+                    </CardTitle>
+                    <CardDescription>
+                      {action.description}
+                    </CardDescription>
+                  </CardHeader>
+                </Card>
+              </Link>
+            );
+          })}
         </div>
-    </div>
+      </div>
     </AdminLayout>
   );
 };
@@ -0,0 +1,394 @@
+import React, { useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { addDays, format, isValid, parseISO } from 'date-fns';
+import {
+  useAirplanes,
+  useFleetFlights,
+  useUpdateFlight,
+  useValidateFlightSchedule
+} from '@/hooks/queries/useFlightQueries';
+import { useSearchParamsState } from '@/hooks/useSearchParamsState';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { formatInTimeZone } from '@/lib/dateTime';
+import {
+  TIMELINE_VIEW_DAYS,
+  checkAirplaneAssignment,
+  findRotationConflicts,
+  getBarPosition,
+  getTimeAtPosition,
+  getTimelineWindow,
+  isInWindow,
+  toReassignment
+} from '@/lib/fleetSchedule';
+import type { TimelineView } from '@/lib/fleetSchedule';
+import { FlightStatus } from '@/types';
+import type { Airplane, AppError, Flight } from '@/types';
+import { AlertTriangle, ChevronLeft, ChevronRight, GanttChart } from 'lucide-react';
+
+const STATUS_BAR_COLORS: Record<FlightStatus, string> = {
+  [FlightStatus.SCHEDULED]: 'bg-blue-500',
+  [FlightStatus.BOARDING]: 'bg-yellow-500',
+  [FlightStatus.DEPARTED]: 'bg-emerald-500',
+  [FlightStatus.IN_FLIGHT]: 'bg-indigo-500',
+  [FlightStatus.ARRIVED]: 'bg-green-600',
+  [FlightStatus.CANCELLED]: 'bg-gray-400',
+  [FlightStatus.DELAYED]: 'bg-orange-500'
+};
+
+// Flights that have not left yet can still be moved
+const MOVABLE_STATUSES = [FlightStatus.SCHEDULED, FlightStatus.DELAYED];
+
+const todayUtc = () => formatInTimeZone(new Date(), 'UTC', 'yyyy-MM-dd');
+
+// The ?date= param is hand-editable; anything that isn't a real day means today
+const isTimelineDate = (date: string) => isValid(parseISO(`${date}T00:00:00Z`));
+
+// What is being dragged, and how far into its bar it was picked up
+interface DragState {
+  flight: Flight;
+  grabOffsetPx: number;
+}
+
+interface RejectedMove {
+  flight: Flight;
+  airplane: Airplane;
+  conflicts: string[];
+}
+
+/**
+ * One row per airplane with its flights as bars on a UTC timeline, a day or a
+ * week at a time. Bars are coloured by status and outlined when they overlap,
+ * break the airplane's minimum turnaround or start away from where it last
+ * landed. Dragging a bar onto another row or time moves the flight once the
+ * same rules and the backend's schedule check pass.
+ */
+export const FleetSchedulePage: React.FC = () => {
+  const [{ date: dateParam, view }, updateParams] = useSearchParamsState({ date: todayUtc(), view: 'day' });
+  const date = isTimelineDate(dateParam) ? dateParam : todayUtc();
+  const timelineView: TimelineView = view === 'week' ? 'week' : 'day';
+  const timeline = getTimelineWindow(date, timelineView);
+
+  const airplanesQuery = useAirplanes();
+  const airplanes = airplanesQuery.data ?? [];
+  const flightQueries = useFleetFlights(airplanes.map((airplane) => airplane.id));
+  const validateSchedule = useValidateFlightSchedule();
+  const updateFlight = useUpdateFlight();
+
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [movingFlightId, setMovingFlightId] = useState<number | null>(null);
+  const [rejectedMove, setRejectedMove] = useState<RejectedMove | null>(null);
+  const trackRefs = useRef(new Map<string, HTMLDivElement>());
+
+  const isLoading = airplanesQuery.isLoading || flightQueries.some((query) => query.isLoading);
+  const loadError = airplanesQuery.isError
+    ? airplanesQuery.error.message || 'Failed to load the fleet'
+    : flightQueries.find((query) => query.isError)?.error?.message ?? null;
+
+  const rows = airplanes.map((airplane, index) => {
+    const flights = flightQueries[index]?.data ?? [];
+    return {
+      airplane,
+      conflicts: findRotationConflicts(flights, airplane),
+      flights: flights.filter((flight) => isInWindow(flight, timeline))
+    };
+  });
+  const conflictCount = rows.reduce(
+    (count, row) => count + row.flights.filter((flight) => row.conflicts.has(flight.id)).length,
+    0
+  );
+
+  // Gridlines: every three hours for a day, every day for a week
+  const ticks =
+    timelineView === 'day'
+      ? Array.from({ length: 8 }, (_, index) => ({
+          left: (index / 8) * 100,
+          label: `${String(index * 3).padStart(2, '0')}:00`
+        }))
+      : Array.from({ length: TIMELINE_VIEW_DAYS.week }, (_, index) => ({
+          left: (index / TIMELINE_VIEW_DAYS.week) * 100,
+          label: format(addDays(parseISO(date), index), 'EEE d MMM')
+        }));
+
+  const shiftWindow = (direction: 1 | -1) =>
+    updateParams({ date: format(addDays(parseISO(date), direction * TIMELINE_VIEW_DAYS[timelineView]), 'yyyy-MM-dd') });
+
+  const handleDrop = async (airplane: Airplane, event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDropTargetId(null);
+    const track = trackRefs.current.get(airplane.id);
+    if (!drag || !track) return;
+
+    const { flight, grabOffsetPx } = drag;
+    setDrag(null);
+    const rect = track.getBoundingClientRect();
+    const departure = getTimeAtPosition((event.clientX - grabOffsetPx - rect.left) / rect.width, timeline);
+    const isSameAirplane = airplane.registrationNumber === flight.airplaneRegistration;
+    if (isSameAirplane && departure.getTime() === new Date(flight.departureTime).getTime()) return;
+
+    const request = toReassignment(flight, airplane, departure);
+    // The airplane's own rules first, so the explanation is specific
+    const problems = checkAirplaneAssignment(
+      airplane,
+      {
+        origin: flight.originAirport,
+        destination: flight.destinationAirport,
+        departure,
+        arrival: new Date(request.arrivalTime)
+      },
+      flightQueries[airplanes.indexOf(airplane)]?.data ?? [],
+      flight.id
+    );
+    if (problems.length) {
+      setRejectedMove({ flight, airplane, conflicts: problems });
+      return;
+    }
+
+    setMovingFlightId(flight.id);
+    setRejectedMove(null);
+    try {
+      const check = await validateSchedule.mutateAsync({ ...request, flightId: flight.id.toString() });
+      if (!check.valid) {
+        setRejectedMove({ flight, airplane, conflicts: check.conflicts ?? [] });
+        return;
+      }
+      await updateFlight.mutateAsync({
+        id: flight.id.toString(),
+        data: { airplaneId: request.airplaneId, departureTime: request.departureTime, arrivalTime: request.arrivalTime }
+      });
+      toast.success(
+        `${flight.flightNumber} moved to ${airplane.registrationNumber}, departing ${formatInTimeZone(
+          departure,
+          'UTC',
+          'MMM d HH:mm'
+        )} UTC`
+      );
+    } catch (error) {
+      toast.error((error as AppError).message || `Failed to move ${flight.flightNumber}`);
+    } finally {
+      setMovingFlightId(null);
+    }
+  };
+
+  const renderBar = (flight: Flight, conflicts: string[] | undefined) => {
+    const { left, width } = getBarPosition(flight, timeline);
+    const isMovable = MOVABLE_STATUSES.includes(flight.status) && movingFlightId === null;
+    const title = [
+      `${flight.flightNumber} ${flight.originAirport.code} → ${flight.destinationAirport.code}`,
+      `${formatInTimeZone(flight.departureTime, 'UTC', 'MMM d HH:mm')} – ${formatInTimeZone(
+        flight.arrivalTime,
+        'UTC',
+        'MMM d HH:mm'
+      )} UTC`,
+      flight.status,
+      ...(conflicts ?? [])
+    ].join('\n');
+
+    return (
+      <div
+        key={flight.id}
+        title={title}
+        draggable={isMovable}
+        onDragStart={(event) => {
+          event.dataTransfer.setData('text/plain', flight.id.toString());
+          event.dataTransfer.effectAllowed = 'move';
+          setDrag({ flight, grabOffsetPx: event.clientX - event.currentTarget.getBoundingClientRect().left });
+        }}
+        onDragEnd={() => {
+          setDrag(null);
+          setDropTargetId(null);
+        }}
+        className={`absolute top-2 bottom-2 rounded px-1.5 text-xs text-white overflow-hidden whitespace-nowrap flex items-center gap-1 ${
+          STATUS_BAR_COLORS[flight.status]
+        } ${conflicts ? 'ring-2 ring-red-600 ring-offset-1' : ''} ${isMovable ? 'cursor-grab' : 'cursor-default'} ${
+          movingFlightId === flight.id ? 'opacity-50' : ''
+        }`}
+        style={{ left: `${left}%`, width: `max(${width}%, 4px)` }}
+      >
+        {conflicts && <AlertTriangle className="h-3 w-3 shrink-0" />}
+        <span className="font-medium">{flight.flightNumber}</span>
+        <span className="opacity-80">
+          {flight.originAirport.code}–{flight.destinationAirport.code}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <div className="p-2 bg-primary/10 rounded-lg">
+          <GanttChart className="h-6 w-6 text-primary" />
+        </div>
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Fleet Schedule</h1>
+          <p className="text-muted-foreground">See each airplane's flights over time and drag them to reassign</p>
+        </div>
+      </div>
+
+      {loadError && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{loadError}</AlertDescription>
+        </Alert>
+      )}
+
+      {rejectedMove && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <p className="font-medium">
+              {rejectedMove.flight.flightNumber} cannot move to {rejectedMove.airplane.registrationNumber}:
+            </p>
+            <ul className="list-disc ml-4">
+              {rejectedMove.conflicts.map((conflict) => (
+                <li key={conflict}>{conflict}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle>
+                {timelineView === 'day'
+                  ? format(parseISO(date), 'EEEE, MMMM d, yyyy')
+                  : `${format(parseISO(date), 'MMM d')} – ${format(addDays(parseISO(date), 6), 'MMM d, yyyy')}`}
+              </CardTitle>
+              <CardDescription>
+                All times UTC · {conflictCount > 0 ? `${conflictCount} flights with conflicts in view` : 'No conflicts in view'}
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              {(['day', 'week'] as const).map((option) => (
+                <Button
+                  key={option}
+                  size="sm"
+                  variant={timelineView === option ? 'default' : 'outline'}
+                  onClick={() => updateParams({ view: option })}
+                >
+                  {option === 'day' ? 'Day' : 'Week'}
+                </Button>
+              ))}
+              <Button size="sm" variant="outline" onClick={() => shiftWindow(-1)} aria-label="Earlier">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => updateParams({ date: todayUtc() })}>
+                Today
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => shiftWindow(1)} aria-label="Later">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Input
+                type="date"
+                className="w-40"
+                value={date}
+                onChange={(event) => event.target.value && updateParams({ date: event.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+            {Object.entries(STATUS_BAR_COLORS).map(([status, color]) => (
+              <span key={status} className="flex items-center gap-1">
+                <span className={`h-3 w-3 rounded-sm ${color}`} />
+                {status.replace('_', ' ')}
+              </span>
+            ))}
+            <span className="flex items-center gap-1">
+              <span className="h-3 w-3 rounded-sm ring-2 ring-red-600" />
+              Overlap, short turnaround or out of position
+            </span>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <LoadingSpinner />
+              <span className="ml-3 text-muted-foreground">Loading fleet schedule...</span>
+            </div>
+          ) : airplanes.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">No airplanes in the fleet yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <div className="min-w-[900px]">
+                {/* Time axis */}
+                <div className="grid grid-cols-[180px_1fr] border-b">
+                  <div />
+                  <div className="relative h-6">
+                    {ticks.map((tick) => (
+                      <span
+                        key={tick.label}
+                        className="absolute text-xs text-muted-foreground pl-1 border-l"
+                        style={{ left: `${tick.left}%` }}
+                      >
+                        {tick.label}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                {rows.map(({ airplane, flights, conflicts }) => (
+                  <div key={airplane.id} className="grid grid-cols-[180px_1fr] border-b last:border-b-0">
+                    <div className="py-2 pr-3">
+                      <p className="font-medium text-sm flex items-center gap-2">
+                        {airplane.registrationNumber}
+                        {!airplane.active && (
+                          <Badge variant="secondary" className="text-xs">
+                            Inactive
+                          </Badge>
+                        )}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {airplane.model} · {flights.length} flight{flights.length === 1 ? '' : 's'}
+                      </p>
+                    </div>
+                    <div
+                      ref={(element) => {
+                        if (element) trackRefs.current.set(airplane.id, element);
+                        else trackRefs.current.delete(airplane.id);
+                      }}
+                      className={`relative h-14 ${dropTargetId === airplane.id ? 'bg-primary/10' : ''} ${
+                        !airplane.active ? 'bg-muted/50' : ''
+                      }`}
+                      onDragOver={(event) => {
+                        if (!drag || !airplane.active) return;
+                        event.preventDefault();
+                        setDropTargetId(airplane.id);
+                      }}
+                      onDragLeave={() => setDropTargetId(null)}
+                      onDrop={(event) => handleDrop(airplane, event)}
+                    >
+                      {ticks.map((tick) => (
+                        <span
+                          key={tick.label}
+                          className="absolute inset-y-0 border-l border-dashed border-border"
+                          style={{ left: `${tick.left}%` }}
+                        />
+                      ))}
+                      {flights.map((flight) => renderBar(flight, conflicts.get(flight.id)))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          {movingFlightId && (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground mt-4">
+              <LoadingSpinner size="sm" />
+              Checking the new assignment...
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
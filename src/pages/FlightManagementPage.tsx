@@ -1,6 +1,16 @@
-import React, { useState, useEffect } from 'react';
-import { useAuth } from '@/contexts/AuthContext';
-import { flightService } from '@/services/flightService';
+import React, { useEffect, useState } from 'react';
+import {
+  useAirplanes,
+  useAirports,
+  useCreateFlight,
+  useDeleteFlight,
+  useFlights,
+  useFlightsByAirplane,
+  useUpdateFlight,
+  useUpdateFlightStatus
+} from '@/hooks/queries/useFlightQueries';
+import { useDebouncedValue, useListQueryParams } from '@/hooks/useListQueryParams';
+import type { ListQueryDefaults } from '@/lib/listQuery';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -11,18 +21,19 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { FlightScheduleWizard } from '@/components/flights/FlightScheduleWizard';
+import { checkAirplaneAssignment } from '@/lib/fleetSchedule';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
+import { formatDuration, formatInTimeZone, fromZonedTime, getDurationMinutes, getTimeZoneName, toDateTimeInputValue } from '@/lib/dateTime';
 import type { 
-  Flight, 
-  FlightStatus, 
-  Airport, 
-  Airplane,
+  Airport,
   CreateFlightForm,
-  PaginatedResponse
+  Flight, 
+  FlightStatus
 } from '@/types';
-import { FlightStatus as FlightStatusEnum, UserRole } from '@/types';
+import { FlightStatus as FlightStatusEnum } from '@/types';
 import { 
   Plane, 
   Plus,
@@ -35,6 +46,7 @@ import {
   Clock,
   MapPin,
   Calendar,
+  CalendarRange,
   AlertTriangle
 } from 'lucide-react';
 
@@ -43,6 +55,8 @@ const flightSchema = z.object({
   airplaneId: z.string().min(1, 'Please select an airplane'),
   originId: z.string().min(1, 'Please select origin airport'),
   destinationId: z.string().min(1, 'Please select destination airport'),
+  // Wall-clock times from datetime-local inputs: departure on the origin
+  // airport's clock, arrival on the destination's
   departureTime: z.string().min(1, 'Departure time is required'),
   arrivalTime: z.string().min(1, 'Arrival time is required'),
   firstClassPrice: z.number().min(0, 'Price must be positive'),
@@ -52,38 +66,101 @@ const flightSchema = z.object({
 
 type FlightFormData = z.infer<typeof flightSchema>;
 
+// Airports without a known zone fall back to UTC rather than the browser's zone
+const getAirportTimeZone = (airports: Airport[], airportId: string) =>
+  airports.find((airport) => airport.id === airportId)?.timeZone ?? 'UTC';
+
+// Departure and arrival as instants, each read on its own airport's clock
+const getScheduleInstants = (
+  data: Pick<FlightFormData, 'originId' | 'destinationId' | 'departureTime' | 'arrivalTime'>,
+  airports: Airport[]
+) => ({
+  departure: fromZonedTime(data.departureTime, getAirportTimeZone(airports, data.originId)),
+  arrival: fromZonedTime(data.arrivalTime, getAirportTimeZone(airports, data.destinationId)),
+});
+
+/**
+ * The flight form schema for a set of airports, whose zones the entered
+ * times are read in. Arrival must come after departure once both are UTC,
+ * and `getAirplaneProblems` must find nothing wrong with the chosen airplane.
+ */
+const createFlightSchema = (airports: Airport[], getAirplaneProblems: (data: FlightFormData) => string[]) =>
+  flightSchema.superRefine((data, ctx) => {
+    if (!data.departureTime || !data.arrivalTime) return;
+    const { departure, arrival } = getScheduleInstants(data, airports);
+    if (Number.isNaN(departure.getTime())) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['departureTime'], message: 'Enter a valid departure time' });
+    } else if (Number.isNaN(arrival.getTime())) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['arrivalTime'], message: 'Enter a valid arrival time' });
+    } else if (arrival <= departure) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['arrivalTime'],
+        message: 'Arrival must be after departure (times are local to each airport)'
+      });
+    }
+    const [airplaneProblem] = getAirplaneProblems(data);
+    if (airplaneProblem) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['airplaneId'], message: airplaneProblem });
+    }
+  });
+
+// The request body, with both times as UTC ISO strings
+const toFlightRequest = (data: FlightFormData, airports: Airport[]): CreateFlightForm => {
+  const { departure, arrival } = getScheduleInstants(data, airports);
+  return { ...data, departureTime: departure.toISOString(), arrivalTime: arrival.toISOString() };
+};
+
+// Filters and paging live in the URL so a filtered view can be bookmarked
+const FLIGHT_FILTER_KEYS = ['search', 'status', 'origin', 'destination', 'date'] as const;
+const FLIGHT_LIST_DEFAULTS: ListQueryDefaults = {
+  size: 10,
+  sort: { field: 'departureTime', direction: 'asc' },
+};
+
 export const FlightManagementPage: React.FC = () => {
-  const { user } = useAuth();
-  const [flights, setFlights] = useState<Flight[]>([]);
-  const [filteredFlights, setFilteredFlights] = useState<Flight[]>([]);
-  const [airports, setAirports] = useState<Airport[]>([]);
-  const [airplanes, setAirplanes] = useState<Airplane[]>([]);
-  const [availableAirplanes, setAvailableAirplanes] = useState<Airplane[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
-  // Pagination
-  const [currentPage, setCurrentPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
-  const [totalFlights, setTotalFlights] = useState(0);
-  const pageSize = 10;
-
-  // Filter states
-  const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [originFilter, setOriginFilter] = useState<string>('all');
-  const [destinationFilter, setDestinationFilter] = useState<string>('all');
-  const [dateFilter, setDateFilter] = useState('');
+  // Pagination and filters
+  const { query, filters, setPage, setFilter } = useListQueryParams(FLIGHT_FILTER_KEYS, FLIGHT_LIST_DEFAULTS);
+  const currentPage = query.page ?? 1;
+  const [searchTerm, setSearchTerm] = useState(filters.search ?? '');
+  const debouncedSearch = useDebouncedValue(searchTerm);
+
+  useEffect(() => {
+    setFilter('search', debouncedSearch);
+  }, [debouncedSearch, setFilter]);
+
+  const flightsQuery = useFlights({
+    ...query,
+    filters: { ...filters, status: filters.status as FlightStatus | undefined },
+  });
+  const { data: airports = [] } = useAirports();
+  const { data: airplanes = [] } = useAirplanes();
+  const createFlight = useCreateFlight();
+  const updateFlight = useUpdateFlight();
+  const deleteFlight = useDeleteFlight();
+  const updateFlightStatus = useUpdateFlightStatus();
+
+  const flights = flightsQuery.data?.data ?? [];
+  const pagination = flightsQuery.data?.pagination;
+  const totalPages = pagination?.size ? Math.max(1, Math.ceil(pagination.total / pagination.size)) : 1;
+  const totalFlights = pagination?.total || 0;
+  const isLoading = flightsQuery.isFetching;
+  const loadError = flightsQuery.isError ? flightsQuery.error.message || 'Failed to load flights' : null;
+  const hasFilters = Object.keys(filters).length > 0;
 
   // Dialog states
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isDetailsDialogOpen, setIsDetailsDialogOpen] = useState(false);
+  const [isScheduleWizardOpen, setIsScheduleWizardOpen] = useState(false);
   const [selectedFlight, setSelectedFlight] = useState<Flight | null>(null);
 
   const form = useForm<FlightFormData>({
-    resolver: zodResolver(flightSchema),
+    resolver: (values, context, options) =>
+      zodResolver(createFlightSchema(airports, getAirplaneProblems))(values, context, options),
     defaultValues: {
       flightNumber: '',
       airplaneId: '',
@@ -97,122 +174,47 @@ export const FlightManagementPage: React.FC = () => {
     }
   });
 
-  useEffect(() => {
-    loadFlights();
-    loadAirports();
-    loadAirplanes();
-  }, [currentPage]);
+  // The chosen airplane's other flights, for the turnaround and positioning rules
+  const rotationQuery = useFlightsByAirplane(form.watch('airplaneId') || undefined);
 
+  // A submit made while the rotation loaded is re-checked once it is in
   useEffect(() => {
-    filterFlights();
-  }, [flights, searchTerm, statusFilter, originFilter, destinationFilter, dateFilter]);
-
-  const loadFlights = async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      const response = await flightService.getAllFlights({
-        page: currentPage,
-        limit: pageSize
-      });
-      if (response.success) {
-        setFlights(response.data || []);
-        setTotalPages(response.pagination?.page ? Math.ceil(response.pagination.total / response.pagination.size) : 1);
-        setTotalFlights(response.pagination?.total || 0);
-      } else {
-        setError('Failed to load flights');
-      }
-    } catch (error: any) {
-      setError(error.message || 'Failed to load flights');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const loadAirports = async () => {
-    try {
-      const response = await flightService.getAllAirports();
-      if (response.success) {
-        setAirports(response.data || []);
-      }
-    } catch (error) {
-      console.error('Failed to load airports:', error);
-    }
-  };
+    if (!rotationQuery.isLoading && form.formState.isSubmitted) form.trigger('airplaneId');
+  }, [rotationQuery.isLoading, form]);
 
-  const loadAirplanes = async () => {
-    try {
-      const response = await flightService.getAllAirplanes();
-      if (response.success) {
-        setAirplanes(response.data || []);
-      }
-    } catch (error) {
-      console.error('Failed to load airplanes:', error);
-    }
-  };
-
-  const loadAvailableAirplanes = async (departureTime: string, arrivalTime: string) => {
-    try {
-      const response = await flightService.getAvailableAirplanes(departureTime, arrivalTime);
-      if (response.success) {
-        setAvailableAirplanes(response.data || []);
-      }
-    } catch (error) {
-      console.error('Failed to load available airplanes:', error);
-    }
-  };
-
-  const filterFlights = () => {
-    let filtered = [...flights];
-
-    // Search filter
-    if (searchTerm) {
-      filtered = filtered.filter(flight =>
-        flight.flightNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        flight.origin.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        flight.destination.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        flight.origin.city.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        flight.destination.city.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        flight.airplane.model.toLowerCase().includes(searchTerm.toLowerCase())
-      );
+  // Why the chosen airplane cannot fly the flight as entered; empty when it can.
+  // Its rotation must have loaded, or the rules would pass without being checked
+  const getAirplaneProblems = (data: FlightFormData) => {
+    const airplane = airplanes.find((candidate) => candidate.id === data.airplaneId);
+    if (!airplane) return [];
+    if (rotationQuery.isLoading) return [`Still loading ${airplane.registrationNumber}'s other flights`];
+    if (rotationQuery.isError) {
+      return [
+        `Could not load ${airplane.registrationNumber}'s other flights to check turnaround and positioning: ${
+          rotationQuery.error.message || 'request failed'
+        }`
+      ];
     }
-
-    // Status filter
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter(flight => flight.status === statusFilter);
-    }
-
-    // Origin filter
-    if (originFilter !== 'all') {
-      filtered = filtered.filter(flight => flight.origin.id === originFilter);
-    }
-
-    // Destination filter
-    if (destinationFilter !== 'all') {
-      filtered = filtered.filter(flight => flight.destination.id === destinationFilter);
-    }
-
-    // Date filter
-    if (dateFilter) {
-      filtered = filtered.filter(flight => {
-        const flightDate = new Date(flight.departureTime).toISOString().split('T')[0];
-        return flightDate === dateFilter;
-      });
-    }
-
-    setFilteredFlights(filtered);
+    const { departure, arrival } = getScheduleInstants(data, airports);
+    return checkAirplaneAssignment(
+      airplane,
+      {
+        origin: airports.find((airport) => airport.id === data.originId),
+        destination: airports.find((airport) => airport.id === data.destinationId),
+        departure,
+        arrival
+      },
+      rotationQuery.data ?? [],
+      isEditDialogOpen ? selectedFlight?.id : undefined
+    );
   };
 
   const handleAdd = async (data: FlightFormData) => {
     try {
-      const response = await flightService.createFlight(data);
-      if (response.success) {
-        await loadFlights();
-        setIsAddDialogOpen(false);
-        form.reset();
-      } else {
-        setError(response.message || 'Failed to create flight');
-      }
+      setError(null);
+      await createFlight.mutateAsync(toFlightRequest(data, airports));
+      setIsAddDialogOpen(false);
+      form.reset();
     } catch (error: any) {
       setError(error.message || 'Failed to create flight');
     }
@@ -222,15 +224,11 @@ export const FlightManagementPage: React.FC = () => {
     if (!selectedFlight) return;
 
     try {
-      const response = await flightService.updateFlight(selectedFlight.id, data);
-      if (response.success) {
-        await loadFlights();
-        setIsEditDialogOpen(false);
-        setSelectedFlight(null);
-        form.reset();
-      } else {
-        setError(response.message || 'Failed to update flight');
-      }
+      setError(null);
+      await updateFlight.mutateAsync({ id: selectedFlight.id.toString(), data: toFlightRequest(data, airports) });
+      setIsEditDialogOpen(false);
+      setSelectedFlight(null);
+      form.reset();
     } catch (error: any) {
       setError(error.message || 'Failed to update flight');
     }
@@ -240,14 +238,10 @@ export const FlightManagementPage: React.FC = () => {
     if (!selectedFlight) return;
 
     try {
-      const response = await flightService.deleteFlight(selectedFlight.id);
-      if (response.success) {
-        await loadFlights();
-        setIsDeleteDialogOpen(false);
-        setSelectedFlight(null);
-      } else {
-        setError(response.message || 'Failed to delete flight');
-      }
+      setError(null);
+      await deleteFlight.mutateAsync(selectedFlight.id.toString());
+      setIsDeleteDialogOpen(false);
+      setSelectedFlight(null);
     } catch (error: any) {
       setError(error.message || 'Failed to delete flight');
     }
@@ -255,12 +249,8 @@ export const FlightManagementPage: React.FC = () => {
 
   const handleStatusUpdate = async (flight: Flight, newStatus: FlightStatus) => {
     try {
-      const response = await flightService.updateFlightStatus(flight.id, newStatus);
-      if (response.success) {
-        await loadFlights();
-      } else {
-        setError(response.message || 'Failed to update flight status');
-      }
+      setError(null);
+      await updateFlightStatus.mutateAsync({ id: flight.id.toString(), status: newStatus });
     } catch (error: any) {
       setError(error.message || 'Failed to update flight status');
     }
@@ -270,11 +260,12 @@ export const FlightManagementPage: React.FC = () => {
     setSelectedFlight(flight);
     form.reset({
       flightNumber: flight.flightNumber,
-      airplaneId: flight.airplane.id,
-      originId: flight.origin.id,
-      destinationId: flight.destination.id,
-      departureTime: new Date(flight.departureTime).toISOString().slice(0, 16),
-      arrivalTime: new Date(flight.arrivalTime).toISOString().slice(0, 16),
+      // Flights only carry the registration, so resolve the airplane from the fleet
+      airplaneId: airplanes.find(airplane => airplane.registrationNumber === flight.airplaneRegistration)?.id ?? '',
+      originId: flight.originAirport.id,
+      destinationId: flight.destinationAirport.id,
+      departureTime: toDateTimeInputValue(flight.departureTime, flight.originAirport.timeZone),
+      arrivalTime: toDateTimeInputValue(flight.arrivalTime, flight.destinationAirport.timeZone),
       firstClassPrice: flight.firstClassPrice,
       businessClassPrice: flight.businessClassPrice,
       economyClassPrice: flight.economyClassPrice
@@ -319,24 +310,126 @@ export const FlightManagementPage: React.FC = () => {
     }).format(price);
   };
 
-  const getFlightDuration = (departure: string, arrival: string) => {
-    const dep = new Date(departure);
-    const arr = new Date(arrival);
-    const diff = arr.getTime() - dep.getTime();
-    const hours = Math.floor(diff / (1000 * 60 * 60));
-    const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-    return `${hours}h ${minutes}m`;
+  // e.g. "Mar 30, 2026 09:00 GMT+1", on the airport's own clock
+  const formatAirportDateTime = (dateTime: string, airport: Airport) =>
+    `${formatInTimeZone(dateTime, airport.timeZone, 'MMM d, yyyy HH:mm')} ${getTimeZoneName(dateTime, airport.timeZone)}`;
+
+  const getFlightDuration = (departure: string, arrival: string) =>
+    formatDuration(getDurationMinutes(departure, arrival));
+
+  // Aircraft picker; problems with the pick show as soon as the flight's route and times allow
+  const renderAirplaneField = (id: string) => {
+    const airplaneProblems = getAirplaneProblems(form.watch());
+
+    return (
+      <>
+        <Label htmlFor={id}>Aircraft</Label>
+        <Select 
+          value={form.watch('airplaneId')} 
+          onValueChange={(value) => form.setValue('airplaneId', value, { shouldValidate: form.formState.isSubmitted })}
+        >
+          <SelectTrigger id={id}>
+            <SelectValue placeholder="Select aircraft" />
+          </SelectTrigger>
+          <SelectContent>
+            {airplanes.map((airplane) => (
+              <SelectItem key={airplane.id} value={airplane.id} disabled={!airplane.active}>
+                {airplane.model} ({airplane.registrationNumber}){!airplane.active && ' · inactive'}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {rotationQuery.isLoading ? (
+          <p className="text-xs text-muted-foreground mt-1">Checking the airplane's other flights...</p>
+        ) : airplaneProblems.length > 0 ? (
+          <ul className="mt-1 space-y-1">
+            {airplaneProblems.map((problem) => (
+              <li key={problem} className="text-sm text-red-600 flex gap-1">
+                <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                {problem}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          form.formState.errors.airplaneId && (
+            <p className="text-sm text-red-600">{form.formState.errors.airplaneId.message}</p>
+          )
+        )}
+      </>
+    );
+  };
+
+  // Departure and arrival inputs, each on its airport's clock, with the block time between them
+  const renderScheduleFields = (departureId: string, arrivalId: string) => {
+    const [originId, destinationId, departureTime, arrivalTime] = form.watch([
+      'originId',
+      'destinationId',
+      'departureTime',
+      'arrivalTime'
+    ]);
+    const origin = airports.find((airport) => airport.id === originId);
+    const destination = airports.find((airport) => airport.id === destinationId);
+    const { departure, arrival } = getScheduleInstants({ originId, destinationId, departureTime, arrivalTime }, airports);
+    // NaN until both times are entered and both airports picked
+    const blockMinutes = origin && destination ? getDurationMinutes(departure, arrival) : NaN;
+
+    const zoneHint = (airport: Airport | undefined, localDateTime: string) =>
+      airport
+        ? `${airport.code} local time${
+            localDateTime ? `, ${getTimeZoneName(fromZonedTime(localDateTime, airport.timeZone), airport.timeZone)}` : ''
+          }`
+        : 'Select an airport first';
+
+    return (
+      <div className="space-y-2">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor={departureId}>Departure Time</Label>
+            <Input
+              id={departureId}
+              type="datetime-local"
+              {...form.register('departureTime', { deps: 'airplaneId' })}
+            />
+            <p className="text-xs text-muted-foreground mt-1">{zoneHint(origin, departureTime)}</p>
+            {form.formState.errors.departureTime && (
+              <p className="text-sm text-red-600">{form.formState.errors.departureTime.message}</p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor={arrivalId}>Arrival Time</Label>
+            <Input
+              id={arrivalId}
+              type="datetime-local"
+              {...form.register('arrivalTime', { deps: 'airplaneId' })}
+            />
+            <p className="text-xs text-muted-foreground mt-1">{zoneHint(destination, arrivalTime)}</p>
+            {form.formState.errors.arrivalTime && (
+              <p className="text-sm text-red-600">{form.formState.errors.arrivalTime.message}</p>
+            )}
+          </div>
+        </div>
+
+        {blockMinutes > 0 && (
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            <Clock className="h-4 w-4" />
+            Block time {formatDuration(blockMinutes)} · {formatInTimeZone(departure, 'UTC', 'HH:mm')} –{' '}
+            {formatInTimeZone(arrival, 'UTC', 'HH:mm')} UTC
+          </p>
+        )}
+      </div>
+    );
   };
 
   const getFlightStats = () => {
-    const scheduled = filteredFlights.filter(f => f.status === FlightStatusEnum.SCHEDULED).length;
-    const inProgress = filteredFlights.filter(f => 
+    const scheduled = flights.filter(f => f.status === FlightStatusEnum.SCHEDULED).length;
+    const inProgress = flights.filter(f => 
       f.status === FlightStatusEnum.BOARDING || 
       f.status === FlightStatusEnum.DEPARTED || 
       f.status === FlightStatusEnum.IN_FLIGHT
     ).length;
-    const completed = filteredFlights.filter(f => f.status === FlightStatusEnum.ARRIVED).length;
-    const issues = filteredFlights.filter(f => 
+    const completed = flights.filter(f => f.status === FlightStatusEnum.ARRIVED).length;
+    const issues = flights.filter(f => 
       f.status === FlightStatusEnum.CANCELLED || 
       f.status === FlightStatusEnum.DELAYED
     ).length;
@@ -361,15 +454,25 @@ export const FlightManagementPage: React.FC = () => {
             </div>
           </div>
           
-          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-            <Button 
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
               className="flex items-center gap-2"
-              onClick={() => setIsAddDialogOpen(true)}
+              onClick={() => setIsScheduleWizardOpen(true)}
             >
-              <Plus className="h-4 w-4" />
-              Add Flight
+              <CalendarRange className="h-4 w-4" />
+              Create Schedule
             </Button>
-          </Dialog>
+            <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+              <Button 
+                className="flex items-center gap-2"
+                onClick={() => setIsAddDialogOpen(true)}
+              >
+                <Plus className="h-4 w-4" />
+                Add Flight
+              </Button>
+            </Dialog>
+          </div>
         </div>
       </div>
 
@@ -417,9 +520,9 @@ export const FlightManagementPage: React.FC = () => {
       </div>
 
       {/* Error Display */}
-      {error && (
+      {(error || loadError) && (
         <Alert variant="destructive" className="mb-6">
-          <AlertDescription>{error}</AlertDescription>
+          <AlertDescription>{error || loadError}</AlertDescription>
         </Alert>
       )}
 
@@ -449,7 +552,10 @@ export const FlightManagementPage: React.FC = () => {
             
             <div>
               <Label className="mb-2">Status</Label>
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <Select
+                value={filters.status ?? 'all'}
+                onValueChange={(value) => setFilter('status', value === 'all' ? undefined : value)}
+              >
                 <SelectTrigger className="w-full">
                   <SelectValue />
                 </SelectTrigger>
@@ -468,7 +574,10 @@ export const FlightManagementPage: React.FC = () => {
 
             <div>
               <Label className="mb-2">Origin</Label>
-              <Select value={originFilter} onValueChange={setOriginFilter}>
+              <Select
+                value={filters.origin ?? 'all'}
+                onValueChange={(value) => setFilter('origin', value === 'all' ? undefined : value)}
+              >
                 <SelectTrigger className="w-full">
                   <SelectValue />
                 </SelectTrigger>
@@ -485,7 +594,10 @@ export const FlightManagementPage: React.FC = () => {
 
             <div>
               <Label className="mb-2">Destination</Label>
-              <Select value={destinationFilter} onValueChange={setDestinationFilter}>
+              <Select
+                value={filters.destination ?? 'all'}
+                onValueChange={(value) => setFilter('destination', value === 'all' ? undefined : value)}
+              >
                 <SelectTrigger className="w-full">
                   <SelectValue />
                 </SelectTrigger>
@@ -504,8 +616,8 @@ export const FlightManagementPage: React.FC = () => {
               <Label className="mb-2">Date</Label>
               <Input
                 type="date"
-                value={dateFilter}
-                onChange={(e) => setDateFilter(e.target.value)}
+                value={filters.date ?? ''}
+                onChange={(e) => setFilter('date', e.target.value)}
               />
             </div>
           </div>
@@ -517,7 +629,7 @@ export const FlightManagementPage: React.FC = () => {
         <CardHeader>
           <CardTitle>Flight Operations</CardTitle>
           <CardDescription>
-            {filteredFlights.length} of {totalFlights} flights shown
+            {flights.length} of {totalFlights} flights shown
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -526,12 +638,12 @@ export const FlightManagementPage: React.FC = () => {
               <LoadingSpinner />
               <span className="ml-3 text-muted-foreground">Loading flights...</span>
             </div>
-          ) : filteredFlights.length === 0 ? (
+          ) : flights.length === 0 ? (
             <div className="text-center py-12">
               <Plane className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <h3 className="text-lg font-semibold mb-2">No flights found</h3>
               <p className="text-muted-foreground">
-                {flights.length === 0 ? 'No flights have been scheduled yet.' : 'Try adjusting your filters.'}
+                {hasFilters ? 'Try adjusting your filters.' : 'No flights have been scheduled yet.'}
               </p>
             </div>
           ) : (
@@ -549,7 +661,7 @@ export const FlightManagementPage: React.FC = () => {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredFlights.map((flight) => (
+                {flights.map((flight) => (
                   <TableRow key={flight.id}>
                     <TableCell className="font-medium">
                       <Badge variant="outline">{flight.flightNumber}</Badge>
@@ -558,27 +670,27 @@ export const FlightManagementPage: React.FC = () => {
                       <div className="text-sm">
                         <div className="font-medium flex items-center gap-1">
                           <MapPin className="h-3 w-3" />
-                          {flight.origin.code} → {flight.destination.code}
+                          {flight.originAirport.code} → {flight.destinationAirport.code}
                         </div>
                         <div className="text-muted-foreground">
-                          {flight.origin.city} → {flight.destination.city}
+                          {flight.originAirport.city} → {flight.destinationAirport.city}
                         </div>
                       </div>
                     </TableCell>
                     <TableCell>
                       <div className="text-sm">
-                        <div className="font-medium">{flight.airplane.model}</div>
-                        <div className="text-muted-foreground">{flight.airplane.registrationNumber}</div>
+                        <div className="font-medium">{flight.airplaneModel}</div>
+                        <div className="text-muted-foreground">{flight.airplaneRegistration}</div>
                       </div>
                     </TableCell>
                     <TableCell>
                       <div className="text-sm">
                         <div className="font-medium flex items-center gap-1">
                           <Clock className="h-3 w-3" />
-                          {new Date(flight.departureTime).toLocaleTimeString()}
+                          {formatInTimeZone(flight.departureTime, flight.originAirport.timeZone, 'HH:mm')}
                         </div>
                         <div className="text-muted-foreground">
-                          {new Date(flight.departureTime).toLocaleDateString()}
+                          {formatInTimeZone(flight.departureTime, flight.originAirport.timeZone, 'MMM d, yyyy')}
                         </div>
                       </div>
                     </TableCell>
@@ -641,7 +753,7 @@ export const FlightManagementPage: React.FC = () => {
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+              onClick={() => setPage(Math.max(1, currentPage - 1))}
               disabled={currentPage === 1}
             >
               Previous
@@ -649,7 +761,7 @@ export const FlightManagementPage: React.FC = () => {
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
+              onClick={() => setPage(Math.min(totalPages, currentPage + 1))}
               disabled={currentPage === totalPages}
             >
               Next
@@ -658,6 +770,8 @@ export const FlightManagementPage: React.FC = () => {
         </div>
       )}
 
+      <FlightScheduleWizard isOpen={isScheduleWizardOpen} onClose={() => setIsScheduleWizardOpen(false)} />
+
       {/* Add Flight Dialog */}
       <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
         <DialogContent className="max-w-4xl">
@@ -683,25 +797,7 @@ export const FlightManagementPage: React.FC = () => {
               </div>
               
               <div>
-                <Label htmlFor="airplane">Aircraft</Label>
-                <Select 
-                  value={form.watch('airplaneId')} 
-                  onValueChange={(value) => form.setValue('airplaneId', value)}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select aircraft" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {airplanes.map((airplane) => (
-                      <SelectItem key={airplane.id} value={airplane.id}>
-                        {airplane.model} ({airplane.registrationNumber})
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-                {form.formState.errors.airplaneId && (
-                  <p className="text-sm text-red-600">{form.formState.errors.airplaneId.message}</p>
-                )}
+                {renderAirplaneField('airplane')}
               </div>
             </div>
 
@@ -751,31 +847,7 @@ export const FlightManagementPage: React.FC = () => {
               </div>
             </div>
 
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <Label htmlFor="departureTime">Departure Time</Label>
-                <Input
-                  id="departureTime"
-                  type="datetime-local"
-                  {...form.register('departureTime')}
-                />
-                {form.formState.errors.departureTime && (
-                  <p className="text-sm text-red-600">{form.formState.errors.departureTime.message}</p>
-                )}
-              </div>
-              
-              <div>
-                <Label htmlFor="arrivalTime">Arrival Time</Label>
-                <Input
-                  id="arrivalTime"
-                  type="datetime-local"
-                  {...form.register('arrivalTime')}
-                />
-                {form.formState.errors.arrivalTime && (
-                  <p className="text-sm text-red-600">{form.formState.errors.arrivalTime.message}</p>
-                )}
-              </div>
-            </div>
+            {renderScheduleFields('departureTime', 'arrivalTime')}
 
             <div className="grid grid-cols-3 gap-4">
               <div>
@@ -828,7 +900,7 @@ export const FlightManagementPage: React.FC = () => {
               <Button type="button" variant="outline" onClick={() => setIsAddDialogOpen(false)}>
                 Cancel
               </Button>
-              <Button type="submit">Add Flight</Button>
+              <Button type="submit" disabled={rotationQuery.isLoading}>Add Flight</Button>
             </DialogFooter>
           </form>
         </DialogContent>
@@ -859,25 +931,7 @@ export const FlightManagementPage: React.FC = () => {
               </div>
               
               <div>
-                <Label htmlFor="editAirplane">Aircraft</Label>
-                <Select 
-                  value={form.watch('airplaneId')} 
-                  onValueChange={(value) => form.setValue('airplaneId', value)}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select aircraft" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {airplanes.map((airplane) => (
-                      <SelectItem key={airplane.id} value={airplane.id}>
-                        {airplane.model} ({airplane.registrationNumber})
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-                {form.formState.errors.airplaneId && (
-                  <p className="text-sm text-red-600">{form.formState.errors.airplaneId.message}</p>
-                )}
+                {renderAirplaneField('editAirplane')}
               </div>
             </div>
 
@@ -927,31 +981,7 @@ export const FlightManagementPage: React.FC = () => {
               </div>
             </div>
 
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <Label htmlFor="editDepartureTime">Departure Time</Label>
-                <Input
-                  id="editDepartureTime"
-                  type="datetime-local"
-                  {...form.register('departureTime')}
-                />
-                {form.formState.errors.departureTime && (
-                  <p className="text-sm text-red-600">{form.formState.errors.departureTime.message}</p>
-                )}
-              </div>
-              
-              <div>
-                <Label htmlFor="editArrivalTime">Arrival Time</Label>
-                <Input
-                  id="editArrivalTime"
-                  type="datetime-local"
-                  {...form.register('arrivalTime')}
-                />
-                {form.formState.errors.arrivalTime && (
-                  <p className="text-sm text-red-600">{form.formState.errors.arrivalTime.message}</p>
-                )}
-              </div>
-            </div>
+            {renderScheduleFields('editDepartureTime', 'editArrivalTime')}
 
             <div className="grid grid-cols-3 gap-4">
               <div>
@@ -1004,7 +1034,7 @@ export const FlightManagementPage: React.FC = () => {
               <Button type="button" variant="outline" onClick={() => setIsEditDialogOpen(false)}>
                 Cancel
               </Button>
-              <Button type="submit">Update Flight</Button>
+              <Button type="submit" disabled={rotationQuery.isLoading}>Update Flight</Button>
             </DialogFooter>
           </form>
         </DialogContent>
@@ -1023,9 +1053,9 @@ export const FlightManagementPage: React.FC = () => {
           {selectedFlight && (
             <div className="py-4">
               <p className="text-sm"><strong>Flight:</strong> {selectedFlight.flightNumber}</p>
-              <p className="text-sm"><strong>Route:</strong> {selectedFlight.origin.code} → {selectedFlight.destination.code}</p>
-              <p className="text-sm"><strong>Departure:</strong> {new Date(selectedFlight.departureTime).toLocaleString()}</p>
-              <p className="text-sm"><strong>Aircraft:</strong> {selectedFlight.airplane.model}</p>
+              <p className="text-sm"><strong>Route:</strong> {selectedFlight.originAirport.code} → {selectedFlight.destinationAirport.code}</p>
+              <p className="text-sm"><strong>Departure:</strong> {formatAirportDateTime(selectedFlight.departureTime, selectedFlight.originAirport)}</p>
+              <p className="text-sm"><strong>Aircraft:</strong> {selectedFlight.airplaneModel}</p>
             </div>
           )}
 
@@ -1069,9 +1099,9 @@ export const FlightManagementPage: React.FC = () => {
                     <CardTitle className="text-lg">Aircraft Details</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-2">
-                    <div><strong>Model:</strong> {selectedFlight.airplane.model}</div>
-                    <div><strong>Registration:</strong> {selectedFlight.airplane.registrationNumber}</div>
-                    <div><strong>Capacity:</strong> {selectedFlight.airplane.totalCapacity} seats</div>
+                    <div><strong>Model:</strong> {selectedFlight.airplaneModel}</div>
+                    <div><strong>Registration:</strong> {selectedFlight.airplaneRegistration}</div>
+                    <div><strong>Capacity:</strong> {airplanes.find(airplane => airplane.registrationNumber === selectedFlight.airplaneRegistration)?.totalCapacity ?? '—'} seats</div>
                   </CardContent>
                 </Card>
               </div>
@@ -1084,15 +1114,15 @@ export const FlightManagementPage: React.FC = () => {
                   <div className="grid grid-cols-2 gap-4">
                     <div>
                       <p className="font-medium">Origin</p>
-                      <p>{selectedFlight.origin.name} ({selectedFlight.origin.code})</p>
-                      <p className="text-sm text-muted-foreground">{selectedFlight.origin.city}, {selectedFlight.origin.country}</p>
-                      <p className="text-sm font-medium mt-2">Departure: {new Date(selectedFlight.departureTime).toLocaleString()}</p>
+                      <p>{selectedFlight.originAirport.name} ({selectedFlight.originAirport.code})</p>
+                      <p className="text-sm text-muted-foreground">{selectedFlight.originAirport.city}, {selectedFlight.originAirport.country}</p>
+                      <p className="text-sm font-medium mt-2">Departure: {formatAirportDateTime(selectedFlight.departureTime, selectedFlight.originAirport)}</p>
                     </div>
                     <div>
                       <p className="font-medium">Destination</p>
-                      <p>{selectedFlight.destination.name} ({selectedFlight.destination.code})</p>
-                      <p className="text-sm text-muted-foreground">{selectedFlight.destination.city}, {selectedFlight.destination.country}</p>
-                      <p className="text-sm font-medium mt-2">Arrival: {new Date(selectedFlight.arrivalTime).toLocaleString()}</p>
+                      <p>{selectedFlight.destinationAirport.name} ({selectedFlight.destinationAirport.code})</p>
+                      <p className="text-sm text-muted-foreground">{selectedFlight.destinationAirport.city}, {selectedFlight.destinationAirport.country}</p>
+                      <p className="text-sm font-medium mt-2">Arrival: {formatAirportDateTime(selectedFlight.arrivalTime, selectedFlight.destinationAirport)}</p>
                     </div>
                   </div>
                 </CardContent>
@@ -1107,17 +1137,17 @@ export const FlightManagementPage: React.FC = () => {
                     <div className="text-center">
                       <p className="font-medium">Economy</p>
                       <p className="text-2xl font-bold">{formatPrice(selectedFlight.economyClassPrice)}</p>
-                      <p className="text-sm text-muted-foreground">{selectedFlight.availableEconomyClassSeats} available</p>
+                      <p className="text-sm text-muted-foreground">{selectedFlight.economyClassAvailableSeats} available</p>
                     </div>
                     <div className="text-center">
                       <p className="font-medium">Business</p>
                       <p className="text-2xl font-bold">{formatPrice(selectedFlight.businessClassPrice)}</p>
-                      <p className="text-sm text-muted-foreground">{selectedFlight.availableBusinessClassSeats} available</p>
+                      <p className="text-sm text-muted-foreground">{selectedFlight.businessClassAvailableSeats} available</p>
                     </div>
                     <div className="text-center">
                       <p className="font-medium">First Class</p>
                       <p className="text-2xl font-bold">{formatPrice(selectedFlight.firstClassPrice)}</p>
-                      <p className="text-sm text-muted-foreground">{selectedFlight.availableFirstClassSeats} available</p>
+                      <p className="text-sm text-muted-foreground">{selectedFlight.firstClassAvailableSeats} available</p>
                     </div>
                   </div>
                 </CardContent>
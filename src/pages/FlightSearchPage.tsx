@@ -1,9 +1,28 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { flightService } from '@/services/flightService';
+import { useAirports, useTripSearch } from '@/hooks/queries/useFlightQueries';
 import { FlightSearchForm } from '@/components/flights/FlightSearchForm';
 import { FlightSearchResults } from '@/components/flights/FlightSearchResults';
 import { FlightFilters } from '@/components/flights/FlightFilters';
+import { TripSearchResults } from '@/components/flights/TripSearchResults';
+import { TimeZoneToggle } from '@/components/common/TimeZoneToggle';
+import { FareCalendar } from '@/components/flights/FareCalendar';
+import { SavedSearches } from '@/components/flights/SavedSearches';
+import { getTripLegs } from '@/lib/tripSearch';
+import { filterTransitOptions, getItineraryMinutes } from '@/lib/connections';
+import { formatInTimeZone } from '@/lib/dateTime';
+import {
+  SEARCH_PARAM_DEFAULTS,
+  describeSearch,
+  readFilterParams,
+  readSearchParams,
+  toFilterParams,
+  toSearchParams,
+  toSearchQuery
+} from '@/lib/searchLinks';
+import type { ResultFilters } from '@/lib/searchLinks';
+import { useSearchParamsState } from '@/hooks/useSearchParamsState';
+import { useSearchHistory } from '@/hooks/useSearchHistory';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -11,83 +30,69 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import type { 
   FlightSearchCriteria, 
-  FlightSearchResult, 
-  Flight, 
-  Airport,
-  SeatClass
+  FlightSearchResult,
+  Flight,
+  TransitFlightOption
 } from '@/types';
 import { SeatClass as SeatClassEnum } from '@/types';
 import { Plane, Search, Filter, MapPin } from 'lucide-react';
 
 export const FlightSearchPage: React.FC = () => {
   const { user } = useAuth();
-  const [searchCriteria, setSearchCriteria] = useState<FlightSearchCriteria>({
+  const { data: airports = [], isLoading: isLoadingAirports } = useAirports();
+  // The search and its filters live in the URL, so results survive a reload and can be shared
+  const [params, updateParams] = useSearchParamsState(SEARCH_PARAM_DEFAULTS);
+  // Criteria of the search in the URL; null until the user searches (or while airports load)
+  const submittedCriteria = readSearchParams(params, airports);
+  const searchCriteria: FlightSearchCriteria = submittedCriteria ?? {
     originAirportId: 0,
     destinationAirportId: 0,
     departureDate: '',
     seatClass: undefined,
     passengers: 1,
     includeTransit: false
-  });
-  
-  const [searchResults, setSearchResults] = useState<FlightSearchResult | null>(null);
-  const [airports, setAirports] = useState<Airport[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [isLoadingAirports, setIsLoadingAirports] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [hasSearched, setHasSearched] = useState(false);
-
-  // Filter states
-  const [filters, setFilters] = useState({
-    maxPrice: 0,
-    seatClass: undefined as SeatClass | undefined,
-    departureTimeRange: { start: '', end: '' },
-    airlines: [] as string[],
-    maxStops: 2,
-    sortBy: 'price' as 'price' | 'duration' | 'departure'
-  });
-
-  // Load airports on component mount
-  useEffect(() => {
-    loadAirports();
-  }, []);
-
-  const loadAirports = async () => {
-    try {
-      setIsLoadingAirports(true);
-      const response = await flightService.getAllAirports();
-      if (response.success) {
-        setAirports(response.data || []);
+  };
+  const isBrokenLink = !!params.from && !isLoadingAirports && !submittedCriteria;
+  // Date a flexible search was made for; the fare calendar stays centred on it while days are browsed
+  const calendarAnchor = params.around || null;
+  // One search per leg; round trips and multi-city trips have several
+  const legQueries = useTripSearch(submittedCriteria);
+  const tripLegs = submittedCriteria ? getTripLegs(submittedCriteria) : [];
+  const isMultiLeg = tripLegs.length > 1;
+  const searchQuery = legQueries[0];
+  // Multi-leg results feed the filters as one pool, so price ranges cover every leg
+  const searchResults: FlightSearchResult | null = isMultiLeg
+    ? {
+        directFlights: legQueries.flatMap((query) => query.data?.directFlights ?? []),
+        transitFlights: legQueries.flatMap((query) => query.data?.transitFlights ?? [])
       }
-    } catch (error) {
-      console.error('Failed to load airports:', error);
-    } finally {
-      setIsLoadingAirports(false);
-    }
+    : searchQuery?.data ?? null;
+  const isLoading = !isMultiLeg && !!searchQuery?.isFetching;
+  const hasSearched = isMultiLeg || !!searchQuery?.isSuccess;
+  const error = !isMultiLeg && searchQuery?.isError
+    ? searchQuery.error.message || 'An error occurred while searching flights'
+    : null;
+
+  const filters = readFilterParams(params);
+  const { addRecent } = useSearchHistory();
+  const currentSearch = submittedCriteria
+    ? { query: toSearchQuery(submittedCriteria, airports), label: describeSearch(submittedCriteria, airports) }
+    : null;
+
+  // Every search is its own history entry, so back and forward step through them.
+  // Changing the criteria supersedes, and cancels, any search still running
+  const handleSearch = (criteria: FlightSearchCriteria) => {
+    updateParams(toSearchParams(criteria, airports), { replace: false });
+    addRecent({ query: toSearchQuery(criteria, airports), label: describeSearch(criteria, airports) });
   };
 
-  const handleSearch = async (criteria: FlightSearchCriteria) => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      setSearchCriteria(criteria);
-
-      const response = await flightService.searchFlightSummary(criteria);
-      if (response.success) {
-        setSearchResults(response.data || null);
-        setHasSearched(true);
-      } else {
-        setError(response.message || 'Failed to search flights');
-      }
-    } catch (error: any) {
-      setError(error.message || 'An error occurred while searching flights');
-    } finally {
-      setIsLoading(false);
-    }
+  // Picking a day on the fare calendar re-runs the same search for that day
+  const handleSelectDate = (departureDate: string) => {
+    updateParams({ date: departureDate }, { replace: false });
   };
 
-  const handleFilterChange = (newFilters: typeof filters) => {
-    setFilters(newFilters);
+  const handleFilterChange = (newFilters: ResultFilters) => {
+    updateParams(toFilterParams(newFilters));
   };
 
   // Helper functions to get airport info from IDs
@@ -98,11 +103,11 @@ export const FlightSearchPage: React.FC = () => {
   const getOriginAirport = () => getAirportById(searchCriteria.originAirportId);
   const getDestinationAirport = () => getAirportById(searchCriteria.destinationAirportId);
 
-  const getFilteredResults = () => {
-    if (!searchResults) return null;
+  const getFilteredResults = (results: FlightSearchResult | null) => {
+    if (!results) return null;
 
-    let directFlights = [...(searchResults?.directFlights || [])];
-    let transitFlights = [...(searchResults?.transitFlights || [])];
+    let directFlights = [...(results?.directFlights || [])];
+    let transitFlights = [...(results?.transitFlights || [])];
 
     console.log("directFlights", directFlights);
     console.log("transitFlights", transitFlights);
@@ -129,14 +134,13 @@ export const FlightSearchPage: React.FC = () => {
       });
     }
 
-    // Apply departure time filter
+    // Apply departure time filter, on the departure airport's clock (HH:mm compares as text)
     if (filters.departureTimeRange.start && filters.departureTimeRange.end) {
-      const startTime = new Date(`2000-01-01T${filters.departureTimeRange.start}`).getTime();
-      const endTime = new Date(`2000-01-01T${filters.departureTimeRange.end}`).getTime();
+      const { start, end } = filters.departureTimeRange;
 
       directFlights = directFlights.filter(flight => {
-        const flightTime = new Date(`2000-01-01T${new Date(flight.departureTime).toTimeString().slice(0, 5)}`).getTime();
-        return flightTime >= startTime && flightTime <= endTime;
+        const flightTime = formatInTimeZone(flight.departureTime, flight.originAirport.timeZone, 'HH:mm');
+        return flightTime >= start && flightTime <= end;
       });
     }
 
@@ -161,13 +165,21 @@ export const FlightSearchPage: React.FC = () => {
 
     directFlights.sort(sortFunctions[filters.sortBy]);
 
+    // Connections are judged on the whole itinerary
+    const transitSortFunctions = {
+      price: (a: TransitFlightOption, b: TransitFlightOption) => a.totalPrice - b.totalPrice,
+      departure: (a: TransitFlightOption, b: TransitFlightOption) => sortFunctions.departure(a.flights[0], b.flights[0]),
+      duration: (a: TransitFlightOption, b: TransitFlightOption) =>
+        getItineraryMinutes(a.flights) - getItineraryMinutes(b.flights)
+    };
+
     return {
       directFlights,
-      transitFlights: transitFlights.filter(option => option.flights.length - 1 <= filters.maxStops)
+      transitFlights: filterTransitOptions(transitFlights, filters).sort(transitSortFunctions[filters.sortBy])
     };
   };
 
-  const filteredResults = getFilteredResults();
+  const filteredResults = getFilteredResults(searchResults);
   const totalResults = filteredResults ? 
     filteredResults.directFlights.length + filteredResults.transitFlights.length : 0;
 
@@ -209,6 +221,8 @@ export const FlightSearchPage: React.FC = () => {
         </CardHeader>
         <CardContent>
           <FlightSearchForm
+            // Remount when the URL names a different search, e.g. on back/forward or once airports load
+            key={JSON.stringify(submittedCriteria)}
             onSearch={handleSearch}
             airports={airports || []}
             isLoadingAirports={isLoadingAirports || false}
@@ -225,7 +239,27 @@ export const FlightSearchPage: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Recent and Saved Searches */}
+      <SavedSearches currentSearch={currentSearch} />
+
+      {/* Fare Calendar */}
+      {submittedCriteria?.flexibleDates && calendarAnchor && (
+        <FareCalendar
+          key={JSON.stringify({ ...submittedCriteria, departureDate: calendarAnchor })}
+          searchCriteria={submittedCriteria}
+          anchorDate={calendarAnchor}
+          onSelectDate={handleSelectDate}
+        />
+      )}
+
       {/* Error Display */}
+      {isBrokenLink && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertDescription>
+            This search link names an airport that isn't available. Please search again.
+          </AlertDescription>
+        </Alert>
+      )}
       {error && (
         <Alert variant="destructive" className="mb-6">
           <AlertDescription>{error}</AlertDescription>
@@ -266,7 +300,28 @@ export const FlightSearchPage: React.FC = () => {
 
           {/* Results */}
           <div className="lg:col-span-3">
-            {searchResults && (
+            {isMultiLeg && submittedCriteria && (
+              <>
+                <div className="flex justify-end mb-4">
+                  <TimeZoneToggle />
+                </div>
+                <TripSearchResults
+                  key={JSON.stringify(submittedCriteria)}
+                  searchCriteria={submittedCriteria}
+                  airports={airports}
+                  legs={tripLegs.map((leg, index) => ({
+                    leg,
+                    results: getFilteredResults(legQueries[index]?.data ?? null),
+                    isLoading: !!legQueries[index]?.isFetching,
+                    error: legQueries[index]?.isError
+                      ? legQueries[index].error.message || 'An error occurred while searching flights'
+                      : null
+                  }))}
+                />
+              </>
+            )}
+
+            {!isMultiLeg && searchResults && (
               <>
                 {/* Results Summary */}
                 <div className="mb-6">
@@ -277,12 +332,16 @@ export const FlightSearchPage: React.FC = () => {
                       </h2>
                       <p className="text-muted-foreground flex items-center gap-1">
                         <MapPin className="h-4 w-4" />
-                        {new Date(searchCriteria.departureDate).toLocaleDateString()} • {totalResults} flights found
+                        {/* A calendar date, read at local midnight so it shows the day that was searched */}
+                        {new Date(`${searchCriteria.departureDate}T00:00:00`).toLocaleDateString()} • {totalResults} flights found
                       </p>
                     </div>
-                    <Badge variant="outline">
-                      {searchCriteria.passengers || 1} passenger{(searchCriteria.passengers || 1) > 1 ? 's' : ''}
-                    </Badge>
+                    <div className="flex flex-col items-end gap-2">
+                      <Badge variant="outline">
+                        {searchCriteria.passengers || 1} passenger{(searchCriteria.passengers || 1) > 1 ? 's' : ''}
+                      </Badge>
+                      <TimeZoneToggle />
+                    </div>
                   </div>
                 </div>
 
@@ -321,7 +380,7 @@ export const FlightSearchPage: React.FC = () => {
             )}
 
             {/* No Results */}
-            {hasSearched && !isLoading && totalResults === 0 && (
+            {!isMultiLeg && hasSearched && !isLoading && totalResults === 0 && (
               <Card>
                 <CardContent className="flex flex-col items-center justify-center py-12">
                   <Plane className="h-12 w-12 text-muted-foreground mb-4" />
@@ -1,7 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { bookingService } from '@/services/bookingService';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useCancelBooking, useMyBookings } from '@/hooks/queries/useBookingQueries';
+import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -11,39 +12,41 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { TimeZoneToggle } from '@/components/common/TimeZoneToggle';
+import { useFlightTime } from '@/hooks/useFlightTime';
+import { formatDuration, getDurationMinutes } from '@/lib/dateTime';
+import { downloadETicket } from '@/lib/pdfDocuments';
 import type { 
+  AppError,
   Booking, 
   BookingStatus, 
-  SeatClass,
-  PaginatedResponse
+  SeatClass
 } from '@/types';
 import { BookingStatus as BookingStatusEnum, SeatClass as SeatClassEnum } from '@/types';
 import { 
   Ticket, 
   Search, 
-  Filter,
   Eye,
   Calendar,
   Clock,
-  MapPin,
   Plane,
   XCircle,
   CheckCircle,
   Download,
   Mail,
-  ArrowRight,
-  Users,
   CreditCard,
   AlertCircle
 } from 'lucide-react';
 
 export const MyBookingsPage: React.FC = () => {
   const { user } = useAuth();
-  const [allBookings, setAllBookings] = useState<Booking[]>([]);
-  const [upcomingBookings, setUpcomingBookings] = useState<Booking[]>([]);
-  const [pastBookings, setPastBookings] = useState<Booking[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const bookingsQuery = useMyBookings();
+  const cancelBooking = useCancelBooking();
+  const { formatTime, formatDate, formatArrivalDay } = useFlightTime();
+  const allBookings = bookingsQuery.data?.data ?? [];
+  const isLoading = bookingsQuery.isLoading;
   const [error, setError] = useState<string | null>(null);
+  const loadError = bookingsQuery.isError ? bookingsQuery.error.message || 'Failed to load your bookings' : null;
   
   // Filter states
   const [searchTerm, setSearchTerm] = useState('');
@@ -51,36 +54,10 @@ export const MyBookingsPage: React.FC = () => {
   const [seatClassFilter, setSeatClassFilter] = useState<string>('all');
 
   // Dialog states
-  const [isDetailsDialogOpen, setIsDetailsDialogOpen] = useState(false);
   const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false);
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
   const [cancelReason, setCancelReason] = useState('');
 
-  useEffect(() => {
-    loadMyBookings();
-  }, []);
-
-  useEffect(() => {
-    organizeBookings();
-  }, [allBookings]);
-
-  const loadMyBookings = async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      const response = await bookingService.getMyBookings();
-      if (response.success) {
-        setAllBookings(response.data || []);
-      } else {
-        setError('Failed to load your bookings');
-      }
-    } catch (error: any) {
-      setError(error.message || 'Failed to load your bookings');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   const organizeBookings = () => {
     const now = new Date();
     const upcoming: Booking[] = [];
@@ -101,31 +78,32 @@ export const MyBookingsPage: React.FC = () => {
     // Sort past by departure date (most recent first)
     past.sort((a, b) => new Date(b.flight.departureTime).getTime() - new Date(a.flight.departureTime).getTime());
 
-    setUpcomingBookings(upcoming);
-    setPastBookings(past);
+    return { upcoming, past };
   };
 
+  const { upcoming: upcomingBookings, past: pastBookings } = organizeBookings();
+
   const handleCancelBooking = async () => {
     if (!selectedBooking) return;
 
     try {
-      const response = await bookingService.cancelBooking(selectedBooking.id, cancelReason);
-      if (response.success) {
-        await loadMyBookings();
-        setIsCancelDialogOpen(false);
-        setSelectedBooking(null);
-        setCancelReason('');
-      } else {
-        setError(response.message || 'Failed to cancel booking');
-      }
+      setError(null);
+      await cancelBooking.mutateAsync({ id: selectedBooking.id, reason: cancelReason });
+      setIsCancelDialogOpen(false);
+      setSelectedBooking(null);
+      setCancelReason('');
     } catch (error: any) {
       setError(error.message || 'Failed to cancel booking');
     }
   };
 
-  const openDetailsDialog = (booking: Booking) => {
-    setSelectedBooking(booking);
-    setIsDetailsDialogOpen(true);
+  const handleDownloadTicket = async (booking: Booking) => {
+    try {
+      setError(null);
+      await downloadETicket(booking);
+    } catch (error) {
+      setError((error as AppError).message || 'Failed to create the e-ticket');
+    }
   };
 
   const openCancelDialog = (booking: Booking) => {
@@ -174,14 +152,8 @@ export const MyBookingsPage: React.FC = () => {
     }).format(price);
   };
 
-  const getFlightDuration = (departure: string, arrival: string) => {
-    const dep = new Date(departure);
-    const arr = new Date(arrival);
-    const diff = arr.getTime() - dep.getTime();
-    const hours = Math.floor(diff / (1000 * 60 * 60));
-    const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-    return `${hours}h ${minutes}m`;
-  };
+  const getFlightDuration = (departure: string, arrival: string) =>
+    formatDuration(getDurationMinutes(departure, arrival));
 
   const getTimeUntilFlight = (departureTime: string) => {
     const now = new Date();
@@ -206,10 +178,10 @@ export const MyBookingsPage: React.FC = () => {
       filtered = filtered.filter(booking =>
         booking.bookingReference.toLowerCase().includes(searchTerm.toLowerCase()) ||
         booking.flight.flightNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        booking.flight.origin.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        booking.flight.destination.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        booking.flight.origin.city.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        booking.flight.destination.city.toLowerCase().includes(searchTerm.toLowerCase())
+        booking.flight.originAirport.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        booking.flight.destinationAirport.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        booking.flight.originAirport.city.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        booking.flight.destinationAirport.city.toLowerCase().includes(searchTerm.toLowerCase())
       );
     }
 
@@ -253,11 +225,10 @@ export const MyBookingsPage: React.FC = () => {
           </div>
         </div>
         
-        {user && (
-          <div className="flex items-center gap-2">
-            <Badge variant="secondary">Welcome back, {user.firstName}</Badge>
-          </div>
-        )}
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          {user && <Badge variant="secondary">Welcome back, {user.firstName}</Badge>}
+          <TimeZoneToggle />
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -304,9 +275,9 @@ export const MyBookingsPage: React.FC = () => {
       </div>
 
       {/* Error Display */}
-      {error && (
+      {(error || loadError) && (
         <Alert variant="destructive" className="mb-6">
-          <AlertDescription>{error}</AlertDescription>
+          <AlertDescription>{error || loadError}</AlertDescription>
         </Alert>
       )}
 
@@ -391,13 +362,11 @@ export const MyBookingsPage: React.FC = () => {
                           </div>
                         </div>
                         <div className="flex items-center gap-2">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => openDetailsDialog(booking)}
-                          >
-                            <Eye className="h-4 w-4" />
-                            Details
+                          <Button asChild variant="ghost" size="sm">
+                            <Link to={`/booking/${booking.id}`}>
+                              <Eye className="h-4 w-4" />
+                              Details
+                            </Link>
                           </Button>
                           {booking.status === BookingStatusEnum.CONFIRMED && (
                             <Button
@@ -418,10 +387,10 @@ export const MyBookingsPage: React.FC = () => {
                         <div className="md:col-span-2">
                           <div className="flex items-center justify-between mb-2">
                             <div className="text-center">
-                              <p className="text-2xl font-bold">{booking.flight.origin.code}</p>
-                              <p className="text-sm text-muted-foreground">{booking.flight.origin.city}</p>
+                              <p className="text-2xl font-bold">{booking.flight.originAirport.code}</p>
+                              <p className="text-sm text-muted-foreground">{booking.flight.originAirport.city}</p>
                               <p className="text-sm font-medium">
-                                {new Date(booking.flight.departureTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                {formatTime(booking.flight.departureTime, booking.flight.originAirport)}
                               </p>
                             </div>
                             
@@ -436,22 +405,20 @@ export const MyBookingsPage: React.FC = () => {
                             </div>
                             
                             <div className="text-center">
-                              <p className="text-2xl font-bold">{booking.flight.destination.code}</p>
-                              <p className="text-sm text-muted-foreground">{booking.flight.destination.city}</p>
+                              <p className="text-2xl font-bold">{booking.flight.destinationAirport.code}</p>
+                              <p className="text-sm text-muted-foreground">{booking.flight.destinationAirport.city}</p>
                               <p className="text-sm font-medium">
-                                {new Date(booking.flight.arrivalTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                {formatTime(booking.flight.arrivalTime, booking.flight.destinationAirport)}
+                                {formatArrivalDay(booking.flight) && (
+                                  <sup className="ml-1 text-xs text-orange-600">{formatArrivalDay(booking.flight)}</sup>
+                                )}
                               </p>
                             </div>
                           </div>
                           
                           <div className="text-center">
                             <p className="text-sm text-muted-foreground">
-                              {new Date(booking.flight.departureTime).toLocaleDateString(undefined, { 
-                                weekday: 'long', 
-                                year: 'numeric', 
-                                month: 'long', 
-                                day: 'numeric' 
-                              })}
+                              {formatDate(booking.flight.departureTime, booking.flight.originAirport, 'EEEE, MMMM d, yyyy')}
                             </p>
                           </div>
                         </div>
@@ -479,7 +446,12 @@ export const MyBookingsPage: React.FC = () => {
                         <div>
                           <h4 className="font-medium mb-2">Quick Actions</h4>
                           <div className="space-y-2">
-                            <Button variant="outline" size="sm" className="w-full">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="w-full"
+                              onClick={() => handleDownloadTicket(booking)}
+                            >
                               <Download className="h-4 w-4 mr-2" />
                               Download Ticket
                             </Button>
@@ -519,13 +491,11 @@ export const MyBookingsPage: React.FC = () => {
                           {getStatusBadge(booking.status)}
                         </div>
                         <div className="flex items-center gap-2">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => openDetailsDialog(booking)}
-                          >
-                            <Eye className="h-4 w-4" />
-                            View Details
+                          <Button asChild variant="ghost" size="sm">
+                            <Link to={`/booking/${booking.id}`}>
+                              <Eye className="h-4 w-4" />
+                              View Details
+                            </Link>
                           </Button>
                         </div>
                       </div>
@@ -536,10 +506,10 @@ export const MyBookingsPage: React.FC = () => {
                           <div className="text-sm space-y-1">
                             <p className="font-medium">{booking.flight.flightNumber}</p>
                             <p className="text-muted-foreground">
-                              {booking.flight.origin.code} → {booking.flight.destination.code}
+                              {booking.flight.originAirport.code} → {booking.flight.destinationAirport.code}
                             </p>
                             <p className="text-muted-foreground">
-                              {new Date(booking.flight.departureTime).toLocaleDateString()}
+                              {formatDate(booking.flight.departureTime, booking.flight.originAirport, 'MMM d, yyyy')}
                             </p>
                           </div>
                         </div>
@@ -578,75 +548,6 @@ export const MyBookingsPage: React.FC = () => {
         </Tabs>
       )}
 
-      {/* Booking Details Dialog */}
-      <Dialog open={isDetailsDialogOpen} onOpenChange={setIsDetailsDialogOpen}>
-        <DialogContent className="max-w-2xl">
-          <DialogHeader>
-            <DialogTitle>Booking Details</DialogTitle>
-            <DialogDescription>
-              Complete information about your flight booking
-            </DialogDescription>
-          </DialogHeader>
-          
-          {selectedBooking && (
-            <div className="space-y-6">
-              <div className="grid grid-cols-2 gap-4">
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="text-lg">Booking Information</CardTitle>
-                  </CardHeader>
-                  <CardContent className="space-y-2">
-                    <div><strong>Reference:</strong> {selectedBooking.bookingReference}</div>
-                    <div><strong>Status:</strong> {getStatusBadge(selectedBooking.status)}</div>
-                    <div><strong>Booking Date:</strong> {new Date(selectedBooking.bookingDate).toLocaleDateString()}</div>
-                    <div><strong>Price:</strong> {formatPrice(selectedBooking.price)}</div>
-                  </CardContent>
-                </Card>
-                
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="text-lg">Seat Information</CardTitle>
-                  </CardHeader>
-                  <CardContent className="space-y-2">
-                    <div><strong>Seat Number:</strong> {selectedBooking.seatNumber}</div>
-                    <div><strong>Class:</strong> {getSeatClassBadge(selectedBooking.seatClass)}</div>
-                    <div><strong>Aircraft:</strong> {selectedBooking.flight.airplane.model}</div>
-                  </CardContent>
-                </Card>
-              </div>
-              
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-lg">Flight Details</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div><strong>Flight Number:</strong> {selectedBooking.flight.flightNumber}</div>
-                  
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <p className="font-medium">Departure</p>
-                      <p>{selectedBooking.flight.origin.name} ({selectedBooking.flight.origin.code})</p>
-                      <p className="text-sm text-muted-foreground">{selectedBooking.flight.origin.city}, {selectedBooking.flight.origin.country}</p>
-                      <p className="font-medium mt-1">{new Date(selectedBooking.flight.departureTime).toLocaleString()}</p>
-                    </div>
-                    <div>
-                      <p className="font-medium">Arrival</p>
-                      <p>{selectedBooking.flight.destination.name} ({selectedBooking.flight.destination.code})</p>
-                      <p className="text-sm text-muted-foreground">{selectedBooking.flight.destination.city}, {selectedBooking.flight.destination.country}</p>
-                      <p className="font-medium mt-1">{new Date(selectedBooking.flight.arrivalTime).toLocaleString()}</p>
-                    </div>
-                  </div>
-                  
-                  <div>
-                    <strong>Duration:</strong> {getFlightDuration(selectedBooking.flight.departureTime, selectedBooking.flight.arrivalTime)}
-                  </div>
-                </CardContent>
-              </Card>
-            </div>
-          )}
-        </DialogContent>
-      </Dialog>
-
       {/* Cancel Booking Dialog */}
       <Dialog open={isCancelDialogOpen} onOpenChange={setIsCancelDialogOpen}>
         <DialogContent>
@@ -669,8 +570,8 @@ export const MyBookingsPage: React.FC = () => {
               <div className="p-4 bg-muted rounded-lg">
                 <p className="text-sm"><strong>Reference:</strong> {selectedBooking.bookingReference}</p>
                 <p className="text-sm"><strong>Flight:</strong> {selectedBooking.flight.flightNumber}</p>
-                <p className="text-sm"><strong>Route:</strong> {selectedBooking.flight.origin.code} → {selectedBooking.flight.destination.code}</p>
-                <p className="text-sm"><strong>Date:</strong> {new Date(selectedBooking.flight.departureTime).toLocaleDateString()}</p>
+                <p className="text-sm"><strong>Route:</strong> {selectedBooking.flight.originAirport.code} → {selectedBooking.flight.destinationAirport.code}</p>
+                <p className="text-sm"><strong>Date:</strong> {formatDate(selectedBooking.flight.departureTime, selectedBooking.flight.originAirport, 'MMM d, yyyy')}</p>
                 <p className="text-sm"><strong>Price:</strong> {formatPrice(selectedBooking.price)}</p>
               </div>
               
@@ -3,7 +3,7 @@ import { Link, useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { authService } from '@/services/authService';
+import { useRegister } from '@/hooks/queries/useAuthQueries';
 import { toast } from 'sonner';
 
 // UI Components
@@ -78,7 +78,8 @@ type RegisterFormData = z.infer<typeof registerSchema>;
 export const RegisterPage: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
+  const register = useRegister();
+  const isLoading = register.isPending;
   const navigate = useNavigate();
 
   const form = useForm<RegisterFormData>({
@@ -95,18 +96,12 @@ export const RegisterPage: React.FC = () => {
   });
 
   const onSubmit = async (data: RegisterFormData) => {
-    setIsLoading(true);
     try {
       // Remove confirmPassword from the data before sending to API
       const { confirmPassword, ...registrationData } = data;
-      const response = await authService.register(registrationData);
-      console.log("response", response)
-      if (response.success) {
-        toast.success('Registration successful! Please log in with your credentials.');
-        navigate('/login');
-      } else {
-        toast.error(response.message || 'Registration failed. Please try again.');
-      }
+      await register.mutateAsync(registrationData);
+      toast.success('Registration successful! Please log in with your credentials.');
+      navigate('/login');
     } catch (error: any) {
       console.error('Registration error:', error);
       
@@ -118,8 +113,6 @@ export const RegisterPage: React.FC = () => {
       } else {
         toast.error(error.message || 'Registration failed. Please try again.');
       }
-    } finally {
-      setIsLoading(false);
     }
   };
 
@@ -1,10 +1,60 @@
 import React from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { PassengerManifestReport } from '@/components/reports/PassengerManifestReport';
+import { AirportMovementReport } from '@/components/reports/AirportMovementReport';
+import { RevenueReport } from '@/components/reports/RevenueReport';
+import { BarChart3, DollarSign, MapPin, Users } from 'lucide-react';
+
+const REPORT_TABS = ['manifest', 'airport', 'revenue'] as const;
+type ReportTab = (typeof REPORT_TABS)[number];
 
 export const ReportsPage: React.FC = () => {
+  // The open report and its filters live in the URL so a report can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requestedTab = searchParams.get('tab') as ReportTab | null;
+  const tab: ReportTab = requestedTab && REPORT_TABS.includes(requestedTab) ? requestedTab : 'manifest';
+
+  // Each report has its own filters, so switching starts from a clean URL
+  const handleTabChange = (value: string) =>
+    setSearchParams(value === 'manifest' ? {} : { tab: value }, { replace: true });
+
   return (
-    <div className="container mx-auto px-4 py-8">
-      <h1 className="text-3xl font-bold mb-6">Reports</h1>
-      <p className="text-muted-foreground">Reports functionality coming soon...</p>
+    <div className="container mx-auto px-4 py-8 space-y-6 print:max-w-none print:p-0">
+      <div className="print:hidden">
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <BarChart3 className="h-8 w-8" />
+          Reports
+        </h1>
+        <p className="text-muted-foreground">Passenger manifests, airport movements and revenue</p>
+      </div>
+
+      <Tabs value={tab} onValueChange={handleTabChange} className="space-y-6">
+        <TabsList className="print:hidden">
+          <TabsTrigger value="manifest" className="flex items-center gap-2">
+            <Users className="h-4 w-4" />
+            Passenger Manifest
+          </TabsTrigger>
+          <TabsTrigger value="airport" className="flex items-center gap-2">
+            <MapPin className="h-4 w-4" />
+            Airport Movements
+          </TabsTrigger>
+          <TabsTrigger value="revenue" className="flex items-center gap-2">
+            <DollarSign className="h-4 w-4" />
+            Revenue
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="manifest">
+          <PassengerManifestReport />
+        </TabsContent>
+        <TabsContent value="airport">
+          <AirportMovementReport />
+        </TabsContent>
+        <TabsContent value="revenue">
+          <RevenueReport />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 };
@@ -1,6 +1,12 @@
-import React, { useState, useEffect } from 'react';
-import { useAuth } from '@/contexts/AuthContext';
-import { flightService } from '@/services/flightService';
+import React, { useState } from 'react';
+import {
+  useAirplanes,
+  useCreateAirplane,
+  useDeleteAirplane,
+  useFlightsByAirplane,
+  useUpdateAirplane
+} from '@/hooks/queries/useFlightQueries';
+import { useFlightTime } from '@/hooks/useFlightTime';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,8 +22,18 @@ import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import type { Airplane, Flight } from '@/types';
-import { AirplaneCapacity } from '@/types';
+import { CabinDiagram } from '@/components/bookings/CabinDiagram';
+import { CabinLayoutEditor } from './components/CabinLayoutEditor';
+import {
+  AIRPLANE_PRESETS,
+  buildDefaultCabinLayout,
+  getAirplaneCabinLayout,
+  getLayoutCapacities,
+  validateCabinLayout
+} from '@/lib/cabinLayout';
+import type { AirplanePreset } from '@/lib/cabinLayout';
+import type { Airplane } from '@/types';
+import { AirplaneCapacity, SeatClass } from '@/types';
 import { 
   Plane, 
   Plus, 
@@ -32,23 +48,43 @@ import {
   Activity
 } from 'lucide-react';
 
+const cabinLayoutSchema = z
+  .object({
+    sections: z.array(
+      z.object({
+        seatClass: z.nativeEnum(SeatClass),
+        firstRow: z.number().int(),
+        lastRow: z.number().int(),
+        seatLetters: z.string(),
+        exitRows: z.array(z.number().int()),
+        blockedSeats: z.array(z.string())
+      })
+    )
+  })
+  .superRefine((layout, ctx) =>
+    validateCabinLayout(layout).forEach((message) => ctx.addIssue({ code: z.ZodIssueCode.custom, message }))
+  );
+
+// Class capacities are not entered; they are counted from the cabin layout
 const airplaneSchema = z.object({
   model: z.string().min(1, 'Model is required'),
   registrationNumber: z.string().min(1, 'Registration is required'),
   size: z.nativeEnum(AirplaneCapacity),
-  firstClassCapacity: z.number().min(0, 'Must be 0 or greater'),
-  businessClassCapacity: z.number().min(0, 'Must be 0 or greater'),
-  economyClassCapacity: z.number().min(1, 'Must have at least 1 economy seat'),
+  cabinLayout: cabinLayoutSchema,
   active: z.boolean()
 });
 
 type AirplaneFormData = z.infer<typeof airplaneSchema>;
 
 export const AirplaneManagementPage: React.FC = () => {
-  const { user } = useAuth();
-  const [airplanes, setAirplanes] = useState<Airplane[]>([]);
-  const [filteredAirplanes, setFilteredAirplanes] = useState<Airplane[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const { formatDateTime } = useFlightTime();
+  const airplanesQuery = useAirplanes();
+  const createAirplane = useCreateAirplane();
+  const updateAirplane = useUpdateAirplane();
+  const deleteAirplane = useDeleteAirplane();
+  const airplanes = airplanesQuery.data ?? [];
+  const isLoading = airplanesQuery.isLoading;
+  const loadError = airplanesQuery.isError ? airplanesQuery.error.message || 'Failed to load airplanes' : null;
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'inactive'>('all');
@@ -60,7 +96,9 @@ export const AirplaneManagementPage: React.FC = () => {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isDetailsDialogOpen, setIsDetailsDialogOpen] = useState(false);
   const [selectedAirplane, setSelectedAirplane] = useState<Airplane | null>(null);
-  const [airplaneFlights, setAirplaneFlights] = useState<Flight[]>([]);
+  const { data: airplaneFlights = [] } = useFlightsByAirplane(
+    isDetailsDialogOpen ? selectedAirplane?.id : undefined
+  );
 
   const form = useForm<AirplaneFormData>({
     resolver: zodResolver(airplaneSchema),
@@ -68,38 +106,11 @@ export const AirplaneManagementPage: React.FC = () => {
       model: '',
       registrationNumber: '',
       size: AirplaneCapacity.MEDIUM,
-      firstClassCapacity: 0,
-      businessClassCapacity: 0,
-      economyClassCapacity: 180,
+      cabinLayout: buildDefaultCabinLayout({ firstClassCapacity: 0, businessClassCapacity: 0, economyClassCapacity: 180 }),
       active: true
     }
   });
 
-  useEffect(() => {
-    loadAirplanes();
-  }, []);
-
-  useEffect(() => {
-    filterAirplanes();
-  }, [airplanes, searchTerm, statusFilter, capacityFilter]);
-
-  const loadAirplanes = async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      const response = await flightService.getAllAirplanes();
-      if (response.success) {
-        setAirplanes(response.data || []);
-      } else {
-        setError(response.message || 'Failed to load airplanes');
-      }
-    } catch (error: any) {
-      setError(error.message || 'Failed to load airplanes');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   const filterAirplanes = () => {
     let filtered = [...airplanes];
 
@@ -123,25 +134,22 @@ export const AirplaneManagementPage: React.FC = () => {
       filtered = filtered.filter(airplane => airplane.size === capacityFilter);
     }
 
-    setFilteredAirplanes(filtered);
+    return filtered;
   };
 
+  const filteredAirplanes = filterAirplanes();
+
   const handleAdd = async (data: AirplaneFormData) => {
     try {
-      const totalCapacity = data.firstClassCapacity + data.businessClassCapacity + data.economyClassCapacity;
       const airplaneData = {
         ...data,
-        totalCapacity,
+        ...getLayoutCapacities(data.cabinLayout),
       };
 
-      const response = await flightService.createAirplane(airplaneData);
-      if (response.success) {
-        await loadAirplanes();
-        setIsAddDialogOpen(false);
-        form.reset();
-      } else {
-        setError(response.message || 'Failed to create airplane');
-      }
+      setError(null);
+      await createAirplane.mutateAsync(airplaneData);
+      setIsAddDialogOpen(false);
+      form.reset();
     } catch (error: any) {
       setError(error.message || 'Failed to create airplane');
     }
@@ -151,21 +159,16 @@ export const AirplaneManagementPage: React.FC = () => {
     if (!selectedAirplane) return;
 
     try {
-      const totalCapacity = data.firstClassCapacity + data.businessClassCapacity + data.economyClassCapacity;
       const airplaneData = {
         ...data,
-        totalCapacity,
+        ...getLayoutCapacities(data.cabinLayout),
       };
 
-      const response = await flightService.updateAirplane(selectedAirplane.id, airplaneData);
-      if (response.success) {
-        await loadAirplanes();
-        setIsEditDialogOpen(false);
-        setSelectedAirplane(null);
-        form.reset();
-      } else {
-        setError(response.message || 'Failed to update airplane');
-      }
+      setError(null);
+      await updateAirplane.mutateAsync({ id: selectedAirplane.id, data: airplaneData });
+      setIsEditDialogOpen(false);
+      setSelectedAirplane(null);
+      form.reset();
     } catch (error: any) {
       setError(error.message || 'Failed to update airplane');
     }
@@ -175,14 +178,10 @@ export const AirplaneManagementPage: React.FC = () => {
     if (!selectedAirplane) return;
 
     try {
-      const response = await flightService.deleteAirplane(selectedAirplane.id);
-      if (response.success) {
-        await loadAirplanes();
-        setIsDeleteDialogOpen(false);
-        setSelectedAirplane(null);
-      } else {
-        setError(response.message || 'Failed to delete airplane');
-      }
+      setError(null);
+      await deleteAirplane.mutateAsync(selectedAirplane.id);
+      setIsDeleteDialogOpen(false);
+      setSelectedAirplane(null);
     } catch (error: any) {
       setError(error.message || 'Failed to delete airplane');
     }
@@ -194,9 +193,7 @@ export const AirplaneManagementPage: React.FC = () => {
       model: airplane.model,
       registrationNumber: airplane.registrationNumber,
       size: airplane.size,
-      firstClassCapacity: airplane.firstClassCapacity,
-      businessClassCapacity: airplane.businessClassCapacity,
-      economyClassCapacity: airplane.economyClassCapacity,
+      cabinLayout: getAirplaneCabinLayout(airplane),
       active: airplane.active
     });
     setIsEditDialogOpen(true);
@@ -207,19 +204,9 @@ export const AirplaneManagementPage: React.FC = () => {
     setIsDeleteDialogOpen(true);
   };
 
-  const openDetailsDialog = async (airplane: Airplane) => {
+  const openDetailsDialog = (airplane: Airplane) => {
     setSelectedAirplane(airplane);
     setIsDetailsDialogOpen(true);
-    
-    // Load flights for this airplane
-    try {
-      const response = await flightService.getFlightsByAirplane(airplane.id);
-      if (response.success) {
-        setAirplaneFlights(response.data || []);
-      }
-    } catch (error) {
-      console.error('Failed to load airplane flights:', error);
-    }
   };
 
   const getCapacityBadgeVariant = (capacity: AirplaneCapacity) => {
@@ -235,50 +222,12 @@ export const AirplaneManagementPage: React.FC = () => {
   const getTotalInactiveAirplanes = () => airplanes.filter(a => !a.active).length;
   const getTotalSeats = () => airplanes.reduce((sum, a) => sum + a.totalCapacity, 0);
 
-  // Airplane presets for common aircraft models
-  const airplanePresets = [
-    {
-      model: 'Boeing 737-800',
-      size: AirplaneCapacity.MEDIUM,
-      firstClassCapacity: 8,
-      businessClassCapacity: 20,
-      economyClassCapacity: 150,
-      registrationNumber: ''
-    },
-    {
-      model: 'Airbus A320',
-      size: AirplaneCapacity.MEDIUM,
-      firstClassCapacity: 12,
-      businessClassCapacity: 24,
-      economyClassCapacity: 144,
-      registrationNumber: ''
-    },
-    {
-      model: 'Boeing 777-300ER',
-      size: AirplaneCapacity.LARGE,
-      firstClassCapacity: 14,
-      businessClassCapacity: 64,
-      economyClassCapacity: 280,
-      registrationNumber: ''
-    },
-    {
-      model: 'Embraer E190',
-      size: AirplaneCapacity.SMALL,
-      firstClassCapacity: 0,
-      businessClassCapacity: 12,
-      economyClassCapacity: 86,
-      registrationNumber: ''
-    }
-  ];
-
-  const handlePresetSelect = (preset: typeof airplanePresets[0]) => {
+  const handlePresetSelect = (preset: AirplanePreset) => {
     form.reset({
       model: preset.model,
-      registrationNumber: preset.registrationNumber,
+      registrationNumber: '',
       size: preset.size,
-      firstClassCapacity: preset.firstClassCapacity,
-      businessClassCapacity: preset.businessClassCapacity,
-      economyClassCapacity: preset.economyClassCapacity,
+      cabinLayout: preset.cabinLayout,
       active: true
     });
   };
@@ -305,7 +254,7 @@ export const AirplaneManagementPage: React.FC = () => {
                 Add Airplane
               </Button>
             </DialogTrigger>
-            <DialogContent className="max-w-2xl">
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Add New Airplane</DialogTitle>
                 <DialogDescription>
@@ -319,7 +268,7 @@ export const AirplaneManagementPage: React.FC = () => {
                   <div className="space-y-3">
                     <Label className="text-sm font-medium">Quick Presets</Label>
                     <div className="grid grid-cols-2 gap-2">
-                      {airplanePresets.map((preset) => (
+                      {AIRPLANE_PRESETS.map((preset) => (
                         <Button
                           key={preset.model}
                           type="button"
@@ -331,7 +280,7 @@ export const AirplaneManagementPage: React.FC = () => {
                           <div>
                             <div className="font-medium">{preset.model}</div>
                             <div className="text-muted-foreground">
-                              {preset.firstClassCapacity + preset.businessClassCapacity + preset.economyClassCapacity} seats
+                              {getLayoutCapacities(preset.cabinLayout).totalCapacity} seats
                             </div>
                           </div>
                         </Button>
@@ -392,64 +341,17 @@ export const AirplaneManagementPage: React.FC = () => {
                     )}
                   />
 
-                  <div className="grid grid-cols-3 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="firstClassCapacity"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>First Class Seats</FormLabel>
-                          <FormControl>
-                            <Input 
-                              type="number" 
-                              min="0"
-                              {...field}
-                              onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <FormField
-                      control={form.control}
-                      name="businessClassCapacity"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Business Class Seats</FormLabel>
-                          <FormControl>
-                            <Input 
-                              type="number" 
-                              min="0"
-                              {...field}
-                              onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <FormField
-                      control={form.control}
-                      name="economyClassCapacity"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Economy Class Seats</FormLabel>
-                          <FormControl>
-                            <Input 
-                              type="number" 
-                              min="1"
-                              {...field}
-                              onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
+                  <FormField
+                    control={form.control}
+                    name="cabinLayout"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Cabin Layout</FormLabel>
+                        <CabinLayoutEditor value={field.value} onChange={field.onChange} />
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
                   <FormField
                     control={form.control}
@@ -526,9 +428,9 @@ export const AirplaneManagementPage: React.FC = () => {
       </div>
 
       {/* Error Display */}
-      {error && (
+      {(error || loadError) && (
         <Alert variant="destructive" className="mb-6">
-          <AlertDescription>{error}</AlertDescription>
+          <AlertDescription>{error || loadError}</AlertDescription>
         </Alert>
       )}
 
@@ -682,7 +584,7 @@ export const AirplaneManagementPage: React.FC = () => {
 
       {/* Edit Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-        <DialogContent className="max-w-2xl">
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Airplane</DialogTitle>
             <DialogDescription>
@@ -745,64 +647,17 @@ export const AirplaneManagementPage: React.FC = () => {
                 )}
               />
 
-              <div className="grid grid-cols-3 gap-4">
-                <FormField
-                  control={form.control}
-                  name="firstClassCapacity"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>First Class Seats</FormLabel>
-                      <FormControl>
-                        <Input 
-                          type="number" 
-                          min="0"
-                          {...field}
-                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                <FormField
-                  control={form.control}
-                  name="businessClassCapacity"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Business Class Seats</FormLabel>
-                      <FormControl>
-                        <Input 
-                          type="number" 
-                          min="0"
-                          {...field}
-                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                <FormField
-                  control={form.control}
-                  name="economyClassCapacity"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Economy Class Seats</FormLabel>
-                      <FormControl>
-                        <Input 
-                          type="number" 
-                          min="1"
-                          {...field}
-                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </div>
+              <FormField
+                control={form.control}
+                name="cabinLayout"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cabin Layout</FormLabel>
+                    <CabinLayoutEditor value={field.value} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
               <FormField
                 control={form.control}
@@ -913,6 +768,19 @@ export const AirplaneManagementPage: React.FC = () => {
                     </CardContent>
                   </Card>
                 </div>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Seat Map</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <CabinDiagram
+                      layout={getAirplaneCabinLayout(selectedAirplane)}
+                      getSeatState={(section, seat) => (section.blockedSeats.includes(seat) ? 'blocked' : 'available')}
+                      legend={{ available: 'Seat', blocked: 'Blocked' }}
+                    />
+                  </CardContent>
+                </Card>
               </TabsContent>
               
               <TabsContent value="flights" className="space-y-4">
@@ -945,8 +813,7 @@ export const AirplaneManagementPage: React.FC = () => {
                               <TableCell className="font-medium">{flight.flightNumber}</TableCell>
                               <TableCell>{flight.originAirport.code} → {flight.destinationAirport.code}</TableCell>
                               <TableCell>
-                                {new Date(flight.departureTime).toLocaleDateString()}{' '}
-                                {new Date(flight.departureTime).toLocaleTimeString()}
+                                {formatDateTime(flight.departureTime, flight.originAirport)}
                               </TableCell>
                               <TableCell>
                                 <Badge variant="outline">{flight.status}</Badge>
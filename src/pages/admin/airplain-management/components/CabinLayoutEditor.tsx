@@ -0,0 +1,182 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CabinDiagram } from '@/components/bookings/CabinDiagram';
+import { MAX_CABIN_ROW, getLayoutCapacities, getSectionRows } from '@/lib/cabinLayout';
+import { SeatClass } from '@/types';
+import type { CabinLayout, CabinSection } from '@/types';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface CabinLayoutEditorProps {
+  value: CabinLayout;
+  onChange: (layout: CabinLayout) => void;
+}
+
+const seatClassLabels: Record<SeatClass, string> = {
+  [SeatClass.FIRST]: 'First',
+  [SeatClass.BUSINESS]: 'Business',
+  [SeatClass.ECONOMY]: 'Economy',
+};
+
+// Exits and blocked seats that no longer fit the section's rows or letters are dropped
+const trimToSection = (section: CabinSection): CabinSection => {
+  const rows = getSectionRows(section);
+  const letters = section.seatLetters.replace(/\s+/g, '');
+  return {
+    ...section,
+    exitRows: section.exitRows.filter((row) => rows.includes(row)),
+    blockedSeats: section.blockedSeats.filter((seat) => {
+      const row = parseInt(seat, 10);
+      return rows.includes(row) && letters.includes(seat.slice(String(row).length));
+    }),
+  };
+};
+
+const toggle = <T,>(items: T[], item: T) =>
+  items.includes(item) ? items.filter((other) => other !== item) : [...items, item];
+
+/**
+ * Editor for an airplane's seat plan. Sections are edited as rows of fields;
+ * in the preview a click on a seat blocks or frees it and a click on a row
+ * number marks or clears an exit row.
+ */
+export const CabinLayoutEditor: React.FC<CabinLayoutEditorProps> = ({ value, onChange }) => {
+  const capacities = getLayoutCapacities(value);
+
+  const updateSection = (index: number, changes: Partial<CabinSection>) =>
+    onChange({
+      sections: value.sections.map((section, other) => (other === index ? { ...section, ...changes } : section)),
+    });
+
+  // Run once a field is left, so a row number being typed does not drop exits
+  const trimSection = (index: number) =>
+    onChange({
+      sections: value.sections.map((section, other) => (other === index ? trimToSection(section) : section)),
+    });
+
+  const readRow = (input: string) => Math.min(parseInt(input) || 0, MAX_CABIN_ROW);
+
+  const addSection = () => {
+    const lastRow = value.sections[value.sections.length - 1]?.lastRow ?? 0;
+    onChange({
+      sections: [
+        ...value.sections,
+        {
+          seatClass: SeatClass.ECONOMY,
+          firstRow: lastRow + 1,
+          lastRow: lastRow + 10,
+          seatLetters: 'ABC DEF',
+          exitRows: [],
+          blockedSeats: [],
+        },
+      ],
+    });
+  };
+
+  const removeSection = (index: number) =>
+    onChange({ sections: value.sections.filter((_, other) => other !== index) });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="grid grid-cols-[8rem_5rem_5rem_1fr_2.5rem] gap-2 text-xs font-medium text-muted-foreground">
+          <span>Class</span>
+          <span>First row</span>
+          <span>Last row</span>
+          <span>Seat letters (space = aisle)</span>
+          <span />
+        </div>
+        {value.sections.map((section, index) => (
+          <div key={index} className="grid grid-cols-[8rem_5rem_5rem_1fr_2.5rem] gap-2 items-center">
+            <Select
+              value={section.seatClass}
+              onValueChange={(seatClass) => updateSection(index, { seatClass: seatClass as SeatClass })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(SeatClass).map((seatClass) => (
+                  <SelectItem key={seatClass} value={seatClass}>
+                    {seatClassLabels[seatClass]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="1"
+              max={MAX_CABIN_ROW}
+              aria-label={`Section ${index + 1} first row`}
+              value={section.firstRow}
+              onChange={(e) => updateSection(index, { firstRow: readRow(e.target.value) })}
+              onBlur={() => trimSection(index)}
+            />
+            <Input
+              type="number"
+              min="1"
+              max={MAX_CABIN_ROW}
+              aria-label={`Section ${index + 1} last row`}
+              value={section.lastRow}
+              onChange={(e) => updateSection(index, { lastRow: readRow(e.target.value) })}
+              onBlur={() => trimSection(index)}
+            />
+            <Input
+              aria-label={`Section ${index + 1} seat letters`}
+              placeholder="e.g. ABC DEF"
+              value={section.seatLetters}
+              onChange={(e) => updateSection(index, { seatLetters: e.target.value.toUpperCase() })}
+              onBlur={() => trimSection(index)}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removeSection(index)}
+              disabled={value.sections.length === 1}
+              className="text-red-600 hover:text-red-800"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button type="button" variant="outline" size="sm" onClick={addSection}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Section
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Label>Capacity</Label>
+        <Badge variant="outline">First {capacities.firstClassCapacity}</Badge>
+        <Badge variant="outline">Business {capacities.businessClassCapacity}</Badge>
+        <Badge variant="outline">Economy {capacities.economyClassCapacity}</Badge>
+        <Badge>Total {capacities.totalCapacity}</Badge>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Preview</Label>
+        <p className="text-xs text-muted-foreground">
+          Click a seat to block or free it. Click a row number to mark or clear an exit row.
+        </p>
+        <CabinDiagram
+          layout={value}
+          getSeatState={(section, seat) => (section.blockedSeats.includes(seat) ? 'blocked' : 'available')}
+          onSeatClick={(seat, section) =>
+            updateSection(value.sections.indexOf(section), { blockedSeats: toggle(section.blockedSeats, seat) })
+          }
+          isSeatClickable={() => true}
+          onRowClick={(row, section) =>
+            updateSection(value.sections.indexOf(section), {
+              exitRows: toggle(section.exitRows, row).sort((a, b) => a - b)
+            })
+          }
+          legend={{ available: 'Seat', blocked: 'Blocked' }}
+        />
+      </div>
+    </div>
+  );
+};
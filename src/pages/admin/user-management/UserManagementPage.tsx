@@ -10,73 +10,78 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.tsx';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar.tsx';
 import { toast } from 'sonner';
-import { userService, type UserListParams } from '@/services/userService.ts';
+import {
+  useCreateUser,
+  useDeleteUser,
+  useResetUserPassword,
+  useToggleUserStatus,
+  useUpdateUser,
+  useUsers
+} from '@/hooks/queries/useUserQueries';
+import { useDebouncedValue, useListQueryParams } from '@/hooks/useListQueryParams';
+import type { ListQueryDefaults } from '@/lib/listQuery';
 import type { User, UserRole } from '@/types';
 import { UserForm } from './components/UserForm.tsx';
 import { UserDetailsDialog } from './components/UserDetailsDialog.tsx';
 import { DeleteUserDialog } from './components/DeleteUserDialog.tsx';
 
+// Filters and paging live in the URL so a filtered view can be bookmarked
+const USER_FILTER_KEYS = ['search', 'role', 'active'] as const;
+const USER_LIST_DEFAULTS: ListQueryDefaults = {
+  size: 10,
+  sort: { field: 'createdAt', direction: 'desc' },
+};
+
 const UserManagementPage: React.FC = () => {
-  const [users, setUsers] = useState<User[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [roleFilter, setRoleFilter] = useState<UserRole | 'ALL'>('ALL');
-  const [statusFilter, setStatusFilter] = useState<'ALL' | 'ACTIVE' | 'INACTIVE'>('ALL');
-  const [currentPage, setCurrentPage] = useState(0);
-  const [totalPages, setTotalPages] = useState(1);
-  const [totalUsers, setTotalUsers] = useState(0);
+  const { query, filters, setPage, setFilter } = useListQueryParams(USER_FILTER_KEYS, USER_LIST_DEFAULTS);
+  const currentPage = query.page ?? 1;
+  const pageSize = query.size ?? USER_LIST_DEFAULTS.size;
+  const [searchTerm, setSearchTerm] = useState(filters.search ?? '');
+  const debouncedSearch = useDebouncedValue(searchTerm);
+  const statusFilter = filters.active === 'true' ? 'ACTIVE' : filters.active === 'false' ? 'INACTIVE' : 'ALL';
+
+  useEffect(() => {
+    setFilter('search', debouncedSearch);
+  }, [debouncedSearch, setFilter]);
+
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDetailsDialogOpen, setIsDetailsDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
 
-  const pageSize = 10;
+  const usersQuery = useUsers({
+    ...query,
+    filters: {
+      search: filters.search,
+      role: filters.role as UserRole | undefined,
+      active: filters.active === undefined ? undefined : filters.active === 'true',
+    },
+  });
+  const createUser = useCreateUser();
+  const updateUser = useUpdateUser();
+  const deleteUser = useDeleteUser();
+  const toggleUserStatus = useToggleUserStatus();
+  const resetUserPassword = useResetUserPassword();
 
-  useEffect(() => {
-    loadUsers();
-  }, [currentPage, searchTerm, roleFilter, statusFilter]);
-
-  const loadUsers = async () => {
-    try {
-      setLoading(true);
-      const params: UserListParams = {
-        page: currentPage,
-        size: pageSize,
-        search: searchTerm || undefined,
-        role: roleFilter !== 'ALL' ? roleFilter : undefined,
-        active: statusFilter === 'ACTIVE' ? true : statusFilter === 'INACTIVE' ? false : undefined,
-        sortBy: 'createdAt',
-        sortOrder: 'desc'
-      };
+  const users = usersQuery.data?.data ?? [];
+  const loading = usersQuery.isLoading;
+  const pagination = usersQuery.data?.pagination;
+  const totalPages = pagination?.size ? Math.max(1, Math.ceil(pagination.total / pagination.size)) : 1;
+  const totalUsers = pagination?.total ?? 0;
 
-      const response = await userService.getAllUsers(params);
-      
-      if (response.success) {
-        setUsers(response.data ?? []);
-        setTotalPages(response.pagination?.page ?? 1);
-        setTotalUsers(response.pagination?.total ?? 1);
-      } else {
-        toast.error('Failed to load users');
-      }
-    } catch (error) {
-      console.error('Error loading users:', error);
+  useEffect(() => {
+    if (usersQuery.isError) {
+      console.error('Error loading users:', usersQuery.error);
       toast.error('Failed to load users');
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [usersQuery.isError, usersQuery.error]);
 
   const handleCreateUser = async (userData: any) => {
     try {
-      const response = await userService.createUser(userData);
-      if (response.success) {
-        toast.success('User created successfully');
-        setIsCreateDialogOpen(false);
-        loadUsers();
-      } else {
-        toast.error(response.message || 'Failed to create user');
-      }
+      await createUser.mutateAsync(userData);
+      toast.success('User created successfully');
+      setIsCreateDialogOpen(false);
     } catch (error: any) {
       console.error('Error creating user:', error);
       toast.error(error.message || 'Failed to create user');
@@ -87,15 +92,10 @@ const UserManagementPage: React.FC = () => {
     if (!selectedUser) return;
     
     try {
-      const response = await userService.updateUser(selectedUser.id, userData);
-      if (response.success) {
-        toast.success('User updated successfully');
-        setIsEditDialogOpen(false);
-        setSelectedUser(null);
-        loadUsers();
-      } else {
-        toast.error(response.message || 'Failed to update user');
-      }
+      await updateUser.mutateAsync({ id: selectedUser.id, data: userData });
+      toast.success('User updated successfully');
+      setIsEditDialogOpen(false);
+      setSelectedUser(null);
     } catch (error: any) {
       console.error('Error updating user:', error);
       toast.error(error.message || 'Failed to update user');
@@ -106,15 +106,10 @@ const UserManagementPage: React.FC = () => {
     if (!selectedUser) return;
     
     try {
-      const response = await userService.deleteUser(selectedUser.id);
-      if (response.success) {
-        toast.success('User deleted successfully');
-        setIsDeleteDialogOpen(false);
-        setSelectedUser(null);
-        loadUsers();
-      } else {
-        toast.error(response.message || 'Failed to delete user');
-      }
+      await deleteUser.mutateAsync(selectedUser.id);
+      toast.success('User deleted successfully');
+      setIsDeleteDialogOpen(false);
+      setSelectedUser(null);
     } catch (error: any) {
       console.error('Error deleting user:', error);
       toast.error(error.message || 'Failed to delete user');
@@ -123,13 +118,8 @@ const UserManagementPage: React.FC = () => {
 
   const handleToggleUserStatus = async (user: User) => {
     try {
-      const response = await userService.toggleUserStatus(user.id);
-      if (response.success) {
-        toast.success(`User ${user.active ? 'deactivated' : 'activated'} successfully`);
-        loadUsers();
-      } else {
-        toast.error(response.message || 'Failed to update user status');
-      }
+      await toggleUserStatus.mutateAsync(user.id);
+      toast.success(`User ${user.active ? 'deactivated' : 'activated'} successfully`);
     } catch (error: any) {
       console.error('Error toggling user status:', error);
       toast.error(error.message || 'Failed to update user status');
@@ -138,12 +128,8 @@ const UserManagementPage: React.FC = () => {
 
   const handleResetPassword = async (user: User) => {
     try {
-      const response = await userService.resetUserPassword(user.id);
-      if (response.success) {
-        toast.success(`Password reset for ${user.username}. Temporary password: ${response.data.temporaryPassword}`);
-      } else {
-        toast.error(response.message || 'Failed to reset password');
-      }
+      const { temporaryPassword } = await resetUserPassword.mutateAsync(user.id);
+      toast.success(`Password reset for ${user.username}. Temporary password: ${temporaryPassword}`);
     } catch (error: any) {
       console.error('Error resetting password:', error);
       toast.error(error.message || 'Failed to reset password');
@@ -217,7 +203,10 @@ const UserManagementPage: React.FC = () => {
                 className="pl-10"
               />
             </div>
-            <Select value={roleFilter} onValueChange={(value) => setRoleFilter(value as UserRole | 'ALL')}>
+            <Select
+              value={filters.role ?? 'ALL'}
+              onValueChange={(value) => setFilter('role', value === 'ALL' ? undefined : value)}
+            >
               <SelectTrigger className="w-[180px]">
                 <SelectValue placeholder="Filter by role" />
               </SelectTrigger>
@@ -228,7 +217,12 @@ const UserManagementPage: React.FC = () => {
                 <SelectItem value="CUSTOMER">Customer</SelectItem>
               </SelectContent>
             </Select>
-            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as 'ALL' | 'ACTIVE' | 'INACTIVE')}>
+            <Select
+              value={statusFilter}
+              onValueChange={(value) =>
+                setFilter('active', value === 'ACTIVE' ? 'true' : value === 'INACTIVE' ? 'false' : undefined)
+              }
+            >
               <SelectTrigger className="w-[180px]">
                 <SelectValue placeholder="Filter by status" />
               </SelectTrigger>
@@ -368,7 +362,7 @@ const UserManagementPage: React.FC = () => {
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
+                  onClick={() => setPage(Math.max(currentPage - 1, 1))}
                   disabled={currentPage === 1}
                 >
                   Previous
@@ -376,7 +370,7 @@ const UserManagementPage: React.FC = () => {
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
+                  onClick={() => setPage(Math.min(currentPage + 1, totalPages))}
                   disabled={currentPage === totalPages}
                 >
                   Next
@@ -85,8 +85,8 @@ export const UserDetailsDialog: React.FC<UserDetailsDialogProps> = ({
                       <Shield className="mr-1 h-3 w-3" />
                       {user.role}
                     </Badge>
-                    <Badge variant={getStatusBadgeVariant(user.isActive)}>
-                      {user.isActive ? (
+                    <Badge variant={getStatusBadgeVariant(user.active)}>
+                      {user.active ? (
                         <>
                           <UserCheck className="mr-1 h-3 w-3" />
                           Active
@@ -159,7 +159,7 @@ export const UserDetailsDialog: React.FC<UserDetailsDialogProps> = ({
                     Account Status
                   </label>
                   <p className="mt-1">
-                    {user.isActive ? (
+                    {user.active ? (
                       <span className="text-green-600 font-medium">Active</span>
                     ) : (
                       <span className="text-red-600 font-medium">Inactive</span>
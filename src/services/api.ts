@@ -1,9 +1,69 @@
-import axios from 'axios';
-import type { AxiosInstance, AxiosResponse } from 'axios';
-import type { ApiResponse, PaginatedResponse } from '@/types';
+import axios, { AxiosError } from 'axios';
+import type { AxiosAdapter, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import * as z from 'zod';
+import type { ApiResponse, AppError, PaginatedResponse } from '@/types';
+import type { ResponseSchema } from '@/types/schemas';
+
+const AUTH_REFRESH_URL = '/auth/refresh';
+
+// Endpoints whose 401s mean bad credentials rather than an expired token
+const AUTH_ENDPOINTS = ['/auth/login', '/auth/register', AUTH_REFRESH_URL];
+
+// Serve every endpoint from the in-memory mock backend instead of the Java API
+const USE_MOCK_API = import.meta.env.VITE_USE_MOCK_API === 'true';
+
+// Loaded on demand so the mock and its seed data stay out of production bundles
+const lazyMockAdapter: AxiosAdapter = async (config) => {
+  const { mockAdapter } = await import('./mock/mockAdapter');
+  return mockAdapter(config);
+};
+
+export interface RetryPolicy {
+  // Attempts after the first one; 0 disables retrying
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: Number(import.meta.env.VITE_API_MAX_RETRIES ?? 3),
+  baseDelayMs: 300,
+  maxDelayMs: 10000,
+};
+
+// Only idempotent calls are replayed; a repeated POST could book a seat twice
+const RETRIABLE_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const RETRIABLE_STATUSES = [429, 502, 503, 504];
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Overrides the default retry policy for one request, or disables it with false
+    retry?: Partial<RetryPolicy> | false;
+  }
+}
+
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+  _retryAttempt?: number;
+}
+
+export interface RequestOptions {
+  // Aborting the signal cancels the request; the call rejects with REQUEST_CANCELLED
+  signal?: AbortSignal;
+  retry?: Partial<RetryPolicy> | false;
+}
+
+// A GET shared by every caller that asked for the same URL and params while it was in flight
+interface SharedRequest {
+  promise: Promise<AxiosResponse>;
+  controller: AbortController;
+  subscribers: number;
+}
 
 class ApiService {
   private readonly api: AxiosInstance;
+  private pendingRefresh: Promise<string> | null = null;
+  private readonly inFlightGets = new Map<string, SharedRequest>();
 
   constructor() {
     this.api = axios.create({
@@ -12,6 +72,7 @@ class ApiService {
       headers: {
         'Content-Type': 'application/json',
       },
+      adapter: USE_MOCK_API ? lazyMockAdapter : undefined,
     });
 
     this.setupInterceptors();
@@ -20,7 +81,16 @@ class ApiService {
   private setupInterceptors() {
     // Request interceptor to add auth token
     this.api.interceptors.request.use(
-      (config) => {
+      async (config) => {
+        // Hold new requests back while a token refresh is in progress
+        if (this.pendingRefresh && !this.isAuthEndpoint(config.url)) {
+          try {
+            await this.pendingRefresh;
+          } catch {
+            // The refresh failed; let the request go out and fail on its own
+          }
+        }
+
         const token = localStorage.getItem('auth_token');
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
@@ -36,111 +106,354 @@ class ApiService {
     this.api.interceptors.response.use(
       (response) => response,
       async (error) => {
-        const originalRequest = error.config;
-        
-        if (error.response?.status === 401 && !originalRequest._retry) {
+        const originalRequest: RetriableRequestConfig | undefined = error.config;
+
+        if (
+          error.response?.status === 401 &&
+          originalRequest &&
+          !originalRequest._retry &&
+          !this.isAuthEndpoint(originalRequest.url)
+        ) {
           originalRequest._retry = true;
-          
-          // Only redirect to login if we're not in the auth initialization phase
-          const currentPath = window.location.pathname;
-          if (currentPath !== '/login' && currentPath !== '/register') {
-            // Token expired or unauthorized
-            this.removeAuthToken();
-            
-            // Add a small delay to allow any ongoing auth initialization to complete
-            setTimeout(() => {
-              if (window.location.pathname !== '/login') {
-                window.location.href = '/login';
-              }
-            }, 100);
+
+          // Only try to refresh a session we actually have
+          if (this.getAuthToken()) {
+            try {
+              const token = await this.refreshAuthToken();
+              originalRequest.headers.Authorization = `Bearer ${token}`;
+              return this.api(originalRequest);
+            } catch {
+              // Refresh failed, fall through to logout
+            }
           }
+
+          this.redirectToLogin();
         }
+
+        const retryDelay = this.getRetryDelay(error, originalRequest);
+        if (originalRequest && retryDelay !== null) {
+          originalRequest._retryAttempt = (originalRequest._retryAttempt ?? 0) + 1;
+          await this.sleep(retryDelay, originalRequest.signal as AbortSignal | undefined);
+          return this.api(originalRequest);
+        }
+
         return Promise.reject(error);
       }
     );
   }
 
-  // Generic HTTP methods
-  async get<T>(url: string, params?: any): Promise<ApiResponse<T>> {
+  /**
+   * Milliseconds to wait before replaying a failed request, or null when it
+   * should not be retried. Transport failures and 429/502/503/504 are retried
+   * with full-jitter exponential backoff unless the server sent Retry-After;
+   * a Retry-After longer than the policy's maximum delay means give up.
+   */
+  private getRetryDelay(error: AxiosError, config?: RetriableRequestConfig): number | null {
+    if (!config || config.retry === false || error.code === AxiosError.ERR_CANCELED) {
+      return null;
+    }
+
+    const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+    const attempt = config._retryAttempt ?? 0;
+    const method = (config.method ?? 'get').toLowerCase();
+    const status: number | undefined = error.response?.status;
+
+    if (attempt >= policy.retries || !RETRIABLE_METHODS.includes(method)) {
+      return null;
+    }
+    if (status !== undefined && !RETRIABLE_STATUSES.includes(status)) {
+      return null;
+    }
+
+    const retryAfter = this.parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfter !== null) {
+      return retryAfter <= policy.maxDelayMs ? retryAfter : null;
+    }
+
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  // Retry-After is either a number of seconds or an HTTP date
+  private parseRetryAfter(value: unknown): number | null {
+    if (typeof value !== 'string' || value.trim() === '') {
+      return null;
+    }
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const cancel = () => {
+        clearTimeout(timer);
+        reject(new axios.CanceledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', cancel);
+        resolve();
+      }, ms);
+
+      if (signal?.aborted) cancel();
+      else signal?.addEventListener('abort', cancel, { once: true });
+    });
+  }
+
+  /**
+   * Refresh the auth token once for every request that hit a 401 while it
+   * was in flight. Callers waiting on the same refresh are replayed with the
+   * new token when it resolves.
+   */
+  private refreshAuthToken(): Promise<string> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.api
+        .post<ApiResponse<{ token: string }>>(AUTH_REFRESH_URL)
+        .then((response) => {
+          const token = response.data?.data?.token;
+          if (!response.data?.success || !token) {
+            throw new Error(response.data?.message || 'Token refresh failed');
+          }
+          this.setAuthToken(token);
+          return token;
+        })
+        .finally(() => {
+          this.pendingRefresh = null;
+        });
+    }
+    return this.pendingRefresh;
+  }
+
+  private isAuthEndpoint(url?: string): boolean {
+    return !!url && AUTH_ENDPOINTS.some((endpoint) => url.startsWith(endpoint));
+  }
+
+  private redirectToLogin() {
+    // Only redirect to login if we're not in the auth initialization phase
+    const currentPath = window.location.pathname;
+    if (currentPath !== '/login' && currentPath !== '/register') {
+      // Token expired or unauthorized
+      this.removeAuthToken();
+
+      // Add a small delay to allow any ongoing auth initialization to complete
+      setTimeout(() => {
+        if (window.location.pathname !== '/login') {
+          window.location.href = '/login';
+        }
+      }, 100);
+    }
+  }
+
+  // Generic HTTP methods. When a schema is given the response payload is
+  // validated and normalised before it reaches the caller.
+  async get<T>(
+    url: string,
+    params?: Record<string, unknown>,
+    schema?: ResponseSchema<T>,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<T>> {
     try {
-      const response: AxiosResponse<ApiResponse<T>> = await this.api.get(url, { params });
-      return response.data;
-    } catch (error: any) {
-      throw this.handleError(error);
+      const response: AxiosResponse<ApiResponse<T>> = await this.sharedGet(url, params, options);
+      return this.parseResponse(response.data, schema);
+    } catch (error) {
+      throw this.handleError(error, url);
     }
   }
 
-  async getPaginated<T>(url: string, params?: any): Promise<PaginatedResponse<T>> {
+  async getPaginated<T>(
+    url: string,
+    params?: Record<string, unknown>,
+    schema?: ResponseSchema<T>,
+    options: RequestOptions = {}
+  ): Promise<PaginatedResponse<T>> {
     try {
-      const response: AxiosResponse<PaginatedResponse<T>> = await this.api.get(url, { params });
-      return response.data;
-    } catch (error: any) {
-      throw this.handleError(error);
+      const response: AxiosResponse<PaginatedResponse<T>> = await this.sharedGet(url, params, options);
+      const body = response.data;
+      return schema && body.success ? { ...body, data: z.array(schema).parse(body.data) } : body;
+    } catch (error) {
+      throw this.handleError(error, url);
     }
   }
 
-  async post<T>(url: string, data?: any): Promise<ApiResponse<T>> {
+  async post<T>(
+    url: string,
+    data?: unknown,
+    schema?: ResponseSchema<T>,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<T>> {
     try {
-      const response: AxiosResponse<ApiResponse<T>> = await this.api.post(url, data);
-      return response.data;
-    } catch (error: any) {
-      throw this.handleError(error);
+      const response: AxiosResponse<ApiResponse<T>> = await this.api.post(url, data, options);
+      return this.parseResponse(response.data, schema);
+    } catch (error) {
+      throw this.handleError(error, url);
     }
   }
 
-  async put<T>(url: string, data?: any): Promise<ApiResponse<T>> {
+  async put<T>(
+    url: string,
+    data?: unknown,
+    schema?: ResponseSchema<T>,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<T>> {
     try {
-      const response: AxiosResponse<ApiResponse<T>> = await this.api.put(url, data);
-      return response.data;
-    } catch (error: any) {
-      throw this.handleError(error);
+      const response: AxiosResponse<ApiResponse<T>> = await this.api.put(url, data, options);
+      return this.parseResponse(response.data, schema);
+    } catch (error) {
+      throw this.handleError(error, url);
+    }
+  }
+
+  async patch<T>(
+    url: string,
+    data?: unknown,
+    schema?: ResponseSchema<T>,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<T>> {
+    try {
+      const response: AxiosResponse<ApiResponse<T>> = await this.api.patch(url, data, options);
+      return this.parseResponse(response.data, schema);
+    } catch (error) {
+      throw this.handleError(error, url);
     }
   }
 
-  async patch<T>(url: string, data?: any): Promise<ApiResponse<T>> {
+  async delete<T>(url: string, options: RequestOptions = {}): Promise<ApiResponse<T>> {
     try {
-      const response: AxiosResponse<ApiResponse<T>> = await this.api.patch(url, data);
+      const response: AxiosResponse<ApiResponse<T>> = await this.api.delete(url, options);
       return response.data;
-    } catch (error: any) {
-      throw this.handleError(error);
+    } catch (error) {
+      throw this.handleError(error, url);
     }
   }
 
-  async delete<T>(url: string): Promise<ApiResponse<T>> {
+  // Binary downloads (PDFs, exports) come back as-is rather than in the envelope
+  async getBlob(url: string, params?: Record<string, unknown>, options: RequestOptions = {}): Promise<Blob> {
     try {
-      const response: AxiosResponse<ApiResponse<T>> = await this.api.delete(url);
+      const response: AxiosResponse<Blob> = await this.api.get(url, { ...options, params, responseType: 'blob' });
       return response.data;
-    } catch (error: any) {
-      throw this.handleError(error);
+    } catch (error) {
+      throw this.handleError(error, url);
     }
   }
 
-  private handleError(error: any) {
-    if (error.response) {
+  /**
+   * Identical GETs issued while one is already in flight share its response.
+   * The underlying request is only aborted once every caller has cancelled.
+   */
+  private sharedGet(url: string, params: unknown, { signal, retry }: RequestOptions): Promise<AxiosResponse> {
+    if (signal?.aborted) {
+      return Promise.reject(new axios.CanceledError());
+    }
+
+    const key = `${url}?${JSON.stringify(params ?? {})}`;
+    let shared = this.inFlightGets.get(key);
+
+    if (!shared) {
+      const controller = new AbortController();
+      const entry: SharedRequest = {
+        controller,
+        subscribers: 0,
+        promise: this.api.get(url, { params, retry, signal: controller.signal }).finally(() => {
+          if (this.inFlightGets.get(key) === entry) {
+            this.inFlightGets.delete(key);
+          }
+        }),
+      };
+      this.inFlightGets.set(key, entry);
+      shared = entry;
+    }
+
+    const request = shared;
+    request.subscribers++;
+
+    if (!signal) {
+      return request.promise;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        request.subscribers--;
+        if (request.subscribers === 0) {
+          // Nobody is waiting any more; drop it so the next caller starts fresh
+          request.controller.abort();
+          if (this.inFlightGets.get(key) === request) {
+            this.inFlightGets.delete(key);
+          }
+        }
+        reject(new axios.CanceledError());
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      request.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private parseResponse<T>(body: ApiResponse<T>, schema?: ResponseSchema<T>): ApiResponse<T> {
+    // Failed responses carry no payload worth validating
+    if (!schema || !body.success) {
+      return body;
+    }
+    return { ...body, data: schema.parse(body.data) };
+  }
+
+  private handleError(error: unknown, url?: string): AppError {
+    if (axios.isCancel(error)) {
+      return {
+        code: 'REQUEST_CANCELLED',
+        message: 'Request was cancelled',
+      };
+    } else if (error instanceof z.ZodError) {
+      // The server answered, but not with the shape the UI was built against
+      const fields = [...new Set(error.issues.map((issue) => this.formatIssuePath(issue.path)))];
+      return {
+        code: 'SCHEMA_MISMATCH',
+        message: `Unexpected response from ${url ?? 'the server'}: ${fields.join(', ')}`,
+        details: error.issues,
+        fields,
+      };
+    } else if (axios.isAxiosError<{ message?: string; error?: string }>(error) && error.response) {
       // Server responded with error status
       const { data, status } = error.response;
       return {
         code: `HTTP_${status}`,
-        message: data.message || data.error || 'An error occurred',
+        message: data?.message || data?.error || 'An error occurred',
         details: data,
       };
-    } else if (error.request) {
+    } else if (axios.isAxiosError(error) && error.request) {
       // Request was made but no response received
       return {
         code: 'NETWORK_ERROR',
-        message: 'Network error. Please check your connection.',
+        message: navigator.onLine
+          ? 'Network error. Please check your connection.'
+          : 'You are offline. Reconnect to the internet and try again.',
         details: error.request,
       };
     } else {
       // Something else happened
       return {
         code: 'UNKNOWN_ERROR',
-        message: error.message || 'An unknown error occurred',
+        message: (error instanceof Error && error.message) || 'An unknown error occurred',
         details: error,
       };
     }
   }
 
+  // ['0', 'originAirport', 'code'] -> 'data[0].originAirport.code'
+  private formatIssuePath(path: (string | number)[]): string {
+    return path.reduce<string>(
+      (result, segment) =>
+        typeof segment === 'number' || /^\d+$/.test(segment) ? `${result}[${segment}]` : `${result}.${segment}`,
+      'data'
+    );
+  }
+
   // Set authentication token
   setAuthToken(token: string) {
     localStorage.setItem('auth_token', token);
@@ -158,4 +471,11 @@ class ApiService {
   }
 }
 
-export const apiService = new ApiService(); 
\ No newline at end of file
+export const apiService = new ApiService();
+
+/**
+ * True for errors from requests cancelled via their AbortSignal. These are
+ * expected when a newer request supersedes an old one and should not be shown.
+ */
+export const isRequestCancelled = (error: unknown): boolean =>
+  (error as AppError | undefined)?.code === 'REQUEST_CANCELLED'; 
\ No newline at end of file
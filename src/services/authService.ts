@@ -1,5 +1,9 @@
+import * as z from 'zod';
 import { apiService } from './api';
+import type { RequestOptions } from './api';
 import type { User, LoginCredentials, CreateUserForm, ApiResponse } from '@/types';
+import { userSchema } from '@/types/schemas';
+import type { ResponseSchema } from '@/types/schemas';
 
 export interface LoginResponse {
   token: string;
@@ -13,10 +17,22 @@ export interface LoginResponse {
   message: string;
 }
 
+const loginResponseSchema: ResponseSchema<LoginResponse> = z.object({
+  token: z.string().min(1),
+  userId: z.coerce.number(),
+  username: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  email: z.string(),
+  role: z.string(),
+  success: z.boolean(),
+  message: z.string(),
+});
+
 class AuthService {
   async login(credentials: LoginCredentials): Promise<ApiResponse<LoginResponse>> {
     try {
-      const response = await apiService.post<LoginResponse>('/auth/login', credentials);
+      const response = await apiService.post('/auth/login', credentials, loginResponseSchema);
       console.log("response", response);
       
       if (response.success && response.data) {
@@ -44,15 +60,15 @@ class AuthService {
   }
 
   async register(userData: CreateUserForm): Promise<ApiResponse<User>> {
-    return apiService.post<User>('/auth/register', userData);
+    return apiService.post('/auth/register', userData, userSchema);
   }
 
-  async getCurrentUser(): Promise<ApiResponse<User>> {
-    return apiService.get<User>('/auth/me');
+  async getCurrentUser(options?: RequestOptions): Promise<ApiResponse<User>> {
+    return apiService.get('/auth/me', undefined, userSchema, options);
   }
 
   async refreshToken(): Promise<ApiResponse<LoginResponse>> {
-    return apiService.post<LoginResponse>('/auth/refresh');
+    return apiService.post('/auth/refresh', undefined, loginResponseSchema);
   }
 
   async changePassword(currentPassword: string, newPassword: string): Promise<ApiResponse<void>> {
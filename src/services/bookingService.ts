@@ -1,136 +1,163 @@
+import * as z from 'zod';
 import { apiService } from './api';
+import type { RequestOptions } from './api';
+import { toListParams } from '@/lib/listQuery';
+import { createManifestPdf } from '@/lib/pdfDocuments';
+import { unwrap } from '@/lib/queryClient';
 import type {
   Booking,
   CreateBookingForm,
   PassengerManifest,
   ApiResponse,
+  AppError,
   PaginatedResponse,
+  ListQuery,
+  BookingListFilters,
+  BookingStatistics,
+  BookingValidation,
+  PopularDestination,
+  RevenueReport,
 } from '@/types';
+import {
+  bookingSchema,
+  bookingStatisticsSchema,
+  bookingValidationSchema,
+  passengerManifestSchema,
+  popularDestinationSchema,
+  revenueReportSchema,
+} from '@/types/schemas';
+
+// Responses meaning the server has no PDF rendering, as opposed to a real failure
+const PDF_UNAVAILABLE_CODES = ['HTTP_404', 'HTTP_405', 'HTTP_501'];
 
 class BookingService {
   // Booking Management
   async createBooking(bookingData: CreateBookingForm): Promise<ApiResponse<Booking>> {
-    return apiService.post<Booking>('/bookings', bookingData);
+    return apiService.post('/bookings', bookingData, bookingSchema);
   }
 
-  async getBookingById(id: string): Promise<ApiResponse<Booking>> {
-    return apiService.get<Booking>(`/bookings/${id}`);
+  async getBookingById(id: string, options?: RequestOptions): Promise<ApiResponse<Booking>> {
+    return apiService.get(`/bookings/${id}`, undefined, bookingSchema, options);
   }
 
-  async getBookingByReference(reference: string): Promise<ApiResponse<Booking>> {
-    return apiService.get<Booking>(`/bookings/reference/${reference}`);
+  async getBookingByReference(reference: string, options?: RequestOptions): Promise<ApiResponse<Booking>> {
+    return apiService.get(`/bookings/reference/${reference}`, undefined, bookingSchema, options);
   }
 
-  async getAllBookings(params?: {
-    page?: number;
-    limit?: number;
-    customerId?: string;
-    flightId?: string;
-    status?: string;
-    startDate?: string;
-    endDate?: string;
-  }): Promise<PaginatedResponse<Booking>> {
-    return apiService.getPaginated<Booking>('/bookings', params);
+  async getAllBookings(
+    query?: ListQuery<BookingListFilters>,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<Booking>> {
+    return apiService.getPaginated('/bookings', toListParams(query), bookingSchema, options);
   }
 
   async getUserBookings(
     userId: string,
-    params?: {
-      page?: number;
-      limit?: number;
-      status?: string;
-    }
+    query?: ListQuery<Omit<BookingListFilters, 'customerId'>>,
+    options?: RequestOptions
   ): Promise<PaginatedResponse<Booking>> {
-    return apiService.getPaginated<Booking>(`/bookings/user/${userId}`, params);
+    return apiService.getPaginated(`/bookings/user/${userId}`, toListParams(query), bookingSchema, options);
   }
 
-  async getMyBookings(params?: {
-    page?: number;
-    limit?: number;
-    status?: string;
-  }): Promise<PaginatedResponse<Booking>> {
-    return apiService.getPaginated<Booking>('/bookings/me', params);
+  async getMyBookings(
+    query?: ListQuery<Omit<BookingListFilters, 'customerId'>>,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<Booking>> {
+    return apiService.getPaginated('/bookings/me', toListParams(query), bookingSchema, options);
   }
 
   async updateBooking(id: string, bookingData: Partial<CreateBookingForm>): Promise<ApiResponse<Booking>> {
-    return apiService.put<Booking>(`/bookings/${id}`, bookingData);
+    return apiService.put(`/bookings/${id}`, bookingData, bookingSchema);
   }
 
   async cancelBooking(id: string, reason?: string): Promise<ApiResponse<Booking>> {
-    return apiService.patch<Booking>(`/bookings/${id}/cancel`, { reason });
+    return apiService.patch(`/bookings/${id}/cancel`, { reason }, bookingSchema);
   }
 
   async confirmBooking(id: string): Promise<ApiResponse<Booking>> {
-    return apiService.patch<Booking>(`/bookings/${id}/confirm`);
+    return apiService.patch(`/bookings/${id}/confirm`, undefined, bookingSchema);
   }
 
   // Seat Selection
-  async selectSeat(bookingId: string, seatNumber: string): Promise<ApiResponse<Booking>> {
-    return apiService.patch<Booking>(`/bookings/${bookingId}/seat`, { seatNumber });
+  // Moves one passenger; without a passenger id the lead passenger is moved
+  async selectSeat(bookingId: string, seatNumber: string, passengerId?: string): Promise<ApiResponse<Booking>> {
+    return apiService.patch(`/bookings/${bookingId}/seat`, { seatNumber, passengerId }, bookingSchema);
   }
 
-  async getBookedSeats(flightId: string, seatClass: string): Promise<ApiResponse<string[]>> {
-    return apiService.get<string[]>(`/bookings/flight/${flightId}/booked-seats/${seatClass}`);
+  async getBookedSeats(flightId: string, seatClass: string, options?: RequestOptions): Promise<ApiResponse<string[]>> {
+    return apiService.get(`/bookings/flight/${flightId}/booked-seats/${seatClass}`, undefined, z.array(z.string()), options);
   }
 
   // Passenger Manifest
-  async getPassengerManifest(flightId: string): Promise<ApiResponse<PassengerManifest>> {
-    return apiService.get<PassengerManifest>(`/bookings/flight/${flightId}/manifest`);
-  }
-
-  async downloadPassengerManifest(flightId: string): Promise<Blob> {
-    // This would return a PDF blob
-    const response = await fetch(`${apiService['api'].defaults.baseURL}/bookings/flight/${flightId}/manifest/pdf`, {
-      headers: {
-        'Authorization': `Bearer ${apiService.getAuthToken()}`,
-      },
-    });
-    
-    if (!response.ok) {
-      throw new Error('Failed to download passenger manifest');
+  async getPassengerManifest(flightId: string, options?: RequestOptions): Promise<ApiResponse<PassengerManifest>> {
+    return apiService.get(`/bookings/flight/${flightId}/manifest`, undefined, passengerManifestSchema, options);
+  }
+
+  /**
+   * The manifest as a PDF. Servers without the PDF endpoint get one drawn in
+   * the browser from the manifest data instead.
+   */
+  async downloadPassengerManifest(flightId: string, options?: RequestOptions): Promise<Blob> {
+    try {
+      return await apiService.getBlob(`/bookings/flight/${flightId}/manifest/pdf`, undefined, options);
+    } catch (error) {
+      if (!PDF_UNAVAILABLE_CODES.includes((error as AppError).code)) {
+        throw error;
+      }
     }
-    
-    return response.blob();
+
+    const manifest = unwrap(await this.getPassengerManifest(flightId, options));
+    return createManifestPdf(manifest);
   }
 
   // Booking Reports
-  async getBookingStatistics(params?: {
-    startDate?: string;
-    endDate?: string;
-    groupBy?: 'day' | 'week' | 'month';
-  }): Promise<ApiResponse<any>> {
-    return apiService.get<any>('/bookings/statistics', params);
+  async getBookingStatistics(
+    params?: {
+      startDate?: string;
+      endDate?: string;
+      groupBy?: 'day' | 'week' | 'month';
+    },
+    options?: RequestOptions
+  ): Promise<ApiResponse<BookingStatistics>> {
+    return apiService.get('/bookings/statistics', params, bookingStatisticsSchema, options);
   }
 
-  async getRevenueReport(params?: {
-    startDate?: string;
-    endDate?: string;
-    airlineId?: string;
-  }): Promise<ApiResponse<any>> {
-    return apiService.get<any>('/bookings/revenue', params);
+  async getRevenueReport(
+    params?: {
+      startDate?: string;
+      endDate?: string;
+      airlineId?: string;
+      groupBy?: 'day' | 'week' | 'month';
+    },
+    options?: RequestOptions
+  ): Promise<ApiResponse<RevenueReport>> {
+    return apiService.get('/bookings/revenue', params, revenueReportSchema, options);
   }
 
-  async getPopularDestinations(params?: {
-    limit?: number;
-    period?: string;
-  }): Promise<ApiResponse<Array<{ destination: string; count: number; revenue: number }>>> {
-    return apiService.get<Array<{ destination: string; count: number; revenue: number }>>(
-      '/bookings/popular-destinations',
-      params
-    );
+  async getPopularDestinations(
+    params?: {
+      limit?: number;
+      period?: string;
+    },
+    options?: RequestOptions
+  ): Promise<ApiResponse<PopularDestination[]>> {
+    return apiService.get('/bookings/popular-destinations', params, z.array(popularDestinationSchema), options);
   }
 
   // Booking Search and Filters
-  async searchBookings(criteria: {
-    customerName?: string;
-    customerEmail?: string;
-    flightNumber?: string;
-    bookingReference?: string;
-    origin?: string;
-    destination?: string;
-    travelDate?: string;
-  }): Promise<ApiResponse<Booking[]>> {
-    return apiService.post<Booking[]>('/bookings/search', criteria);
+  async searchBookings(
+    criteria: {
+      customerName?: string;
+      customerEmail?: string;
+      flightNumber?: string;
+      bookingReference?: string;
+      origin?: string;
+      destination?: string;
+      travelDate?: string;
+    },
+    options?: RequestOptions
+  ): Promise<ApiResponse<Booking[]>> {
+    return apiService.post('/bookings/search', criteria, z.array(bookingSchema), options);
   }
 
   // Bulk Operations (for operators/admins)
@@ -143,26 +170,17 @@ class BookingService {
   }
 
   // Validation
-  async validateBooking(bookingData: CreateBookingForm): Promise<ApiResponse<{
-    valid: boolean;
-    errors?: string[];
-    warnings?: string[];
-    pricing?: {
-      basePrice: number;
-      taxes: number;
-      totalPrice: number;
-    };
-  }>> {
-    return apiService.post('/bookings/validate', bookingData);
+  async validateBooking(bookingData: CreateBookingForm): Promise<ApiResponse<BookingValidation>> {
+    return apiService.post('/bookings/validate', bookingData, bookingValidationSchema);
   }
 
   // Check-in functionality
   async checkIn(bookingId: string): Promise<ApiResponse<Booking>> {
-    return apiService.patch<Booking>(`/bookings/${bookingId}/check-in`);
+    return apiService.patch(`/bookings/${bookingId}/check-in`, undefined, bookingSchema);
   }
 
-  async getCheckedInPassengers(flightId: string): Promise<ApiResponse<Booking[]>> {
-    return apiService.get<Booking[]>(`/bookings/flight/${flightId}/checked-in`);
+  async getCheckedInPassengers(flightId: string, options?: RequestOptions): Promise<ApiResponse<Booking[]>> {
+    return apiService.get(`/bookings/flight/${flightId}/checked-in`, undefined, z.array(bookingSchema), options);
   }
 
   // Notifications
@@ -1,4 +1,7 @@
+import * as z from 'zod';
 import { apiService } from './api';
+import type { RequestOptions } from './api';
+import { toListParams } from '@/lib/listQuery';
 import type {
   Flight,
   FlightSearchCriteria,
@@ -7,66 +10,85 @@ import type {
   Airport,
   Airplane,
   ApiResponse,
+  CabinLayout,
   PaginatedResponse,
+  ListQuery,
+  FlightListFilters,
   AirportFlightReport,
+  FlightStatistics,
+  PopularRoute,
+  ScheduleValidation,
+  SeatAvailability,
 } from '@/types';
+import {
+  airplaneSchema,
+  airportFlightReportSchema,
+  airportSchema,
+  cabinLayoutSchema,
+  flightSchema,
+  flightSearchResultSchema,
+  flightStatisticsSchema,
+  popularRouteSchema,
+  scheduleValidationSchema,
+  seatAvailabilitySchema,
+} from '@/types/schemas';
 
 class FlightService {
   // Flight Search
-  async searchFlightSummary(criteria: FlightSearchCriteria): Promise<ApiResponse<FlightSearchResult>> {
-    return apiService.post<FlightSearchResult>('/flights/search/comprehensive', criteria);
+  async searchFlightSummary(criteria: FlightSearchCriteria, options?: RequestOptions): Promise<ApiResponse<FlightSearchResult>> {
+    return apiService.post('/flights/search/comprehensive', criteria, flightSearchResultSchema, options);
   }
 
-  async searchFlights(criteria: FlightSearchCriteria): Promise<ApiResponse<FlightSearchResult>> {
-    return apiService.post<FlightSearchResult>('/flights/search', criteria);
+  async searchFlights(criteria: FlightSearchCriteria, options?: RequestOptions): Promise<ApiResponse<FlightSearchResult>> {
+    return apiService.post('/flights/search', criteria, flightSearchResultSchema, options);
   }
 
   async getDirectFlights(
     origin: string,
     destination: string,
-    departureDate: string
+    departureDate: string,
+    options?: RequestOptions
   ): Promise<ApiResponse<Flight[]>> {
-    return apiService.get<Flight[]>('/flights/direct', {
-      origin,
-      destination,
-      departureDate,
-    });
+    return apiService.get(
+      '/flights/direct',
+      { origin, destination, departureDate },
+      z.array(flightSchema),
+      options
+    );
   }
 
   async getTransitFlights(
     origin: string,
     destination: string,
-    departureDate: string
+    departureDate: string,
+    options?: RequestOptions
   ): Promise<ApiResponse<FlightSearchResult>> {
-    return apiService.get<FlightSearchResult>('/flights/transit', {
-      origin,
-      destination,
-      departureDate,
-    });
+    return apiService.get(
+      '/flights/transit',
+      { origin, destination, departureDate },
+      flightSearchResultSchema,
+      options
+    );
   }
 
   // Flight Management
-  async getAllFlights(params?: {
-    page?: number;
-    limit?: number;
-    origin?: string;
-    destination?: string;
-    date?: string;
-    status?: string;
-  }): Promise<PaginatedResponse<Flight>> {
-    return apiService.getPaginated<Flight>('/flights', params);
+  async getAllFlights(
+    query?: ListQuery<FlightListFilters>,
+    options?: RequestOptions
+  ): Promise<PaginatedResponse<Flight>> {
+    return apiService.getPaginated('/flights', toListParams(query), flightSchema, options);
   }
 
-  async getFlightById(id: string): Promise<ApiResponse<Flight>> {
-    return apiService.get<Flight>(`/flights/${id}`);
+  async getFlightById(id: string, options?: RequestOptions): Promise<ApiResponse<Flight>> {
+    return apiService.get(`/flights/${id}`, undefined, flightSchema, options);
   }
 
   async createFlight(flightData: CreateFlightForm): Promise<ApiResponse<Flight>> {
-    return apiService.post<Flight>('/flights', flightData);
+    return apiService.post('/flights', flightData, flightSchema);
   }
 
   async updateFlight(id: string, flightData: Partial<CreateFlightForm>): Promise<ApiResponse<Flight>> {
-    return apiService.put<Flight>(`/flights/${id}`, flightData);
+    return apiService.put(`/flights/${id}`, flightData, flightSchema);
   }
 
   async deleteFlight(id: string): Promise<ApiResponse<void>> {
@@ -74,41 +96,51 @@ class FlightService {
   }
 
   async updateFlightStatus(id: string, status: string): Promise<ApiResponse<Flight>> {
-    return apiService.patch<Flight>(`/flights/${id}/status`, { status });
+    return apiService.patch(`/flights/${id}/status`, { status }, flightSchema);
   }
 
   // Flight Availability
   async checkSeatAvailability(
     flightId: string,
-    seatClass: string
-  ): Promise<ApiResponse<{ available: number; total: number }>> {
-    return apiService.get<{ available: number; total: number }>(
-      `/flights/${flightId}/availability/${seatClass}`
+    seatClass: string,
+    options?: RequestOptions
+  ): Promise<ApiResponse<SeatAvailability>> {
+    return apiService.get(
+      `/flights/${flightId}/availability/${seatClass}`,
+      undefined,
+      seatAvailabilitySchema,
+      options
     );
   }
 
   async getAvailableSeats(
     flightId: string,
-    seatClass: string
+    seatClass: string,
+    options?: RequestOptions
   ): Promise<ApiResponse<string[]>> {
-    return apiService.get<string[]>(`/flights/${flightId}/seats/${seatClass}`);
+    return apiService.get(`/flights/${flightId}/seats/${seatClass}`, undefined, z.array(z.string()), options);
+  }
+
+  // Seat plan of the airplane operating the flight
+  async getCabinLayout(flightId: string, options?: RequestOptions): Promise<ApiResponse<CabinLayout>> {
+    return apiService.get(`/flights/${flightId}/cabin-layout`, undefined, cabinLayoutSchema, options);
   }
 
   // Airport Management
-  async getAllAirports(): Promise<ApiResponse<Airport[]>> {
-    return apiService.get<Airport[]>('/airports');
+  async getAllAirports(options?: RequestOptions): Promise<ApiResponse<Airport[]>> {
+    return apiService.get('/airports', undefined, z.array(airportSchema), options);
   }
 
-  async getAirportById(id: string): Promise<ApiResponse<Airport>> {
-    return apiService.get<Airport>(`/airports/${id}`);
+  async getAirportById(id: string, options?: RequestOptions): Promise<ApiResponse<Airport>> {
+    return apiService.get(`/airports/${id}`, undefined, airportSchema, options);
   }
 
   async createAirport(airportData: Omit<Airport, 'id'>): Promise<ApiResponse<Airport>> {
-    return apiService.post<Airport>('/airports', airportData);
+    return apiService.post('/airports', airportData, airportSchema);
   }
 
   async updateAirport(id: string, airportData: Partial<Airport>): Promise<ApiResponse<Airport>> {
-    return apiService.put<Airport>(`/airports/${id}`, airportData);
+    return apiService.put(`/airports/${id}`, airportData, airportSchema);
   }
 
   async deleteAirport(id: string): Promise<ApiResponse<void>> {
@@ -116,60 +148,70 @@ class FlightService {
   }
 
   // Airplane Management
-  async getAllAirplanes(): Promise<ApiResponse<Airplane[]>> {
-    return apiService.get<Airplane[]>('/airplanes');
+  async getAllAirplanes(options?: RequestOptions): Promise<ApiResponse<Airplane[]>> {
+    return apiService.get('/airplanes', undefined, z.array(airplaneSchema), options);
   }
 
-  async getAirplaneById(id: string): Promise<ApiResponse<Airplane>> {
-    return apiService.get<Airplane>(`/airplanes/${id}`);
+  async getAirplaneById(id: string, options?: RequestOptions): Promise<ApiResponse<Airplane>> {
+    return apiService.get(`/airplanes/${id}`, undefined, airplaneSchema, options);
   }
 
   async createAirplane(airplaneData: Omit<Airplane, 'id'>): Promise<ApiResponse<Airplane>> {
-    return apiService.post<Airplane>('/airplanes', airplaneData);
+    return apiService.post('/airplanes', airplaneData, airplaneSchema);
   }
 
   async updateAirplane(id: string, airplaneData: Partial<Airplane>): Promise<ApiResponse<Airplane>> {
-    return apiService.put<Airplane>(`/airplanes/${id}`, airplaneData);
+    return apiService.put(`/airplanes/${id}`, airplaneData, airplaneSchema);
   }
 
   async deleteAirplane(id: string): Promise<ApiResponse<void>> {
     return apiService.delete<void>(`/airplanes/${id}`);
   }
 
-  async getAvailableAirplanes(departureTime: string, arrivalTime: string): Promise<ApiResponse<Airplane[]>> {
-    return apiService.get<Airplane[]>('/airplanes/available', {
-      departureTime,
-      arrivalTime,
-    });
+  async getAvailableAirplanes(departureTime: string, arrivalTime: string, options?: RequestOptions): Promise<ApiResponse<Airplane[]>> {
+    return apiService.get(
+      '/airplanes/available',
+      { departureTime, arrivalTime },
+      z.array(airplaneSchema),
+      options
+    );
   }
 
   // Reports
   async getAirportFlightReport(
     airportId: string,
     startDate: string,
-    endDate: string
+    endDate: string,
+    options?: RequestOptions
   ): Promise<ApiResponse<AirportFlightReport>> {
-    return apiService.get<AirportFlightReport>(`/reports/airport/${airportId}/flights`, {
-      startDate,
-      endDate,
-    });
+    return apiService.get(
+      `/reports/airport/${airportId}/flights`,
+      { startDate, endDate },
+      airportFlightReportSchema,
+      options
+    );
   }
 
-  async getFlightStatistics(period?: string): Promise<ApiResponse<any>> {
-    return apiService.get<any>('/reports/flight-statistics', { period });
+  async getFlightStatistics(period?: string, options?: RequestOptions): Promise<ApiResponse<FlightStatistics>> {
+    return apiService.get('/reports/flight-statistics', { period }, flightStatisticsSchema, options);
   }
 
   // Utility methods
-  async getPopularRoutes(): Promise<ApiResponse<Array<{ origin: Airport; destination: Airport; count: number }>>> {
-    return apiService.get<Array<{ origin: Airport; destination: Airport; count: number }>>('/flights/popular-routes');
+  async getPopularRoutes(options?: RequestOptions): Promise<ApiResponse<PopularRoute[]>> {
+    return apiService.get('/flights/popular-routes', undefined, z.array(popularRouteSchema), options);
   }
 
-  async getFlightsByAirplane(airplaneId: string): Promise<ApiResponse<Flight[]>> {
-    return apiService.get<Flight[]>(`/flights/airplane/${airplaneId}`);
+  async getFlightsByAirplane(airplaneId: string, options?: RequestOptions): Promise<ApiResponse<Flight[]>> {
+    return apiService.get(`/flights/airplane/${airplaneId}`, undefined, z.array(flightSchema), options);
   }
 
-  async validateFlightSchedule(flightData: CreateFlightForm): Promise<ApiResponse<{ valid: boolean; conflicts?: string[] }>> {
-    return apiService.post<{ valid: boolean; conflicts?: string[] }>('/flights/validate-schedule', flightData);
+  // `flightId` leaves that flight out of the overlap checks, for edits and reassignments
+  async validateFlightSchedule(flightData: CreateFlightForm, flightId?: string): Promise<ApiResponse<ScheduleValidation>> {
+    return apiService.post(
+      '/flights/validate-schedule',
+      flightId ? { ...flightData, id: flightId } : flightData,
+      scheduleValidationSchema
+    );
   }
 }
 
@@ -0,0 +1,166 @@
+import { AxiosError, AxiosHeaders, CanceledError } from 'axios';
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { createMockDatabase } from './mockDatabase';
+import type { MockDatabase, MockUserRecord } from './mockDatabase';
+import { MockHttpError, parseMockToken } from './mockHttp';
+import type { HttpMethod, MockRoute } from './mockHttp';
+import { mockRoutes } from './mockRoutes';
+
+const DEFAULT_LATENCY_MS = 250;
+const latency = Number(import.meta.env.VITE_MOCK_API_LATENCY ?? DEFAULT_LATENCY_MS);
+
+let database: MockDatabase | null = null;
+
+// Seeded on first request so the initial page load is not delayed
+const getDatabase = () => {
+  database ??= createMockDatabase();
+  return database;
+};
+
+interface CompiledRoute extends MockRoute {
+  pattern: RegExp;
+  keys: string[];
+}
+
+const compiledRoutes: CompiledRoute[] = mockRoutes.map((route) => {
+  const keys: string[] = [];
+  const source = route.path.replace(/:([A-Za-z]+)/g, (_, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  return { ...route, keys, pattern: new RegExp(`^${source}/?$`) };
+});
+
+const parseBody = (data: unknown): Record<string, unknown> => {
+  if (typeof data === 'string' && data.length > 0) {
+    try {
+      return JSON.parse(data) as Record<string, unknown>;
+    } catch {
+      return {};
+    }
+  }
+  return data && typeof data === 'object' ? (data as Record<string, unknown>) : {};
+};
+
+const parseQuery = (search: URLSearchParams, params: unknown): Record<string, string> => {
+  const query: Record<string, string> = {};
+  search.forEach((value, key) => {
+    query[key] = value;
+  });
+  if (params && typeof params === 'object') {
+    Object.entries(params as Record<string, unknown>).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') query[key] = String(value);
+    });
+  }
+  return query;
+};
+
+const readBearerToken = (config: InternalAxiosRequestConfig): string | null => {
+  const header = AxiosHeaders.from(config.headers).get('Authorization');
+  return typeof header === 'string' ? header.replace(/^Bearer\s+/i, '') || null : null;
+};
+
+/**
+ * Resolves the signed-in user from a bearer token that is valid and unexpired.
+ */
+const authenticate = (db: MockDatabase, token: string | null): MockUserRecord | null => {
+  const claims = token ? parseMockToken(token) : null;
+  if (!claims || claims.expiresAt < Date.now()) return null;
+
+  const user = db.users.find((candidate) => candidate.id === claims.userId);
+  return user?.active ? user : null;
+};
+
+const respond = (
+  config: InternalAxiosRequestConfig,
+  status: number,
+  data: unknown
+): AxiosResponse => {
+  const response: AxiosResponse = {
+    data,
+    status,
+    statusText: String(status),
+    headers: new AxiosHeaders({ 'content-type': 'application/json' }),
+    config,
+    request: {},
+  };
+
+  if (status >= 400) {
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  }
+
+  return response;
+};
+
+// Simulated network delay; an aborted request never reaches the handlers
+const wait = (config: InternalAxiosRequestConfig) =>
+  new Promise<void>((resolve, reject) => {
+    const signal = config.signal as AbortSignal | undefined;
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(new CanceledError(undefined, undefined, config));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', cancel);
+      resolve();
+    }, latency);
+
+    if (signal?.aborted) cancel();
+    else signal?.addEventListener?.('abort', cancel, { once: true });
+  });
+
+const fail = (config: InternalAxiosRequestConfig, status: number, message: string, errors?: string[]) =>
+  respond(config, status, { success: false, message, errors });
+
+/**
+ * Axios adapter that serves every API endpoint from an in-memory database.
+ * Enabled by setting VITE_USE_MOCK_API=true.
+ */
+export const mockAdapter: AxiosAdapter = async (config) => {
+  await wait(config);
+
+  const method = (config.method ?? 'get').toUpperCase() as HttpMethod;
+  const url = new URL(config.url ?? '/', 'http://mock.local');
+  const route = compiledRoutes.find((candidate) => candidate.method === method && candidate.pattern.test(url.pathname));
+
+  if (!route) {
+    return fail(config, 404, `No mock handler for ${method} ${url.pathname}`);
+  }
+
+  const db = getDatabase();
+  const token = readBearerToken(config);
+  const user = authenticate(db, token);
+  if (route.roles) {
+    if (!user) return fail(config, 401, 'Authentication required');
+    if (route.roles.length > 0 && !route.roles.includes(user.role)) {
+      return fail(config, 403, 'You do not have permission to perform this action');
+    }
+  }
+
+  const match = route.pattern.exec(url.pathname)!;
+  const params = Object.fromEntries(route.keys.map((key, index) => [key, decodeURIComponent(match[index + 1])]));
+
+  try {
+    const data = route.handler({
+      db,
+      params,
+      query: parseQuery(url.searchParams, config.params),
+      body: parseBody(config.data),
+      user,
+      token,
+    });
+    return respond(config, method === 'POST' ? 201 : 200, data);
+  } catch (error) {
+    if (error instanceof MockHttpError) {
+      return fail(config, error.status, error.message, error.errors);
+    }
+    console.error('Mock API handler failed:', error);
+    return fail(config, 500, 'Internal server error');
+  }
+};
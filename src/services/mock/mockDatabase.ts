@@ -0,0 +1,552 @@
+import {
+  AirplaneCapacity,
+  BookingEventType,
+  BookingStatus,
+  FlightStatus,
+  PassengerType,
+  SeatClass,
+  UserRole,
+} from '@/types';
+import type { Airplane, Airport, Booking, BookingEvent, Flight, Passenger, User } from '@/types';
+import { AIRPLANE_PRESETS, getAirplaneCabinLayout, getCabinSeatCodes } from '@/lib/cabinLayout';
+import { PASSENGER_FARE_FACTORS } from '@/lib/passengers';
+
+// In-memory tables backing the mock API. Everything is re-seeded on page load,
+// so ids and seed bookings are deterministic between reloads.
+
+export interface MockUserRecord extends User {
+  password: string;
+}
+
+export interface MockFlightRecord {
+  id: number;
+  flightNumber: string;
+  airplaneId: string;
+  originId: string;
+  destinationId: string;
+  departureTime: string;
+  arrivalTime: string;
+  status: FlightStatus;
+  firstClassPrice: number;
+  businessClassPrice: number;
+  economyClassPrice: number;
+}
+
+export interface MockBookingRecord {
+  id: string;
+  bookingReference: string;
+  customerId: number;
+  flightId: number;
+  seatClass: SeatClass;
+  price: number;
+  bookingDate: string;
+  status: BookingStatus;
+  createdById: number;
+  checkedIn: boolean;
+  // The first passenger is the lead; every passenger holds one seat
+  passengers: Passenger[];
+  history: BookingEvent[];
+}
+
+export interface MockDatabase {
+  airports: Airport[];
+  airplanes: Airplane[];
+  users: MockUserRecord[];
+  flights: MockFlightRecord[];
+  bookings: MockBookingRecord[];
+  // Occupied seats per flight and cabin, rebuilt lazily after writes
+  seatCounts: Map<number, Record<SeatClass, number>> | null;
+  sequences: {
+    airport: number;
+    airplane: number;
+    user: number;
+    flight: number;
+    booking: number;
+    passenger: number;
+  };
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Seed flights are generated for this window around today
+const SEED_PAST_DAYS = 7;
+const SEED_FUTURE_DAYS = 21;
+
+/**
+ * Small deterministic PRNG (mulberry32) so seed data is stable across reloads.
+ */
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const seedAirports: Airport[] = [
+  { id: '1', code: 'JFK', name: 'John F. Kennedy International Airport', city: 'New York', country: 'United States', timeZone: 'America/New_York', latitude: 40.6413, longitude: -73.7781, minConnectionMinutes: 90 },
+  { id: '2', code: 'LAX', name: 'Los Angeles International Airport', city: 'Los Angeles', country: 'United States', timeZone: 'America/Los_Angeles', latitude: 33.9416, longitude: -118.4085, minConnectionMinutes: 90 },
+  { id: '3', code: 'LHR', name: 'London Heathrow Airport', city: 'London', country: 'United Kingdom', timeZone: 'Europe/London', latitude: 51.47, longitude: -0.4543, minConnectionMinutes: 90 },
+  { id: '4', code: 'CDG', name: 'Charles de Gaulle Airport', city: 'Paris', country: 'France', timeZone: 'Europe/Paris', latitude: 49.0097, longitude: 2.5479, minConnectionMinutes: 90 },
+  { id: '5', code: 'DXB', name: 'Dubai International Airport', city: 'Dubai', country: 'United Arab Emirates', timeZone: 'Asia/Dubai', latitude: 25.2532, longitude: 55.3657, minConnectionMinutes: 75 },
+  { id: '6', code: 'SIN', name: 'Singapore Changi Airport', city: 'Singapore', country: 'Singapore', timeZone: 'Asia/Singapore', latitude: 1.3644, longitude: 103.9915, minConnectionMinutes: 60 },
+  { id: '7', code: 'NRT', name: 'Narita International Airport', city: 'Tokyo', country: 'Japan', timeZone: 'Asia/Tokyo', latitude: 35.772, longitude: 140.3929, minConnectionMinutes: 75 },
+  { id: '8', code: 'CMB', name: 'Bandaranaike International Airport', city: 'Colombo', country: 'Sri Lanka', timeZone: 'Asia/Colombo', latitude: 7.1808, longitude: 79.8841 },
+  { id: '9', code: 'ORD', name: "O'Hare International Airport", city: 'Chicago', country: 'United States', timeZone: 'America/Chicago', latitude: 41.9742, longitude: -87.9073, minConnectionMinutes: 75 },
+  { id: '10', code: 'FRA', name: 'Frankfurt Airport', city: 'Frankfurt', country: 'Germany', timeZone: 'Europe/Berlin', latitude: 50.0379, longitude: 8.5622, minConnectionMinutes: 60 },
+];
+
+const seedAirplanes: Airplane[] = [
+  { id: '1', model: 'Airbus A320', size: AirplaneCapacity.MEDIUM, registrationNumber: 'N320TV', firstClassCapacity: 12, businessClassCapacity: 24, economyClassCapacity: 144, totalCapacity: 180, active: true },
+  { id: '2', model: 'Boeing 737-800', size: AirplaneCapacity.MEDIUM, registrationNumber: 'N737TV', firstClassCapacity: 8, businessClassCapacity: 20, economyClassCapacity: 150, totalCapacity: 178, active: true },
+  { id: '3', model: 'Boeing 777-300ER', size: AirplaneCapacity.LARGE, registrationNumber: 'N777TV', firstClassCapacity: 14, businessClassCapacity: 64, economyClassCapacity: 280, totalCapacity: 358, active: true },
+  { id: '4', model: 'Boeing 777-300ER', size: AirplaneCapacity.LARGE, registrationNumber: 'N778TV', firstClassCapacity: 14, businessClassCapacity: 64, economyClassCapacity: 280, totalCapacity: 358, active: true },
+  { id: '5', model: 'Airbus A320', size: AirplaneCapacity.MEDIUM, registrationNumber: 'N321TV', firstClassCapacity: 12, businessClassCapacity: 24, economyClassCapacity: 144, totalCapacity: 180, active: true },
+  { id: '6', model: 'Boeing 737-800', size: AirplaneCapacity.MEDIUM, registrationNumber: 'N738TV', firstClassCapacity: 8, businessClassCapacity: 20, economyClassCapacity: 150, totalCapacity: 178, active: true },
+  { id: '7', model: 'Boeing 737-800', size: AirplaneCapacity.MEDIUM, registrationNumber: 'N739TV', firstClassCapacity: 8, businessClassCapacity: 20, economyClassCapacity: 150, totalCapacity: 178, active: true },
+  { id: '8', model: 'Boeing 777-300ER', size: AirplaneCapacity.LARGE, registrationNumber: 'N779TV', firstClassCapacity: 14, businessClassCapacity: 64, economyClassCapacity: 280, totalCapacity: 358, active: true },
+  { id: '9', model: 'Boeing 777-300ER', size: AirplaneCapacity.LARGE, registrationNumber: 'N780TV', firstClassCapacity: 14, businessClassCapacity: 64, economyClassCapacity: 280, totalCapacity: 358, active: true },
+  { id: '10', model: 'Embraer E190', size: AirplaneCapacity.SMALL, registrationNumber: 'N190TV', firstClassCapacity: 0, businessClassCapacity: 12, economyClassCapacity: 86, totalCapacity: 98, active: false },
+];
+
+const seedStaff: MockUserRecord[] = [
+  { id: 1, username: 'admin', password: 'admin123', email: 'admin@travel360.com', firstName: 'System', lastName: 'Administrator', role: UserRole.ADMINISTRATOR, phoneNumber: '+1 555 0100', active: true },
+  { id: 2, username: 'operator', password: 'operator123', email: 'operator@travel360.com', firstName: 'Olivia', lastName: 'Perera', role: UserRole.OPERATOR, phoneNumber: '+94 77 555 0101', active: true },
+  { id: 3, username: 'customer', password: 'customer123', email: 'customer@example.com', firstName: 'Chris', lastName: 'Fernando', role: UserRole.CUSTOMER, phoneNumber: '+94 71 555 0102', active: true },
+];
+
+const firstNames = ['Amal', 'Nimali', 'James', 'Sofia', 'Kenji', 'Aisha', 'Lucas', 'Priya', 'Hannah', 'Omar', 'Mei', 'Daniel', 'Fatima', 'Noah', 'Elena', 'Ravi'];
+const lastNames = ['Silva', 'Jayasuriya', 'Smith', 'Rossi', 'Tanaka', 'Khan', 'Martin', 'Nair', 'Becker', 'Haddad', 'Chen', 'Walker', 'Rahman', 'Dubois', 'Ivanova', 'Kumar'];
+
+/**
+ * A tail's daily (or every-other-day) rotation between two airports.
+ * Times are UTC minutes after midnight; the return leg can fall on the next day.
+ */
+interface Rotation {
+  airplaneId: string;
+  numbers: [string, string];
+  originCode: string;
+  destinationCode: string;
+  outDeparture: number;
+  outDuration: number;
+  backDeparture: number;
+  backDuration: number;
+  backDayOffset: number;
+  periodDays: number;
+  basePrice: number;
+}
+
+const rotations: Rotation[] = [
+  { airplaneId: '1', numbers: ['TV101', 'TV102'], originCode: 'LHR', destinationCode: 'CDG', outDeparture: 7 * 60, outDuration: 75, backDeparture: 9 * 60 + 30, backDuration: 75, backDayOffset: 0, periodDays: 1, basePrice: 120 },
+  { airplaneId: '2', numbers: ['TV201', 'TV202'], originCode: 'JFK', destinationCode: 'LAX', outDeparture: 13 * 60, outDuration: 360, backDeparture: 21 * 60, backDuration: 330, backDayOffset: 0, periodDays: 1, basePrice: 280 },
+  { airplaneId: '3', numbers: ['TV301', 'TV302'], originCode: 'LHR', destinationCode: 'DXB', outDeparture: 8 * 60, outDuration: 420, backDeparture: 17 * 60, backDuration: 450, backDayOffset: 0, periodDays: 1, basePrice: 520 },
+  { airplaneId: '4', numbers: ['TV401', 'TV402'], originCode: 'DXB', destinationCode: 'SIN', outDeparture: 22 * 60, outDuration: 450, backDeparture: 14 * 60, backDuration: 470, backDayOffset: 1, periodDays: 2, basePrice: 460 },
+  { airplaneId: '5', numbers: ['TV501', 'TV502'], originCode: 'SIN', destinationCode: 'NRT', outDeparture: 30, outDuration: 400, backDeparture: 9 * 60, backDuration: 435, backDayOffset: 0, periodDays: 1, basePrice: 390 },
+  { airplaneId: '6', numbers: ['TV601', 'TV602'], originCode: 'CMB', destinationCode: 'DXB', outDeparture: 3 * 60, outDuration: 290, backDeparture: 10 * 60, backDuration: 270, backDayOffset: 0, periodDays: 1, basePrice: 310 },
+  { airplaneId: '7', numbers: ['TV701', 'TV702'], originCode: 'CMB', destinationCode: 'SIN', outDeparture: 17 * 60, outDuration: 230, backDeparture: 22 * 60 + 30, backDuration: 250, backDayOffset: 0, periodDays: 1, basePrice: 240 },
+  { airplaneId: '8', numbers: ['TV801', 'TV802'], originCode: 'ORD', destinationCode: 'FRA', outDeparture: 22 * 60, outDuration: 510, backDeparture: 9 * 60 + 30, backDuration: 560, backDayOffset: 1, periodDays: 2, basePrice: 610 },
+  { airplaneId: '9', numbers: ['TV901', 'TV902'], originCode: 'JFK', destinationCode: 'LHR', outDeparture: 23 * 60, outDuration: 420, backDeparture: 10 * 60, backDuration: 480, backDayOffset: 1, periodDays: 2, basePrice: 650 },
+];
+
+// Fare multipliers relative to economy
+const FIRST_CLASS_MULTIPLIER = 4.2;
+const BUSINESS_CLASS_MULTIPLIER = 2.6;
+
+const startOfUtcDay = (date: Date) =>
+  Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+const roundPrice = (price: number) => Math.round(price / 5) * 5;
+
+/**
+ * Status a flight would have right now, derived from its schedule.
+ */
+export const deriveFlightStatus = (departureTime: string, arrivalTime: string, now = Date.now()): FlightStatus => {
+  const departure = new Date(departureTime).getTime();
+  const arrival = new Date(arrivalTime).getTime();
+
+  if (now >= arrival) return FlightStatus.ARRIVED;
+  if (now >= departure + 15 * MINUTE) return FlightStatus.IN_FLIGHT;
+  if (now >= departure) return FlightStatus.DEPARTED;
+  if (now >= departure - 45 * MINUTE) return FlightStatus.BOARDING;
+  return FlightStatus.SCHEDULED;
+};
+
+// Seat codes for one cabin, from the airplane's layout
+export const getSeatCodes = (airplane: Airplane, seatClass: SeatClass): string[] =>
+  getCabinSeatCodes(getAirplaneCabinLayout(airplane), seatClass);
+
+export const getCabinCapacity = (airplane: Airplane, seatClass: SeatClass): number => {
+  switch (seatClass) {
+    case SeatClass.FIRST:
+      return airplane.firstClassCapacity;
+    case SeatClass.BUSINESS:
+      return airplane.businessClassCapacity;
+    default:
+      return airplane.economyClassCapacity;
+  }
+};
+
+export const getCabinPrice = (flight: MockFlightRecord, seatClass: SeatClass): number => {
+  switch (seatClass) {
+    case SeatClass.FIRST:
+      return flight.firstClassPrice;
+    case SeatClass.BUSINESS:
+      return flight.businessClassPrice;
+    default:
+      return flight.economyClassPrice;
+  }
+};
+
+const referenceAlphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const generateBookingReference = (random: () => number = Math.random): string => {
+  let reference = '';
+  for (let i = 0; i < 6; i++) {
+    reference += referenceAlphabet[Math.floor(random() * referenceAlphabet.length)];
+  }
+  return reference;
+};
+
+export const getPassengerFare = (flight: MockFlightRecord, seatClass: SeatClass, type: PassengerType): number =>
+  Math.round(getCabinPrice(flight, seatClass) * PASSENGER_FARE_FACTORS[type] * 100) / 100;
+
+export const getBookingSeats = (booking: MockBookingRecord): string[] =>
+  booking.passengers.map((passenger) => passenger.seatNumber);
+
+const seedFlights = (now: Date, random: () => number): MockFlightRecord[] => {
+  const flights: MockFlightRecord[] = [];
+  const today = startOfUtcDay(now);
+  let id = 1;
+
+  const airportId = (code: string) => seedAirports.find((airport) => airport.code === code)!.id;
+
+  for (let day = -SEED_PAST_DAYS; day <= SEED_FUTURE_DAYS; day++) {
+    const dayStart = today + day * DAY;
+
+    for (const rotation of rotations) {
+      // Every-other-day rotations fly out on even days only
+      if (((day % rotation.periodDays) + rotation.periodDays) % rotation.periodDays !== 0) continue;
+
+      const legs = [
+        {
+          number: rotation.numbers[0],
+          from: rotation.originCode,
+          to: rotation.destinationCode,
+          departure: dayStart + rotation.outDeparture * MINUTE,
+          duration: rotation.outDuration,
+        },
+        {
+          number: rotation.numbers[1],
+          from: rotation.destinationCode,
+          to: rotation.originCode,
+          departure: dayStart + rotation.backDayOffset * DAY + rotation.backDeparture * MINUTE,
+          duration: rotation.backDuration,
+        },
+      ];
+
+      for (const leg of legs) {
+        const departureTime = new Date(leg.departure).toISOString();
+        const arrivalTime = new Date(leg.departure + leg.duration * MINUTE).toISOString();
+        const economyClassPrice = roundPrice(rotation.basePrice * (0.8 + random() * 0.5));
+        let status = deriveFlightStatus(departureTime, arrivalTime, now.getTime());
+
+        // Sprinkle a few disruptions over the upcoming schedule
+        const disruption = random();
+        if (status === FlightStatus.SCHEDULED && disruption < 0.02) {
+          status = FlightStatus.CANCELLED;
+        } else if (status === FlightStatus.SCHEDULED && disruption < 0.07) {
+          status = FlightStatus.DELAYED;
+        }
+
+        flights.push({
+          id: id++,
+          flightNumber: leg.number,
+          airplaneId: rotation.airplaneId,
+          originId: airportId(leg.from),
+          destinationId: airportId(leg.to),
+          departureTime,
+          arrivalTime,
+          status,
+          economyClassPrice,
+          businessClassPrice: roundPrice(economyClassPrice * BUSINESS_CLASS_MULTIPLIER),
+          firstClassPrice: roundPrice(economyClassPrice * FIRST_CLASS_MULTIPLIER),
+        });
+      }
+    }
+  }
+
+  return flights;
+};
+
+const seedCustomers = (random: () => number): MockUserRecord[] => {
+  const customers: MockUserRecord[] = [];
+
+  for (let index = 0; index < 40; index++) {
+    const firstName = firstNames[index % firstNames.length];
+    const lastName = lastNames[Math.floor(random() * lastNames.length)];
+    const username = `${firstName}.${lastName}${index}`.toLowerCase();
+
+    customers.push({
+      id: seedStaff.length + index + 1,
+      username,
+      password: 'password123',
+      email: `${username}@example.com`,
+      firstName,
+      lastName,
+      role: UserRole.CUSTOMER,
+      phoneNumber: `+1 555 ${String(1000 + index).padStart(4, '0')}`,
+      active: random() > 0.05,
+    });
+  }
+
+  return customers;
+};
+
+// Most seed bookings are a single traveller; some are families or couples
+const seedParty = (random: () => number, remaining: number) =>
+  Math.min(remaining, random() < 0.85 ? 1 : 2 + Math.floor(random() * 3));
+
+const seedDateOfBirth = (now: Date, random: () => number, minAge: number, maxAge: number) =>
+  new Date(now.getTime() - (minAge + random() * (maxAge - minAge)) * 365.25 * DAY).toISOString().slice(0, 10);
+
+const seedDocumentNumber = (random: () => number) =>
+  `N${String(Math.floor(random() * 1e8)).padStart(8, '0')}`;
+
+/**
+ * History a seed booking would have built up by now. Cancellations land
+ * halfway between booking and departure (or now, if that is sooner).
+ */
+const seedHistory = (
+  booking: Pick<MockBookingRecord, 'bookingDate' | 'status' | 'checkedIn'>,
+  flight: MockFlightRecord,
+  creator: Pick<User, 'firstName' | 'lastName'>,
+  now: Date
+): BookingEvent[] => {
+  const booked = new Date(booking.bookingDate).getTime();
+  const departure = new Date(flight.departureTime).getTime();
+  const history: BookingEvent[] = [
+    { type: BookingEventType.CREATED, occurredAt: booking.bookingDate, actor: `${creator.firstName} ${creator.lastName}` },
+  ];
+
+  if (booking.status === BookingStatus.CANCELLED) {
+    const cancelledAt = booked + (Math.min(departure, now.getTime()) - booked) / 2;
+    history.push({
+      type: BookingEventType.CANCELLED,
+      occurredAt: new Date(cancelledAt).toISOString(),
+      note: flight.status === FlightStatus.CANCELLED ? 'Flight cancelled' : undefined,
+    });
+  }
+  if (booking.checkedIn) {
+    history.push({ type: BookingEventType.CHECKED_IN, occurredAt: new Date(departure - 3 * HOUR).toISOString() });
+  }
+  if (booking.status === BookingStatus.COMPLETED) {
+    history.push({ type: BookingEventType.COMPLETED, occurredAt: flight.arrivalTime });
+  }
+  return history;
+};
+
+const seedBookings = (
+  now: Date,
+  random: () => number,
+  flights: MockFlightRecord[],
+  airplanes: Airplane[],
+  customers: MockUserRecord[]
+): MockBookingRecord[] => {
+  const bookings: MockBookingRecord[] = [];
+  const references = new Set<string>();
+  let id = 1;
+  let passengerId = 1;
+
+  for (const flight of flights) {
+    const airplane = airplanes.find((plane) => plane.id === flight.airplaneId)!;
+    const departure = new Date(flight.departureTime).getTime();
+    const departed = departure < now.getTime();
+
+    for (const seatClass of [SeatClass.FIRST, SeatClass.BUSINESS, SeatClass.ECONOMY]) {
+      const seats = getSeatCodes(airplane, seatClass);
+      // Flights further out have sold fewer seats
+      const daysOut = Math.max(0, (departure - now.getTime()) / DAY);
+      const loadFactor = Math.max(0.05, (0.25 + random() * 0.35) * (1 - daysOut / (SEED_FUTURE_DAYS * 1.5)));
+      let unsold = Math.floor(seats.length * loadFactor);
+
+      while (unsold > 0) {
+        const customer = customers[Math.floor(random() * customers.length)];
+        const partySize = seedParty(random, unsold);
+        unsold -= partySize;
+
+        // A party sits together, starting from a random free seat
+        const first = Math.floor(random() * (seats.length - partySize + 1));
+        const partySeats = seats.splice(first, partySize);
+        const passengers: Passenger[] = partySeats.map((seatNumber, index) => {
+          const type = index === 0 || random() < 0.5 ? PassengerType.ADULT : PassengerType.CHILD;
+          return {
+            id: String(passengerId++),
+            firstName: index === 0 ? customer.firstName : firstNames[Math.floor(random() * firstNames.length)],
+            lastName: customer.lastName,
+            dateOfBirth: type === PassengerType.ADULT ? seedDateOfBirth(now, random, 18, 70) : seedDateOfBirth(now, random, 3, 11),
+            documentNumber: seedDocumentNumber(random),
+            type,
+            seatNumber,
+            price: getPassengerFare(flight, seatClass, type),
+          };
+        });
+
+        let reference = generateBookingReference(random);
+        while (references.has(reference)) reference = generateBookingReference(random);
+        references.add(reference);
+
+        let status = departed ? BookingStatus.COMPLETED : BookingStatus.CONFIRMED;
+        if (flight.status === FlightStatus.CANCELLED || random() < 0.04) {
+          status = BookingStatus.CANCELLED;
+        }
+
+        const bookingDate = new Date(departure - (1 + random() * 40) * DAY).toISOString();
+        const createdById = random() < 0.15 ? 2 : customer.id;
+        const checkedIn = departed && status !== BookingStatus.CANCELLED;
+        const creator = seedStaff.find((user) => user.id === createdById) ?? customer;
+        bookings.push({
+          id: String(id++),
+          bookingReference: reference,
+          customerId: customer.id,
+          flightId: flight.id,
+          seatClass,
+          price: passengers.reduce((total, passenger) => total + passenger.price, 0),
+          bookingDate,
+          status,
+          createdById,
+          checkedIn,
+          passengers,
+          history: seedHistory({ bookingDate, status, checkedIn }, flight, creator, now),
+        });
+      }
+    }
+  }
+
+  return bookings;
+};
+
+export const createMockDatabase = (now = new Date()): MockDatabase => {
+  const random = createRandom(360);
+  const airports = seedAirports.map((airport) => ({ ...airport }));
+  // Each seed airplane flies the preset seat plan of its type
+  const airplanes = seedAirplanes.map((airplane) => {
+    const preset = AIRPLANE_PRESETS.find((item) => item.model === airplane.model);
+    return preset ? { ...airplane, cabinLayout: structuredClone(preset.cabinLayout) } : { ...airplane };
+  });
+  const createdAt = new Date(startOfUtcDay(now) - 180 * DAY).toISOString();
+  const users = [...seedStaff.map((user) => ({ ...user })), ...seedCustomers(random)].map((user) => ({
+    ...user,
+    createdAt,
+    updatedAt: createdAt,
+  }));
+  const flights = seedFlights(now, random);
+  const customers = users.filter((user) => user.role === UserRole.CUSTOMER && user.username !== 'customer');
+  const bookings = seedBookings(now, random, flights, airplanes, customers);
+
+  // Give the demo customer a handful of past and upcoming trips
+  const demoCustomer = users.find((user) => user.username === 'customer')!;
+  const step = Math.floor(bookings.length / 8);
+  for (let index = step >> 1; index < bookings.length; index += step) {
+    bookings[index].customerId = demoCustomer.id;
+    bookings[index].createdById = demoCustomer.id;
+    bookings[index].passengers.forEach((passenger, position) => {
+      if (position === 0) passenger.firstName = demoCustomer.firstName;
+      passenger.lastName = demoCustomer.lastName;
+    });
+  }
+
+  return {
+    airports,
+    airplanes,
+    users,
+    flights,
+    bookings,
+    seatCounts: null,
+    sequences: {
+      airport: airports.length,
+      airplane: airplanes.length,
+      user: users.length,
+      flight: flights.length,
+      booking: bookings.length,
+      passenger: bookings.reduce((total, booking) => total + booking.passengers.length, 0),
+    },
+  };
+};
+
+/**
+ * Number of seats held by non-cancelled bookings in one cabin of a flight.
+ */
+export const countBookedSeats = (db: MockDatabase, flightId: number, seatClass: SeatClass): number => {
+  if (!db.seatCounts) {
+    db.seatCounts = new Map();
+    for (const booking of db.bookings) {
+      if (booking.status === BookingStatus.CANCELLED) continue;
+      let counts = db.seatCounts.get(booking.flightId);
+      if (!counts) {
+        counts = { [SeatClass.FIRST]: 0, [SeatClass.BUSINESS]: 0, [SeatClass.ECONOMY]: 0 };
+        db.seatCounts.set(booking.flightId, counts);
+      }
+      counts[booking.seatClass] += booking.passengers.length;
+    }
+  }
+
+  return db.seatCounts.get(flightId)?.[seatClass] ?? 0;
+};
+
+// Serializers turn table rows into the DTOs the real backend returns
+
+export const toUser = (record: MockUserRecord): User => {
+  const user: Partial<MockUserRecord> = { ...record };
+  delete user.password;
+  return user as User;
+};
+
+export const toFlight = (db: MockDatabase, record: MockFlightRecord): Flight => {
+  const airplane = db.airplanes.find((plane) => plane.id === record.airplaneId);
+  const available = (seatClass: SeatClass) =>
+    airplane ? Math.max(0, getCabinCapacity(airplane, seatClass) - countBookedSeats(db, record.id, seatClass)) : 0;
+
+  return {
+    id: record.id,
+    flightNumber: record.flightNumber,
+    airplaneModel: airplane?.model ?? 'Unknown',
+    airplaneRegistration: airplane?.registrationNumber ?? 'Unknown',
+    originAirport: db.airports.find((airport) => airport.id === record.originId)!,
+    destinationAirport: db.airports.find((airport) => airport.id === record.destinationId)!,
+    departureTime: record.departureTime,
+    arrivalTime: record.arrivalTime,
+    status: record.status,
+    firstClassPrice: record.firstClassPrice,
+    businessClassPrice: record.businessClassPrice,
+    economyClassPrice: record.economyClassPrice,
+    firstClassAvailableSeats: available(SeatClass.FIRST),
+    businessClassAvailableSeats: available(SeatClass.BUSINESS),
+    economyClassAvailableSeats: available(SeatClass.ECONOMY),
+  };
+};
+
+export const toBooking = (db: MockDatabase, record: MockBookingRecord): Booking => {
+  const customer = db.users.find((user) => user.id === record.customerId)!;
+  const createdBy = db.users.find((user) => user.id === record.createdById) ?? customer;
+  const flight = db.flights.find((item) => item.id === record.flightId)!;
+
+  return {
+    id: record.id,
+    bookingReference: record.bookingReference,
+    customer: toUser(customer),
+    flight: toFlight(db, flight),
+    seatClass: record.seatClass,
+    seatNumber: record.passengers[0]?.seatNumber ?? '',
+    price: record.price,
+    bookingDate: record.bookingDate,
+    status: record.status,
+    createdBy: toUser(createdBy),
+    checkedIn: record.checkedIn,
+    passengers: record.passengers.map((passenger) => ({ ...passenger })),
+    history: record.history.map((event) => ({ ...event })),
+  };
+};
@@ -0,0 +1,104 @@
+import { UserRole } from '@/types';
+import type { ApiResponse, PaginatedResponse } from '@/types';
+import type { MockDatabase, MockUserRecord } from './mockDatabase';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface MockRequest {
+  db: MockDatabase;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: Record<string, unknown>;
+  user: MockUserRecord | null;
+  token: string | null;
+}
+
+export interface MockRoute {
+  method: HttpMethod;
+  path: string;
+  // Routes without roles are public; an empty list means any signed-in user
+  roles?: UserRole[];
+  handler: (request: MockRequest) => unknown;
+}
+
+export const anyUser: UserRole[] = [];
+export const staffOnly = [UserRole.OPERATOR, UserRole.ADMINISTRATOR];
+export const adminOnly = [UserRole.ADMINISTRATOR];
+
+/**
+ * Thrown by route handlers to answer with a non-2xx status.
+ */
+export class MockHttpError extends Error {
+  readonly status: number;
+  readonly errors?: string[];
+
+  constructor(status: number, message: string, errors?: string[]) {
+    super(message);
+    this.status = status;
+    this.errors = errors;
+  }
+}
+
+// Tokens expire quickly so the silent refresh flow gets exercised in mock mode
+const TOKEN_TTL_MS = 30 * 60 * 1000;
+const TOKEN_PREFIX = 'mock-token';
+
+export const issueMockToken = (userId: number): string =>
+  `${TOKEN_PREFIX}.${userId}.${Date.now() + TOKEN_TTL_MS}`;
+
+export const parseMockToken = (token: string): { userId: number; expiresAt: number } | null => {
+  const [prefix, userId, expiresAt] = token.split('.');
+  if (prefix !== TOKEN_PREFIX || !userId || !expiresAt) return null;
+  return { userId: Number(userId), expiresAt: Number(expiresAt) };
+};
+
+// Response envelopes matching the Spring backend
+
+export const ok = <T>(data: T, message?: string): ApiResponse<T> => ({
+  success: true,
+  data,
+  message,
+});
+
+/**
+ * Slices a page out of a list using the shared list contract: `page` is
+ * 1-based and `size` is the page length.
+ */
+export const paginate = <T>(items: T[], query: Record<string, string>): PaginatedResponse<T> => {
+  const size = Math.max(1, Number(query.size) || 10);
+  const page = Math.max(1, Number(query.page) || 1);
+  const start = (page - 1) * size;
+
+  return {
+    success: true,
+    data: items.slice(start, start + size),
+    pagination: { page, size, total: items.length },
+  };
+};
+
+/**
+ * Orders records by a `sort=field,direction` query param. Items keep their
+ * current order when no sort is requested.
+ */
+export const sortRecords = <T extends object>(items: T[], sort: string | undefined): T[] => {
+  if (!sort) return items;
+  const [field, direction] = sort.split(',');
+  const sign = direction === 'desc' ? -1 : 1;
+  const read = (item: T) => (item as Record<string, unknown>)[field];
+
+  return [...items].sort((a, b) => {
+    const left = read(a);
+    const right = read(b);
+    if (typeof left === 'number' && typeof right === 'number') return (left - right) * sign;
+    return String(left ?? '').localeCompare(String(right ?? ''), undefined, { numeric: true }) * sign;
+  });
+};
+
+export const notFound = (entity: string): MockHttpError =>
+  new MockHttpError(404, `${entity} not found`);
+
+export const badRequest = (message: string, errors?: string[]): MockHttpError =>
+  new MockHttpError(400, message, errors);
+
+export const conflict = (message: string, errors?: string[]): MockHttpError =>
+  new MockHttpError(409, message, errors);
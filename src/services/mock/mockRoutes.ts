@@ -0,0 +1,1859 @@
+import {
+  AirplaneCapacity,
+  BookingEventType,
+  BookingStatus,
+  FlightStatus,
+  PassengerType,
+  SeatClass,
+  UserRole,
+} from '@/types';
+import type {
+  Airplane,
+  Airport,
+  AirportFlightReport,
+  BookingStatistics,
+  BookingWithPassenger,
+  CabinLayout,
+  CreateFlightForm,
+  Flight,
+  FlightSearchCriteria,
+  FlightSearchResult,
+  FlightStatistics,
+  Passenger,
+  PassengerManifest,
+  RevenueReport,
+  TransitFlightOption,
+} from '@/types';
+import {
+  countBookedSeats,
+  generateBookingReference,
+  getBookingSeats,
+  getCabinCapacity,
+  getCabinPrice,
+  getPassengerFare,
+  getSeatCodes,
+  toBooking,
+  toFlight,
+  toUser,
+} from './mockDatabase';
+import type { MockBookingRecord, MockDatabase, MockFlightRecord, MockUserRecord } from './mockDatabase';
+import {
+  MockHttpError,
+  adminOnly,
+  anyUser,
+  badRequest,
+  conflict,
+  issueMockToken,
+  notFound,
+  ok,
+  paginate,
+  parseMockToken,
+  sortRecords,
+  staffOnly,
+} from './mockHttp';
+import type { MockRoute } from './mockHttp';
+import { getAirplaneCabinLayout, getLayoutCapacities, validateCabinLayout } from '@/lib/cabinLayout';
+import { getPassengerType, validatePassengerMix } from '@/lib/passengers';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Scheduling and booking rules enforced by the mock backend
+const MIN_TURNAROUND_MS = 45 * MINUTE;
+const MIN_CONNECTION_MS = 40 * MINUTE;
+const MAX_CONNECTION_MS = 24 * HOUR;
+const MAX_TRANSIT_LEGS = 3;
+const CHECK_IN_WINDOW_MS = 24 * HOUR;
+const REFRESH_GRACE_MS = 7 * DAY;
+const TAX_RATE = 0.12;
+
+const seatClasses = [SeatClass.FIRST, SeatClass.BUSINESS, SeatClass.ECONOMY];
+const passengerTypes = [PassengerType.ADULT, PassengerType.CHILD, PassengerType.INFANT];
+const bookableStatuses = [FlightStatus.SCHEDULED, FlightStatus.DELAYED, FlightStatus.BOARDING];
+
+// Lookups
+
+const findAirport = (db: MockDatabase, idOrCode: string): Airport | undefined =>
+  db.airports.find(
+    (airport) => airport.id === idOrCode || airport.code.toUpperCase() === idOrCode.toUpperCase()
+  );
+
+const findAirplane = (db: MockDatabase, id: string): Airplane | undefined =>
+  db.airplanes.find((airplane) => airplane.id === id);
+
+const findFlight = (db: MockDatabase, id: string | number): MockFlightRecord => {
+  const flight = db.flights.find((item) => item.id === Number(id));
+  if (!flight) throw notFound('Flight');
+  return flight;
+};
+
+const findBooking = (db: MockDatabase, id: string): MockBookingRecord => {
+  const booking = db.bookings.find((item) => item.id === id);
+  if (!booking) throw notFound('Booking');
+  return booking;
+};
+
+const findUser = (db: MockDatabase, id: string | number): MockUserRecord => {
+  const user = db.users.find((item) => item.id === Number(id));
+  if (!user) throw notFound('User');
+  return user;
+};
+
+const recordBookingEvent = (
+  booking: MockBookingRecord,
+  type: BookingEventType,
+  user: MockUserRecord | null,
+  note?: string
+) => {
+  booking.history.push({
+    type,
+    occurredAt: new Date().toISOString(),
+    actor: user ? `${user.firstName} ${user.lastName}` : undefined,
+    note: note || undefined,
+  });
+};
+
+const isStaff = (user: MockUserRecord | null) =>
+  user?.role === UserRole.OPERATOR || user?.role === UserRole.ADMINISTRATOR;
+
+/**
+ * Customers may only touch their own bookings.
+ */
+const assertCanAccessBooking = (user: MockUserRecord | null, booking: MockBookingRecord) => {
+  if (!isStaff(user) && booking.customerId !== user?.id) {
+    throw new MockHttpError(403, 'You do not have access to this booking');
+  }
+};
+
+const parseSeatClass = (value: unknown): SeatClass => {
+  const seatClass = String(value ?? '').toUpperCase() as SeatClass;
+  if (!seatClasses.includes(seatClass)) throw badRequest(`Unknown seat class: ${String(value)}`);
+  return seatClass;
+};
+
+const time = (iso: string) => new Date(iso).getTime();
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the given IANA time zone.
+ */
+const localDate = (iso: string, timeZone: string) =>
+  new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date(iso));
+
+const byDeparture = (a: MockFlightRecord, b: MockFlightRecord) => time(a.departureTime) - time(b.departureTime);
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const activeBookings = (db: MockDatabase, flightId: number, seatClass?: SeatClass) =>
+  db.bookings.filter(
+    (booking) =>
+      booking.flightId === flightId &&
+      booking.status !== BookingStatus.CANCELLED &&
+      (!seatClass || booking.seatClass === seatClass)
+  );
+
+// Flight scheduling rules
+
+const toFlightForm = (record: MockFlightRecord): CreateFlightForm => ({
+  flightNumber: record.flightNumber,
+  airplaneId: record.airplaneId,
+  originId: record.originId,
+  destinationId: record.destinationId,
+  departureTime: record.departureTime,
+  arrivalTime: record.arrivalTime,
+  firstClassPrice: record.firstClassPrice,
+  businessClassPrice: record.businessClassPrice,
+  economyClassPrice: record.economyClassPrice,
+});
+
+const readFlightForm = (body: Record<string, unknown>): CreateFlightForm => ({
+  flightNumber: String(body.flightNumber ?? '').trim().toUpperCase(),
+  airplaneId: String(body.airplaneId ?? ''),
+  originId: String(body.originId ?? ''),
+  destinationId: String(body.destinationId ?? ''),
+  departureTime: String(body.departureTime ?? ''),
+  arrivalTime: String(body.arrivalTime ?? ''),
+  firstClassPrice: Number(body.firstClassPrice ?? 0),
+  businessClassPrice: Number(body.businessClassPrice ?? 0),
+  economyClassPrice: Number(body.economyClassPrice ?? 0),
+});
+
+/**
+ * Problems that would stop a flight from being scheduled. `ignoreFlightId`
+ * excludes the flight being edited from the overlap checks.
+ */
+const findScheduleConflicts = (db: MockDatabase, form: CreateFlightForm, ignoreFlightId?: number): string[] => {
+  const conflicts: string[] = [];
+  const departure = time(form.departureTime);
+  const arrival = time(form.arrivalTime);
+
+  if (!/^[A-Z0-9]{2}\d{1,4}[A-Z]?$/.test(form.flightNumber)) {
+    conflicts.push('Flight number must be an airline code followed by 1-4 digits');
+  }
+  if (!findAirport(db, form.originId)) conflicts.push('Origin airport does not exist');
+  if (!findAirport(db, form.destinationId)) conflicts.push('Destination airport does not exist');
+  if (form.originId === form.destinationId) conflicts.push('Origin and destination must be different airports');
+  if (Number.isNaN(departure) || Number.isNaN(arrival)) {
+    conflicts.push('Departure and arrival times must be valid dates');
+    return conflicts;
+  }
+  if (arrival <= departure) conflicts.push('Arrival time must be after departure time');
+  if ([form.firstClassPrice, form.businessClassPrice, form.economyClassPrice].some((price) => price < 0)) {
+    conflicts.push('Prices cannot be negative');
+  }
+
+  const airplane = findAirplane(db, form.airplaneId);
+  if (!airplane) {
+    conflicts.push('Airplane does not exist');
+  } else if (!airplane.active) {
+    conflicts.push(`Airplane ${airplane.registrationNumber} is not active`);
+  }
+
+  for (const other of db.flights) {
+    if (other.id === ignoreFlightId || other.status === FlightStatus.CANCELLED) continue;
+
+    if (
+      airplane &&
+      other.airplaneId === airplane.id &&
+      departure < time(other.arrivalTime) + MIN_TURNAROUND_MS &&
+      time(other.departureTime) < arrival + MIN_TURNAROUND_MS
+    ) {
+      const origin = findAirport(db, other.originId)?.code;
+      const destination = findAirport(db, other.destinationId)?.code;
+      conflicts.push(
+        `Airplane ${airplane.registrationNumber} is already assigned to ${other.flightNumber} ` +
+          `(${origin} → ${destination}, ${other.departureTime} – ${other.arrivalTime})`
+      );
+    }
+
+    if (
+      other.flightNumber === form.flightNumber &&
+      other.departureTime.slice(0, 10) === new Date(departure).toISOString().slice(0, 10)
+    ) {
+      conflicts.push(`Flight ${form.flightNumber} already operates on ${other.departureTime.slice(0, 10)}`);
+    }
+  }
+
+  return conflicts;
+};
+
+/**
+ * Cabin sizes may not shrink below the seats already sold on upcoming flights.
+ */
+const findCapacityConflicts = (db: MockDatabase, airplane: Airplane, flightIds: number[]): string[] =>
+  flightIds.flatMap((flightId) => {
+    const flight = findFlight(db, flightId);
+    return seatClasses
+      .filter((seatClass) => countBookedSeats(db, flightId, seatClass) > getCabinCapacity(airplane, seatClass))
+      .map(
+        (seatClass) =>
+          `${flight.flightNumber} on ${flight.departureTime.slice(0, 10)} has more ${seatClass.toLowerCase()} ` +
+          `bookings than ${airplane.registrationNumber} has seats`
+      );
+  });
+
+const upcomingFlightIds = (db: MockDatabase, airplaneId: string) =>
+  db.flights
+    .filter(
+      (flight) =>
+        flight.airplaneId === airplaneId &&
+        flight.status !== FlightStatus.CANCELLED &&
+        time(flight.departureTime) > Date.now()
+    )
+    .map((flight) => flight.id);
+
+/**
+ * After a layout change or an airplane swap, passengers whose seat no longer
+ * exists move to the first free seats of their cabin.
+ */
+const reseatDisplacedPassengers = (db: MockDatabase, airplane: Airplane, flightIds: number[]) =>
+  flightIds.forEach((flightId) =>
+    seatClasses.forEach((seatClass) => {
+      const seats = getSeatCodes(airplane, seatClass);
+      const valid = new Set(seats);
+      const kept = new Set<string>();
+      const displaced = activeBookings(db, flightId, seatClass).flatMap((booking) =>
+        booking.passengers
+          .filter((passenger) => {
+            if (!valid.has(passenger.seatNumber) || kept.has(passenger.seatNumber)) return true;
+            kept.add(passenger.seatNumber);
+            return false;
+          })
+          .map((passenger) => ({ booking, passenger }))
+      );
+      const free = seats.filter((seat) => !kept.has(seat));
+      displaced.forEach(({ booking, passenger }) => {
+        const previous = passenger.seatNumber;
+        passenger.seatNumber = free.shift() ?? '';
+        recordBookingEvent(
+          booking,
+          BookingEventType.SEAT_CHANGED,
+          null,
+          `${passenger.firstName} ${passenger.lastName}: ${previous} → ${passenger.seatNumber} (cabin changed)`
+        );
+      });
+    })
+  );
+
+// Search
+
+const isBookable = (db: MockDatabase, flight: MockFlightRecord, seatClass: SeatClass | undefined, passengers: number) => {
+  if (!bookableStatuses.includes(flight.status) || time(flight.departureTime) <= Date.now()) return false;
+  const airplane = findAirplane(db, flight.airplaneId);
+  if (!airplane) return false;
+
+  const classes = seatClass ? [seatClass] : seatClasses;
+  return classes.some(
+    (cabin) => getCabinCapacity(airplane, cabin) - countBookedSeats(db, flight.id, cabin) >= passengers
+  );
+};
+
+// Search criteria from a request body, or from query params mapped onto the same names
+const readSearchCriteria = (values: Record<string, unknown>): FlightSearchCriteria => ({
+  originAirportId: Number(values.originAirportId ?? 0),
+  destinationAirportId: Number(values.destinationAirportId ?? 0),
+  departureDate: String(values.departureDate ?? ''),
+  seatClass: values.seatClass ? parseSeatClass(values.seatClass) : undefined,
+  passengers: Number(values.passengers ?? 1),
+  includeTransit: values.includeTransit === true || values.includeTransit === 'true',
+});
+
+const searchFlights = (db: MockDatabase, criteria: FlightSearchCriteria): FlightSearchResult => {
+  const origin = findAirport(db, String(criteria.originAirportId ?? ''));
+  const destination = findAirport(db, String(criteria.destinationAirportId ?? ''));
+  if (!origin || !destination) throw badRequest('Origin and destination airports are required');
+  if (!criteria.departureDate) throw badRequest('Departure date is required');
+
+  const seatClass = criteria.seatClass;
+  const passengers = Math.max(1, criteria.passengers || 1);
+  const candidates = db.flights
+    .filter((flight) => isBookable(db, flight, seatClass, passengers))
+    .sort(byDeparture);
+
+  const departsOnDate = (flight: MockFlightRecord) =>
+    flight.originId === origin.id && localDate(flight.departureTime, origin.timeZone) === criteria.departureDate;
+
+  const directFlights = candidates
+    .filter((flight) => departsOnDate(flight) && flight.destinationId === destination.id)
+    .map((flight) => toFlight(db, flight));
+
+  const transitFlights: TransitFlightOption[] = [];
+
+  if (criteria.includeTransit) {
+    // Depth-first walk over connections that respect the connection window
+    const extend = (legs: MockFlightRecord[]) => {
+      const last = legs[legs.length - 1];
+      if (last.destinationId === destination.id) {
+        if (legs.length > 1) {
+          const flights = legs.map((leg) => toFlight(db, leg));
+          transitFlights.push({
+            id: legs.map((leg) => leg.id).join('-'),
+            totalDuration: time(last.arrivalTime) - time(legs[0].departureTime),
+            totalPrice: legs.reduce((sum, leg) => sum + getCabinPrice(leg, seatClass ?? SeatClass.ECONOMY), 0),
+            flights,
+            transitAirports: flights.slice(0, -1).map((flight) => flight.destinationAirport),
+          });
+        }
+        return;
+      }
+      if (legs.length >= MAX_TRANSIT_LEGS) return;
+
+      const visited = new Set(legs.map((leg) => leg.originId));
+      for (const next of candidates) {
+        const layover = time(next.departureTime) - time(last.arrivalTime);
+        if (
+          next.originId === last.destinationId &&
+          !visited.has(next.destinationId) &&
+          layover >= MIN_CONNECTION_MS &&
+          layover <= MAX_CONNECTION_MS
+        ) {
+          extend([...legs, next]);
+        }
+      }
+    };
+
+    candidates
+      .filter((flight) => departsOnDate(flight) && flight.destinationId !== destination.id)
+      .forEach((flight) => extend([flight]));
+
+    transitFlights.sort((a, b) => a.totalDuration - b.totalDuration);
+  }
+
+  return { directFlights, transitFlights };
+};
+
+// Bookings
+
+type PassengerDetails = Omit<Passenger, 'id'>;
+
+interface BookingValidation {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  pricing?: {
+    basePrice: number;
+    taxes: number;
+    totalPrice: number;
+  };
+  flight?: MockFlightRecord;
+  customer?: MockUserRecord;
+  seatClass?: SeatClass;
+  passengers?: PassengerDetails[];
+}
+
+const passengerTypeArticles: Record<PassengerType, string> = {
+  [PassengerType.ADULT]: 'an adult',
+  [PassengerType.CHILD]: 'a child',
+  [PassengerType.INFANT]: 'an infant',
+};
+
+/**
+ * Applies the booking rules: the flight must still be open, the cabin must
+ * have a free seat for every passenger, requested seats must exist and be
+ * unoccupied, and the party must be a valid mix of passenger types.
+ */
+const validateBooking = (db: MockDatabase, body: Record<string, unknown>, user: MockUserRecord | null): BookingValidation => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const flight = db.flights.find((item) => item.id === Number(body.flightId));
+  if (!flight) return { valid: false, errors: ['Flight not found'], warnings };
+
+  const seatClass = seatClasses.find((cabin) => cabin === String(body.seatClass ?? '').toUpperCase());
+  if (!seatClass) return { valid: false, errors: ['A valid seat class is required'], warnings };
+
+  // Customers always book for themselves; staff book on behalf of a customer
+  const customerId = isStaff(user) && body.customerId ? Number(body.customerId) : user?.id;
+  const customer = db.users.find((item) => item.id === customerId);
+  if (!customer) {
+    errors.push('Customer not found');
+  } else if (!customer.active) {
+    errors.push('Customer account is inactive');
+  }
+
+  if (!bookableStatuses.includes(flight.status)) {
+    errors.push(`Flight ${flight.flightNumber} is ${flight.status.toLowerCase()} and can no longer be booked`);
+  } else if (time(flight.departureTime) <= Date.now()) {
+    errors.push(`Flight ${flight.flightNumber} has already departed`);
+  }
+
+  // Without passenger details the customer travels alone as an adult
+  const hasPassengerList = Array.isArray(body.passengers) && body.passengers.length > 0;
+  const requested = (hasPassengerList
+    ? body.passengers
+    : [
+        {
+          firstName: customer?.firstName,
+          lastName: customer?.lastName,
+          type: PassengerType.ADULT,
+          seatNumber: body.seatNumber,
+        },
+      ]) as Record<string, unknown>[];
+
+  const passengers = requested.map((passenger, index) => {
+    const label = `Passenger ${index + 1}`;
+    const firstName = String(passenger.firstName ?? '').trim();
+    const lastName = String(passenger.lastName ?? '').trim();
+    const dateOfBirth = String(passenger.dateOfBirth ?? '');
+    const documentNumber = String(passenger.documentNumber ?? '').trim().toUpperCase();
+    const type = passengerTypes.find((item) => item === String(passenger.type ?? '').toUpperCase());
+
+    if (!firstName || !lastName) errors.push(`${label} needs a first and last name`);
+    if (!type) errors.push(`${label} has an unknown passenger type`);
+    if (hasPassengerList && !documentNumber) errors.push(`${label} needs a travel document number`);
+    if (hasPassengerList && Number.isNaN(Date.parse(dateOfBirth))) {
+      errors.push(`${label} needs a valid date of birth`);
+    } else if (dateOfBirth && type && time(dateOfBirth) > time(flight.departureTime)) {
+      errors.push(`${label} has a date of birth after the flight`);
+    } else if (dateOfBirth && type && getPassengerType(dateOfBirth, flight.departureTime) !== type) {
+      errors.push(`${label} is not ${passengerTypeArticles[type]} on the day of travel`);
+    }
+
+    return {
+      firstName,
+      lastName,
+      dateOfBirth,
+      documentNumber,
+      type: type ?? PassengerType.ADULT,
+      seatNumber: passenger.seatNumber ? String(passenger.seatNumber).toUpperCase() : undefined,
+    };
+  });
+  errors.push(...validatePassengerMix(passengers.map((passenger) => passenger.type)));
+
+  const airplane = findAirplane(db, flight.airplaneId)!;
+  const seats = getSeatCodes(airplane, seatClass);
+  const taken = new Set(activeBookings(db, flight.id, seatClass).flatMap(getBookingSeats));
+  const available = seats.length - taken.size;
+
+  if (available <= 0) {
+    errors.push(`No ${seatClass.toLowerCase()} class seats left on ${flight.flightNumber}`);
+  } else if (available < passengers.length) {
+    errors.push(`Only ${available} ${seatClass.toLowerCase()} class seats left on ${flight.flightNumber}`);
+  } else if (available <= 5) {
+    warnings.push(`Only ${available} ${seatClass.toLowerCase()} class seats left`);
+  }
+
+  const claimed = new Set<string>();
+  passengers.forEach(({ seatNumber }) => {
+    if (!seatNumber) return;
+    if (!seats.includes(seatNumber)) {
+      errors.push(`Seat ${seatNumber} is not in the ${seatClass.toLowerCase()} cabin`);
+    } else if (taken.has(seatNumber)) {
+      errors.push(`Seat ${seatNumber} is already taken`);
+    } else if (claimed.has(seatNumber)) {
+      errors.push(`Seat ${seatNumber} is requested for more than one passenger`);
+    }
+    claimed.add(seatNumber);
+  });
+
+  // Passengers without a preference get the next free seats, which keeps a party together
+  const freeSeats = seats.filter((seat) => !taken.has(seat) && !claimed.has(seat));
+  const seated: PassengerDetails[] = passengers.map((passenger) => ({
+    ...passenger,
+    seatNumber: passenger.seatNumber ?? freeSeats.shift() ?? '',
+    price: getPassengerFare(flight, seatClass, passenger.type),
+  }));
+
+  if (customer && activeBookings(db, flight.id).some((booking) => booking.customerId === customer.id)) {
+    warnings.push(`${customer.firstName} ${customer.lastName} already has a booking on this flight`);
+  }
+  if (time(flight.departureTime) - Date.now() < DAY) {
+    warnings.push('Flight departs within 24 hours');
+  }
+
+  const basePrice = round2(seated.reduce((total, passenger) => total + passenger.price, 0));
+  const taxes = round2(basePrice * TAX_RATE);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    pricing: { basePrice, taxes, totalPrice: round2(basePrice + taxes) },
+    flight,
+    customer,
+    seatClass,
+    passengers: seated,
+  };
+};
+
+const toPassengerRecords = (db: MockDatabase, passengers: PassengerDetails[]): Passenger[] =>
+  passengers.map((passenger) => ({ ...passenger, id: String(++db.sequences.passenger) }));
+
+const invalidateSeatCounts = (db: MockDatabase) => {
+  db.seatCounts = null;
+};
+
+const cancelBookingRecord = (
+  db: MockDatabase,
+  booking: MockBookingRecord,
+  user: MockUserRecord | null,
+  reason?: string
+) => {
+  if (booking.status === BookingStatus.CANCELLED) throw conflict('Booking is already cancelled');
+  if (booking.status === BookingStatus.COMPLETED) throw conflict('Completed bookings cannot be cancelled');
+  booking.status = BookingStatus.CANCELLED;
+  booking.checkedIn = false;
+  recordBookingEvent(booking, BookingEventType.CANCELLED, user, reason);
+  invalidateSeatCounts(db);
+};
+
+const confirmBookingRecord = (db: MockDatabase, booking: MockBookingRecord, user: MockUserRecord | null) => {
+  if (booking.status === BookingStatus.CONFIRMED) return;
+  if (booking.status === BookingStatus.COMPLETED) throw conflict('Completed bookings cannot be re-confirmed');
+
+  const flight = findFlight(db, booking.flightId);
+  const taken = new Set(activeBookings(db, flight.id, booking.seatClass).flatMap(getBookingSeats));
+  const seatTaken = getBookingSeats(booking).find((seatNumber) => taken.has(seatNumber));
+  if (seatTaken) throw conflict(`Seat ${seatTaken} has been taken by another booking`);
+  if (!bookableStatuses.includes(flight.status) || time(flight.departureTime) <= Date.now()) {
+    throw conflict(`Flight ${flight.flightNumber} can no longer be booked`);
+  }
+
+  booking.status = BookingStatus.CONFIRMED;
+  recordBookingEvent(booking, BookingEventType.CONFIRMED, user);
+  invalidateSeatCounts(db);
+};
+
+const filterBookings = (db: MockDatabase, query: Record<string, string>, records = db.bookings) => {
+  const search = query.search?.toLowerCase();
+  const matchesSearch = (booking: MockBookingRecord) => {
+    const customer = db.users.find((user) => user.id === booking.customerId);
+    const flight = db.flights.find((item) => item.id === booking.flightId);
+    return [
+      booking.bookingReference,
+      flight?.flightNumber,
+      customer?.email,
+      customer && `${customer.firstName} ${customer.lastName}`,
+      ...booking.passengers.flatMap((passenger) => [
+        passenger.seatNumber,
+        `${passenger.firstName} ${passenger.lastName}`,
+      ]),
+    ].some((field) => field?.toLowerCase().includes(search!));
+  };
+
+  return records
+    .filter((booking) => !query.status || booking.status === query.status)
+    .filter((booking) => !query.seatClass || booking.seatClass === query.seatClass)
+    .filter((booking) => !query.customerId || booking.customerId === Number(query.customerId))
+    .filter((booking) => !query.flightId || booking.flightId === Number(query.flightId))
+    .filter((booking) => !query.startDate || booking.bookingDate.slice(0, 10) >= query.startDate)
+    .filter((booking) => !query.endDate || booking.bookingDate.slice(0, 10) <= query.endDate)
+    .filter((booking) => !search || matchesSearch(booking))
+    .sort((a, b) => time(b.bookingDate) - time(a.bookingDate));
+};
+
+const paginateBookings = (db: MockDatabase, records: MockBookingRecord[], query: Record<string, string>) => {
+  const page = paginate(sortRecords(records, query.sort), query);
+  return { ...page, data: page.data.map((booking) => toBooking(db, booking)) };
+};
+
+// Reports
+
+type GroupBy = 'day' | 'week' | 'month';
+
+const periodKey = (iso: string, groupBy: GroupBy) => {
+  const date = new Date(iso);
+  if (groupBy === 'month') return iso.slice(0, 7);
+  if (groupBy === 'week') {
+    // Weeks start on Monday
+    const offset = (date.getUTCDay() + 6) % 7;
+    return new Date(date.getTime() - offset * DAY).toISOString().slice(0, 10);
+  }
+  return iso.slice(0, 10);
+};
+
+const readDateRange = (query: Record<string, string>, defaultDays: number) => {
+  const endDate = query.endDate ?? new Date().toISOString().slice(0, 10);
+  const startDate =
+    query.startDate ?? new Date(time(`${endDate}T00:00:00Z`) - (defaultDays - 1) * DAY).toISOString().slice(0, 10);
+  return { startDate, endDate };
+};
+
+const readGroupBy = (value?: string): GroupBy =>
+  value === 'week' || value === 'month' ? value : 'day';
+
+const routeLabel = (db: MockDatabase, flight: MockFlightRecord) => ({
+  origin: findAirport(db, flight.originId)?.code ?? flight.originId,
+  destination: findAirport(db, flight.destinationId)?.code ?? flight.destinationId,
+});
+
+const periodDays: Record<string, number> = { today: 1, week: 7, month: 30, year: 365 };
+
+const buildFlightStatistics = (db: MockDatabase, period = 'month'): FlightStatistics => {
+  const days = periodDays[period] ?? periodDays.month;
+  const { startDate, endDate } = readDateRange({}, days);
+  const flights = db.flights.filter((flight) => {
+    const date = flight.departureTime.slice(0, 10);
+    return date >= startDate && date <= endDate;
+  });
+
+  const flightsByStatus = Object.values(FlightStatus).reduce(
+    (counts, status) => ({ ...counts, [status]: 0 }),
+    {} as Record<FlightStatus, number>
+  );
+  flights.forEach((flight) => {
+    flightsByStatus[flight.status]++;
+  });
+
+  const operated = flights.filter((flight) => flight.status !== FlightStatus.CANCELLED);
+  const routes = new Map<string, { origin: string; destination: string; flights: number; sold: number; seats: number }>();
+
+  for (const flight of operated) {
+    const airplane = findAirplane(db, flight.airplaneId);
+    if (!airplane) continue;
+    const label = routeLabel(db, flight);
+    const key = `${label.origin}-${label.destination}`;
+    const entry = routes.get(key) ?? { ...label, flights: 0, sold: 0, seats: 0 };
+    entry.flights++;
+    entry.seats += airplane.totalCapacity;
+    entry.sold += seatClasses.reduce((sum, seatClass) => sum + countBookedSeats(db, flight.id, seatClass), 0);
+    routes.set(key, entry);
+  }
+
+  const totals = [...routes.values()].reduce(
+    (sum, route) => ({ sold: sum.sold + route.sold, seats: sum.seats + route.seats }),
+    { sold: 0, seats: 0 }
+  );
+
+  return {
+    period,
+    startDate,
+    endDate,
+    totalFlights: flights.length,
+    flightsByStatus,
+    onTimePercentage: operated.length
+      ? round2((operated.filter((flight) => flight.status !== FlightStatus.DELAYED).length / operated.length) * 100)
+      : 100,
+    averageLoadFactor: totals.seats ? round2(totals.sold / totals.seats) : 0,
+    routes: [...routes.values()]
+      .map(({ origin, destination, flights: count, sold, seats }) => ({
+        origin,
+        destination,
+        flights: count,
+        loadFactor: seats ? round2(sold / seats) : 0,
+      }))
+      .sort((a, b) => b.loadFactor - a.loadFactor),
+  };
+};
+
+const buildBookingStatistics = (db: MockDatabase, query: Record<string, string>): BookingStatistics => {
+  const { startDate, endDate } = readDateRange(query, 30);
+  const groupBy = readGroupBy(query.groupBy);
+  const bookings = filterBookings(db, { startDate, endDate });
+  const revenueBookings = bookings.filter((booking) => booking.status !== BookingStatus.CANCELLED);
+  const totalRevenue = round2(revenueBookings.reduce((sum, booking) => sum + booking.price, 0));
+
+  const timeline = new Map<string, { period: string; bookings: number; cancellations: number; revenue: number }>();
+  for (const booking of bookings) {
+    const period = periodKey(booking.bookingDate, groupBy);
+    const entry = timeline.get(period) ?? { period, bookings: 0, cancellations: 0, revenue: 0 };
+    entry.bookings++;
+    if (booking.status === BookingStatus.CANCELLED) {
+      entry.cancellations++;
+    } else {
+      entry.revenue = round2(entry.revenue + booking.price);
+    }
+    timeline.set(period, entry);
+  }
+
+  const countStatus = (status: BookingStatus) => bookings.filter((booking) => booking.status === status).length;
+
+  return {
+    startDate,
+    endDate,
+    groupBy,
+    totalBookings: bookings.length,
+    confirmedBookings: countStatus(BookingStatus.CONFIRMED),
+    cancelledBookings: countStatus(BookingStatus.CANCELLED),
+    completedBookings: countStatus(BookingStatus.COMPLETED),
+    totalRevenue,
+    averageBookingValue: revenueBookings.length ? round2(totalRevenue / revenueBookings.length) : 0,
+    timeline: [...timeline.values()].sort((a, b) => a.period.localeCompare(b.period)),
+  };
+};
+
+const buildRevenueReport = (db: MockDatabase, query: Record<string, string>): RevenueReport => {
+  const { startDate, endDate } = readDateRange(query, 30);
+  const groupBy = readGroupBy(query.groupBy);
+  const bookings = filterBookings(db, { startDate, endDate }).filter(
+    (booking) => booking.status !== BookingStatus.CANCELLED
+  );
+
+  const byClass = seatClasses.map((seatClass) => {
+    const inClass = bookings.filter((booking) => booking.seatClass === seatClass);
+    return {
+      seatClass,
+      revenue: round2(inClass.reduce((sum, booking) => sum + booking.price, 0)),
+      bookings: inClass.length,
+    };
+  });
+
+  const routes = new Map<string, { origin: string; destination: string; revenue: number; bookings: number }>();
+  const periods = new Map<string, { period: string; revenue: number; bookings: number }>();
+
+  for (const booking of bookings) {
+    const label = routeLabel(db, findFlight(db, booking.flightId));
+    const routeKey = `${label.origin}-${label.destination}`;
+    const route = routes.get(routeKey) ?? { ...label, revenue: 0, bookings: 0 };
+    route.revenue = round2(route.revenue + booking.price);
+    route.bookings++;
+    routes.set(routeKey, route);
+
+    const period = periodKey(booking.bookingDate, groupBy);
+    const entry = periods.get(period) ?? { period, revenue: 0, bookings: 0 };
+    entry.revenue = round2(entry.revenue + booking.price);
+    entry.bookings++;
+    periods.set(period, entry);
+  }
+
+  return {
+    startDate,
+    endDate,
+    totalRevenue: round2(bookings.reduce((sum, booking) => sum + booking.price, 0)),
+    totalBookings: bookings.length,
+    byClass,
+    byRoute: [...routes.values()].sort((a, b) => b.revenue - a.revenue),
+    byPeriod: [...periods.values()].sort((a, b) => a.period.localeCompare(b.period)),
+  };
+};
+
+// Users
+
+const readUserQuery = (db: MockDatabase, query: Record<string, string>) => {
+  const search = query.search?.toLowerCase();
+
+  const users = db.users
+    .filter((user) => !query.role || user.role === query.role)
+    .filter((user) => query.active === undefined || String(user.active) === query.active)
+    .filter(
+      (user) =>
+        !search ||
+        [user.username, user.email, user.firstName, user.lastName].some((field) =>
+          field.toLowerCase().includes(search)
+        )
+    );
+  return sortRecords(users, query.sort ?? 'id,asc');
+};
+
+const assertUniqueUser = (db: MockDatabase, username: string, email: string, ignoreId?: number) => {
+  const errors: string[] = [];
+  if (db.users.some((user) => user.id !== ignoreId && user.username.toLowerCase() === username.toLowerCase())) {
+    errors.push('Username is already taken');
+  }
+  if (db.users.some((user) => user.id !== ignoreId && user.email.toLowerCase() === email.toLowerCase())) {
+    errors.push('Email is already registered');
+  }
+  if (errors.length) throw conflict(errors[0], errors);
+};
+
+const createUserRecord = (db: MockDatabase, body: Record<string, unknown>, role: UserRole): MockUserRecord => {
+  const required = ['username', 'email', 'firstName', 'lastName', 'password'];
+  const missing = required.filter((field) => !body[field]);
+  if (missing.length) throw badRequest('Missing required fields', missing.map((field) => `${field} is required`));
+
+  const username = String(body.username);
+  const email = String(body.email);
+  assertUniqueUser(db, username, email);
+
+  const now = new Date().toISOString();
+  const user: MockUserRecord = {
+    id: ++db.sequences.user,
+    username,
+    email,
+    firstName: String(body.firstName),
+    lastName: String(body.lastName),
+    password: String(body.password),
+    role,
+    phoneNumber: body.phoneNumber ? String(body.phoneNumber) : undefined,
+    active: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+  db.users.push(user);
+  return user;
+};
+
+const loginResponse = (user: MockUserRecord, message: string) => ({
+  token: issueMockToken(user.id),
+  userId: user.id,
+  username: user.username,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  email: user.email,
+  role: user.role,
+  success: true,
+  message,
+});
+
+const readCabinLayout = (value: unknown): CabinLayout | undefined => {
+  const sections = (value as { sections?: unknown } | null | undefined)?.sections;
+  if (!Array.isArray(sections)) return undefined;
+
+  return {
+    sections: (sections as Record<string, unknown>[]).map((section) => ({
+      seatClass: parseSeatClass(section.seatClass),
+      firstRow: Number(section.firstRow),
+      lastRow: Number(section.lastRow),
+      seatLetters: String(section.seatLetters ?? '').trim().toUpperCase(),
+      exitRows: Array.isArray(section.exitRows) ? section.exitRows.map(Number) : [],
+      blockedSeats: Array.isArray(section.blockedSeats)
+        ? section.blockedSeats.map((seat) => String(seat).toUpperCase())
+        : [],
+    })),
+  };
+};
+
+const readAirplane = (body: Record<string, unknown>, current?: Airplane): Omit<Airplane, 'id'> => {
+  const capacity = (key: keyof Airplane) => Math.max(0, Number(body[key] ?? current?.[key] ?? 0));
+  const firstClassCapacity = capacity('firstClassCapacity');
+  const businessClassCapacity = capacity('businessClassCapacity');
+  const economyClassCapacity = capacity('economyClassCapacity');
+  const size = String(body.size ?? current?.size ?? AirplaneCapacity.MEDIUM) as AirplaneCapacity;
+  const cabinLayout = readCabinLayout(body.cabinLayout) ?? current?.cabinLayout;
+
+  return {
+    model: String(body.model ?? current?.model ?? '').trim(),
+    size: Object.values(AirplaneCapacity).includes(size) ? size : AirplaneCapacity.MEDIUM,
+    registrationNumber: String(body.registrationNumber ?? current?.registrationNumber ?? '').trim().toUpperCase(),
+    firstClassCapacity,
+    businessClassCapacity,
+    economyClassCapacity,
+    totalCapacity: firstClassCapacity + businessClassCapacity + economyClassCapacity,
+    // Capacities follow the seat plan whenever the airplane has one
+    ...(cabinLayout && { cabinLayout, ...getLayoutCapacities(cabinLayout) }),
+    active: body.active === undefined ? current?.active ?? true : Boolean(body.active),
+  };
+};
+
+const readAirport = (body: Record<string, unknown>, current?: Airport): Omit<Airport, 'id'> => ({
+  code: String(body.code ?? current?.code ?? '').trim().toUpperCase(),
+  name: String(body.name ?? current?.name ?? '').trim(),
+  city: String(body.city ?? current?.city ?? '').trim(),
+  country: String(body.country ?? current?.country ?? '').trim(),
+  timeZone: String(body.timeZone ?? current?.timeZone ?? 'UTC'),
+  latitude: body.latitude !== undefined ? Number(body.latitude) : current?.latitude,
+  longitude: body.longitude !== undefined ? Number(body.longitude) : current?.longitude,
+  minConnectionMinutes:
+    body.minConnectionMinutes !== undefined ? Number(body.minConnectionMinutes) : current?.minConnectionMinutes,
+});
+
+const assertValidAirport = (db: MockDatabase, airport: Omit<Airport, 'id'>, ignoreId?: string) => {
+  const errors: string[] = [];
+  if (!/^[A-Z]{3}$/.test(airport.code)) errors.push('Airport code must be a 3-letter IATA code');
+  if (!airport.name || !airport.city || !airport.country) errors.push('Name, city and country are required');
+  if (
+    airport.minConnectionMinutes !== undefined &&
+    !(Number.isInteger(airport.minConnectionMinutes) && airport.minConnectionMinutes >= 0)
+  ) {
+    errors.push('Minimum connection time must be a whole number of minutes');
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: airport.timeZone });
+  } catch {
+    errors.push(`Unknown time zone: ${airport.timeZone}`);
+  }
+  if (errors.length) throw badRequest(errors[0], errors);
+  if (db.airports.some((other) => other.id !== ignoreId && other.code === airport.code)) {
+    throw conflict(`Airport ${airport.code} already exists`);
+  }
+};
+
+const assertValidAirplane = (db: MockDatabase, airplane: Omit<Airplane, 'id'>, ignoreId?: string) => {
+  if (!airplane.model || !airplane.registrationNumber) throw badRequest('Model and registration number are required');
+  const layoutErrors = airplane.cabinLayout ? validateCabinLayout(airplane.cabinLayout) : [];
+  if (layoutErrors.length) throw badRequest(layoutErrors[0], layoutErrors);
+  if (airplane.totalCapacity <= 0) throw badRequest('Airplane must have at least one seat');
+  if (db.airplanes.some((other) => other.id !== ignoreId && other.registrationNumber === airplane.registrationNumber)) {
+    throw conflict(`Airplane ${airplane.registrationNumber} already exists`);
+  }
+};
+
+const flightsForAirport = (db: MockDatabase, airportId: string, startDate: string, endDate: string) => {
+  const airport = findAirport(db, airportId);
+  if (!airport) throw notFound('Airport');
+
+  const inRange = (iso: string) => {
+    const date = localDate(iso, airport.timeZone);
+    return date >= startDate && date <= endDate;
+  };
+  const sorted = [...db.flights].sort(byDeparture);
+
+  return {
+    airport,
+    departingFlights: sorted.filter((flight) => flight.originId === airport.id && inRange(flight.departureTime)),
+    arrivingFlights: sorted
+      .filter((flight) => flight.destinationId === airport.id && inRange(flight.arrivalTime))
+      .sort((a, b) => time(a.arrivalTime) - time(b.arrivalTime)),
+  };
+};
+
+const toFlights = (db: MockDatabase, records: MockFlightRecord[]): Flight[] =>
+  records.map((record) => toFlight(db, record));
+
+export const mockRoutes: MockRoute[] = [
+  // Authentication
+  {
+    method: 'POST',
+    path: '/auth/login',
+    handler: ({ db, body }) => {
+      const user = db.users.find(
+        (candidate) =>
+          candidate.username.toLowerCase() === String(body.username ?? '').toLowerCase() &&
+          candidate.password === body.password
+      );
+      if (!user) throw new MockHttpError(401, 'Invalid username or password');
+      if (!user.active) throw new MockHttpError(403, 'Your account has been deactivated');
+      return ok(loginResponse(user, 'Login successful'));
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/register',
+    handler: ({ db, body }) => ok(toUser(createUserRecord(db, body, UserRole.CUSTOMER)), 'Registration successful'),
+  },
+  {
+    method: 'POST',
+    path: '/auth/refresh',
+    handler: ({ db, token }) => {
+      // Expired tokens can be exchanged for a while; that is the point of refreshing
+      const claims = token ? parseMockToken(token) : null;
+      if (!claims || claims.expiresAt + REFRESH_GRACE_MS < Date.now()) {
+        throw new MockHttpError(401, 'Session expired, please sign in again');
+      }
+      const user = findUser(db, claims.userId);
+      if (!user.active) throw new MockHttpError(401, 'Your account has been deactivated');
+      return ok(loginResponse(user, 'Token refreshed'));
+    },
+  },
+  { method: 'POST', path: '/auth/logout', handler: () => ok(null, 'Logged out') },
+  { method: 'GET', path: '/auth/me', roles: anyUser, handler: ({ user }) => ok(toUser(user!)) },
+  {
+    method: 'POST',
+    path: '/auth/change-password',
+    roles: anyUser,
+    handler: ({ user, body }) => {
+      if (user!.password !== body.currentPassword) throw badRequest('Current password is incorrect');
+      if (String(body.newPassword ?? '').length < 6) throw badRequest('New password must be at least 6 characters');
+      user!.password = String(body.newPassword);
+      return ok(null, 'Password changed');
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/forgot-password',
+    handler: () => ok(null, 'If the email is registered, a reset link has been sent'),
+  },
+  { method: 'POST', path: '/auth/reset-password', handler: () => ok(null, 'Password has been reset') },
+
+  // Airports
+  { method: 'GET', path: '/airports', handler: ({ db }) => ok(db.airports) },
+  {
+    method: 'GET',
+    path: '/airports/:id',
+    handler: ({ db, params }) => {
+      const airport = findAirport(db, params.id);
+      if (!airport) throw notFound('Airport');
+      return ok(airport);
+    },
+  },
+  {
+    method: 'POST',
+    path: '/airports',
+    roles: staffOnly,
+    handler: ({ db, body }) => {
+      const data = readAirport(body);
+      assertValidAirport(db, data);
+      const airport: Airport = { id: String(++db.sequences.airport), ...data };
+      db.airports.push(airport);
+      return ok(airport, 'Airport created');
+    },
+  },
+  {
+    method: 'PUT',
+    path: '/airports/:id',
+    roles: staffOnly,
+    handler: ({ db, params, body }) => {
+      const airport = db.airports.find((item) => item.id === params.id);
+      if (!airport) throw notFound('Airport');
+      const data = readAirport(body, airport);
+      assertValidAirport(db, data, airport.id);
+      Object.assign(airport, data);
+      return ok(airport, 'Airport updated');
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/airports/:id',
+    roles: staffOnly,
+    handler: ({ db, params }) => {
+      const index = db.airports.findIndex((item) => item.id === params.id);
+      if (index < 0) throw notFound('Airport');
+      if (db.flights.some((flight) => flight.originId === params.id || flight.destinationId === params.id)) {
+        throw conflict('Airport has scheduled flights and cannot be deleted');
+      }
+      db.airports.splice(index, 1);
+      return ok(null, 'Airport deleted');
+    },
+  },
+
+  // Airplanes
+  { method: 'GET', path: '/airplanes', roles: anyUser, handler: ({ db }) => ok(db.airplanes) },
+  {
+    method: 'GET',
+    path: '/airplanes/available',
+    roles: staffOnly,
+    handler: ({ db, query }) => {
+      if (!query.departureTime || !query.arrivalTime) throw badRequest('departureTime and arrivalTime are required');
+      const departure = time(query.departureTime);
+      const arrival = time(query.arrivalTime);
+      const busy = new Set(
+        db.flights
+          .filter(
+            (flight) =>
+              flight.status !== FlightStatus.CANCELLED &&
+              departure < time(flight.arrivalTime) + MIN_TURNAROUND_MS &&
+              time(flight.departureTime) < arrival + MIN_TURNAROUND_MS
+          )
+          .map((flight) => flight.airplaneId)
+      );
+      return ok(db.airplanes.filter((airplane) => airplane.active && !busy.has(airplane.id)));
+    },
+  },
+  {
+    method: 'GET',
+    path: '/airplanes/:id',
+    roles: anyUser,
+    handler: ({ db, params }) => {
+      const airplane = findAirplane(db, params.id);
+      if (!airplane) throw notFound('Airplane');
+      return ok(airplane);
+    },
+  },
+  {
+    method: 'POST',
+    path: '/airplanes',
+    roles: staffOnly,
+    handler: ({ db, body }) => {
+      const data = readAirplane(body);
+      assertValidAirplane(db, data);
+      const airplane: Airplane = { id: String(++db.sequences.airplane), ...data };
+      db.airplanes.push(airplane);
+      return ok(airplane, 'Airplane created');
+    },
+  },
+  {
+    method: 'PUT',
+    path: '/airplanes/:id',
+    roles: staffOnly,
+    handler: ({ db, params, body }) => {
+      const airplane = findAirplane(db, params.id);
+      if (!airplane) throw notFound('Airplane');
+      const data = readAirplane(body, airplane);
+      assertValidAirplane(db, data, airplane.id);
+
+      const conflicts = findCapacityConflicts(db, { id: airplane.id, ...data }, upcomingFlightIds(db, airplane.id));
+      if (conflicts.length) throw conflict('Cabin capacity is below seats already sold', conflicts);
+
+      Object.assign(airplane, data);
+      reseatDisplacedPassengers(db, airplane, upcomingFlightIds(db, airplane.id));
+      return ok(airplane, 'Airplane updated');
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/airplanes/:id',
+    roles: staffOnly,
+    handler: ({ db, params }) => {
+      const index = db.airplanes.findIndex((item) => item.id === params.id);
+      if (index < 0) throw notFound('Airplane');
+      if (upcomingFlightIds(db, params.id).length) {
+        throw conflict('Airplane is assigned to upcoming flights and cannot be deleted');
+      }
+      db.airplanes.splice(index, 1);
+      return ok(null, 'Airplane deleted');
+    },
+  },
+
+  // Flight search
+  {
+    method: 'POST',
+    path: '/flights/search/comprehensive',
+    handler: ({ db, body }) => ok(searchFlights(db, readSearchCriteria(body))),
+  },
+  {
+    method: 'POST',
+    path: '/flights/search',
+    handler: ({ db, body }) => ok(searchFlights(db, readSearchCriteria(body))),
+  },
+  {
+    method: 'GET',
+    path: '/flights/direct',
+    handler: ({ db, query }) =>
+      ok(
+        searchFlights(
+          db,
+          readSearchCriteria({
+            originAirportId: query.origin,
+            destinationAirportId: query.destination,
+            departureDate: query.departureDate,
+          })
+        ).directFlights
+      ),
+  },
+  {
+    method: 'GET',
+    path: '/flights/transit',
+    handler: ({ db, query }) =>
+      ok({
+        directFlights: [],
+        transitFlights: searchFlights(
+          db,
+          readSearchCriteria({
+            originAirportId: query.origin,
+            destinationAirportId: query.destination,
+            departureDate: query.departureDate,
+            includeTransit: true,
+          })
+        ).transitFlights,
+      }),
+  },
+  {
+    method: 'GET',
+    path: '/flights/popular-routes',
+    handler: ({ db }) => {
+      const counts = new Map<string, { origin: Airport; destination: Airport; count: number }>();
+      for (const booking of db.bookings) {
+        if (booking.status === BookingStatus.CANCELLED) continue;
+        const flight = findFlight(db, booking.flightId);
+        const key = `${flight.originId}-${flight.destinationId}`;
+        const entry = counts.get(key) ?? {
+          origin: findAirport(db, flight.originId)!,
+          destination: findAirport(db, flight.destinationId)!,
+          count: 0,
+        };
+        entry.count++;
+        counts.set(key, entry);
+      }
+      return ok([...counts.values()].sort((a, b) => b.count - a.count).slice(0, 8));
+    },
+  },
+  {
+    method: 'POST',
+    path: '/flights/validate-schedule',
+    roles: staffOnly,
+    handler: ({ db, body }) => {
+      const conflicts = findScheduleConflicts(db, readFlightForm(body), body.id ? Number(body.id) : undefined);
+      return ok({ valid: conflicts.length === 0, conflicts });
+    },
+  },
+  {
+    method: 'GET',
+    path: '/flights/airplane/:id',
+    roles: staffOnly,
+    handler: ({ db, params }) =>
+      ok(toFlights(db, db.flights.filter((flight) => flight.airplaneId === params.id).sort(byDeparture))),
+  },
+
+  // Flight management
+  {
+    method: 'GET',
+    path: '/flights',
+    roles: anyUser,
+    handler: ({ db, query }) => {
+      const origin = query.origin ? findAirport(db, query.origin) : undefined;
+      const destination = query.destination ? findAirport(db, query.destination) : undefined;
+      const search = query.search?.toLowerCase();
+      const matchesSearch = (flight: MockFlightRecord) => {
+        const route = [findAirport(db, flight.originId), findAirport(db, flight.destinationId)];
+        return [
+          flight.flightNumber,
+          findAirplane(db, flight.airplaneId)?.model,
+          ...route.flatMap((airport) => [airport?.code, airport?.city]),
+        ].some((field) => field?.toLowerCase().includes(search!));
+      };
+
+      const flights = db.flights
+        .filter((flight) => !query.origin || flight.originId === origin?.id)
+        .filter((flight) => !query.destination || flight.destinationId === destination?.id)
+        .filter((flight) => !query.status || flight.status === query.status)
+        .filter((flight) => !query.date || flight.departureTime.slice(0, 10) === query.date)
+        .filter((flight) => !search || matchesSearch(flight))
+        .sort(byDeparture);
+      const page = paginate(sortRecords(flights, query.sort), query);
+      return { ...page, data: toFlights(db, page.data) };
+    },
+  },
+  {
+    method: 'GET',
+    path: '/flights/:id',
+    handler: ({ db, params }) => ok(toFlight(db, findFlight(db, params.id))),
+  },
+  {
+    method: 'POST',
+    path: '/flights',
+    roles: staffOnly,
+    handler: ({ db, body }) => {
+      const form = readFlightForm(body);
+      const conflicts = findScheduleConflicts(db, form);
+      if (conflicts.length) throw conflict(conflicts[0], conflicts);
+
+      const record: MockFlightRecord = {
+        id: ++db.sequences.flight,
+        ...form,
+        departureTime: new Date(form.departureTime).toISOString(),
+        arrivalTime: new Date(form.arrivalTime).toISOString(),
+        originId: findAirport(db, form.originId)!.id,
+        destinationId: findAirport(db, form.destinationId)!.id,
+        status: FlightStatus.SCHEDULED,
+      };
+      db.flights.push(record);
+      return ok(toFlight(db, record), 'Flight created');
+    },
+  },
+  {
+    method: 'PUT',
+    path: '/flights/:id',
+    roles: staffOnly,
+    handler: ({ db, params, body }) => {
+      const record = findFlight(db, params.id);
+      const form = readFlightForm({ ...toFlightForm(record), ...body });
+      const conflicts = findScheduleConflicts(db, form, record.id);
+
+      const airplane = findAirplane(db, form.airplaneId);
+      const swapped = airplane && airplane.id !== record.airplaneId ? airplane : undefined;
+      if (swapped) conflicts.push(...findCapacityConflicts(db, swapped, [record.id]));
+      if (conflicts.length) throw conflict(conflicts[0], conflicts);
+
+      Object.assign(record, {
+        ...form,
+        departureTime: new Date(form.departureTime).toISOString(),
+        arrivalTime: new Date(form.arrivalTime).toISOString(),
+        originId: findAirport(db, form.originId)!.id,
+        destinationId: findAirport(db, form.destinationId)!.id,
+      });
+      if (swapped) reseatDisplacedPassengers(db, swapped, [record.id]);
+      return ok(toFlight(db, record), 'Flight updated');
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/flights/:id',
+    roles: staffOnly,
+    handler: ({ db, params }) => {
+      const record = findFlight(db, params.id);
+      if (activeBookings(db, record.id).some((booking) => booking.status === BookingStatus.CONFIRMED)) {
+        throw conflict('Flight has confirmed bookings; cancel the flight instead of deleting it');
+      }
+      db.flights.splice(db.flights.indexOf(record), 1);
+      db.bookings = db.bookings.filter((booking) => booking.flightId !== record.id);
+      invalidateSeatCounts(db);
+      return ok(null, 'Flight deleted');
+    },
+  },
+  {
+    method: 'PATCH',
+    path: '/flights/:id/status',
+    roles: staffOnly,
+    handler: ({ db, params, body }) => {
+      const record = findFlight(db, params.id);
+      const status = String(body.status ?? '') as FlightStatus;
+      if (!Object.values(FlightStatus).includes(status)) throw badRequest(`Unknown flight status: ${status}`);
+
+      record.status = status;
+      if (status === FlightStatus.CANCELLED) {
+        activeBookings(db, record.id)
+          .filter((booking) => booking.status === BookingStatus.CONFIRMED)
+          .forEach((booking) => {
+            booking.status = BookingStatus.CANCELLED;
+            booking.checkedIn = false;
+            recordBookingEvent(booking, BookingEventType.CANCELLED, null, 'Flight cancelled');
+          });
+        invalidateSeatCounts(db);
+      }
+      return ok(toFlight(db, record), 'Flight status updated');
+    },
+  },
+  {
+    method: 'GET',
+    path: '/flights/:id/availability/:seatClass',
+    handler: ({ db, params }) => {
+      const record = findFlight(db, params.id);
+      const seatClass = parseSeatClass(params.seatClass);
+      const airplane = findAirplane(db, record.airplaneId)!;
+      const total = getCabinCapacity(airplane, seatClass);
+      return ok({ available: Math.max(0, total - countBookedSeats(db, record.id, seatClass)), total });
+    },
+  },
+  {
+    method: 'GET',
+    path: '/flights/:id/seats/:seatClass',
+    handler: ({ db, params }) => {
+      const record = findFlight(db, params.id);
+      const seatClass = parseSeatClass(params.seatClass);
+      const taken = new Set(activeBookings(db, record.id, seatClass).flatMap(getBookingSeats));
+      return ok(getSeatCodes(findAirplane(db, record.airplaneId)!, seatClass).filter((seat) => !taken.has(seat)));
+    },
+  },
+  {
+    method: 'GET',
+    path: '/flights/:id/cabin-layout',
+    handler: ({ db, params }) => ok(getAirplaneCabinLayout(findAirplane(db, findFlight(db, params.id).airplaneId)!)),
+  },
+
+  // Reports
+  {
+    method: 'GET',
+    path: '/reports/airport/:id/flights',
+    roles: staffOnly,
+    handler: ({ db, params, query }) => {
+      const { startDate, endDate } = readDateRange(query, 1);
+      const { airport, arrivingFlights, departingFlights } = flightsForAirport(db, params.id, startDate, endDate);
+      const report: AirportFlightReport = {
+        airport,
+        date: startDate,
+        arrivingFlights: toFlights(db, arrivingFlights),
+        departingFlights: toFlights(db, departingFlights),
+        generatedAt: new Date().toISOString(),
+      };
+      return ok(report);
+    },
+  },
+  {
+    method: 'GET',
+    path: '/reports/flight-statistics',
+    roles: staffOnly,
+    handler: ({ db, query }) => ok(buildFlightStatistics(db, query.period)),
+  },
+
+  // Booking reports (registered before /bookings/:id)
+  {
+    method: 'GET',
+    path: '/bookings/statistics',
+    roles: staffOnly,
+    handler: ({ db, query }) => ok(buildBookingStatistics(db, query)),
+  },
+  {
+    method: 'GET',
+    path: '/bookings/revenue',
+    roles: staffOnly,
+    handler: ({ db, query }) => ok(buildRevenueReport(db, query)),
+  },
+  {
+    method: 'GET',
+    path: '/bookings/popular-destinations',
+    handler: ({ db, query }) => {
+      const destinations = new Map<string, { destination: string; count: number; revenue: number }>();
+      const { startDate } = readDateRange({}, periodDays[query.period ?? 'year'] ?? periodDays.year);
+
+      for (const booking of db.bookings) {
+        if (booking.status === BookingStatus.CANCELLED || booking.bookingDate.slice(0, 10) < startDate) continue;
+        const code = findAirport(db, findFlight(db, booking.flightId).destinationId)?.code ?? 'UNKNOWN';
+        const entry = destinations.get(code) ?? { destination: code, count: 0, revenue: 0 };
+        entry.count++;
+        entry.revenue = round2(entry.revenue + booking.price);
+        destinations.set(code, entry);
+      }
+
+      return ok(
+        [...destinations.values()].sort((a, b) => b.count - a.count).slice(0, Number(query.limit) || 10)
+      );
+    },
+  },
+
+  // Bookings
+  {
+    method: 'POST',
+    path: '/bookings/validate',
+    roles: anyUser,
+    handler: ({ db, body, user }) => {
+      const { valid, errors, warnings, pricing } = validateBooking(db, body, user);
+      return ok({ valid, errors, warnings, pricing });
+    },
+  },
+  {
+    method: 'POST',
+    path: '/bookings/search',
+    roles: staffOnly,
+    handler: ({ db, body }) => {
+      const contains = (value: string, term: unknown) =>
+        !term || value.toLowerCase().includes(String(term).toLowerCase());
+
+      const results = db.bookings.filter((booking) => {
+        const customer = findUser(db, booking.customerId);
+        const flight = findFlight(db, booking.flightId);
+        const route = routeLabel(db, flight);
+        return (
+          contains(`${customer.firstName} ${customer.lastName}`, body.customerName) &&
+          contains(customer.email, body.customerEmail) &&
+          contains(flight.flightNumber, body.flightNumber) &&
+          contains(booking.bookingReference, body.bookingReference) &&
+          contains(route.origin, body.origin) &&
+          contains(route.destination, body.destination) &&
+          (!body.travelDate || flight.departureTime.slice(0, 10) === body.travelDate)
+        );
+      });
+
+      return ok(results.slice(0, 100).map((booking) => toBooking(db, booking)));
+    },
+  },
+  {
+    method: 'POST',
+    path: '/bookings/bulk-cancel',
+    roles: staffOnly,
+    handler: ({ db, body, user }) => {
+      const ids = Array.isArray(body.bookingIds) ? body.bookingIds.map(String) : [];
+      const reason = body.reason ? String(body.reason) : undefined;
+      ids.map((id) => findBooking(db, id)).forEach((booking) => cancelBookingRecord(db, booking, user, reason));
+      return ok(null, `${ids.length} bookings cancelled`);
+    },
+  },
+  {
+    method: 'POST',
+    path: '/bookings/bulk-confirm',
+    roles: staffOnly,
+    handler: ({ db, body, user }) => {
+      const ids = Array.isArray(body.bookingIds) ? body.bookingIds.map(String) : [];
+      ids.map((id) => findBooking(db, id)).forEach((booking) => confirmBookingRecord(db, booking, user));
+      return ok(null, `${ids.length} bookings confirmed`);
+    },
+  },
+  {
+    method: 'GET',
+    path: '/bookings/me',
+    roles: anyUser,
+    handler: ({ db, user, query }) =>
+      paginateBookings(db, filterBookings(db, { ...query, customerId: String(user!.id) }), query),
+  },
+  {
+    method: 'GET',
+    path: '/bookings/user/:userId',
+    roles: anyUser,
+    handler: ({ db, user, params, query }) => {
+      if (!isStaff(user) && user!.id !== Number(params.userId)) {
+        throw new MockHttpError(403, 'You can only view your own bookings');
+      }
+      return paginateBookings(db, filterBookings(db, { ...query, customerId: params.userId }), query);
+    },
+  },
+  {
+    method: 'GET',
+    path: '/bookings/reference/:reference',
+    roles: anyUser,
+    handler: ({ db, user, params }) => {
+      const booking = db.bookings.find((item) => item.bookingReference === params.reference.toUpperCase());
+      if (!booking) throw notFound('Booking');
+      assertCanAccessBooking(user, booking);
+      return ok(toBooking(db, booking));
+    },
+  },
+  {
+    method: 'GET',
+    path: '/bookings/flight/:flightId/booked-seats/:seatClass',
+    roles: anyUser,
+    handler: ({ db, params }) => {
+      const record = findFlight(db, params.flightId);
+      const seatClass = parseSeatClass(params.seatClass);
+      return ok(activeBookings(db, record.id, seatClass).flatMap(getBookingSeats));
+    },
+  },
+  {
+    method: 'GET',
+    path: '/bookings/flight/:flightId/manifest',
+    roles: staffOnly,
+    handler: ({ db, params }) => {
+      const record = findFlight(db, params.flightId);
+      // One manifest line per traveller, each with their own seat
+      const passengers: BookingWithPassenger[] = activeBookings(db, record.id).flatMap((booking) => {
+        const customer = findUser(db, booking.customerId);
+        const dto = toBooking(db, booking);
+        return booking.passengers.map((passenger) => ({
+          ...dto,
+          seatNumber: passenger.seatNumber,
+          passengerName: `${passenger.firstName} ${passenger.lastName}`,
+          passengerEmail: customer.email,
+        }));
+      });
+      const manifest: PassengerManifest = {
+        flight: toFlight(db, record),
+        passengers,
+        generatedAt: new Date().toISOString(),
+      };
+      return ok(manifest);
+    },
+  },
+  {
+    method: 'GET',
+    path: '/bookings/flight/:flightId/checked-in',
+    roles: staffOnly,
+    handler: ({ db, params }) => {
+      const record = findFlight(db, params.flightId);
+      return ok(
+        activeBookings(db, record.id)
+          .filter((booking) => booking.checkedIn)
+          .map((booking) => toBooking(db, booking))
+      );
+    },
+  },
+  {
+    method: 'GET',
+    path: '/bookings',
+    roles: staffOnly,
+    handler: ({ db, query }) => paginateBookings(db, filterBookings(db, query), query),
+  },
+  {
+    method: 'POST',
+    path: '/bookings',
+    roles: anyUser,
+    handler: ({ db, body, user }) => {
+      const validation = validateBooking(db, body, user);
+      if (!validation.valid) throw conflict(validation.errors[0], validation.errors);
+
+      const references = new Set(db.bookings.map((booking) => booking.bookingReference));
+      let bookingReference = generateBookingReference();
+      while (references.has(bookingReference)) bookingReference = generateBookingReference();
+
+      const record: MockBookingRecord = {
+        id: String(++db.sequences.booking),
+        bookingReference,
+        customerId: validation.customer!.id,
+        flightId: validation.flight!.id,
+        seatClass: validation.seatClass!,
+        price: validation.pricing!.basePrice,
+        bookingDate: new Date().toISOString(),
+        status: BookingStatus.CONFIRMED,
+        createdById: user!.id,
+        checkedIn: false,
+        passengers: toPassengerRecords(db, validation.passengers!),
+        history: [],
+      };
+      recordBookingEvent(record, BookingEventType.CREATED, user);
+      db.bookings.push(record);
+      invalidateSeatCounts(db);
+      return ok(toBooking(db, record), 'Booking created');
+    },
+  },
+  {
+    method: 'GET',
+    path: '/bookings/:id',
+    roles: anyUser,
+    handler: ({ db, user, params }) => {
+      const booking = findBooking(db, params.id);
+      assertCanAccessBooking(user, booking);
+      return ok(toBooking(db, booking));
+    },
+  },
+  {
+    method: 'PUT',
+    path: '/bookings/:id',
+    roles: staffOnly,
+    handler: ({ db, params, body, user }) => {
+      const booking = findBooking(db, params.id);
+      if (booking.status !== BookingStatus.CONFIRMED) throw conflict('Only confirmed bookings can be changed');
+
+      // Validate the new combination as if the current seats were free. Passengers
+      // keep their seats unless the flight or cabin changes.
+      const keepSeats = !body.flightId && !body.seatClass;
+      const passengers = Array.isArray(body.passengers)
+        ? body.passengers
+        : booking.passengers.map((passenger, index) => ({
+            ...passenger,
+            seatNumber: index === 0 && body.seatNumber ? body.seatNumber : keepSeats ? passenger.seatNumber : undefined,
+          }));
+      booking.status = BookingStatus.CANCELLED;
+      invalidateSeatCounts(db);
+      const validation = validateBooking(
+        db,
+        {
+          flightId: booking.flightId,
+          seatClass: booking.seatClass,
+          customerId: booking.customerId,
+          ...body,
+          passengers,
+        },
+        user
+      );
+      booking.status = BookingStatus.CONFIRMED;
+      invalidateSeatCounts(db);
+      if (!validation.valid) throw conflict(validation.errors[0], validation.errors);
+
+      Object.assign(booking, {
+        customerId: validation.customer!.id,
+        flightId: validation.flight!.id,
+        seatClass: validation.seatClass!,
+        price: validation.pricing!.basePrice,
+        // Existing passengers keep their ids so seat changes can still address them
+        passengers: validation.passengers!.map((passenger, index) => ({
+          ...passenger,
+          id: booking.passengers[index]?.id ?? String(++db.sequences.passenger),
+        })),
+      });
+      invalidateSeatCounts(db);
+      return ok(toBooking(db, booking), 'Booking updated');
+    },
+  },
+  {
+    method: 'PATCH',
+    path: '/bookings/:id/cancel',
+    roles: anyUser,
+    handler: ({ db, params, body, user }) => {
+      const booking = findBooking(db, params.id);
+      assertCanAccessBooking(user, booking);
+      if (time(findFlight(db, booking.flightId).departureTime) <= Date.now()) {
+        throw conflict('Bookings cannot be cancelled after departure');
+      }
+      cancelBookingRecord(db, booking, user, body.reason ? String(body.reason) : undefined);
+      return ok(toBooking(db, booking), 'Booking cancelled');
+    },
+  },
+  {
+    method: 'PATCH',
+    path: '/bookings/:id/confirm',
+    roles: staffOnly,
+    handler: ({ db, params, user }) => {
+      const booking = findBooking(db, params.id);
+      confirmBookingRecord(db, booking, user);
+      return ok(toBooking(db, booking), 'Booking confirmed');
+    },
+  },
+  {
+    method: 'PATCH',
+    path: '/bookings/:id/seat',
+    roles: anyUser,
+    handler: ({ db, params, body, user }) => {
+      const booking = findBooking(db, params.id);
+      assertCanAccessBooking(user, booking);
+      if (booking.status !== BookingStatus.CONFIRMED) throw conflict('Seats can only be changed on confirmed bookings');
+      if (booking.checkedIn) throw conflict('Seats cannot be changed after check-in');
+
+      // Without a passenger id the lead passenger is moved
+      const passenger = body.passengerId
+        ? booking.passengers.find((item) => item.id === String(body.passengerId))
+        : booking.passengers[0];
+      if (!passenger) throw notFound('Passenger');
+
+      const seatNumber = String(body.seatNumber ?? '').toUpperCase();
+      const airplane = findAirplane(db, findFlight(db, booking.flightId).airplaneId)!;
+      if (!getSeatCodes(airplane, booking.seatClass).includes(seatNumber)) {
+        throw badRequest(`Seat ${seatNumber} is not in the ${booking.seatClass.toLowerCase()} cabin`);
+      }
+      const occupied = activeBookings(db, booking.flightId, booking.seatClass).some((other) =>
+        other.passengers.some((item) => item.seatNumber === seatNumber && item.id !== passenger.id)
+      );
+      if (occupied) throw conflict(`Seat ${seatNumber} is already taken`);
+
+      const previous = passenger.seatNumber;
+      passenger.seatNumber = seatNumber;
+      recordBookingEvent(
+        booking,
+        BookingEventType.SEAT_CHANGED,
+        user,
+        `${passenger.firstName} ${passenger.lastName}: ${previous} → ${seatNumber}`
+      );
+      return ok(toBooking(db, booking), 'Seat updated');
+    },
+  },
+  {
+    method: 'PATCH',
+    path: '/bookings/:id/check-in',
+    roles: anyUser,
+    handler: ({ db, params, user }) => {
+      const booking = findBooking(db, params.id);
+      assertCanAccessBooking(user, booking);
+      if (booking.status !== BookingStatus.CONFIRMED) throw conflict('Only confirmed bookings can be checked in');
+      if (booking.checkedIn) throw conflict('Passenger is already checked in');
+
+      const untilDeparture = time(findFlight(db, booking.flightId).departureTime) - Date.now();
+      if (untilDeparture <= 0) throw conflict('Check-in has closed for this flight');
+      if (untilDeparture > CHECK_IN_WINDOW_MS) throw conflict('Check-in opens 24 hours before departure');
+
+      booking.checkedIn = true;
+      recordBookingEvent(booking, BookingEventType.CHECKED_IN, user);
+      return ok(toBooking(db, booking), 'Checked in');
+    },
+  },
+  {
+    method: 'POST',
+    path: '/bookings/:id/send-confirmation',
+    roles: anyUser,
+    handler: ({ db, params, user }) => {
+      const booking = findBooking(db, params.id);
+      assertCanAccessBooking(user, booking);
+      return ok(null, `Confirmation sent to ${findUser(db, booking.customerId).email}`);
+    },
+  },
+  {
+    method: 'POST',
+    path: '/bookings/:id/send-reminder',
+    roles: staffOnly,
+    handler: ({ db, params }) => {
+      const booking = findBooking(db, params.id);
+      return ok(null, `Reminder sent to ${findUser(db, booking.customerId).email}`);
+    },
+  },
+
+  // Users
+  {
+    method: 'GET',
+    path: '/users',
+    roles: adminOnly,
+    handler: ({ db, query }) => {
+      const page = paginate(readUserQuery(db, query), query);
+      return { ...page, data: page.data.map(toUser) };
+    },
+  },
+  {
+    method: 'GET',
+    path: '/users/search',
+    roles: staffOnly,
+    handler: ({ db, query }) =>
+      ok(readUserQuery(db, { search: query.q ?? '' }).slice(0, 20).map(toUser)),
+  },
+  {
+    method: 'GET',
+    path: '/users/by-role/:role',
+    roles: staffOnly,
+    handler: ({ db, params }) => ok(readUserQuery(db, { role: params.role.toUpperCase() }).map(toUser)),
+  },
+  {
+    method: 'GET',
+    path: '/users/:id',
+    roles: adminOnly,
+    handler: ({ db, params }) => ok(toUser(findUser(db, params.id))),
+  },
+  {
+    method: 'POST',
+    path: '/users',
+    roles: adminOnly,
+    handler: ({ db, body }) => {
+      const role = String(body.role ?? UserRole.CUSTOMER) as UserRole;
+      if (!Object.values(UserRole).includes(role)) throw badRequest(`Unknown role: ${role}`);
+      return ok(toUser(createUserRecord(db, body, role)), 'User created');
+    },
+  },
+  {
+    method: 'PUT',
+    path: '/users/:id',
+    roles: adminOnly,
+    handler: ({ db, params, body }) => {
+      const user = findUser(db, params.id);
+      const username = String(body.username ?? user.username);
+      const email = String(body.email ?? user.email);
+      assertUniqueUser(db, username, email, user.id);
+
+      const role = String(body.role ?? user.role) as UserRole;
+      if (!Object.values(UserRole).includes(role)) throw badRequest(`Unknown role: ${role}`);
+
+      Object.assign(user, {
+        username,
+        email,
+        firstName: String(body.firstName ?? user.firstName),
+        lastName: String(body.lastName ?? user.lastName),
+        phoneNumber: body.phoneNumber !== undefined ? String(body.phoneNumber) : user.phoneNumber,
+        role,
+        updatedAt: new Date().toISOString(),
+      });
+      return ok(toUser(user), 'User updated');
+    },
+  },
+  {
+    method: 'DELETE',
+    path: '/users/:id',
+    roles: adminOnly,
+    handler: ({ db, params, user: currentUser }) => {
+      const user = findUser(db, params.id);
+      if (user.id === currentUser!.id) throw conflict('You cannot delete your own account');
+      if (db.bookings.some((booking) => booking.customerId === user.id && booking.status === BookingStatus.CONFIRMED)) {
+        throw conflict('User has active bookings; deactivate the account instead');
+      }
+      db.users.splice(db.users.indexOf(user), 1);
+      return ok(null, 'User deleted');
+    },
+  },
+  {
+    method: 'PATCH',
+    path: '/users/:id/toggle-status',
+    roles: adminOnly,
+    handler: ({ db, params, user: currentUser }) => {
+      const user = findUser(db, params.id);
+      if (user.id === currentUser!.id) throw conflict('You cannot deactivate your own account');
+      user.active = !user.active;
+      user.updatedAt = new Date().toISOString();
+      return ok(toUser(user), user.active ? 'User activated' : 'User deactivated');
+    },
+  },
+  {
+    method: 'POST',
+    path: '/users/:id/reset-password',
+    roles: adminOnly,
+    handler: ({ db, params }) => {
+      const user = findUser(db, params.id);
+      user.password = `temp-${generateBookingReference().toLowerCase()}`;
+      return ok({ temporaryPassword: user.password }, 'Password reset');
+    },
+  },
+];
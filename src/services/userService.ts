@@ -1,5 +1,9 @@
+import * as z from 'zod';
 import { apiService } from './api';
-import type { User, UserRole, ApiResponse, PaginatedResponse } from '@/types';
+import type { RequestOptions } from './api';
+import { toListParams } from '@/lib/listQuery';
+import type { User, UserRole, ApiResponse, ListQuery, PaginatedResponse } from '@/types';
+import { userSchema } from '@/types/schemas';
 
 export interface CreateUserRequest {
   username: string;
@@ -26,41 +30,23 @@ export interface UserFilters {
   active?: boolean;
 }
 
-export interface UserListParams extends UserFilters {
-  page?: number;
-  size?: number;
-  sortBy?: string;
-  sortOrder?: 'asc' | 'desc';
-}
-
 class UserService {
   private readonly baseUrl = '/users';
 
-  async getAllUsers(params: UserListParams = {}): Promise<PaginatedResponse<User>> {
-    const queryParams = new URLSearchParams();
-    
-    if (params.page) queryParams.append('page', params.page.toString());
-    if (params.size) queryParams.append('size', params.size.toString());
-    if (params.role) queryParams.append('role', params.role);
-    if (params.search) queryParams.append('search', params.search);
-    if (params.active !== undefined) queryParams.append('active', params.active.toString());
-    if (params.sortBy) queryParams.append('sortBy', params.sortBy);
-    if (params.sortOrder) queryParams.append('sortOrder', params.sortOrder);
-
-    const url = queryParams.toString() ? `${this.baseUrl}?${queryParams}` : this.baseUrl;
-    return apiService.getPaginated<User>(url);
+  async getAllUsers(query?: ListQuery<UserFilters>, options?: RequestOptions): Promise<PaginatedResponse<User>> {
+    return apiService.getPaginated(this.baseUrl, toListParams(query), userSchema, options);
   }
 
-  async getUserById(id: number): Promise<ApiResponse<User>> {
-    return apiService.get<User>(`${this.baseUrl}/${id}`);
+  async getUserById(id: number, options?: RequestOptions): Promise<ApiResponse<User>> {
+    return apiService.get(`${this.baseUrl}/${id}`, undefined, userSchema, options);
   }
 
   async createUser(userData: CreateUserRequest): Promise<ApiResponse<User>> {
-    return apiService.post<User>(this.baseUrl, userData);
+    return apiService.post(this.baseUrl, userData, userSchema);
   }
 
   async updateUser(id: number, userData: UpdateUserRequest): Promise<ApiResponse<User>> {
-    return apiService.put<User>(`${this.baseUrl}/${id}`, userData);
+    return apiService.put(`${this.baseUrl}/${id}`, userData, userSchema);
   }
 
   async deleteUser(id: number): Promise<ApiResponse<void>> {
@@ -68,19 +54,19 @@ class UserService {
   }
 
   async toggleUserStatus(id: number): Promise<ApiResponse<User>> {
-    return apiService.patch<User>(`${this.baseUrl}/${id}/toggle-status`);
+    return apiService.patch(`${this.baseUrl}/${id}/toggle-status`, undefined, userSchema);
   }
 
   async resetUserPassword(id: number): Promise<ApiResponse<{ temporaryPassword: string }>> {
     return apiService.post<{ temporaryPassword: string }>(`${this.baseUrl}/${id}/reset-password`);
   }
 
-  async getUsersByRole(role: UserRole): Promise<ApiResponse<User[]>> {
-    return apiService.get<User[]>(`${this.baseUrl}/by-role/${role}`);
+  async getUsersByRole(role: UserRole, options?: RequestOptions): Promise<ApiResponse<User[]>> {
+    return apiService.get(`${this.baseUrl}/by-role/${role}`, undefined, z.array(userSchema), options);
   }
 
-  async searchUsers(query: string): Promise<ApiResponse<User[]>> {
-    return apiService.get<User[]>(`${this.baseUrl}/search?q=${encodeURIComponent(query)}`);
+  async searchUsers(query: string, options?: RequestOptions): Promise<ApiResponse<User[]>> {
+    return apiService.get(`${this.baseUrl}/search?q=${encodeURIComponent(query)}`, undefined, z.array(userSchema), options);
   }
 }
 
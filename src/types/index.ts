@@ -28,6 +28,7 @@ export interface Airport {
   timeZone: string;
   latitude?: number;
   longitude?: number;
+  minConnectionMinutes?: number; // Shortest connection allowed here; a default applies when unset
 }
 
 // Airplane Types
@@ -41,6 +42,8 @@ export interface Airplane {
   economyClassCapacity: number;
   totalCapacity: number;
   active: boolean;
+  // Seat plan; without one the cabins are laid out from the class capacities
+  cabinLayout?: CabinLayout;
 }
 
 export enum AirplaneCapacity {
@@ -49,6 +52,24 @@ export enum AirplaneCapacity {
   LARGE = 'LARGE'
 }
 
+// Cabin Layout Types
+export interface CabinLayout {
+  sections: CabinSection[]; // Front to back
+}
+
+/**
+ * A block of identical rows in one cabin. Row numbers run on from the section
+ * in front, so a seat code such as 14C is unique across the airplane.
+ */
+export interface CabinSection {
+  seatClass: SeatClass;
+  firstRow: number;
+  lastRow: number;
+  seatLetters: string; // Left to right; a space marks an aisle, e.g. 'ABC DEF'
+  exitRows: number[];
+  blockedSeats: string[]; // Seats that are never sold, e.g. '30D' beside a galley
+}
+
 // Flight Types
 export interface Flight {
   id: number;
@@ -92,11 +113,40 @@ export interface Booking {
   customer: User;
   flight: Flight;
   seatClass: SeatClass;
-  seatNumber: string;
-  price: number;
+  seatNumber: string; // Seat of the lead passenger
+  price: number; // Total fare for every passenger on the booking
   bookingDate: string;
   status: BookingStatus;
   createdBy: User; // Could be customer, operator, or admin
+  checkedIn?: boolean;
+  passengers: Passenger[];
+  history: BookingEvent[]; // Oldest first
+}
+
+// Something that happened to a booking, for its status history
+export interface BookingEvent {
+  type: BookingEventType;
+  occurredAt: string;
+  actor?: string; // Name of whoever made the change; absent for system changes
+  note?: string; // e.g. the cancellation reason or the new seat
+}
+
+// One traveller on a booking; every passenger holds their own seat
+export interface Passenger {
+  id: string;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  documentNumber: string;
+  type: PassengerType;
+  seatNumber: string;
+  price: number;
+}
+
+export enum PassengerType {
+  ADULT = 'ADULT',
+  CHILD = 'CHILD',
+  INFANT = 'INFANT'
 }
 
 export enum BookingStatus {
@@ -105,11 +155,37 @@ export enum BookingStatus {
   COMPLETED = 'COMPLETED'
 }
 
+export enum BookingEventType {
+  CREATED = 'CREATED',
+  CONFIRMED = 'CONFIRMED',
+  SEAT_CHANGED = 'SEAT_CHANGED',
+  CHECKED_IN = 'CHECKED_IN',
+  CANCELLED = 'CANCELLED',
+  COMPLETED = 'COMPLETED'
+}
+
 // Search and Filter Types
-export interface FlightSearchCriteria {
+export enum TripType {
+  ONE_WAY = 'ONE_WAY',
+  ROUND_TRIP = 'ROUND_TRIP',
+  MULTI_CITY = 'MULTI_CITY'
+}
+
+// One origin, destination and travel date; the flight search API takes one at a time
+export interface FlightSearchLeg {
   originAirportId: number;
   destinationAirportId: number;
   departureDate: string;
+}
+
+export interface FlightSearchCriteria {
+  originAirportId: number; // First leg of the trip
+  destinationAirportId: number;
+  departureDate: string;
+  tripType?: TripType; // One way when absent
+  returnDate?: string; // Round trips only
+  legs?: FlightSearchLeg[]; // Multi-city only, every leg in travel order starting with the first
+  flexibleDates?: boolean; // One way only: also compare fares a few days either side
   seatClass?: SeatClass;
   passengers?: number;
   includeTransit: boolean;
@@ -128,6 +204,65 @@ export interface TransitFlightOption {
   transitAirports: Airport[];
 }
 
+// Flight searches remembered in the browser; `query` is the search page's query string
+export interface RecentSearch {
+  query: string;
+  label: string; // e.g. "LHR → CDG · 1 Nov · 2 passengers"
+  searchedAt: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  label: string;
+  createdAt: string;
+  priceWatch?: PriceWatch;
+}
+
+// Alert when the lowest fare for a saved search drops below `threshold`
+export interface PriceWatch {
+  threshold: number;
+  lastFare?: number; // Lowest fare at the last check, per person
+  notifiedFare?: number; // Fare the user was last alerted about; cleared when fares rise above the threshold
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface ListSort {
+  field: string;
+  direction: SortDirection;
+}
+
+/**
+ * Paging, sorting and filtering for a server-side list. `page` is 1-based and
+ * every filter is applied by the backend across the whole result set.
+ */
+export interface ListQuery<F extends object = Record<string, never>> {
+  page?: number;
+  size?: number;
+  sort?: ListSort;
+  filters?: F;
+}
+
+export interface FlightListFilters {
+  search?: string;
+  status?: FlightStatus;
+  origin?: string;
+  destination?: string;
+  date?: string;
+}
+
+export interface BookingListFilters {
+  search?: string;
+  status?: BookingStatus;
+  seatClass?: SeatClass;
+  customerId?: string;
+  flightId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
 // Authentication Types
 export interface LoginCredentials {
   username: string;
@@ -179,6 +314,62 @@ export interface AirportFlightReport {
   generatedAt: string;
 }
 
+export interface PopularRoute {
+  origin: Airport;
+  destination: Airport;
+  count: number;
+}
+
+export interface PopularDestination {
+  destination: string; // IATA code
+  count: number;
+  revenue: number;
+}
+
+export interface FlightStatistics {
+  period: string;
+  startDate: string;
+  endDate: string;
+  totalFlights: number;
+  flightsByStatus: Record<FlightStatus, number>;
+  onTimePercentage: number;
+  averageLoadFactor: number;
+  routes: Array<{
+    origin: string;
+    destination: string;
+    flights: number;
+    loadFactor: number;
+  }>;
+}
+
+export interface BookingStatistics {
+  startDate: string;
+  endDate: string;
+  groupBy: 'day' | 'week' | 'month';
+  totalBookings: number;
+  confirmedBookings: number;
+  cancelledBookings: number;
+  completedBookings: number;
+  totalRevenue: number;
+  averageBookingValue: number;
+  timeline: Array<{
+    period: string;
+    bookings: number;
+    cancellations: number;
+    revenue: number;
+  }>;
+}
+
+export interface RevenueReport {
+  startDate: string;
+  endDate: string;
+  totalRevenue: number;
+  totalBookings: number;
+  byClass: Array<{ seatClass: SeatClass; revenue: number; bookings: number }>;
+  byRoute: Array<{ origin: string; destination: string; revenue: number; bookings: number }>;
+  byPeriod: Array<{ period: string; revenue: number; bookings: number }>;
+}
+
 // Form Types
 export interface CreateUserForm {
   username: string;
@@ -201,11 +392,43 @@ export interface CreateFlightForm {
   economyClassPrice: number;
 }
 
+export interface PassengerForm {
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  documentNumber: string;
+  type: PassengerType;
+  seatNumber?: string;
+}
+
 export interface CreateBookingForm {
   customerId: string;
   flightId: string;
   seatClass: SeatClass;
   seatNumber?: string;
+  // Without a passenger list the customer is booked as a single adult
+  passengers?: PassengerForm[];
+}
+
+export interface SeatAvailability {
+  available: number;
+  total: number;
+}
+
+export interface ScheduleValidation {
+  valid: boolean;
+  conflicts?: string[];
+}
+
+export interface BookingValidation {
+  valid: boolean;
+  errors?: string[];
+  warnings?: string[];
+  pricing?: {
+    basePrice: number;
+    taxes: number;
+    totalPrice: number;
+  };
 }
 
 // Navigation Types
@@ -218,8 +441,16 @@ export interface NavigationItem {
 }
 
 // Error Types
+export type AppErrorCode =
+  | `HTTP_${number}`
+  | 'NETWORK_ERROR'
+  | 'REQUEST_CANCELLED' // Aborted by the caller; not a failure to report
+  | 'SCHEMA_MISMATCH' // Response did not match the expected schema
+  | 'UNKNOWN_ERROR';
+
 export interface AppError {
-  code: string;
+  code: AppErrorCode;
   message: string;
   details?: any;
+  fields?: string[]; // Offending field paths for SCHEMA_MISMATCH, e.g. data[0].originAirport.code
 } 
\ No newline at end of file
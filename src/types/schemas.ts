@@ -0,0 +1,303 @@
+import * as z from 'zod';
+import {
+  AirplaneCapacity,
+  BookingEventType,
+  BookingStatus,
+  FlightStatus,
+  PassengerType,
+  SeatClass,
+  UserRole,
+} from './index';
+import type {
+  Airplane,
+  Airport,
+  AirportFlightReport,
+  Booking,
+  BookingEvent,
+  BookingStatistics,
+  BookingValidation,
+  BookingWithPassenger,
+  CabinLayout,
+  CabinSection,
+  Flight,
+  FlightSearchResult,
+  FlightStatistics,
+  Passenger,
+  PassengerManifest,
+  PopularDestination,
+  PopularRoute,
+  RevenueReport,
+  ScheduleValidation,
+  SeatAvailability,
+  TransitFlightOption,
+  User,
+} from './index';
+
+// Runtime schemas for API payloads. Each one is checked against its interface
+// in ./index, so a drift between the two is a compile error.
+
+/**
+ * Schema whose parsed output is `T`. The input is left open because the
+ * backend sends nulls and numeric ids that are normalised while parsing.
+ */
+export type ResponseSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// Java serialises absent optionals as null; the interfaces model them as undefined
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform((value): z.output<T> | undefined => value ?? undefined);
+
+// Entity ids arrive as numbers from the backend but are strings in the UI
+const stringId = z.union([z.string(), z.number()]).transform(String);
+
+export const userSchema: ResponseSchema<User> = z.object({
+  id: z.coerce.number(),
+  username: z.string(),
+  email: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  role: z.nativeEnum(UserRole),
+  phoneNumber: optional(z.string()),
+  active: optional(z.boolean()),
+  createdAt: optional(z.string()),
+  updatedAt: optional(z.string()),
+});
+
+export const airportSchema: ResponseSchema<Airport> = z.object({
+  id: stringId,
+  code: z.string(),
+  name: z.string(),
+  city: z.string(),
+  country: z.string(),
+  timeZone: z.string(),
+  latitude: optional(z.number()),
+  longitude: optional(z.number()),
+  minConnectionMinutes: optional(z.number().int().nonnegative()),
+});
+
+export const cabinSectionSchema: ResponseSchema<CabinSection> = z.object({
+  seatClass: z.nativeEnum(SeatClass),
+  firstRow: z.number().int().positive(),
+  lastRow: z.number().int().positive(),
+  seatLetters: z.string(),
+  exitRows: z.array(z.number().int()).nullish().transform((rows) => rows ?? []),
+  blockedSeats: z.array(z.string()).nullish().transform((seats) => seats ?? []),
+});
+
+export const cabinLayoutSchema: ResponseSchema<CabinLayout> = z.object({
+  sections: z.array(cabinSectionSchema),
+});
+
+export const airplaneSchema: ResponseSchema<Airplane> = z.object({
+  id: stringId,
+  model: z.string(),
+  size: z.nativeEnum(AirplaneCapacity),
+  registrationNumber: z.string(),
+  firstClassCapacity: z.number().int().nonnegative(),
+  businessClassCapacity: z.number().int().nonnegative(),
+  economyClassCapacity: z.number().int().nonnegative(),
+  totalCapacity: z.number().int().nonnegative(),
+  active: z.boolean(),
+  cabinLayout: optional(cabinLayoutSchema),
+});
+
+export const flightSchema: ResponseSchema<Flight> = z.object({
+  id: z.coerce.number(),
+  flightNumber: z.string(),
+  airplaneModel: z.string(),
+  airplaneRegistration: z.string(),
+  originAirport: airportSchema,
+  destinationAirport: airportSchema,
+  departureTime: z.string(),
+  arrivalTime: z.string(),
+  status: z.nativeEnum(FlightStatus),
+  firstClassPrice: z.number(),
+  businessClassPrice: z.number(),
+  economyClassPrice: z.number(),
+  firstClassAvailableSeats: z.number().int(),
+  businessClassAvailableSeats: z.number().int(),
+  economyClassAvailableSeats: z.number().int(),
+});
+
+export const passengerSchema: ResponseSchema<Passenger> = z.object({
+  id: stringId,
+  firstName: z.string(),
+  lastName: z.string(),
+  dateOfBirth: z.string(),
+  documentNumber: z.string(),
+  type: z.nativeEnum(PassengerType),
+  seatNumber: z.string(),
+  price: z.number(),
+});
+
+export const bookingEventSchema: ResponseSchema<BookingEvent> = z.object({
+  type: z.nativeEnum(BookingEventType),
+  occurredAt: z.string(),
+  actor: optional(z.string()),
+  note: optional(z.string()),
+});
+
+const bookingShape = {
+  id: stringId,
+  bookingReference: z.string(),
+  customer: userSchema,
+  flight: flightSchema,
+  seatClass: z.nativeEnum(SeatClass),
+  seatNumber: z.string(),
+  price: z.number(),
+  bookingDate: z.string(),
+  status: z.nativeEnum(BookingStatus),
+  createdBy: userSchema,
+  checkedIn: optional(z.boolean()),
+  // Bookings made before passenger details were collected carry no list
+  passengers: z
+    .array(passengerSchema)
+    .nullish()
+    .transform((passengers) => passengers ?? []),
+  history: z
+    .array(bookingEventSchema)
+    .nullish()
+    .transform((history) => history ?? []),
+};
+
+export const bookingSchema: ResponseSchema<Booking> = z.object(bookingShape);
+
+export const bookingWithPassengerSchema: ResponseSchema<BookingWithPassenger> = z.object({
+  ...bookingShape,
+  passengerName: z.string(),
+  passengerEmail: z.string(),
+});
+
+export const transitFlightOptionSchema: ResponseSchema<TransitFlightOption> = z.object({
+  id: stringId,
+  totalDuration: z.number(),
+  totalPrice: z.number(),
+  flights: z.array(flightSchema),
+  transitAirports: z.array(airportSchema),
+});
+
+export const flightSearchResultSchema: ResponseSchema<FlightSearchResult> = z.object({
+  directFlights: z.array(flightSchema),
+  transitFlights: z.array(transitFlightOptionSchema),
+});
+
+export const passengerManifestSchema: ResponseSchema<PassengerManifest> = z.object({
+  flight: flightSchema,
+  passengers: z.array(bookingWithPassengerSchema),
+  generatedAt: z.string(),
+});
+
+export const airportFlightReportSchema: ResponseSchema<AirportFlightReport> = z.object({
+  airport: airportSchema,
+  date: z.string(),
+  arrivingFlights: z.array(flightSchema),
+  departingFlights: z.array(flightSchema),
+  generatedAt: z.string(),
+});
+
+const groupBySchema = z.enum(['day', 'week', 'month']);
+
+export const flightStatisticsSchema: ResponseSchema<FlightStatistics> = z.object({
+  period: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+  totalFlights: z.number(),
+  flightsByStatus: z.record(z.nativeEnum(FlightStatus), z.number()) as z.ZodType<
+    Record<FlightStatus, number>,
+    z.ZodTypeDef,
+    unknown
+  >,
+  onTimePercentage: z.number(),
+  averageLoadFactor: z.number(),
+  routes: z.array(
+    z.object({
+      origin: z.string(),
+      destination: z.string(),
+      flights: z.number(),
+      loadFactor: z.number(),
+    })
+  ),
+});
+
+export const bookingStatisticsSchema: ResponseSchema<BookingStatistics> = z.object({
+  startDate: z.string(),
+  endDate: z.string(),
+  groupBy: groupBySchema,
+  totalBookings: z.number(),
+  confirmedBookings: z.number(),
+  cancelledBookings: z.number(),
+  completedBookings: z.number(),
+  totalRevenue: z.number(),
+  averageBookingValue: z.number(),
+  timeline: z.array(
+    z.object({
+      period: z.string(),
+      bookings: z.number(),
+      cancellations: z.number(),
+      revenue: z.number(),
+    })
+  ),
+});
+
+export const revenueReportSchema: ResponseSchema<RevenueReport> = z.object({
+  startDate: z.string(),
+  endDate: z.string(),
+  totalRevenue: z.number(),
+  totalBookings: z.number(),
+  byClass: z.array(
+    z.object({
+      seatClass: z.nativeEnum(SeatClass),
+      revenue: z.number(),
+      bookings: z.number(),
+    })
+  ),
+  byRoute: z.array(
+    z.object({
+      origin: z.string(),
+      destination: z.string(),
+      revenue: z.number(),
+      bookings: z.number(),
+    })
+  ),
+  byPeriod: z.array(
+    z.object({
+      period: z.string(),
+      revenue: z.number(),
+      bookings: z.number(),
+    })
+  ),
+});
+
+export const popularRouteSchema: ResponseSchema<PopularRoute> = z.object({
+  origin: airportSchema,
+  destination: airportSchema,
+  count: z.number(),
+});
+
+export const popularDestinationSchema: ResponseSchema<PopularDestination> = z.object({
+  destination: z.string(),
+  count: z.number(),
+  revenue: z.number(),
+});
+
+export const seatAvailabilitySchema: ResponseSchema<SeatAvailability> = z.object({
+  available: z.number().int(),
+  total: z.number().int(),
+});
+
+export const scheduleValidationSchema: ResponseSchema<ScheduleValidation> = z.object({
+  valid: z.boolean(),
+  conflicts: optional(z.array(z.string())),
+});
+
+export const bookingValidationSchema: ResponseSchema<BookingValidation> = z.object({
+  valid: z.boolean(),
+  errors: optional(z.array(z.string())),
+  warnings: optional(z.array(z.string())),
+  pricing: optional(
+    z.object({
+      basePrice: z.number(),
+      taxes: z.number(),
+      totalPrice: z.number(),
+    })
+  ),
+});
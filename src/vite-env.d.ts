@@ -4,6 +4,9 @@ interface ImportMetaEnv {
   readonly VITE_API_BASE_URL: string
   readonly VITE_APP_NAME: string
   readonly VITE_APP_VERSION: string
+  readonly VITE_API_MAX_RETRIES?: string
+  readonly VITE_USE_MOCK_API?: string
+  readonly VITE_MOCK_API_LATENCY?: string
 }
 
 interface ImportMeta {